@@ -71,6 +71,18 @@ export class ConditionDependencyGraph {
       }
     }
 
+    this.addFieldDependencies(fieldId, dependencies);
+  }
+
+  /**
+   * Adds a field depending on explicit field paths, e.g. a computed field.
+   *
+   * @param fieldId - The ID of the field
+   * @param paths - The field paths the field depends on
+   */
+  addFieldDependencies(fieldId: string, paths: Iterable<string>): void {
+    const dependencies = new Set(paths);
+
     // Store forward dependencies
     this.fieldDependencies.set(fieldId, dependencies);
 
@@ -11,9 +11,66 @@ export type ConditionOperator =
   | 'notIn'
   | 'matches'
   | 'exists'
-  | 'notExists';
+  | 'notExists'
+  | 'between'
+  | 'isEmpty'
+  | 'isNotEmpty'
+  | 'lengthGreaterThan'
+  | 'lengthLessThan'
+  | 'before'
+  | 'after'
+  | 'withinDays'
+  | 'startsWith'
+  | 'endsWith'
+  | 'containsAny'
+  | 'containsAll';
 
-export type LogicalOperator = 'and' | 'or';
+/**
+ * All condition operators, used to validate conditions loaded from JSON
+ */
+export const CONDITION_OPERATORS: readonly ConditionOperator[] = [
+  'equals',
+  'notEquals',
+  'greaterThan',
+  'lessThan',
+  'greaterThanOrEqual',
+  'lessThanOrEqual',
+  'contains',
+  'notContains',
+  'in',
+  'notIn',
+  'matches',
+  'exists',
+  'notExists',
+  'between',
+  'isEmpty',
+  'isNotEmpty',
+  'lengthGreaterThan',
+  'lengthLessThan',
+  'before',
+  'after',
+  'withinDays',
+  'startsWith',
+  'endsWith',
+  'containsAny',
+  'containsAll',
+];
+
+/**
+ * Combines nested conditions: `and`/`or` over any number of them, `not` negates a single one
+ */
+export type LogicalOperator = 'and' | 'or' | 'not';
+
+/**
+ * Reference to another field, whose value is compared against when the condition is
+ * evaluated
+ *
+ * @example
+ * when('endDate').after(field('startDate'))
+ */
+export interface FieldReference {
+  readonly field: string;
+}
 
 export type ConditionValue =
   | string
@@ -21,7 +78,13 @@ export type ConditionValue =
   | boolean
   | null
   | undefined
-  | Array<string | number | boolean>;
+  | FieldReference
+  | Array<string | number | boolean | FieldReference>;
+
+/**
+ * Date operand: a Date, an ISO 8601 string or another field
+ */
+export type ConditionDate = Date | string | FieldReference;
 
 export interface ConditionConfig {
   field: string;
@@ -36,17 +99,35 @@ export type ConditionEvaluator = (data: Record<string, any>) => boolean;
 export interface ConditionBuilder extends ConditionConfig {
   equals(value: ConditionValue): ConditionBuilder;
   notEquals(value: ConditionValue): ConditionBuilder;
-  greaterThan(value: number): ConditionBuilder;
-  lessThan(value: number): ConditionBuilder;
-  greaterThanOrEqual(value: number): ConditionBuilder;
-  lessThanOrEqual(value: number): ConditionBuilder;
-  contains(value: string): ConditionBuilder;
-  notContains(value: string): ConditionBuilder;
+  greaterThan(value: number | FieldReference): ConditionBuilder;
+  lessThan(value: number | FieldReference): ConditionBuilder;
+  greaterThanOrEqual(value: number | FieldReference): ConditionBuilder;
+  lessThanOrEqual(value: number | FieldReference): ConditionBuilder;
+  contains(value: string | FieldReference): ConditionBuilder;
+  notContains(value: string | FieldReference): ConditionBuilder;
   in(values: Array<string | number | boolean>): ConditionBuilder;
   notIn(values: Array<string | number | boolean>): ConditionBuilder;
   matches(pattern: string | RegExp): ConditionBuilder;
   exists(): ConditionBuilder;
   notExists(): ConditionBuilder;
+  /** Inclusive range of numbers or dates */
+  between(min: number | ConditionDate, max: number | ConditionDate): ConditionBuilder;
+  /** Undefined, null, blank string or empty array */
+  isEmpty(): ConditionBuilder;
+  isNotEmpty(): ConditionBuilder;
+  /** Length of a string or an array */
+  lengthGreaterThan(length: number): ConditionBuilder;
+  lengthLessThan(length: number): ConditionBuilder;
+  before(date: ConditionDate): ConditionBuilder;
+  after(date: ConditionDate): ConditionBuilder;
+  /** Date at most `days` days away from now, in the past or the future */
+  withinDays(days: number): ConditionBuilder;
+  startsWith(value: string | FieldReference): ConditionBuilder;
+  endsWith(value: string | FieldReference): ConditionBuilder;
+  /** Array holding at least one of the values */
+  containsAny(values: Array<string | number | boolean>): ConditionBuilder;
+  /** Array holding every value */
+  containsAll(values: Array<string | number | boolean>): ConditionBuilder;
   and(condition: ConditionBuilder | ConditionConfig): ConditionBuilder;
   or(condition: ConditionBuilder | ConditionConfig): ConditionBuilder;
   build(): ConditionConfig;
@@ -78,37 +159,37 @@ class ConditionBuilderImpl implements ConditionBuilder {
     return this;
   }
 
-  greaterThan(value: number): ConditionBuilder {
+  greaterThan(value: number | FieldReference): ConditionBuilder {
     this.operator = 'greaterThan';
     this.value = value;
     return this;
   }
 
-  lessThan(value: number): ConditionBuilder {
+  lessThan(value: number | FieldReference): ConditionBuilder {
     this.operator = 'lessThan';
     this.value = value;
     return this;
   }
 
-  greaterThanOrEqual(value: number): ConditionBuilder {
+  greaterThanOrEqual(value: number | FieldReference): ConditionBuilder {
     this.operator = 'greaterThanOrEqual';
     this.value = value;
     return this;
   }
 
-  lessThanOrEqual(value: number): ConditionBuilder {
+  lessThanOrEqual(value: number | FieldReference): ConditionBuilder {
     this.operator = 'lessThanOrEqual';
     this.value = value;
     return this;
   }
 
-  contains(value: string): ConditionBuilder {
+  contains(value: string | FieldReference): ConditionBuilder {
     this.operator = 'contains';
     this.value = value;
     return this;
   }
 
-  notContains(value: string): ConditionBuilder {
+  notContains(value: string | FieldReference): ConditionBuilder {
     this.operator = 'notContains';
     this.value = value;
     return this;
@@ -144,52 +225,106 @@ class ConditionBuilderImpl implements ConditionBuilder {
     return this;
   }
 
-  and(condition: ConditionBuilder | ConditionConfig): ConditionBuilder {
-    const newCondition = 'build' in condition ? condition.build() : condition;
-    const currentConfig = {
-      field: this.field,
-      operator: this.operator,
-      value: this.value,
-      conditions: this.conditions,
-      logicalOperator: this.logicalOperator,
-    };
+  between(min: number | ConditionDate, max: number | ConditionDate): ConditionBuilder {
+    this.operator = 'between';
+    this.value = [toDateValue(min), toDateValue(max)];
+    return this;
+  }
 
-    this.field = '';
-    this.operator = 'exists';
+  isEmpty(): ConditionBuilder {
+    this.operator = 'isEmpty';
     this.value = undefined;
-    this.conditions = [currentConfig, newCondition];
-    this.logicalOperator = 'and';
+    return this;
+  }
+
+  isNotEmpty(): ConditionBuilder {
+    this.operator = 'isNotEmpty';
+    this.value = undefined;
+    return this;
+  }
+
+  lengthGreaterThan(length: number): ConditionBuilder {
+    this.operator = 'lengthGreaterThan';
+    this.value = length;
+    return this;
+  }
+
+  lengthLessThan(length: number): ConditionBuilder {
+    this.operator = 'lengthLessThan';
+    this.value = length;
+    return this;
+  }
+
+  before(date: ConditionDate): ConditionBuilder {
+    this.operator = 'before';
+    this.value = toDateValue(date);
+    return this;
+  }
+
+  after(date: ConditionDate): ConditionBuilder {
+    this.operator = 'after';
+    this.value = toDateValue(date);
+    return this;
+  }
+
+  withinDays(days: number): ConditionBuilder {
+    this.operator = 'withinDays';
+    this.value = days;
+    return this;
+  }
+
+  startsWith(value: string | FieldReference): ConditionBuilder {
+    this.operator = 'startsWith';
+    this.value = value;
+    return this;
+  }
 
+  endsWith(value: string | FieldReference): ConditionBuilder {
+    this.operator = 'endsWith';
+    this.value = value;
     return this;
   }
 
+  containsAny(values: Array<string | number | boolean>): ConditionBuilder {
+    this.operator = 'containsAny';
+    this.value = values;
+    return this;
+  }
+
+  containsAll(values: Array<string | number | boolean>): ConditionBuilder {
+    this.operator = 'containsAll';
+    this.value = values;
+    return this;
+  }
+
+  and(condition: ConditionBuilder | ConditionConfig): ConditionBuilder {
+    return this.combine('and', condition);
+  }
+
   or(condition: ConditionBuilder | ConditionConfig): ConditionBuilder {
-    const newCondition = 'build' in condition ? condition.build() : condition;
-    const currentConfig = {
-      field: this.field,
-      operator: this.operator,
-      value: this.value,
-      conditions: this.conditions,
-      logicalOperator: this.logicalOperator,
-    };
+    return this.combine('or', condition);
+  }
+
+  /**
+   * Turns the builder into a group of its current condition and another one
+   */
+  private combine(
+    logicalOperator: LogicalOperator,
+    condition: ConditionBuilder | ConditionConfig
+  ): ConditionBuilder {
+    const currentConfig = this.build();
 
     this.field = '';
     this.operator = 'exists';
     this.value = undefined;
-    this.conditions = [currentConfig, newCondition];
-    this.logicalOperator = 'or';
+    this.conditions = [currentConfig, copyCondition(condition)];
+    this.logicalOperator = logicalOperator;
 
     return this;
   }
 
   build(): ConditionConfig {
-    return {
-      field: this.field,
-      operator: this.operator,
-      value: this.value,
-      conditions: this.conditions,
-      logicalOperator: this.logicalOperator,
-    };
+    return copyCondition(this);
   }
 
   evaluate(data: Record<string, any>): boolean {
@@ -201,86 +336,222 @@ export function when(field: string): ConditionBuilder {
   return new ConditionBuilderImpl(field);
 }
 
-export function evaluateCondition(condition: ConditionConfig, data: Record<string, any>): boolean {
+/**
+ * Creates a group of conditions that all have to match
+ *
+ * @example
+ * all(when('country').equals('FR'), any(when('age').lessThan(26), when('student').equals(true)))
+ */
+export function all(
+  ...conditions: [ConditionBuilder | ConditionConfig, ...Array<ConditionBuilder | ConditionConfig>]
+): ConditionBuilder {
+  return group('and', conditions);
+}
+
+/**
+ * Creates a group of conditions of which at least one has to match
+ */
+export function any(
+  ...conditions: [ConditionBuilder | ConditionConfig, ...Array<ConditionBuilder | ConditionConfig>]
+): ConditionBuilder {
+  return group('or', conditions);
+}
+
+/**
+ * Negates a condition
+ *
+ * @example
+ * not(when('status').in(['archived', 'deleted']))
+ */
+export function not(condition: ConditionBuilder | ConditionConfig): ConditionBuilder {
+  return group('not', [condition]);
+}
+
+function group(
+  logicalOperator: LogicalOperator,
+  conditions: Array<ConditionBuilder | ConditionConfig>
+): ConditionBuilder {
+  const builder = new ConditionBuilderImpl('');
+  builder.conditions = conditions.map(copyCondition);
+  builder.logicalOperator = logicalOperator;
+  return builder;
+}
+
+/**
+ * Deep copies a condition (or builder) into plain JSON, with a stable key order and
+ * without undefined values or empty groups
+ */
+function copyCondition(condition: ConditionConfig): ConditionConfig {
+  const config: ConditionConfig = { field: condition.field, operator: condition.operator };
+
+  if (condition.value !== undefined) {
+    config.value = Array.isArray(condition.value)
+      ? condition.value.map(copyOperand)
+      : copyOperand(condition.value);
+  }
   if (condition.conditions && condition.conditions.length > 0) {
-    const results = condition.conditions.map((c) => evaluateCondition(c, data));
+    config.logicalOperator = condition.logicalOperator ?? 'and';
+    config.conditions = condition.conditions.map(copyCondition);
+  }
+
+  return config;
+}
+
+function copyOperand<T>(operand: T): T | FieldReference {
+  return isFieldReference(operand) ? { field: operand.field } : operand;
+}
+
+/**
+ * References another field as the operand of a condition
+ *
+ * @example
+ * when('endDate').greaterThan(field('startDate'))
+ * when('confirmPassword').notEquals(field('password'))
+ */
+export function field(path: string): FieldReference {
+  return { field: path };
+}
+
+export function isFieldReference(value: unknown): value is FieldReference {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    typeof (value as FieldReference).field === 'string'
+  );
+}
+
+// Dates are stored as ISO strings so that conditions stay JSON-compatible
+function toDateValue<T>(value: T | Date): T | string {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Numbers as is, Dates and ISO 8601 date strings as timestamps
+ */
+function toComparable(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isNaN(value) ? undefined : value;
+  }
+  const time =
+    value instanceof Date
+      ? value.getTime()
+      : typeof value === 'string' && ISO_DATE.test(value)
+        ? Date.parse(value)
+        : Number.NaN;
+  return Number.isNaN(time) ? undefined : time;
+}
+
+function compare(
+  fieldValue: unknown,
+  value: unknown,
+  predicate: (a: number, b: number) => boolean
+): boolean {
+  const a = toComparable(fieldValue);
+  const b = toComparable(value);
+  return a !== undefined && b !== undefined && predicate(a, b);
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function getLength(value: unknown): number | undefined {
+  return typeof value === 'string' || Array.isArray(value) ? value.length : undefined;
+}
+
+/**
+ * Replaces field references by the current value of the referenced fields
+ */
+function resolveConditionValue(value: ConditionValue, data: Record<string, any>): any {
+  if (isFieldReference(value)) {
+    return getFieldValue(data, value.field);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => (isFieldReference(item) ? getFieldValue(data, item.field) : item));
+  }
+  return value;
+}
 
-    if (condition.logicalOperator === 'or') {
-      return results.some((r) => r);
+export function evaluateCondition(condition: ConditionConfig, data: Record<string, any>): boolean {
+  // Groups stop at the first condition deciding the result
+  if (condition.conditions && condition.conditions.length > 0) {
+    const matches = (nested: ConditionConfig) => evaluateCondition(nested, data);
+
+    switch (condition.logicalOperator) {
+      case 'or':
+        return condition.conditions.some(matches);
+      case 'not':
+        return !matches(condition.conditions[0]);
+      default:
+        return condition.conditions.every(matches);
     }
-    return results.every((r) => r);
   }
 
   const fieldValue = getFieldValue(data, condition.field);
+  const value = resolveConditionValue(condition.value, data);
 
   switch (condition.operator) {
     case 'equals':
-      return fieldValue === condition.value;
+      return fieldValue === value;
 
     case 'notEquals':
-      return fieldValue !== condition.value;
+      return fieldValue !== value;
 
+    // Numbers, Dates or ISO 8601 date strings
     case 'greaterThan':
-      return (
-        typeof fieldValue === 'number' &&
-        typeof condition.value === 'number' &&
-        fieldValue > condition.value
-      );
+      return compare(fieldValue, value, (a, b) => a > b);
 
     case 'lessThan':
-      return (
-        typeof fieldValue === 'number' &&
-        typeof condition.value === 'number' &&
-        fieldValue < condition.value
-      );
+      return compare(fieldValue, value, (a, b) => a < b);
 
     case 'greaterThanOrEqual':
-      return (
-        typeof fieldValue === 'number' &&
-        typeof condition.value === 'number' &&
-        fieldValue >= condition.value
-      );
+      return compare(fieldValue, value, (a, b) => a >= b);
 
     case 'lessThanOrEqual':
-      return (
-        typeof fieldValue === 'number' &&
-        typeof condition.value === 'number' &&
-        fieldValue <= condition.value
-      );
+      return compare(fieldValue, value, (a, b) => a <= b);
 
     case 'contains':
       // Support for string contains
-      if (typeof fieldValue === 'string' && typeof condition.value === 'string') {
-        return fieldValue.includes(condition.value);
+      if (typeof fieldValue === 'string' && typeof value === 'string') {
+        return fieldValue.includes(value);
       }
       // Support for array contains
       if (Array.isArray(fieldValue)) {
-        return fieldValue.includes(condition.value);
+        return fieldValue.includes(value);
       }
       return false;
 
     case 'notContains':
       // Support for string notContains
-      if (typeof fieldValue === 'string' && typeof condition.value === 'string') {
-        return !fieldValue.includes(condition.value);
+      if (typeof fieldValue === 'string' && typeof value === 'string') {
+        return !fieldValue.includes(value);
       }
       // Support for array notContains
       if (Array.isArray(fieldValue)) {
-        return !fieldValue.includes(condition.value);
+        return !fieldValue.includes(value);
       }
       return false;
 
     case 'in':
-      return Array.isArray(condition.value) && condition.value.includes(fieldValue);
+      return Array.isArray(value) && value.includes(fieldValue);
 
     case 'notIn':
-      return Array.isArray(condition.value) && !condition.value.includes(fieldValue);
+      return Array.isArray(value) && !value.includes(fieldValue);
 
     case 'matches': {
-      if (typeof fieldValue !== 'string' || typeof condition.value !== 'string') {
+      if (typeof fieldValue !== 'string' || typeof value !== 'string') {
         return false;
       }
-      const regex = new RegExp(condition.value);
+      const regex = new RegExp(value);
       return regex.test(fieldValue);
     }
     case 'exists':
@@ -289,12 +560,75 @@ export function evaluateCondition(condition: ConditionConfig, data: Record<strin
     case 'notExists':
       return fieldValue === undefined || fieldValue === null;
 
+    case 'between':
+      return (
+        Array.isArray(value) &&
+        compare(fieldValue, value[0], (a, b) => a >= b) &&
+        compare(fieldValue, value[1], (a, b) => a <= b)
+      );
+
+    case 'isEmpty':
+      return isEmptyValue(fieldValue);
+
+    case 'isNotEmpty':
+      return !isEmptyValue(fieldValue);
+
+    case 'lengthGreaterThan': {
+      const length = getLength(fieldValue);
+      return length !== undefined && typeof value === 'number' && length > value;
+    }
+
+    case 'lengthLessThan': {
+      const length = getLength(fieldValue);
+      return length !== undefined && typeof value === 'number' && length < value;
+    }
+
+    case 'before':
+      return compare(fieldValue, value, (a, b) => a < b);
+
+    case 'after':
+      return compare(fieldValue, value, (a, b) => a > b);
+
+    case 'withinDays':
+      return (
+        typeof value === 'number' &&
+        compare(fieldValue, Date.now(), (a, b) => Math.abs(a - b) <= value * DAY_MS)
+      );
+
+    case 'startsWith':
+      return typeof fieldValue === 'string' && typeof value === 'string'
+        ? fieldValue.startsWith(value)
+        : false;
+
+    case 'endsWith':
+      return typeof fieldValue === 'string' && typeof value === 'string'
+        ? fieldValue.endsWith(value)
+        : false;
+
+    case 'containsAny':
+      return (
+        Array.isArray(fieldValue) &&
+        Array.isArray(value) &&
+        value.some((item) => fieldValue.includes(item))
+      );
+
+    case 'containsAll':
+      return (
+        Array.isArray(fieldValue) &&
+        Array.isArray(value) &&
+        value.every((item) => fieldValue.includes(item))
+      );
+
     default:
       return false;
   }
 }
 
-function getFieldValue(data: Record<string, any>, fieldPath: string): any {
+/**
+ * Reads the value of a field path, as conditions resolve it: flat keys first
+ * (`items[k0].qty`, `step.field`), then dot paths through nested objects
+ */
+export function getFieldValue(data: Record<string, any>, fieldPath: string): any {
   // Direct key lookup first — supports flat composite keys like "items[k0].type"
   if (fieldPath in data) {
     return data[fieldPath];
@@ -362,6 +696,13 @@ export function extractConditionDependencies(
       dependencies.add(cfg.field);
     }
 
+    // Add the fields referenced by the value, e.g. when('end').after(field('start'))
+    for (const operand of Array.isArray(cfg.value) ? cfg.value : [cfg.value]) {
+      if (isFieldReference(operand)) {
+        dependencies.add(operand.field);
+      }
+    }
+
     // Recursively extract from nested conditions
     if (cfg.conditions && cfg.conditions.length > 0) {
       for (const nestedCondition of cfg.conditions) {
@@ -1,5 +1,12 @@
-import type { ComponentConfig, FormRenderConfig, WorkflowRenderConfig } from '../types';
+import type {
+  ComponentConfig,
+  FormRenderConfig,
+  ValidatorFactory,
+  WithComponentValue,
+  WorkflowRenderConfig,
+} from '../types';
 import { ensureUnique } from '../utils/builderHelpers';
+import { builtInValidators } from '../validation/validators';
 
 /**
  * Structured error hierarchy for Rilay
@@ -71,12 +78,13 @@ export interface AsyncValidationResult {
  */
 export interface RilayInstance<C> {
   // Configuration methods
-  addComponent<NewType extends string, TProps = any>(
+  addComponent<NewType extends string, TProps = any, TValue = unknown>(
     type: NewType,
-    config: Omit<ComponentConfig<TProps>, 'id' | 'type'>
-  ): RilayInstance<C & { [K in NewType]: TProps }>;
+    config: Omit<ComponentConfig<TProps, TValue>, 'id' | 'type'>
+  ): RilayInstance<C & { [K in NewType]: WithComponentValue<TProps, TValue> }>;
 
   configure(config: Partial<FormRenderConfig & WorkflowRenderConfig>): RilayInstance<C>;
+  addValidator(name: string, factory: ValidatorFactory): RilayInstance<C>;
 
   // Component access methods
   getComponent<T extends keyof C & string>(id: T): ComponentConfig<C[T]> | undefined;
@@ -84,6 +92,10 @@ export interface RilayInstance<C> {
   getAllComponents(): ComponentConfig[];
   hasComponent(id: string): boolean;
 
+  // Validator registry access
+  getValidator(name: string): ValidatorFactory | undefined;
+  getValidators(): Record<string, ValidatorFactory>;
+
   // Configuration getters
   getFormRenderConfig(): FormRenderConfig;
   getWorkflowRenderConfig(): WorkflowRenderConfig;
@@ -99,6 +111,7 @@ export interface RilayInstance<C> {
       field: boolean;
       repeatable: boolean;
       repeatableItem: boolean;
+      errorSummary: boolean;
       stepper: boolean;
       workflowNextButton: boolean;
       workflowPreviousButton: boolean;
@@ -122,6 +135,7 @@ export interface RilayInstance<C> {
  */
 export class ril<C> implements RilayInstance<C> {
   private components = new Map<string, ComponentConfig>();
+  private validators = new Map<string, ValidatorFactory>(Object.entries(builtInValidators));
   private formRenderConfig: FormRenderConfig = {};
   private workflowRenderConfig: WorkflowRenderConfig = {};
 
@@ -152,23 +166,27 @@ export class ril<C> implements RilayInstance<C> {
    *       validateOnBlur: true,
    *     }
    *   });
+   *
+   * // The value type of the renderer types the data submitted by forms
+   * const TextInput = (props: ComponentRenderProps<TextProps, string>) => <input />;
    * ```
    */
-  addComponent<NewType extends string, TProps = any>(
+  addComponent<NewType extends string, TProps = any, TValue = unknown>(
     type: NewType,
-    config: Omit<ComponentConfig<TProps>, 'id' | 'type'>
-  ): ril<C & { [K in NewType]: TProps }> {
-    const fullConfig: ComponentConfig<TProps> = {
+    config: Omit<ComponentConfig<TProps, TValue>, 'id' | 'type'>
+  ): ril<C & { [K in NewType]: WithComponentValue<TProps, TValue> }> {
+    const fullConfig: ComponentConfig<TProps, TValue> = {
       id: type,
       type,
       ...config,
     };
 
     // Create new instance (immutable)
-    const newInstance = new ril<C & { [K in NewType]: TProps }>();
+    const newInstance = new ril<C & { [K in NewType]: WithComponentValue<TProps, TValue> }>();
 
     // Copy existing components
     newInstance.components = new Map(this.components);
+    newInstance.validators = new Map(this.validators);
     newInstance.formRenderConfig = { ...this.formRenderConfig };
     newInstance.workflowRenderConfig = { ...this.workflowRenderConfig };
 
@@ -214,6 +232,7 @@ export class ril<C> implements RilayInstance<C> {
       'fieldRenderer',
       'repeatableRenderer',
       'repeatableItemRenderer',
+      'errorSummaryRenderer',
     ];
     const workflowKeys: (keyof WorkflowRenderConfig)[] = [
       'stepperRenderer',
@@ -240,6 +259,7 @@ export class ril<C> implements RilayInstance<C> {
 
     // Copy existing state
     newInstance.components = new Map(this.components);
+    newInstance.validators = new Map(this.validators);
 
     // Apply configurations using deep merge strategy
     newInstance.formRenderConfig = deepMerge(this.formRenderConfig, formRenderers);
@@ -248,6 +268,49 @@ export class ril<C> implements RilayInstance<C> {
     return newInstance;
   }
 
+  /**
+   * Register a validator factory (immutable)
+   * Returns a new instance with the added validator
+   *
+   * Registered validators can be referenced by name in field validation, through
+   * `{ name, args, message }` descriptors resolved by `form.build()`, which keeps form
+   * definitions serializable. Built-in validators are registered by default and can be
+   * overridden.
+   *
+   * @param name - The name descriptors reference the validator by
+   * @param factory - Creates the validator from the descriptor arguments and message
+   * @returns A new ril instance with the added validator
+   *
+   * @example
+   * ```typescript
+   * const config = ril.create()
+   *   .addValidator('postalCode', ([country], message) =>
+   *     pattern(country === 'FR' ? /^\d{5}$/ : /^.+$/, message)
+   *   );
+   *
+   * form.create(config).add({
+   *   type: 'text',
+   *   validation: { validate: [{ name: 'postalCode', args: ['FR'] }] },
+   * });
+   * ```
+   */
+  addValidator(name: string, factory: ValidatorFactory): ril<C> {
+    const newInstance = this.clone();
+    newInstance.validators.set(name, factory);
+    return newInstance;
+  }
+
+  /**
+   * Validator registry methods
+   */
+  getValidator(name: string): ValidatorFactory | undefined {
+    return this.validators.get(name);
+  }
+
+  getValidators(): Record<string, ValidatorFactory> {
+    return Object.fromEntries(this.validators);
+  }
+
   /**
    * Configuration getters
    */
@@ -287,6 +350,7 @@ export class ril<C> implements RilayInstance<C> {
 
     // Copy existing state
     newInstance.components = new Map(this.components);
+    newInstance.validators = new Map(this.validators);
     newInstance.formRenderConfig = { ...this.formRenderConfig };
     newInstance.workflowRenderConfig = { ...this.workflowRenderConfig };
 
@@ -304,7 +368,8 @@ export class ril<C> implements RilayInstance<C> {
    */
   clear(): ril<C> {
     const newInstance = new ril<C>();
-    // Keep render configurations but clear components
+    // Keep render configurations and validators but clear components
+    newInstance.validators = new Map(this.validators);
     newInstance.formRenderConfig = { ...this.formRenderConfig };
     newInstance.workflowRenderConfig = { ...this.workflowRenderConfig };
     // components map is already empty in new instance
@@ -317,6 +382,7 @@ export class ril<C> implements RilayInstance<C> {
   clone(): ril<C> {
     const newInstance = new ril<C>();
     newInstance.components = new Map(this.components);
+    newInstance.validators = new Map(this.validators);
     newInstance.formRenderConfig = deepMerge({}, this.formRenderConfig);
     newInstance.workflowRenderConfig = deepMerge({}, this.workflowRenderConfig);
     return newInstance;
@@ -335,6 +401,7 @@ export class ril<C> implements RilayInstance<C> {
       field: boolean;
       repeatable: boolean;
       repeatableItem: boolean;
+      errorSummary: boolean;
       stepper: boolean;
       workflowNextButton: boolean;
       workflowPreviousButton: boolean;
@@ -359,6 +426,7 @@ export class ril<C> implements RilayInstance<C> {
         field: Boolean(this.formRenderConfig.fieldRenderer),
         repeatable: Boolean(this.formRenderConfig.repeatableRenderer),
         repeatableItem: Boolean(this.formRenderConfig.repeatableItemRenderer),
+        errorSummary: Boolean(this.formRenderConfig.errorSummaryRenderer),
         stepper: Boolean(this.workflowRenderConfig.stepperRenderer),
         workflowNextButton: Boolean(this.workflowRenderConfig.nextButtonRenderer),
         workflowPreviousButton: Boolean(this.workflowRenderConfig.previousButtonRenderer),
@@ -403,6 +471,7 @@ export class ril<C> implements RilayInstance<C> {
       'fieldRenderer',
       'repeatableRenderer',
       'repeatableItemRenderer',
+      'errorSummaryRenderer',
     ];
     const validWorkflowKeys = [
       'stepperRenderer',
@@ -4,11 +4,14 @@ export * from './types';
 export * from './components/ComponentRendererWrapper';
 
 // Export configuration
-export { ril, type RilayInstance } from './config/ril';
+export { ril, RilayError, type RilayInstance } from './config/ril';
 
 // Export shared utilities
 export * from './utils/builderHelpers';
 export * from './utils/componentHelpers';
+export * from './utils/history';
+export * from './utils/serialization';
+export * from './utils/submission';
 
 // Export validation system
 export * from './validation';
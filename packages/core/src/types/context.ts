@@ -1,4 +1,4 @@
-import type { ValidationError, ValidationResult } from './index';
+import type { FieldValidationOptions, ValidationError, ValidationResult } from './index';
 
 // =================================================================
 // VALIDATION STATE
@@ -81,7 +81,11 @@ export interface FormActions {
   readonly submit: () => Promise<boolean>;
   readonly reset: (values?: Record<string, unknown>) => void;
   readonly validate: () => Promise<ValidationResult>;
-  readonly validateField: (fieldId: string, value?: unknown) => Promise<ValidationResult>;
+  readonly validateField: (
+    fieldId: string,
+    value?: unknown,
+    options?: FieldValidationOptions
+  ) => Promise<ValidationResult>;
 }
 
 /**
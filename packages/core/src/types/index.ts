@@ -2,6 +2,7 @@ import type { StandardSchemaV1 } from '@standard-schema/spec';
 import type React from 'react';
 import type { ConditionConfig } from '../conditions';
 import type { ril } from '../config/ril';
+import type { SubmissionResult } from '../utils/submission';
 
 // =================================================================
 // 1. CORE
@@ -13,6 +14,95 @@ export interface RilayLicenseConfig {
   readonly allowTrial?: boolean;
 }
 
+/**
+ * Undo/redo history options, shared by form and workflow stores
+ */
+export interface HistoryOptions {
+  /**
+   * Maximum number of undoable entries (default: 100)
+   */
+  readonly depth?: number;
+  /**
+   * Changes of the same field made within this delay are undone together (default: 500ms)
+   */
+  readonly groupingMs?: number;
+}
+
+/**
+ * Persistent workflow data that gets saved/loaded (form drafts reuse the same format)
+ */
+export interface PersistedWorkflowData {
+  /** Unique identifier for the workflow */
+  workflowId: string;
+  /** Current step index in the workflow */
+  currentStepIndex: number;
+  /** ID of the current step, the step `stepData` belongs to */
+  currentStepId?: string;
+  /** All collected data across steps */
+  allData: Record<string, any>;
+  /** Currently active step data */
+  stepData: Record<string, any>;
+  /** Set of visited step IDs */
+  visitedSteps: string[];
+  /** Set of passed/validated step IDs */
+  passedSteps?: string[];
+  /** When this data was last saved */
+  lastSaved: number;
+  /** Optional metadata for custom persistence needs */
+  metadata?: Record<string, any>;
+  /** Schema version the data was saved with (missing on drafts saved before versioning) */
+  version?: number;
+}
+
+/**
+ * Core persistence adapter interface
+ *
+ * All persistence implementations must implement this interface.
+ * It provides a consistent API regardless of the underlying storage mechanism.
+ */
+export interface WorkflowPersistenceAdapter {
+  /**
+   * Save workflow data
+   * @param key - Unique identifier for the stored data
+   * @param data - Workflow data to persist
+   * @returns Promise that resolves when save is complete
+   */
+  save(key: string, data: PersistedWorkflowData): Promise<void>;
+
+  /**
+   * Load workflow data
+   * @param key - Unique identifier for the stored data
+   * @returns Promise that resolves to persisted data or null if not found
+   */
+  load(key: string): Promise<PersistedWorkflowData | null>;
+
+  /**
+   * Remove persisted workflow data
+   * @param key - Unique identifier for the stored data
+   * @returns Promise that resolves when deletion is complete
+   */
+  remove(key: string): Promise<void>;
+
+  /**
+   * Check if data exists for the given key
+   * @param key - Unique identifier to check
+   * @returns Promise that resolves to true if data exists
+   */
+  exists(key: string): Promise<boolean>;
+
+  /**
+   * List all available keys (optional, for debugging/admin)
+   * @returns Promise that resolves to array of available keys
+   */
+  listKeys?(): Promise<string[]>;
+
+  /**
+   * Clear all persisted data (optional, for cleanup)
+   * @returns Promise that resolves when all data is cleared
+   */
+  clear?(): Promise<void>;
+}
+
 // =================================================================
 // 2. VALIDATION SYSTEM
 // =================================================================
@@ -38,6 +128,8 @@ export interface ValidationContext {
   readonly allFormData?: Record<string, any>;
   readonly stepData?: Record<string, any>;
   readonly workflowData?: Record<string, any>;
+  /** Aborted once the validation is superseded by a newer one of the same field */
+  readonly signal?: AbortSignal;
 }
 
 // 2.2. Legacy Validator Function Types (kept for internal use only)
@@ -56,11 +148,35 @@ export type FormValidator<T = Record<string, any>> = (
 // 2.3. Standard Schema Support
 export type StandardSchema<Input = unknown, Output = Input> = StandardSchemaV1<Input, Output>;
 
+/**
+ * Second argument of `validate()` since Standard Schema 1.1, rilaykit validators read
+ * `libraryOptions.signal`
+ */
+export interface StandardSchemaValidateOptions {
+  readonly libraryOptions?: Record<string, unknown>;
+}
+
 // Helper types for Standard Schema
 export type InferInput<T> = T extends StandardSchema<infer I, any> ? I : unknown;
 export type InferOutput<T> = T extends StandardSchema<any, infer O> ? O : unknown;
 
 // 2.6. Unified Validation Configuration (Standard Schema only)
+/**
+ * When fields are validated until the form is submitted for the first time
+ *
+ * - `onSubmit`: only on submit
+ * - `onBlur`: when the field loses the focus
+ * - `onChange`: on every change
+ * - `onTouched`: when the field loses the focus, then on every change (default)
+ * - `all`: when the field loses the focus and on every change
+ */
+export type ValidationMode = 'onSubmit' | 'onBlur' | 'onChange' | 'onTouched' | 'all';
+
+/**
+ * When fields are validated again once the form was submitted (default: `onChange`)
+ */
+export type ReValidateMode = 'onSubmit' | 'onBlur' | 'onChange';
+
 export interface FieldValidationConfig<T = any> {
   /**
    * Validation rules using Standard Schema interface
@@ -77,13 +193,28 @@ export interface FieldValidationConfig<T = any> {
    *
    * @example Mixed schemas + validators
    * validate: [z.string(), required(), customValidator()]
+   *
+   * @example Validators registered on the ril instance, resolved by `form.build()`
+   * validate: [{ name: 'required' }, { name: 'postalCode', args: ['FR'] }]
    */
-  readonly validate?: StandardSchema<T> | StandardSchema<T>[];
+  readonly validate?: FieldValidationRule<T> | FieldValidationRule<T>[];
+  /** Validates on every change, or never on change, whatever the mode */
   readonly validateOnChange?: boolean;
+  /** Validates when the field loses the focus, or never then, whatever the mode */
   readonly validateOnBlur?: boolean;
+  /** Overrides the `mode` of the form for this field */
+  readonly mode?: ValidationMode;
+  /** Overrides the `reValidateMode` of the form for this field */
+  readonly reValidateMode?: ReValidateMode;
+  /** Delay before validating a changed value, only the last value of a burst is validated */
   readonly debounceMs?: number;
 }
 
+export interface FieldValidationOptions {
+  /** Waits for the `debounceMs` of the field before validating, as when its value changes */
+  readonly debounce?: boolean;
+}
+
 export interface FormValidationConfig<T extends Record<string, any> = Record<string, any>> {
   /**
    * Form-level validation using Standard Schema interface
@@ -97,16 +228,44 @@ export interface FormValidationConfig<T extends Record<string, any> = Record<str
   readonly validate?: StandardSchema<T> | StandardSchema<T>[];
   readonly validateOnSubmit?: boolean;
   readonly validateOnStepChange?: boolean;
+  /** When fields are validated before the first submit, fields can override it */
+  readonly mode?: ValidationMode;
+  /** When fields are validated again after a submit, fields can override it */
+  readonly reValidateMode?: ReValidateMode;
 }
 
+// 2.7. Serializable Validators
+/**
+ * JSON reference to a validator, resolved by name
+ *
+ * @example
+ * { name: 'minLength', args: [2], message: 'Too short' }
+ */
+export interface ValidatorDescriptor {
+  readonly name: string;
+  readonly args?: unknown[];
+  readonly message?: string;
+}
+
+/**
+ * Creates a validator from the arguments and message of a descriptor
+ */
+export type ValidatorFactory = (args: unknown[], message?: string) => StandardSchema;
+
+/**
+ * Validation rule of a field: a Standard Schema, or a descriptor of a validator
+ * registered on the ril instance
+ */
+export type FieldValidationRule<T = any> = StandardSchema<T> | ValidatorDescriptor;
+
 // Legacy types completely removed - use unified Standard Schema API
 
 // =================================================================
 // 3. COMPONENT SYSTEM
 // =================================================================
 
-export type ComponentRenderer<TProps = any> = (
-  props: ComponentRenderProps<TProps>
+export type ComponentRenderer<TProps = any, TValue = any> = (
+  props: ComponentRenderProps<TProps, TValue>
 ) => React.ReactElement;
 
 export type RendererChildrenFunction<TProps = any> = (props: TProps) => React.ReactNode;
@@ -124,15 +283,22 @@ export interface ComponentRendererWrapperProps<TProps = any>
   renderer?: RendererChildrenFunction<TProps>;
 }
 
-export interface ComponentRenderProps<TProps = any> {
+export interface ComponentRenderProps<TProps = any, TValue = any> {
   id: string;
   props: TProps;
-  value?: any;
-  onChange?: (value: any) => void;
+  value?: TValue;
+  onChange?: (value: TValue) => void;
   onBlur?: () => void;
   disabled?: boolean;
   error?: ValidationError[];
   isValidating?: boolean;
+  /** Options loaded by the `optionsLoader` of the field */
+  options?: FieldOption[];
+  isLoadingOptions?: boolean;
+  /** Error of the last options request, cleared by the next one */
+  optionsError?: Error;
+  /** Loads the options matching a search text, debounced */
+  onOptionsSearch?: (search: string) => void;
   [key: string]: any;
 }
 
@@ -246,19 +412,48 @@ export interface FieldSchemaDefinition<TProps = any> {
   readonly deserialize?: (value: any) => any;
 }
 
-export interface ComponentConfig<TProps = any> {
+export interface ComponentConfig<TProps = any, TValue = any> {
   readonly id: string;
   readonly type: string;
   readonly name: string;
   readonly description?: string;
-  readonly renderer: ComponentRenderer<TProps>;
+  readonly renderer: ComponentRenderer<TProps, TValue>;
   readonly defaultProps?: Partial<TProps>;
   readonly useFieldRenderer?: boolean;
   readonly validation?: FieldValidationConfig;
+  /**
+   * JSON Schema of the value the component produces, e.g. `{ type: 'boolean' }` for a
+   * checkbox. Used by `form.toJsonSchema()` to describe the submitted payload.
+   */
+  readonly valueSchema?: Record<string, unknown>;
   /** Optional builder metadata for visual editing (only used by @rilaykit/builder) */
   readonly builder?: ComponentBuilderMetadata;
 }
 
+declare const componentValueType: unique symbol;
+
+/**
+ * Props of a registered component, tagged with the type of the value it produces
+ *
+ * The value type is inferred by `addComponent()` from the renderer, e.g.
+ * `(props: ComponentRenderProps<TextProps, string>) => ...`, and read by the form
+ * builder to type submitted data. Components whose value is not typed are left as is.
+ */
+export type WithComponentValue<TProps, TValue> = unknown extends TValue
+  ? TProps
+  : TProps & { readonly [componentValueType]?: TValue };
+
+/**
+ * Value type of a component from its registered props, `unknown` when not typed
+ */
+export type ComponentValueOf<TProps> = [TProps] extends [
+  { readonly [componentValueType]?: infer TValue },
+]
+  ? unknown extends TValue
+    ? unknown
+    : TValue
+  : unknown;
+
 // =================================================================
 // 4. CONDITION SYSTEM
 // =================================================================
@@ -280,12 +475,96 @@ export interface StepConditionalBehavior {
 // =================================================================
 
 // 5.1. Form Structure
+/**
+ * Value of a field derived from other fields, recomputed when they change
+ *
+ * @example
+ * { deps: ['price', 'qty'], compute: ({ price, qty }) => (price ?? 0) * (qty ?? 0) }
+ */
+export interface ComputedFieldConfig<TValue = unknown> {
+  /**
+   * Paths of the fields the value is derived from. In a repeatable item, ids of the item
+   * fields refer to the same item. In a workflow, other steps are referenced as
+   * `stepId.fieldId`.
+   */
+  readonly deps: readonly string[];
+  /** Pure function of the dependency values, keyed as declared in `deps` */
+  readonly compute: (values: Record<string, any>) => TValue;
+}
+
+/**
+ * What happens to the value of a field hidden by `conditions.visible`
+ *
+ * - `keep`: the value is kept and submitted (default)
+ * - `clear`: the value is cleared and left out of the submitted data
+ * - `reset`: the value is set back to its default value
+ * - `exclude`: the value is kept but left out of the submitted data
+ */
+export type HiddenFieldPolicy = 'keep' | 'clear' | 'reset' | 'exclude';
+
+/**
+ * Values set on fields of the form when a condition becomes true
+ *
+ * @example
+ * { when: when('country').equals('FR'), set: { currency: 'EUR' } }
+ */
+export interface FieldEffect {
+  readonly when: ConditionConfig;
+  /** Values keyed by field id, in a repeatable item ids of the item fields refer to the same item */
+  readonly set: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * Option of a select-type component
+ */
+export interface FieldOption<TValue = unknown> {
+  readonly label: string;
+  readonly value: TValue;
+  readonly [key: string]: unknown;
+}
+
+export interface OptionsLoaderContext {
+  /** Values of the dependencies, keyed as declared in `deps` */
+  readonly deps: Record<string, any>;
+  /** Text searched in the component, empty until it calls `onOptionsSearch` */
+  readonly search: string;
+  /** Aborted once the request is superseded by a newer one or the field unmounts */
+  readonly signal: AbortSignal;
+}
+
+/**
+ * Options of a field loaded asynchronously, reloaded when their dependencies change
+ *
+ * @example
+ * {
+ *   deps: ['country'],
+ *   load: ({ deps, signal }) => fetch(`/api/regions?country=${deps.country}`, { signal }).then((res) => res.json()),
+ * }
+ */
+export interface OptionsLoaderConfig<TOption extends FieldOption = FieldOption> {
+  /** Paths of the fields the options depend on, resolved like the `deps` of computed fields */
+  readonly deps?: readonly string[];
+  readonly load: (context: OptionsLoaderContext) => Promise<TOption[]>;
+  /** Delay before loading the options of a new search, 300ms by default */
+  readonly searchDebounceMs?: number;
+  /** Keeps the loaded options per dependency values and search, `true` by default */
+  readonly cache?: boolean;
+}
+
 export interface FormFieldConfig {
   readonly id: string;
   readonly componentId: string;
   readonly props: Record<string, any>;
   readonly validation?: FieldValidationConfig;
   readonly conditions?: ConditionalBehavior;
+  /** Derives the value from other fields, the field is rendered read-only */
+  readonly computed?: ComputedFieldConfig;
+  /** What happens to the value when the field is hidden, `keep` by default */
+  readonly whenHidden?: HiddenFieldPolicy;
+  /** Values set on other fields when conditions become true */
+  readonly effects?: readonly FieldEffect[];
+  /** Loads the options of the field, exposed to the component as `options` */
+  readonly optionsLoader?: OptionsLoaderConfig;
 }
 
 export interface FormFieldRow {
@@ -350,23 +629,57 @@ export type RepeatableFieldRenderer = RendererChildrenFunction<RepeatableFieldRe
 export type RepeatableItemRenderer = RendererChildrenFunction<RepeatableItemRendererProps>;
 
 // 5.4. Submit Options
+/**
+ * How a failed submit brings the user to the first invalid field, in the order of the rows
+ *
+ * - `focusFirstError`: the field is focused, which scrolls it into view (default)
+ * - `scrollToFirstError`: the field is scrolled into view without being focused
+ * - `none`: nothing moves
+ */
+export type InvalidSubmitBehavior = 'focusFirstError' | 'scrollToFirstError' | 'none';
+
 export interface SubmitOptions {
   /** Skip validation entirely and force submit with current values */
   readonly force?: boolean;
   /** Run validation but exclude invalid fields from the submitted data */
   readonly skipInvalid?: boolean;
+  /** What a submit rejected by validation or by the server does (default: `focusFirstError`) */
+  readonly onInvalidSubmit?: InvalidSubmitBehavior;
 }
 
 // 5.5. Form Configuration
-export interface FormConfiguration<C extends Record<string, any> = Record<string, never>> {
+export interface FormPersistenceConfig {
+  /** Adapter storing drafts, any workflow persistence adapter can be reused */
+  readonly adapter: WorkflowPersistenceAdapter;
+  /** Storage key of the draft (default: form id) */
+  readonly key?: string;
+  /** Debounce delay in ms for autosave (default: 500ms) */
+  readonly debounceMs?: number;
+}
+
+/**
+ * Built form
+ *
+ * @template C - The component configuration map
+ * @template TValues - Values the form submits, accumulated by the form builder from its
+ * fields (`Record<string, any>` when unknown)
+ */
+export interface FormConfiguration<
+  C extends Record<string, any> = Record<string, never>,
+  TValues extends Record<string, any> = Record<string, any>,
+> {
   readonly id: string;
   readonly config: ril<C>;
   readonly rows: FormRowEntry[];
   readonly allFields: FormFieldConfig[];
   readonly repeatableFields?: Record<string, RepeatableFieldConfig>;
   readonly renderConfig?: FormRenderConfig;
-  readonly validation?: FormValidationConfig;
+  readonly validation?: FormValidationConfig<TValues>;
   readonly submitOptions?: SubmitOptions;
+  /**
+   * Autosaves values as a draft, restored on mount and cleared on successful submit
+   */
+  readonly persistence?: FormPersistenceConfig;
 }
 
 export interface FormRenderConfig {
@@ -376,6 +689,7 @@ export interface FormRenderConfig {
   readonly fieldRenderer?: FieldRenderer;
   readonly repeatableRenderer?: RepeatableFieldRenderer;
   readonly repeatableItemRenderer?: RepeatableItemRenderer;
+  readonly errorSummaryRenderer?: FormErrorSummaryRenderer;
 }
 
 // 4.3. Form Renderers
@@ -402,6 +716,25 @@ export interface FormSubmitButtonRendererProps {
   children?: React.ReactNode;
 }
 
+/**
+ * An error listed by the error summary, `fieldId` is unset for form-level errors
+ */
+export interface FormErrorSummaryItem {
+  readonly fieldId?: string;
+  /** Label of the field, from its `label` prop */
+  readonly label?: string;
+  readonly error: ValidationError;
+}
+
+export interface FormErrorSummaryRendererProps {
+  /** Errors of the fields in form order, then the form-level errors */
+  errors: FormErrorSummaryItem[];
+  /** Moves the focus to a field, e.g. when its error is clicked */
+  onFocusField: (fieldId: string) => void;
+  className?: string;
+  children?: React.ReactNode;
+}
+
 export interface FieldRendererProps {
   children: React.ReactNode;
   id: string;
@@ -416,6 +749,7 @@ export type FormRowRenderer = RendererChildrenFunction<FormRowRendererProps>;
 export type FormBodyRenderer = RendererChildrenFunction<FormBodyRendererProps>;
 export type FormSubmitButtonRenderer = RendererChildrenFunction<FormSubmitButtonRendererProps>;
 export type FieldRenderer = RendererChildrenFunction<FieldRendererProps>;
+export type FormErrorSummaryRenderer = RendererChildrenFunction<FormErrorSummaryRendererProps>;
 
 // =================================================================
 // 6. WORKFLOW SYSTEM
@@ -470,6 +804,57 @@ export interface StepDataHelper {
    * Get all step configurations for reference
    */
   getSteps: () => StepConfig[];
+
+  /**
+   * Skip the next visible step once the current step is validated
+   * Only honored when the next step is skippable (allowSkip or skippable condition)
+   */
+  skipNextStep: () => void;
+
+  /**
+   * Navigate to a specific step by ID instead of the next step once the current step is validated
+   * @throws Error if no step exists with the given ID
+   */
+  goToStep: (stepId: string) => void;
+}
+
+export interface StepTransition {
+  /**
+   * Condition evaluated against the workflow data (same paths as step conditions)
+   * Omit it to declare the default transition
+   */
+  readonly when?: ConditionConfig;
+  /**
+   * ID of the step to navigate to when this transition is taken
+   */
+  readonly goTo: string;
+}
+
+export interface StepGuardContext {
+  /**
+   * Step the user is navigating from
+   */
+  readonly fromStep: StepConfig;
+  /**
+   * Step the user is navigating to
+   */
+  readonly toStep: StepConfig;
+  readonly allData: Record<string, any>;
+  readonly context: WorkflowContext;
+}
+
+/**
+ * Guard outcome: `true` lets the navigation through, `false` vetoes it
+ * and a step ID redirects it
+ */
+export type StepGuardResult = boolean | string;
+
+export type StepGuard = (context: StepGuardContext) => StepGuardResult | Promise<StepGuardResult>;
+
+export interface StepGroup {
+  readonly id: string;
+  readonly title: string;
+  readonly description?: string;
 }
 
 export interface StepConfig {
@@ -480,18 +865,56 @@ export interface StepConfig {
   readonly allowSkip?: boolean;
   readonly renderer?: CustomStepRenderer;
   readonly conditions?: StepConditionalBehavior;
+  /**
+   * Outgoing transitions, evaluated in order; the first match wins.
+   * Falls back to the next visible step when none matches.
+   */
+  readonly next?: StepTransition[];
+  /**
+   * Set on steps spliced from a sub-workflow, identifies the parent step they belong to
+   */
+  readonly group?: StepGroup;
   readonly metadata?: Record<string, any>;
+  /**
+   * Awaited before navigating to this step, can veto or redirect the navigation
+   */
+  readonly canEnter?: StepGuard;
+  /**
+   * Awaited before navigating away from this step, can veto or redirect the navigation
+   */
+  readonly canLeave?: StepGuard;
+  /**
+   * Throwing or returning a SubmissionError shows its errors and keeps the workflow on the
+   * first step with a failing field
+   */
   readonly onAfterValidation?: (
     stepData: Record<string, any>,
     helper: StepDataHelper,
     context: WorkflowContext
-  ) => void | Promise<void>;
+  ) => SubmissionResult;
 }
 
 export type CustomStepRenderer = (props: StepConfig) => React.ReactElement;
 
 // 6.2. Workflow Configuration
-export interface WorkflowConfig {
+/**
+ * Behavior when the same workflow is open in several tabs
+ * - `sync`: changes made in one tab are reflected in the others
+ * - `lock`: the most recently opened tab takes over, the others are locked
+ */
+export type CrossTabMode = 'sync' | 'lock';
+
+declare const workflowDataType: unique symbol;
+
+/**
+ * Built workflow
+ *
+ * @template TData - Data collected by the workflow, keyed by step id, accumulated by the
+ * flow builder from the forms of its steps (`Record<string, any>` when unknown)
+ */
+export interface WorkflowConfig<TData extends Record<string, any> = Record<string, any>> {
+  /** Type-only, carries the data of the workflow */
+  readonly [workflowDataType]?: TData;
   readonly id: string;
   readonly name: string;
   readonly description?: string;
@@ -501,7 +924,12 @@ export interface WorkflowConfig {
     adapter: any; // WorkflowPersistenceAdapter (generic to avoid circular deps)
     options?: any; // PersistenceOptions
     userId?: string;
+    crossTab?: CrossTabMode;
   };
+  /**
+   * Enables undo/redo of value changes and navigation
+   */
+  readonly history?: HistoryOptions | boolean;
   readonly plugins?: WorkflowPlugin[];
   readonly renderConfig?: WorkflowRenderConfig;
 }
@@ -546,11 +974,27 @@ export interface WorkflowComponentRendererBaseProps {
   context: WorkflowContext;
 }
 
+export interface WorkflowStepperGroup {
+  readonly id: string;
+  readonly title: string;
+  readonly description?: string;
+  /** Indices in `steps` of the steps belonging to this group */
+  readonly stepIndices: number[];
+  /** Whether the current step belongs to this group */
+  readonly isActive: boolean;
+  /** Whether every step of this group has been passed */
+  readonly isCompleted: boolean;
+  readonly isExpanded: boolean;
+}
+
 export interface WorkflowStepperRendererProps {
   readonly steps: StepConfig[];
   readonly currentStepIndex: number;
   readonly visitedSteps: Set<string>;
+  /** Sub-workflow groups, expanded by default while active */
+  readonly groups: WorkflowStepperGroup[];
   readonly onStepClick?: (stepIndex: number) => void;
+  readonly onGroupToggle?: (groupId: string) => void;
   readonly className?: string;
 }
 
@@ -558,6 +1002,10 @@ export type WorkflowNextButtonRendererProps = WorkflowComponentRendererBaseProps
   isLastStep: boolean;
   canGoNext: boolean;
   isSubmitting: boolean;
+  /**
+   * True while a navigation is pending, e.g. awaiting async step guards
+   */
+  isPending: boolean;
   onSubmit: (event?: React.FormEvent) => void;
 };
 
@@ -0,0 +1,160 @@
+import type { HistoryOptions } from '../types';
+
+/**
+ * A single state change, addressed by its path in the store state
+ */
+export interface HistoryPatch {
+  readonly path: readonly string[];
+  readonly previous: unknown;
+  readonly next: unknown;
+}
+
+/**
+ * A group of patches undone and redone together
+ */
+export interface HistoryEntry {
+  readonly patches: HistoryPatch[];
+  readonly groupKey?: string;
+  readonly timestamp: number;
+}
+
+const DEFAULT_HISTORY_DEPTH = 100;
+const DEFAULT_GROUPING_MS = 500;
+
+/**
+ * Undo/redo stack of state patches
+ *
+ * Entries recorded with the same group key within `groupingMs` of each other are
+ * merged, so that rapid keystrokes in a field are undone in a single step.
+ */
+export class StateHistory {
+  private past: HistoryEntry[] = [];
+  private future: HistoryEntry[] = [];
+  private readonly depth: number;
+  private readonly groupingMs: number;
+
+  constructor(options: HistoryOptions = {}) {
+    this.depth = options.depth ?? DEFAULT_HISTORY_DEPTH;
+    this.groupingMs = options.groupingMs ?? DEFAULT_GROUPING_MS;
+  }
+
+  record(patches: HistoryPatch[], groupKey?: string): void {
+    if (patches.length === 0) return;
+
+    const now = Date.now();
+    const last = this.past[this.past.length - 1];
+    this.future = [];
+
+    if (groupKey && last?.groupKey === groupKey && now - last.timestamp <= this.groupingMs) {
+      this.past[this.past.length - 1] = {
+        patches: mergePatches(last.patches, patches),
+        groupKey,
+        timestamp: now,
+      };
+      return;
+    }
+
+    this.past.push({ patches, groupKey, timestamp: now });
+    if (this.past.length > this.depth) {
+      this.past.shift();
+    }
+  }
+
+  undo(): HistoryEntry | null {
+    const entry = this.past.pop();
+    if (!entry) return null;
+
+    this.future.push(entry);
+    return entry;
+  }
+
+  redo(): HistoryEntry | null {
+    const entry = this.future.pop();
+    if (!entry) return null;
+
+    this.past.push(entry);
+    return entry;
+  }
+
+  canUndo(): boolean {
+    return this.past.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.future.length > 0;
+  }
+
+  clear(): void {
+    this.past = [];
+    this.future = [];
+  }
+}
+
+/**
+ * Merges patches of a grouped entry, keeping the oldest previous value of each path
+ */
+function mergePatches(existing: HistoryPatch[], incoming: HistoryPatch[]): HistoryPatch[] {
+  const merged = [...existing];
+
+  for (const patch of incoming) {
+    const key = patch.path.join('\u0000');
+    const index = merged.findIndex((candidate) => candidate.path.join('\u0000') === key);
+
+    if (index === -1) {
+      merged.push(patch);
+    } else {
+      merged[index] = { ...merged[index], next: patch.next };
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Immutably sets a value at a path, removing the key when the value is undefined
+ */
+function setAtPath(target: unknown, path: readonly string[], value: unknown): unknown {
+  const [head, ...rest] = path;
+  const source = (target && typeof target === 'object' ? target : {}) as Record<string, unknown>;
+  const result = { ...source };
+
+  if (rest.length === 0) {
+    if (value === undefined) {
+      delete result[head];
+    } else {
+      result[head] = value;
+    }
+    return result;
+  }
+
+  result[head] = setAtPath(source[head], rest, value);
+  return result;
+}
+
+/**
+ * Applies the patches of a history entry to a state object
+ *
+ * @param state - The current state
+ * @param entry - The entry to apply
+ * @param direction - `undo` restores previous values, `redo` re-applies next values
+ * @returns The top-level state keys touched by the entry, with their new values
+ */
+export function applyHistoryEntry<T extends object>(
+  state: T,
+  entry: HistoryEntry,
+  direction: 'undo' | 'redo'
+): Partial<T> {
+  const patches = direction === 'undo' ? [...entry.patches].reverse() : entry.patches;
+  const source = state as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+
+  for (const patch of patches) {
+    const [key, ...rest] = patch.path;
+    const value = direction === 'undo' ? patch.previous : patch.next;
+    const current = key in result ? result[key] : source[key];
+
+    result[key] = rest.length === 0 ? value : setAtPath(current, rest, value);
+  }
+
+  return result as Partial<T>;
+}
@@ -0,0 +1,600 @@
+import { CONDITION_OPERATORS, type ConditionConfig, isFieldReference } from '../conditions';
+import { RilayError } from '../config/ril';
+import type {
+  ConditionalBehavior,
+  FieldValidationConfig,
+  ReValidateMode,
+  StandardSchema,
+  StepConditionalBehavior,
+  ValidationMode,
+  ValidatorDescriptor,
+  ValidatorFactory,
+} from '../types';
+import {
+  builtInValidators,
+  createValidatorFromDescriptor,
+  getValidatorDescriptor,
+  isValidatorDescriptor,
+} from '../validation/validators';
+import { normalizeToArray } from './builderHelpers';
+
+/**
+ * Version of the JSON format produced by `form.toJSON()` and `flow.toJSON()`
+ */
+export const SERIALIZATION_VERSION = 1;
+
+/**
+ * A problem found while serializing or deserializing, located by its JSON path
+ */
+export interface SerializationIssue {
+  readonly path: string;
+  readonly message: string;
+}
+
+/**
+ * Thrown by `toJSON()` and `fromJSON()` with every issue found
+ */
+export class SerializationError extends RilayError {
+  constructor(
+    message: string,
+    public readonly issues: SerializationIssue[]
+  ) {
+    super(message, 'SERIALIZATION_ERROR', { issues });
+    this.name = 'SerializationError';
+  }
+}
+
+/**
+ * Throws a SerializationError listing the issues, if any
+ */
+export function throwOnIssues(context: string, issues: SerializationIssue[]): void {
+  if (issues.length === 0) {
+    return;
+  }
+
+  const details = issues.map((issue) => `  - ${issue.path || '(root)'}: ${issue.message}`);
+  throw new SerializationError(`${context}:\n${details.join('\n')}`, issues);
+}
+
+/**
+ * Joins a JSON path and a property name or array index
+ */
+export function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+// =================================================================
+// JSON TYPES
+// =================================================================
+
+export interface FieldValidationJSON {
+  validate?: ValidatorDescriptor[];
+  validateOnChange?: boolean;
+  validateOnBlur?: boolean;
+  mode?: ValidationMode;
+  reValidateMode?: ReValidateMode;
+  debounceMs?: number;
+}
+
+export const VALIDATION_MODES: readonly ValidationMode[] = [
+  'onSubmit',
+  'onBlur',
+  'onChange',
+  'onTouched',
+  'all',
+];
+
+export const REVALIDATE_MODES: readonly ReValidateMode[] = ['onSubmit', 'onBlur', 'onChange'];
+
+export type ConditionalBehaviorJSON = Record<string, ConditionConfig>;
+
+// =================================================================
+// SERIALIZATION
+// =================================================================
+
+/**
+ * Reports values that would not survive a JSON round trip (functions, class instances...)
+ */
+export function checkJsonValue(value: unknown, path: string, issues: SerializationIssue[]): void {
+  if (value === null || typeof value === 'string' || typeof value === 'boolean') {
+    return;
+  }
+
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      issues.push({ path, message: 'Expected a finite number' });
+    }
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => checkJsonValue(item, joinPath(path, index), issues));
+    return;
+  }
+
+  if (isPlainObject(value)) {
+    for (const [key, item] of Object.entries(value)) {
+      if (item !== undefined) {
+        checkJsonValue(item, joinPath(path, key), issues);
+      }
+    }
+    return;
+  }
+
+  issues.push({ path, message: `Cannot serialize a value of type ${describeType(value)}` });
+}
+
+function describeType(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  if (typeof value === 'function') return 'function';
+  if (typeof value === 'object') return value?.constructor?.name ?? 'object';
+  return typeof value;
+}
+
+/**
+ * Serializes validators to their descriptors, only validators referenced by name can be serialized
+ */
+export function serializeValidators(
+  validate: FieldValidationConfig['validate'],
+  path: string,
+  issues: SerializationIssue[]
+): ValidatorDescriptor[] {
+  if (!validate) {
+    return [];
+  }
+
+  return normalizeToArray(validate).flatMap((validator, index) => {
+    const descriptor = isValidatorDescriptor(validator)
+      ? omitUndefined({ name: validator.name, args: validator.args, message: validator.message })
+      : getValidatorDescriptor(validator);
+    if (!descriptor) {
+      issues.push({
+        path: joinPath(path, index),
+        message:
+          'Only validators referenced by name (registered on the ril instance) can be serialized',
+      });
+      return [];
+    }
+    return [descriptor];
+  });
+}
+
+export function serializeFieldValidation(
+  validation: FieldValidationConfig | undefined,
+  path: string,
+  issues: SerializationIssue[]
+): FieldValidationJSON | undefined {
+  if (!validation) {
+    return undefined;
+  }
+
+  const validate = serializeValidators(validation.validate, joinPath(path, 'validate'), issues);
+
+  return omitUndefined({
+    validate: validate.length > 0 ? validate : undefined,
+    validateOnChange: validation.validateOnChange,
+    validateOnBlur: validation.validateOnBlur,
+    mode: validation.mode,
+    reValidateMode: validation.reValidateMode,
+    debounceMs: validation.debounceMs,
+  });
+}
+
+/**
+ * Copies a condition (or condition builder) into plain JSON
+ */
+export function serializeCondition(condition: ConditionConfig): ConditionConfig {
+  return omitUndefined({
+    field: condition.field,
+    operator: condition.operator,
+    value: condition.value,
+    conditions: condition.conditions?.length
+      ? condition.conditions.map(serializeCondition)
+      : undefined,
+    logicalOperator: condition.logicalOperator,
+  });
+}
+
+export function serializeConditionalBehavior(
+  behavior: ConditionalBehavior | StepConditionalBehavior | undefined
+): ConditionalBehaviorJSON | undefined {
+  if (!behavior) {
+    return undefined;
+  }
+
+  const entries = Object.entries(behavior).filter(
+    (entry): entry is [string, ConditionConfig] => entry[1] !== undefined
+  );
+  if (entries.length === 0) {
+    return undefined;
+  }
+
+  return Object.fromEntries(
+    entries.map(([key, condition]) => [key, serializeCondition(condition)])
+  );
+}
+
+/**
+ * Drops undefined properties so that they do not show up in the JSON
+ */
+export function omitUndefined<T extends Record<string, unknown>>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, item]) => item !== undefined)) as T;
+}
+
+// =================================================================
+// DESERIALIZATION
+// =================================================================
+
+/**
+ * Reads an optional property, reporting an issue when it has the wrong type
+ */
+export function readOptional<T>(
+  source: Record<string, unknown>,
+  key: string,
+  type: 'string' | 'number' | 'boolean',
+  path: string,
+  issues: SerializationIssue[]
+): T | undefined {
+  const value = source[key];
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const actualType = typeof value;
+  if (actualType !== type || (type === 'number' && !Number.isFinite(value))) {
+    issues.push({ path: joinPath(path, key), message: `Expected a ${type}` });
+    return undefined;
+  }
+
+  return value as T;
+}
+
+/**
+ * Reads an optional property that must be one of the allowed values
+ */
+export function readOptionalEnum<T extends string>(
+  source: Record<string, unknown>,
+  key: string,
+  allowed: readonly T[],
+  path: string,
+  issues: SerializationIssue[]
+): T | undefined {
+  const value = source[key];
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (!allowed.includes(value as T)) {
+    const quoted = allowed.map((item) => `"${item}"`);
+    issues.push({
+      path: joinPath(path, key),
+      message: `Expected ${quoted.slice(0, -1).join(', ')} or ${quoted[quoted.length - 1]}`,
+    });
+    return undefined;
+  }
+
+  return value as T;
+}
+
+/**
+ * Reads a required non-empty string property
+ */
+export function readString(
+  source: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: SerializationIssue[]
+): string | undefined {
+  const value = source[key];
+  if (typeof value !== 'string' || value === '') {
+    issues.push({ path: joinPath(path, key), message: 'Expected a non-empty string' });
+    return undefined;
+  }
+  return value;
+}
+
+/**
+ * Checks the `version` of a JSON document, documents without version predate the format
+ */
+export function checkSerializationVersion(
+  value: Record<string, unknown>,
+  issues: SerializationIssue[]
+): void {
+  if (value.version !== undefined && value.version !== SERIALIZATION_VERSION) {
+    issues.push({
+      path: 'version',
+      message: `Unsupported version ${JSON.stringify(value.version)}, expected ${SERIALIZATION_VERSION}`,
+    });
+  }
+}
+
+/**
+ * Reports unknown properties, which usually are typos
+ */
+export function checkKnownKeys(
+  source: Record<string, unknown>,
+  knownKeys: readonly string[],
+  path: string,
+  issues: SerializationIssue[]
+): void {
+  for (const key of Object.keys(source)) {
+    if (!knownKeys.includes(key)) {
+      issues.push({ path: joinPath(path, key), message: 'Unknown property' });
+    }
+  }
+}
+
+export function parseValidators(
+  value: unknown,
+  path: string,
+  issues: SerializationIssue[],
+  factories: Record<string, ValidatorFactory> = builtInValidators
+): StandardSchema[] {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'Expected an array of validators' });
+    return [];
+  }
+
+  return value.flatMap((item, index) => {
+    const itemPath = joinPath(path, index);
+    if (!isPlainObject(item)) {
+      issues.push({ path: itemPath, message: 'Expected a validator descriptor object' });
+      return [];
+    }
+
+    checkKnownKeys(item, ['name', 'args', 'message'], itemPath, issues);
+    const name = readString(item, 'name', itemPath, issues);
+    const message = readOptional<string>(item, 'message', 'string', itemPath, issues);
+    if (item.args !== undefined && !Array.isArray(item.args)) {
+      issues.push({ path: joinPath(itemPath, 'args'), message: 'Expected an array' });
+      return [];
+    }
+    if (!name) {
+      return [];
+    }
+
+    try {
+      return [
+        createValidatorFromDescriptor(
+          { name, args: item.args as unknown[] | undefined, message },
+          factories
+        ),
+      ];
+    } catch (error) {
+      issues.push({
+        path: itemPath,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  });
+}
+
+export function parseFieldValidation(
+  value: unknown,
+  path: string,
+  issues: SerializationIssue[],
+  factories?: Record<string, ValidatorFactory>
+): FieldValidationConfig | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isPlainObject(value)) {
+    issues.push({ path, message: 'Expected a validation object' });
+    return undefined;
+  }
+
+  checkKnownKeys(
+    value,
+    ['validate', 'validateOnChange', 'validateOnBlur', 'mode', 'reValidateMode', 'debounceMs'],
+    path,
+    issues
+  );
+
+  return omitUndefined({
+    validate:
+      value.validate === undefined
+        ? undefined
+        : parseValidators(value.validate, joinPath(path, 'validate'), issues, factories),
+    validateOnChange: readOptional<boolean>(value, 'validateOnChange', 'boolean', path, issues),
+    validateOnBlur: readOptional<boolean>(value, 'validateOnBlur', 'boolean', path, issues),
+    mode: readOptionalEnum(value, 'mode', VALIDATION_MODES, path, issues),
+    reValidateMode: readOptionalEnum(value, 'reValidateMode', REVALIDATE_MODES, path, issues),
+    debounceMs: readOptional<number>(value, 'debounceMs', 'number', path, issues),
+  });
+}
+
+export function parseCondition(
+  value: unknown,
+  path: string,
+  issues: SerializationIssue[]
+): ConditionConfig | undefined {
+  if (!isPlainObject(value)) {
+    issues.push({ path, message: 'Expected a condition object' });
+    return undefined;
+  }
+
+  checkKnownKeys(
+    value,
+    ['field', 'operator', 'value', 'conditions', 'logicalOperator'],
+    path,
+    issues
+  );
+
+  const conditions = value.conditions;
+  if (conditions !== undefined && !Array.isArray(conditions)) {
+    issues.push({ path: joinPath(path, 'conditions'), message: 'Expected an array' });
+    return undefined;
+  }
+
+  const field = value.field;
+  // Groups of conditions have an empty field
+  if (typeof field !== 'string' || (field === '' && !conditions?.length)) {
+    issues.push({ path: joinPath(path, 'field'), message: 'Expected a field path' });
+  }
+
+  if (!CONDITION_OPERATORS.includes(value.operator as ConditionConfig['operator'])) {
+    issues.push({
+      path: joinPath(path, 'operator'),
+      message: `Expected one of ${CONDITION_OPERATORS.join(', ')}`,
+    });
+  }
+
+  if (
+    value.logicalOperator !== undefined &&
+    value.logicalOperator !== 'and' &&
+    value.logicalOperator !== 'or' &&
+    value.logicalOperator !== 'not'
+  ) {
+    issues.push({
+      path: joinPath(path, 'logicalOperator'),
+      message: 'Expected "and", "or" or "not"',
+    });
+  } else if (value.logicalOperator === 'not' && conditions?.length !== 1) {
+    issues.push({ path: joinPath(path, 'conditions'), message: 'Expected a single condition' });
+  }
+
+  if (value.value !== undefined) {
+    checkConditionValue(value.value, joinPath(path, 'value'), issues);
+  }
+
+  return omitUndefined({
+    field: field as string,
+    operator: value.operator as ConditionConfig['operator'],
+    value: value.value as ConditionConfig['value'],
+    conditions: conditions?.flatMap((condition, index) => {
+      const parsed = parseCondition(
+        condition,
+        joinPath(joinPath(path, 'conditions'), index),
+        issues
+      );
+      return parsed ? [parsed] : [];
+    }),
+    logicalOperator: value.logicalOperator as ConditionConfig['logicalOperator'],
+  });
+}
+
+function checkConditionValue(value: unknown, path: string, issues: SerializationIssue[]): void {
+  const isOperand = (item: unknown) =>
+    typeof item === 'string' ||
+    typeof item === 'number' ||
+    typeof item === 'boolean' ||
+    (isFieldReference(item) && Object.keys(item).length === 1);
+
+  if (value === null || isOperand(value)) {
+    return;
+  }
+  if (Array.isArray(value) && value.every(isOperand)) {
+    return;
+  }
+
+  issues.push({
+    path,
+    message: 'Expected a string, number, boolean, null, field reference or array of those',
+  });
+}
+
+export function parseConditionalBehavior(
+  value: unknown,
+  allowedKeys: readonly string[],
+  path: string,
+  issues: SerializationIssue[]
+): Record<string, ConditionConfig> | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isPlainObject(value)) {
+    issues.push({ path, message: 'Expected a conditions object' });
+    return undefined;
+  }
+
+  checkKnownKeys(value, allowedKeys, path, issues);
+
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([key]) => allowedKeys.includes(key))
+      .flatMap(([key, condition]) => {
+        const parsed = parseCondition(condition, joinPath(path, key), issues);
+        return parsed ? [[key, parsed]] : [];
+      })
+  );
+}
+
+// =================================================================
+// JSON SCHEMA
+// =================================================================
+
+/**
+ * JSON Schema definitions shared by the form and flow formats
+ */
+export const SERIALIZATION_SCHEMA_DEFS = {
+  validator: {
+    type: 'object',
+    description: 'Validator referenced by name, e.g. { "name": "minLength", "args": [2] }',
+    required: ['name'],
+    additionalProperties: false,
+    properties: {
+      name: { type: 'string', minLength: 1 },
+      args: { type: 'array' },
+      message: { type: 'string' },
+    },
+  },
+  fieldValidation: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      validate: { type: 'array', items: { $ref: '#/$defs/validator' } },
+      validateOnChange: { type: 'boolean' },
+      validateOnBlur: { type: 'boolean' },
+      mode: { enum: [...VALIDATION_MODES] },
+      reValidateMode: { enum: [...REVALIDATE_MODES] },
+      debounceMs: { type: 'number' },
+    },
+  },
+  fieldReference: {
+    type: 'object',
+    description: 'Value of another field, e.g. { "field": "startDate" }',
+    required: ['field'],
+    additionalProperties: false,
+    properties: {
+      field: { type: 'string', minLength: 1 },
+    },
+  },
+  condition: {
+    type: 'object',
+    required: ['field', 'operator'],
+    additionalProperties: false,
+    properties: {
+      field: { type: 'string' },
+      operator: { enum: [...CONDITION_OPERATORS] },
+      value: {
+        oneOf: [
+          { type: ['string', 'number', 'boolean', 'null'] },
+          { $ref: '#/$defs/fieldReference' },
+          {
+            type: 'array',
+            items: {
+              anyOf: [
+                { type: ['string', 'number', 'boolean'] },
+                { $ref: '#/$defs/fieldReference' },
+              ],
+            },
+          },
+        ],
+      },
+      conditions: { type: 'array', items: { $ref: '#/$defs/condition' } },
+      logicalOperator: { enum: ['and', 'or', 'not'] },
+    },
+  },
+} as const;
@@ -0,0 +1,49 @@
+import { RilayError } from '../config/ril';
+import type { ValidationError } from '../types';
+
+/**
+ * Errors of a rejected submission, keyed by field id or path
+ *
+ * Paths of repeatable fields use the item key or its index: `items[k2].qty`, `items[2].qty`
+ * or `items.2.qty`. In a workflow, paths can be prefixed with the step id: `billing.vatNumber`.
+ */
+export type SubmissionFieldErrors = Readonly<Record<string, ValidationError[]>>;
+
+/**
+ * Thrown or returned by `onSubmit`, `onWorkflowComplete` and step `after` callbacks when
+ * the server rejects the submitted data. The errors are shown on the matching fields,
+ * errors that match no field are kept as form-level errors.
+ *
+ * @example
+ * ```ts
+ * onSubmit: async (data) => {
+ *   const response = await api.createOrder(data);
+ *   if (!response.ok) {
+ *     return new SubmissionError(
+ *       { email: [{ message: 'Already registered' }], 'items[2].qty': [{ message: 'Out of stock' }] },
+ *       [{ message: 'The order could not be created' }]
+ *     );
+ *   }
+ * }
+ * ```
+ */
+export class SubmissionError extends RilayError {
+  constructor(
+    public readonly fieldErrors: SubmissionFieldErrors = {},
+    public readonly formErrors: ValidationError[] = [],
+    message = 'The submission was rejected'
+  ) {
+    super(message, 'SUBMISSION_ERROR', { fieldErrors, formErrors });
+    this.name = 'SubmissionError';
+  }
+}
+
+/**
+ * What `onSubmit`, `onWorkflowComplete` and step `after` callbacks can return, a
+ * SubmissionError rejects the submission like a thrown one
+ */
+export type SubmissionResult =
+  | void
+  | SubmissionError
+  | Promise<void>
+  | Promise<SubmissionError | undefined>;
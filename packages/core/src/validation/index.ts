@@ -26,6 +26,7 @@
 // Core validation types (re-exported from types)
 export type {
   FieldValidationConfig,
+  FieldValidationRule,
   FormValidationConfig,
   InferInput,
   InferOutput,
@@ -33,6 +34,8 @@ export type {
   ValidationContext,
   ValidationError,
   ValidationResult,
+  ValidatorDescriptor,
+  ValidatorFactory,
 } from '../types';
 
 // Essential validation utilities
@@ -47,9 +50,13 @@ export {
 // Built-in validators (Standard Schema implementations)
 export {
   async,
+  builtInValidators,
   combine,
+  createValidatorFromDescriptor,
   custom,
   email,
+  getValidatorDescriptor,
+  isValidatorDescriptor,
   max,
   maxLength,
   min,
@@ -57,6 +64,7 @@ export {
   number,
   pattern,
   required,
+  resolveFieldValidation,
   url,
 } from './validators';
 
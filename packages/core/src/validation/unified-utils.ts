@@ -8,6 +8,7 @@ import type {
   FieldValidationConfig,
   FormValidationConfig,
   StandardSchema,
+  StandardSchemaValidateOptions,
   ValidationContext,
   ValidationError,
   ValidationResult,
@@ -35,17 +36,24 @@ export function isStandardSchema(value: any): value is StandardSchema {
 
 /**
  * Validates a value using a Standard Schema
+ *
+ * The signal is given to the schema as `libraryOptions.signal`, read by `async()` validators.
  */
 export async function validateWithStandardSchema<T extends StandardSchema>(
   schema: T,
-  value: unknown
+  value: unknown,
+  signal?: AbortSignal
 ): Promise<ValidationResult> {
   if (!isStandardSchema(schema)) {
     throw new Error('Invalid Standard Schema: missing ~standard property or invalid structure');
   }
 
   try {
-    let result = schema['~standard'].validate(value);
+    const validate = schema['~standard'].validate as (
+      value: unknown,
+      options?: StandardSchemaValidateOptions
+    ) => ReturnType<StandardSchema['~standard']['validate']>;
+    let result = validate(value, signal ? { libraryOptions: { signal } } : undefined);
 
     // Handle async validation
     if (result instanceof Promise) {
@@ -145,7 +153,7 @@ export function hasSchemaTypes<T extends StandardSchema>(
 export async function validateWithUnifiedConfig<T>(
   config: FieldValidationConfig<T>,
   value: T,
-  _context: ValidationContext
+  context: ValidationContext
 ): Promise<ValidationResult> {
   if (!config.validate) {
     return { isValid: true, errors: [] };
@@ -155,6 +163,11 @@ export async function validateWithUnifiedConfig<T>(
   const allErrors: ValidationError[] = [];
 
   for (const schema of schemas) {
+    // A superseded validation stops before running the remaining schemas
+    if (context.signal?.aborted) {
+      break;
+    }
+
     if (!isStandardSchema(schema)) {
       allErrors.push({
         message: 'Invalid validation rule: must implement Standard Schema interface',
@@ -164,7 +177,11 @@ export async function validateWithUnifiedConfig<T>(
     }
 
     try {
-      const result = await validateWithStandardSchema(schema as StandardSchema, value);
+      const result = await validateWithStandardSchema(
+        schema as StandardSchema,
+        value,
+        context.signal
+      );
 
       if (!result.isValid) {
         allErrors.push(...result.errors);
@@ -144,5 +144,6 @@ export function createValidationContext(
     allFormData: options.allFormData || {},
     stepData: options.stepData || {},
     workflowData: options.workflowData || {},
+    signal: options.signal,
   };
 }
@@ -4,8 +4,54 @@
  */
 
 import type { StandardSchemaV1 } from '@standard-schema/spec';
+import type {
+  FieldValidationConfig,
+  FieldValidationRule,
+  StandardSchemaValidateOptions,
+  ValidatorDescriptor,
+  ValidatorFactory,
+} from '../types';
 import { isEmptyValue } from './utils';
 
+// =================================================================
+// VALIDATOR DESCRIPTORS
+// =================================================================
+
+/**
+ * Property holding the descriptor of built-in validators, next to `~standard`
+ */
+const DESCRIPTOR_KEY = '~rilay';
+
+/**
+ * Attaches the descriptor a validator can be recreated from
+ */
+function withDescriptor<T extends StandardSchemaV1<any>>(
+  schema: T,
+  name: string,
+  args: unknown[],
+  message: string | undefined
+): T {
+  const descriptor: ValidatorDescriptor = {
+    name,
+    ...(args.length > 0 && { args }),
+    ...(message !== undefined && { message }),
+  };
+
+  return Object.assign(schema, { [DESCRIPTOR_KEY]: descriptor });
+}
+
+/**
+ * Returns the descriptor of a validator, or undefined if it cannot be serialized
+ * (custom functions, external schemas)
+ */
+export function getValidatorDescriptor(schema: unknown): ValidatorDescriptor | undefined {
+  if (!schema || typeof schema !== 'object') {
+    return undefined;
+  }
+
+  return (schema as Record<string, unknown>)[DESCRIPTOR_KEY] as ValidatorDescriptor | undefined;
+}
+
 // =================================================================
 // STANDARD SCHEMA VALIDATORS - RILAY BUILT-INS
 // =================================================================
@@ -13,69 +59,91 @@ import { isEmptyValue } from './utils';
 /**
  * Required field validator - Standard Schema implementation
  */
-export function required(message = 'This field is required'): StandardSchemaV1<any> {
-  return {
-    '~standard': {
-      version: 1,
-      vendor: 'rilaykit',
-      validate: (value: unknown) => {
-        return isEmptyValue(value) ? { issues: [{ message, path: undefined }] } : { value };
+export function required(message?: string): StandardSchemaV1<any> {
+  const errorMessage = message ?? 'This field is required';
+
+  return withDescriptor(
+    {
+      '~standard': {
+        version: 1,
+        vendor: 'rilaykit',
+        validate: (value: unknown) => {
+          return isEmptyValue(value)
+            ? { issues: [{ message: errorMessage, path: undefined }] }
+            : { value };
+        },
       },
     },
-  };
+    'required',
+    [],
+    message
+  );
 }
 
 /**
  * Email validation - Standard Schema implementation
  */
-export function email(message = 'Please enter a valid email address'): StandardSchemaV1<string> {
+export function email(message?: string): StandardSchemaV1<string> {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  const errorMessage = message ?? 'Please enter a valid email address';
+
+  return withDescriptor(
+    {
+      '~standard': {
+        version: 1,
+        vendor: 'rilaykit',
+        validate: (value: unknown) => {
+          if (typeof value !== 'string') {
+            return { issues: [{ message: 'Email must be a string' }] };
+          }
 
-  return {
-    '~standard': {
-      version: 1,
-      vendor: 'rilaykit',
-      validate: (value: unknown) => {
-        if (typeof value !== 'string') {
-          return { issues: [{ message: 'Email must be a string' }] };
-        }
-
-        return emailRegex.test(value) ? { value } : { issues: [{ message }] };
-      },
-      types: {
-        input: '' as string,
-        output: '' as string,
+          return emailRegex.test(value) ? { value } : { issues: [{ message: errorMessage }] };
+        },
+        types: {
+          input: '' as string,
+          output: '' as string,
+        },
       },
     },
-  };
+    'email',
+    [],
+    message
+  );
 }
 
 /**
  * URL validation - Standard Schema implementation
  */
-export function url(message = 'Please enter a valid URL'): StandardSchemaV1<string> {
-  return {
-    '~standard': {
-      version: 1,
-      vendor: 'rilaykit',
-      validate: (value: unknown) => {
-        if (typeof value !== 'string') {
-          return { issues: [{ message: 'URL must be a string' }] };
-        }
+export function url(message?: string): StandardSchemaV1<string> {
+  const errorMessage = message ?? 'Please enter a valid URL';
+
+  return withDescriptor(
+    {
+      '~standard': {
+        version: 1,
+        vendor: 'rilaykit',
+        validate: (value: unknown) => {
+          if (typeof value !== 'string') {
+            return { issues: [{ message: 'URL must be a string' }] };
+          }
 
-        try {
-          new URL(value);
-          return { value };
-        } catch {
-          return { issues: [{ message }] };
-        }
-      },
-      types: {
-        input: '' as string,
-        output: '' as string,
+          try {
+            new URL(value);
+            return { value };
+          } catch {
+            return { issues: [{ message: errorMessage }] };
+          }
+        },
+        types: {
+          input: '' as string,
+          output: '' as string,
+        },
       },
     },
-  };
+    'url',
+    [],
+    message
+  );
 }
 
 /**
@@ -84,25 +152,30 @@ export function url(message = 'Please enter a valid URL'): StandardSchemaV1<stri
 export function minLength(min: number, message?: string): StandardSchemaV1<string> {
   const defaultMessage = `Must be at least ${min} characters long`;
 
-  return {
-    '~standard': {
-      version: 1,
-      vendor: 'rilaykit',
-      validate: (value: unknown) => {
-        if (typeof value !== 'string') {
-          return { issues: [{ message: 'Value must be a string' }] };
-        }
+  return withDescriptor(
+    {
+      '~standard': {
+        version: 1,
+        vendor: 'rilaykit',
+        validate: (value: unknown) => {
+          if (typeof value !== 'string') {
+            return { issues: [{ message: 'Value must be a string' }] };
+          }
 
-        return value.length >= min
-          ? { value }
-          : { issues: [{ message: message || defaultMessage }] };
-      },
-      types: {
-        input: '' as string,
-        output: '' as string,
+          return value.length >= min
+            ? { value }
+            : { issues: [{ message: message || defaultMessage }] };
+        },
+        types: {
+          input: '' as string,
+          output: '' as string,
+        },
       },
     },
-  };
+    'minLength',
+    [min],
+    message
+  );
 }
 
 /**
@@ -111,76 +184,92 @@ export function minLength(min: number, message?: string): StandardSchemaV1<strin
 export function maxLength(max: number, message?: string): StandardSchemaV1<string> {
   const defaultMessage = `Must be no more than ${max} characters long`;
 
-  return {
-    '~standard': {
-      version: 1,
-      vendor: 'rilaykit',
-      validate: (value: unknown) => {
-        if (typeof value !== 'string') {
-          return { issues: [{ message: 'Value must be a string' }] };
-        }
+  return withDescriptor(
+    {
+      '~standard': {
+        version: 1,
+        vendor: 'rilaykit',
+        validate: (value: unknown) => {
+          if (typeof value !== 'string') {
+            return { issues: [{ message: 'Value must be a string' }] };
+          }
 
-        return value.length <= max
-          ? { value }
-          : { issues: [{ message: message || defaultMessage }] };
-      },
-      types: {
-        input: '' as string,
-        output: '' as string,
+          return value.length <= max
+            ? { value }
+            : { issues: [{ message: message || defaultMessage }] };
+        },
+        types: {
+          input: '' as string,
+          output: '' as string,
+        },
       },
     },
-  };
+    'maxLength',
+    [max],
+    message
+  );
 }
 
 /**
  * Pattern validation - Standard Schema implementation
  */
-export function pattern(
-  regex: RegExp,
-  message = 'Value does not match required pattern'
-): StandardSchemaV1<string> {
-  return {
-    '~standard': {
-      version: 1,
-      vendor: 'rilaykit',
-      validate: (value: unknown) => {
-        if (typeof value !== 'string') {
-          return { issues: [{ message: 'Value must be a string' }] };
-        }
+export function pattern(regex: RegExp, message?: string): StandardSchemaV1<string> {
+  const errorMessage = message ?? 'Value does not match required pattern';
+
+  return withDescriptor(
+    {
+      '~standard': {
+        version: 1,
+        vendor: 'rilaykit',
+        validate: (value: unknown) => {
+          if (typeof value !== 'string') {
+            return { issues: [{ message: 'Value must be a string' }] };
+          }
 
-        return regex.test(value) ? { value } : { issues: [{ message }] };
-      },
-      types: {
-        input: '' as string,
-        output: '' as string,
+          return regex.test(value) ? { value } : { issues: [{ message: errorMessage }] };
+        },
+        types: {
+          input: '' as string,
+          output: '' as string,
+        },
       },
     },
-  };
+    'pattern',
+    regex.flags ? [regex.source, regex.flags] : [regex.source],
+    message
+  );
 }
 
 /**
  * Number validation - Standard Schema implementation
  */
-export function number(message = 'Must be a valid number'): StandardSchemaV1<number> {
-  return {
-    '~standard': {
-      version: 1,
-      vendor: 'rilaykit',
-      validate: (value: unknown) => {
-        const num = typeof value === 'string' ? Number(value) : value;
-
-        if (typeof num !== 'number' || Number.isNaN(num)) {
-          return { issues: [{ message }] };
-        }
+export function number(message?: string): StandardSchemaV1<number> {
+  const errorMessage = message ?? 'Must be a valid number';
+
+  return withDescriptor(
+    {
+      '~standard': {
+        version: 1,
+        vendor: 'rilaykit',
+        validate: (value: unknown) => {
+          const num = typeof value === 'string' ? Number(value) : value;
+
+          if (typeof num !== 'number' || Number.isNaN(num)) {
+            return { issues: [{ message: errorMessage }] };
+          }
 
-        return { value: num };
-      },
-      types: {
-        input: 0 as number,
-        output: 0 as number,
+          return { value: num };
+        },
+        types: {
+          input: 0 as number,
+          output: 0 as number,
+        },
       },
     },
-  };
+    'number',
+    [],
+    message
+  );
 }
 
 /**
@@ -189,27 +278,32 @@ export function number(message = 'Must be a valid number'): StandardSchemaV1<num
 export function min(minValue: number, message?: string): StandardSchemaV1<number> {
   const defaultMessage = `Must be at least ${minValue}`;
 
-  return {
-    '~standard': {
-      version: 1,
-      vendor: 'rilaykit',
-      validate: (value: unknown) => {
-        const num = typeof value === 'string' ? Number(value) : value;
+  return withDescriptor(
+    {
+      '~standard': {
+        version: 1,
+        vendor: 'rilaykit',
+        validate: (value: unknown) => {
+          const num = typeof value === 'string' ? Number(value) : value;
 
-        if (typeof num !== 'number' || Number.isNaN(num)) {
-          return { issues: [{ message: 'Value must be a number' }] };
-        }
+          if (typeof num !== 'number' || Number.isNaN(num)) {
+            return { issues: [{ message: 'Value must be a number' }] };
+          }
 
-        return num >= minValue
-          ? { value: num }
-          : { issues: [{ message: message || defaultMessage }] };
-      },
-      types: {
-        input: 0 as number,
-        output: 0 as number,
+          return num >= minValue
+            ? { value: num }
+            : { issues: [{ message: message || defaultMessage }] };
+        },
+        types: {
+          input: 0 as number,
+          output: 0 as number,
+        },
       },
     },
-  };
+    'min',
+    [minValue],
+    message
+  );
 }
 
 /**
@@ -218,27 +312,32 @@ export function min(minValue: number, message?: string): StandardSchemaV1<number
 export function max(maxValue: number, message?: string): StandardSchemaV1<number> {
   const defaultMessage = `Must be no more than ${maxValue}`;
 
-  return {
-    '~standard': {
-      version: 1,
-      vendor: 'rilaykit',
-      validate: (value: unknown) => {
-        const num = typeof value === 'string' ? Number(value) : value;
+  return withDescriptor(
+    {
+      '~standard': {
+        version: 1,
+        vendor: 'rilaykit',
+        validate: (value: unknown) => {
+          const num = typeof value === 'string' ? Number(value) : value;
 
-        if (typeof num !== 'number' || Number.isNaN(num)) {
-          return { issues: [{ message: 'Value must be a number' }] };
-        }
+          if (typeof num !== 'number' || Number.isNaN(num)) {
+            return { issues: [{ message: 'Value must be a number' }] };
+          }
 
-        return num <= maxValue
-          ? { value: num }
-          : { issues: [{ message: message || defaultMessage }] };
-      },
-      types: {
-        input: 0 as number,
-        output: 0 as number,
+          return num <= maxValue
+            ? { value: num }
+            : { issues: [{ message: message || defaultMessage }] };
+        },
+        types: {
+          input: 0 as number,
+          output: 0 as number,
+        },
       },
     },
-  };
+    'max',
+    [maxValue],
+    message
+  );
 }
 
 /**
@@ -272,18 +371,21 @@ export function custom<T>(
 
 /**
  * Async validator - Standard Schema implementation
+ *
+ * `signal` is aborted once a newer validation of the field starts, e.g. to cancel a request.
  */
 export function async<T>(
-  fn: (value: T) => Promise<boolean>,
+  fn: (value: T, options: { signal?: AbortSignal }) => Promise<boolean>,
   message = 'Async validation failed'
 ): StandardSchemaV1<T> {
   return {
     '~standard': {
       version: 1,
       vendor: 'rilaykit',
-      validate: async (value: unknown) => {
+      validate: async (value: unknown, options?: StandardSchemaValidateOptions) => {
         try {
-          const isValid = await fn(value as T);
+          const signal = options?.libraryOptions?.signal as AbortSignal | undefined;
+          const isValid = await fn(value as T, { signal });
           return isValid ? { value: value as T } : { issues: [{ message }] };
         } catch (error) {
           return {
@@ -308,12 +410,16 @@ export function combine<T>(...schemas: StandardSchemaV1<T>[]): StandardSchemaV1<
     '~standard': {
       version: 1,
       vendor: 'rilaykit',
-      validate: async (value: unknown) => {
+      validate: async (value: unknown, options?: StandardSchemaValidateOptions) => {
         const allIssues: StandardSchemaV1.Issue[] = [];
         let finalValue = value;
 
         for (const schema of schemas) {
-          let result = schema['~standard'].validate(value);
+          const validate = schema['~standard'].validate as (
+            value: unknown,
+            options?: StandardSchemaValidateOptions
+          ) => ReturnType<StandardSchemaV1<T>['~standard']['validate']>;
+          let result = validate(value, options);
 
           // Handle async validation
           if (result instanceof Promise) {
@@ -332,3 +438,113 @@ export function combine<T>(...schemas: StandardSchemaV1<T>[]): StandardSchemaV1<
     },
   };
 }
+
+// =================================================================
+// BUILT-IN VALIDATOR FACTORIES
+// =================================================================
+
+function numberArg(args: unknown[], index: number, name: string): number {
+  const value = args[index];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`Validator "${name}" expects a number as argument ${index + 1}`);
+  }
+  return value;
+}
+
+function stringArg(args: unknown[], index: number, name: string): string {
+  const value = args[index];
+  if (typeof value !== 'string') {
+    throw new Error(`Validator "${name}" expects a string as argument ${index + 1}`);
+  }
+  return value;
+}
+
+/**
+ * Factories of the built-in validators, keyed by descriptor name
+ */
+export const builtInValidators: Record<string, ValidatorFactory> = {
+  required: (_args, message) => required(message),
+  email: (_args, message) => email(message),
+  url: (_args, message) => url(message),
+  minLength: (args, message) => minLength(numberArg(args, 0, 'minLength'), message),
+  maxLength: (args, message) => maxLength(numberArg(args, 0, 'maxLength'), message),
+  pattern: (args, message) =>
+    pattern(
+      new RegExp(
+        stringArg(args, 0, 'pattern'),
+        args[1] === undefined ? undefined : stringArg(args, 1, 'pattern')
+      ),
+      message
+    ),
+  number: (_args, message) => number(message),
+  min: (args, message) => min(numberArg(args, 0, 'min'), message),
+  max: (args, message) => max(numberArg(args, 0, 'max'), message),
+};
+
+/**
+ * Recreates a validator from its descriptor
+ *
+ * The validator keeps the descriptor, so validators of registered factories serialize
+ * back to the name they were referenced by.
+ *
+ * @throws Error if the validator is unknown or its arguments are invalid
+ */
+export function createValidatorFromDescriptor(
+  descriptor: ValidatorDescriptor,
+  factories: Record<string, ValidatorFactory> = builtInValidators
+): StandardSchemaV1<any> {
+  const factory = factories[descriptor.name];
+  if (!factory) {
+    throw new Error(`Unknown validator "${descriptor.name}"`);
+  }
+
+  const args = descriptor.args ?? [];
+  const schema = factory(args, descriptor.message);
+
+  // Wrap instead of tagging, factories may return shared schema instances
+  return withDescriptor(
+    { '~standard': schema['~standard'] },
+    descriptor.name,
+    args,
+    descriptor.message
+  );
+}
+
+/**
+ * Checks whether a validation rule is a descriptor rather than a Standard Schema
+ */
+export function isValidatorDescriptor(validator: unknown): validator is ValidatorDescriptor {
+  return (
+    validator !== null &&
+    typeof validator === 'object' &&
+    !('~standard' in validator) &&
+    typeof (validator as Record<string, unknown>).name === 'string'
+  );
+}
+
+/**
+ * Replaces the descriptors of a validation config by the validators they reference,
+ * Standard Schemas are kept as is
+ *
+ * @throws Error if a descriptor references an unknown validator or has invalid arguments
+ */
+export function resolveFieldValidation(
+  validation: FieldValidationConfig | undefined,
+  factories: Record<string, ValidatorFactory> = builtInValidators
+): FieldValidationConfig | undefined {
+  if (!validation?.validate) {
+    return validation;
+  }
+
+  const resolve = (validator: FieldValidationRule) =>
+    isValidatorDescriptor(validator)
+      ? createValidatorFromDescriptor(validator, factories)
+      : validator;
+
+  return {
+    ...validation,
+    validate: Array.isArray(validation.validate)
+      ? validation.validate.map(resolve)
+      : resolve(validation.validate),
+  };
+}
@@ -1,5 +1,5 @@
 import { describe, expect, test } from 'vitest';
-import { evaluateCondition, when } from '../../src/conditions';
+import { all, any, evaluateCondition, field, not, when } from '../../src/conditions';
 
 describe('Condition System', () => {
   describe('Basic Conditions', () => {
@@ -176,6 +176,196 @@ describe('Condition System', () => {
     });
   });
 
+  describe('Extended Operators', () => {
+    test('between condition is inclusive', () => {
+      const condition = when('age').between(18, 65).build();
+      expect(condition.value).toEqual([18, 65]);
+      expect(evaluateCondition(condition, { age: 18 })).toBe(true);
+      expect(evaluateCondition(condition, { age: 65 })).toBe(true);
+      expect(evaluateCondition(condition, { age: 70 })).toBe(false);
+      expect(evaluateCondition(condition, { age: '30' })).toBe(false);
+    });
+
+    test('isEmpty and isNotEmpty conditions', () => {
+      const empty = when('notes').isEmpty().build();
+      expect(evaluateCondition(empty, {})).toBe(true);
+      expect(evaluateCondition(empty, { notes: '  ' })).toBe(true);
+      expect(evaluateCondition(empty, { notes: [] })).toBe(true);
+      expect(evaluateCondition(empty, { notes: 0 })).toBe(false);
+      expect(
+        when('notes')
+          .isNotEmpty()
+          .evaluate({ notes: ['a'] })
+      ).toBe(true);
+    });
+
+    test('length conditions on strings and arrays', () => {
+      expect(when('name').lengthGreaterThan(2).evaluate({ name: 'Bob' })).toBe(true);
+      expect(
+        when('tags')
+          .lengthGreaterThan(2)
+          .evaluate({ tags: ['a', 'b'] })
+      ).toBe(false);
+      expect(
+        when('tags')
+          .lengthLessThan(3)
+          .evaluate({ tags: ['a', 'b'] })
+      ).toBe(true);
+      expect(when('count').lengthLessThan(3).evaluate({ count: 1 })).toBe(false);
+    });
+
+    test('date conditions', () => {
+      const condition = when('startDate').after(new Date('2024-01-01T00:00:00.000Z')).build();
+      expect(condition.value).toBe('2024-01-01T00:00:00.000Z');
+      expect(evaluateCondition(condition, { startDate: '2024-03-01' })).toBe(true);
+      expect(evaluateCondition(condition, { startDate: new Date('2023-12-31') })).toBe(false);
+      expect(evaluateCondition(condition, { startDate: 'not a date' })).toBe(false);
+
+      expect(when('startDate').before('2024-01-01').evaluate({ startDate: '2023-06-15' })).toBe(
+        true
+      );
+      expect(
+        when('startDate').between('2024-01-01', '2024-12-31').evaluate({ startDate: '2024-06-15' })
+      ).toBe(true);
+    });
+
+    test('withinDays condition', () => {
+      const condition = when('deliveryDate').withinDays(7).build();
+      const inDays = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+
+      expect(evaluateCondition(condition, { deliveryDate: inDays(3) })).toBe(true);
+      expect(evaluateCondition(condition, { deliveryDate: inDays(-3).toISOString() })).toBe(true);
+      expect(evaluateCondition(condition, { deliveryDate: inDays(10) })).toBe(false);
+    });
+
+    test('startsWith and endsWith conditions', () => {
+      expect(when('iban').startsWith('FR').evaluate({ iban: 'FR76 3000' })).toBe(true);
+      expect(when('email').endsWith('@acme.com').evaluate({ email: 'a@acme.org' })).toBe(false);
+      expect(when('code').startsWith('1').evaluate({ code: 12 })).toBe(false);
+    });
+
+    test('containsAny and containsAll conditions', () => {
+      const data = { products: ['health', 'auto'] };
+      expect(when('products').containsAny(['auto', 'home']).evaluate(data)).toBe(true);
+      expect(when('products').containsAny(['home']).evaluate(data)).toBe(false);
+      expect(when('products').containsAll(['health', 'auto']).evaluate(data)).toBe(true);
+      expect(when('products').containsAll(['health', 'home']).evaluate(data)).toBe(false);
+      expect(when('products').containsAll(['health']).evaluate({ products: 'health' })).toBe(false);
+    });
+  });
+
+  describe('Field References', () => {
+    test('compares against the value of another field', () => {
+      const condition = when('endDate').greaterThan(field('startDate')).build();
+      expect(condition.value).toEqual({ field: 'startDate' });
+
+      expect(evaluateCondition(condition, { startDate: '2024-01-01', endDate: '2024-02-01' })).toBe(
+        true
+      );
+      expect(evaluateCondition(condition, { startDate: '2024-03-01', endDate: '2024-02-01' })).toBe(
+        false
+      );
+      expect(evaluateCondition(condition, { endDate: '2024-02-01' })).toBe(false);
+    });
+
+    test('resolves references with nested paths and in ranges', () => {
+      expect(
+        when('confirm')
+          .equals(field('account.password'))
+          .evaluate({
+            confirm: 'secret',
+            account: { password: 'secret' },
+          })
+      ).toBe(true);
+      expect(
+        when('amount')
+          .between(field('min'), field('max'))
+          .evaluate({ amount: 50, min: 10, max: 100 })
+      ).toBe(true);
+    });
+  });
+
+  describe('Condition Groups', () => {
+    test('not() negates a condition', () => {
+      const condition = not(when('status').in(['archived', 'deleted'])).build();
+
+      expect(condition).toEqual({
+        field: '',
+        operator: 'exists',
+        logicalOperator: 'not',
+        conditions: [{ field: 'status', operator: 'in', value: ['archived', 'deleted'] }],
+      });
+      expect(evaluateCondition(condition, { status: 'active' })).toBe(true);
+      expect(evaluateCondition(condition, { status: 'deleted' })).toBe(false);
+    });
+
+    test('all() and any() accept any number of conditions', () => {
+      const condition = all(
+        when('country').equals('FR'),
+        any(when('age').lessThan(26), when('student').equals(true), when('unemployed').exists()),
+        not(when('banned').equals(true))
+      );
+
+      expect(condition.evaluate({ country: 'FR', age: 30, student: true })).toBe(true);
+      expect(condition.evaluate({ country: 'FR', age: 30 })).toBe(false);
+      expect(condition.evaluate({ country: 'FR', age: 20, banned: true })).toBe(false);
+      expect(condition.evaluate({ country: 'DE', age: 20 })).toBe(false);
+    });
+
+    test('groups combine with the fluent and/or', () => {
+      const condition = when('plan')
+        .equals('pro')
+        .or(all(when('plan').equals('free'), not(when('trialExpired').equals(true))));
+
+      expect(condition.evaluate({ plan: 'pro' })).toBe(true);
+      expect(condition.evaluate({ plan: 'free' })).toBe(true);
+      expect(condition.evaluate({ plan: 'free', trialExpired: true })).toBe(false);
+    });
+
+    test('evaluation short-circuits', () => {
+      const visited: string[] = [];
+      const data = new Proxy({ a: 1, b: 2, c: 3 } as Record<string, number>, {
+        has: (target, key) => {
+          visited.push(String(key));
+          return key in target;
+        },
+      });
+
+      expect(evaluateCondition(any(when('a').exists(), when('b').exists()), data)).toBe(true);
+      expect(visited).not.toContain('b');
+
+      visited.length = 0;
+      expect(evaluateCondition(all(when('z').exists(), when('c').exists()), data)).toBe(false);
+      expect(visited).not.toContain('c');
+    });
+
+    test('build() output is stable and JSON-serializable', () => {
+      const createCondition = () =>
+        all(
+          when('startDate').after(new Date('2024-01-01T00:00:00.000Z')),
+          not(when('name').matches(/^test/)),
+          when('endDate').greaterThan(field('startDate')).or(when('open').equals(true))
+        );
+      const condition = createCondition().build();
+
+      expect(JSON.parse(JSON.stringify(condition))).toEqual(condition);
+      expect(JSON.stringify(createCondition().build())).toBe(JSON.stringify(condition));
+      expect(condition.conditions?.[0]).toStrictEqual({
+        field: 'startDate',
+        operator: 'after',
+        value: '2024-01-01T00:00:00.000Z',
+      });
+    });
+
+    test('build() output does not change with the builder', () => {
+      const builder = when('a').equals(1);
+      const condition = builder.build();
+      builder.and(when('b').equals(2));
+
+      expect(condition).toStrictEqual({ field: 'a', operator: 'equals', value: 1 });
+    });
+  });
+
   describe('Builder Pattern', () => {
     test('fluent API with method chaining', () => {
       const builder = when('field1').equals('value1');
@@ -1,8 +1,10 @@
 import { describe, expect, it } from 'vitest';
 import {
   type ConditionConfig,
+  ConditionDependencyGraph,
   extractAllDependencies,
   extractConditionDependencies,
+  field,
   when,
 } from '../../src/conditions';
 
@@ -145,6 +147,28 @@ describe('extractConditionDependencies', () => {
   });
 });
 
+describe('field references', () => {
+  it('should extract fields referenced by the condition value', () => {
+    const condition = when('endDate')
+      .after(field('startDate'))
+      .and(when('amount').between(field('min'), 100));
+
+    expect(extractConditionDependencies(condition)).toEqual([
+      'endDate',
+      'startDate',
+      'amount',
+      'min',
+    ]);
+  });
+
+  it('should make the dependency graph track referenced fields', () => {
+    const graph = new ConditionDependencyGraph();
+    graph.addField('endDate', { visible: when('endDate').after(field('startDate')) });
+
+    expect(graph.getAffectedFields('startDate')).toEqual(['endDate']);
+  });
+});
+
 describe('extractAllDependencies', () => {
   it('should extract dependencies from multiple condition types', () => {
     const behaviors = {
@@ -95,6 +95,42 @@ describe('ril - Immutable API', () => {
     });
   });
 
+  describe('validator registry', () => {
+    it('should register built-in validators by default', () => {
+      const config = ril.create();
+
+      expect(config.getValidator('required')).toBeDefined();
+      expect(Object.keys(config.getValidators())).toEqual(
+        expect.arrayContaining(['required', 'email', 'minLength', 'pattern', 'max'])
+      );
+    });
+
+    it('should return a new instance when adding validators', () => {
+      const factory = vi.fn();
+      const original = ril.create().addComponent('text', { name: 'Text', renderer: vi.fn() });
+      const withPostalCode = original.addValidator('postalCode', factory);
+
+      expect(withPostalCode).not.toBe(original);
+      expect(original.getValidator('postalCode')).toBeUndefined();
+      expect(withPostalCode.getValidator('postalCode')).toBe(factory);
+      expect(withPostalCode.hasComponent('text')).toBe(true);
+    });
+
+    it('should keep validators across other immutable operations', () => {
+      const factory = vi.fn();
+      const config = ril
+        .create()
+        .addValidator('postalCode', factory)
+        .addComponent('text', { name: 'Text', renderer: vi.fn() })
+        .configure({ rowRenderer: vi.fn() });
+
+      expect(config.getValidator('postalCode')).toBe(factory);
+      expect(config.removeComponent('text').getValidator('postalCode')).toBe(factory);
+      expect(config.clear().getValidator('postalCode')).toBe(factory);
+      expect(config.clone().getValidator('postalCode')).toBe(factory);
+    });
+  });
+
   describe('clone method', () => {
     it('should create independent copy', () => {
       const original = ril
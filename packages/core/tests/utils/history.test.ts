@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { StateHistory, applyHistoryEntry } from '../../src/utils/history';
+
+describe('StateHistory', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const patch = (field: string, previous: unknown, next: unknown) => ({
+    path: ['values', field],
+    previous,
+    next,
+  });
+
+  it('should undo and redo recorded entries', () => {
+    const history = new StateHistory();
+    expect(history.canUndo()).toBe(false);
+
+    history.record([patch('name', undefined, 'a')]);
+    expect(history.canUndo()).toBe(true);
+
+    const entry = history.undo();
+    expect(entry?.patches).toEqual([patch('name', undefined, 'a')]);
+    expect(history.canUndo()).toBe(false);
+    expect(history.canRedo()).toBe(true);
+
+    expect(history.redo()).toBe(entry);
+    expect(history.canRedo()).toBe(false);
+    expect(history.undo()).toBe(entry);
+  });
+
+  it('should clear the redo stack when a new change is recorded', () => {
+    const history = new StateHistory();
+    history.record([patch('name', undefined, 'a')]);
+    history.undo();
+
+    history.record([patch('name', undefined, 'b')]);
+
+    expect(history.canRedo()).toBe(false);
+    expect(history.redo()).toBeNull();
+  });
+
+  it('should group changes with the same key within the grouping delay', () => {
+    const history = new StateHistory({ groupingMs: 300 });
+
+    history.record([patch('name', undefined, 'J')], 'name');
+    vi.advanceTimersByTime(200);
+    history.record([patch('name', 'J', 'Jo')], 'name');
+    vi.advanceTimersByTime(200);
+    history.record([patch('name', 'Jo', 'Joe')], 'name');
+
+    expect(history.undo()?.patches).toEqual([patch('name', undefined, 'Joe')]);
+    expect(history.canUndo()).toBe(false);
+  });
+
+  it('should not group changes separated by a pause or with different keys', () => {
+    const history = new StateHistory({ groupingMs: 300 });
+
+    history.record([patch('name', undefined, 'J')], 'name');
+    vi.advanceTimersByTime(400);
+    history.record([patch('name', 'J', 'Jo')], 'name');
+    history.record([patch('email', undefined, 'j@')], 'email');
+
+    expect(history.undo()?.groupKey).toBe('email');
+    expect(history.undo()?.patches).toEqual([patch('name', 'J', 'Jo')]);
+    expect(history.undo()?.patches).toEqual([patch('name', undefined, 'J')]);
+  });
+
+  it('should drop the oldest entries beyond the configured depth', () => {
+    const history = new StateHistory({ depth: 2 });
+
+    history.record([patch('a', undefined, 1)]);
+    history.record([patch('b', undefined, 2)]);
+    history.record([patch('c', undefined, 3)]);
+
+    expect(history.undo()?.patches[0].path).toEqual(['values', 'c']);
+    expect(history.undo()?.patches[0].path).toEqual(['values', 'b']);
+    expect(history.undo()).toBeNull();
+  });
+});
+
+describe('applyHistoryEntry', () => {
+  const state = {
+    currentStepIndex: 1,
+    values: { name: 'Joe', email: 'joe@example.com' },
+  };
+
+  const entry = {
+    patches: [
+      { path: ['values', 'name'], previous: undefined, next: 'Joe' },
+      { path: ['currentStepIndex'], previous: 0, next: 1 },
+    ],
+    timestamp: 0,
+  };
+
+  it('should restore previous values on undo', () => {
+    expect(applyHistoryEntry(state, entry, 'undo')).toEqual({
+      currentStepIndex: 0,
+      values: { email: 'joe@example.com' },
+    });
+  });
+
+  it('should re-apply next values on redo without mutating the state', () => {
+    const undone = { ...state, ...applyHistoryEntry(state, entry, 'undo') };
+
+    expect(applyHistoryEntry(undone, entry, 'redo')).toEqual({
+      currentStepIndex: 1,
+      values: { email: 'joe@example.com', name: 'Joe' },
+    });
+    expect(state.values.name).toBe('Joe');
+  });
+});
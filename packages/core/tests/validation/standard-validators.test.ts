@@ -1,4 +1,4 @@
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
 import {
   url,
   async,
@@ -249,6 +249,15 @@ describe('Standard Schema Built-in Validators', () => {
       expect(invalidResult.isValid).toBe(false);
       expect(invalidResult.errors[0].message).toBe('Value is already taken');
     });
+
+    it('should give the abort signal to the check', async () => {
+      const check = vi.fn(async () => true);
+      const controller = new AbortController();
+
+      await validateWithStandardSchema(async(check), 'value', controller.signal);
+
+      expect(check).toHaveBeenCalledWith('value', { signal: controller.signal });
+    });
   });
 
   describe('url validator', () => {
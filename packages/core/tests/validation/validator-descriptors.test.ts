@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createValidatorFromDescriptor,
+  custom,
+  email,
+  getValidatorDescriptor,
+  minLength,
+  pattern,
+  required,
+} from '../../src/validation';
+
+describe('Validator descriptors', () => {
+  it('should describe built-in validators by name and arguments', () => {
+    expect(getValidatorDescriptor(required())).toEqual({ name: 'required' });
+    expect(getValidatorDescriptor(minLength(3, 'Too short'))).toEqual({
+      name: 'minLength',
+      args: [3],
+      message: 'Too short',
+    });
+    expect(getValidatorDescriptor(pattern(/^[a-z]+$/i))).toEqual({
+      name: 'pattern',
+      args: ['^[a-z]+$', 'i'],
+    });
+  });
+
+  it('should not describe custom validators', () => {
+    expect(getValidatorDescriptor(custom(() => true))).toBeUndefined();
+  });
+
+  it('should recreate validators from their descriptor', async () => {
+    const validator = createValidatorFromDescriptor({ name: 'minLength', args: [3] });
+
+    expect(await validator['~standard'].validate('ab')).toEqual({
+      issues: [{ message: 'Must be at least 3 characters long' }],
+    });
+    expect(getValidatorDescriptor(validator)).toEqual({ name: 'minLength', args: [3] });
+  });
+
+  it('should keep custom messages', async () => {
+    const validator = createValidatorFromDescriptor(
+      getValidatorDescriptor(email('Invalid email'))!
+    );
+
+    expect(await validator['~standard'].validate('nope')).toEqual({
+      issues: [{ message: 'Invalid email' }],
+    });
+  });
+
+  it('should reject unknown validators and invalid arguments', () => {
+    expect(() => createValidatorFromDescriptor({ name: 'postalCode' })).toThrow(
+      'Unknown validator "postalCode"'
+    );
+    expect(() => createValidatorFromDescriptor({ name: 'minLength', args: ['3'] })).toThrow(
+      'Validator "minLength" expects a number as argument 1'
+    );
+  });
+});
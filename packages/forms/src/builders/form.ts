@@ -1,19 +1,45 @@
 import {
+  type ComponentValueOf,
+  type ComputedFieldConfig,
   type ConditionalBehavior,
+  type FieldEffect,
   type FieldValidationConfig,
   type FormConfiguration,
   type FormFieldConfig,
   type FormFieldRow,
+  type FormPersistenceConfig,
   type FormRepeatableRow,
   type FormRowEntry,
   type FormValidationConfig,
+  type HiddenFieldPolicy,
   IdGenerator,
+  type InferOutput,
+  type OptionsLoaderConfig,
   type RepeatableFieldConfig,
+  SERIALIZATION_VERSION,
+  type SerializationIssue,
+  type StandardSchema,
   type SubmitOptions,
+  checkSerializationVersion,
   deepClone,
   ensureUnique,
+  isPlainObject,
+  resolveFieldValidation,
   type ril,
+  throwOnIssues,
 } from '@rilaykit/core';
+import {
+  type FormDefinitionJSON,
+  type FormJSON,
+  parseFormDefinition,
+  serializeFormDefinition,
+} from '../utils/form-json';
+import { createFormValuesSchema } from '../utils/form-values-schema';
+import {
+  type JsonSchema,
+  type JsonSchemaMapping,
+  generateFormFromJsonSchema,
+} from '../utils/json-schema';
 import { RepeatableBuilder } from './repeatable-builder';
 
 /**
@@ -46,8 +72,96 @@ export type FieldConfig<C extends Record<string, any>, T extends keyof C> = {
   validation?: FieldValidationConfig;
   /** Conditional behavior configuration for this field */
   conditions?: ConditionalBehavior;
+  /** Derives the value from other fields, e.g. `{ deps: ['price', 'qty'], compute }` */
+  computed?: ComputedFieldConfig;
+  /** What happens to the value when the field is hidden: `keep` (default), `clear`, `reset` or `exclude` */
+  whenHidden?: HiddenFieldPolicy;
+  /** Values set on other fields when conditions become true, e.g. `[{ when, set: { currency: 'EUR' } }]` */
+  effects?: FieldEffect[];
+  /** Loads the options of the field, e.g. `{ deps: ['country'], load: ({ deps, signal }) => ... }` */
+  optionsLoader?: OptionsLoaderConfig;
 };
 
+/**
+ * Field configurations of a single `add()` call, each checked against its own component
+ */
+export type FieldConfigs<C extends Record<string, any>, F extends readonly unknown[]> = {
+  [I in keyof F]: F[I] extends { type: infer T extends keyof C & string }
+    ? FieldConfig<C, T>
+    : FieldConfig<C, keyof C & string>;
+};
+
+/** Union of the outputs of the schemas of a validation rule, `never` when untyped */
+type RuleOutput<R> = R extends readonly (infer E)[]
+  ? RuleOutput<E>
+  : R extends StandardSchema
+    ? unknown extends InferOutput<R>
+      ? never
+      : InferOutput<R>
+    : never;
+
+/**
+ * Value type of a field: the result of its `computed` function, the value of its
+ * component, or the output of its validators when the component value is not typed
+ * (`email()` → string, `z.number()` → number)
+ */
+export type FieldValue<C extends Record<string, any>, F> = F extends {
+  computed: { compute: (...args: any[]) => infer R };
+}
+  ? R
+  : F extends {
+        type: infer T extends keyof C;
+      }
+    ? unknown extends ComponentValueOf<C[T]>
+      ? F extends { validation?: { validate?: infer R } }
+        ? [RuleOutput<R>] extends [never]
+          ? unknown
+          : RuleOutput<R>
+        : unknown
+      : ComponentValueOf<C[T]>
+    : unknown;
+
+/** Values of a repeatable: a list of items, keyed by its literal id */
+export type RepeatableValues<Id extends string, TItem> = string extends Id
+  ? Record<string, unknown>
+  : { [K in Id]: TItem[] };
+
+/** Flattens accumulated intersections */
+export type Simplify<T> = { [K in keyof T]: T[K] };
+
+/** Ids of field configurations, `string` for ids that are not literals */
+type FieldIds<F> = F extends unknown ? ('id' extends keyof F ? F['id' & keyof F] : never) : never;
+
+/**
+ * Values contributed by fields, keyed by id
+ *
+ * Every value is optional, since hidden, skipped or untouched fields may be missing from
+ * the submitted data. Fields with a non-literal id widen the values to a record, fields
+ * without an id are not part of the type.
+ */
+export type FieldValues<C extends Record<string, any>, F extends readonly unknown[]> = {
+  [E in F[number] as E extends { id: infer Id extends string }
+    ? string extends Id
+      ? never
+      : Id
+    : never]?: FieldValue<C, E>;
+} & (string extends FieldIds<F[number]> ? Record<string, unknown> : unknown);
+
+/**
+ * Values submitted by a form builder or a built form
+ *
+ * @example
+ * ```typescript
+ * const signupForm = form.create(rilConfig, 'signup').add({ id: 'email', type: 'email' });
+ * type SignupValues = InferFormValues<typeof signupForm>; // { email?: string }
+ * ```
+ */
+export type InferFormValues<T> = T extends form<any, infer TValues>
+  ? TValues
+  : T extends FormConfiguration<any, infer TValues>
+    ? TValues
+    : never;
+
 /**
  * Form builder for creating type-safe form configurations
  *
@@ -87,10 +201,14 @@ export type FieldConfig<C extends Record<string, any>, T extends keyof C> = {
  * - Array:    .add([fieldA, fieldB]) => explicit single row
  * - >3 fields (variadic) => split across multiple rows automatically
  *
- * Output of .build(): FormConfiguration<C>
+ * Output of .build(): FormConfiguration<C, TValues>
  * - id, rows, allFields, renderConfig (from ril), optional validation
+ * - TValues maps the ids of the added fields to their values, typing `onSubmit`
  */
-export class form<C extends Record<string, any> = Record<string, never>> {
+export class form<
+  C extends Record<string, any> = Record<string, never>,
+  TValues extends Record<string, any> = Record<never, never>,
+> {
   /** The ril configuration instance containing component definitions */
   private config: ril<C>;
   /** Array of form rows containing field configurations */
@@ -103,6 +221,8 @@ export class form<C extends Record<string, any> = Record<string, never>> {
   private formValidation?: FormValidationConfig;
   /** Default submit options for this form */
   private _submitOptions?: SubmitOptions;
+  /** Draft persistence configuration */
+  private _persistence?: FormPersistenceConfig;
 
   /**
    * Creates a new form builder instance
@@ -141,6 +261,62 @@ export class form<C extends Record<string, any> = Record<string, never>> {
     return new form<Cm>(config, formId);
   }
 
+  /**
+   * Generates a form builder from a JSON Schema (draft 2020-12) object schema
+   *
+   * Each property becomes a field whose component is picked by `mapping` from its type,
+   * format or set of values (string → text, enum → select, boolean → checkbox by default).
+   * Nested objects are flattened into dot-path field ids (`address.city`) and arrays of
+   * objects become repeatables. `required`, `minLength`, `maxLength`, `pattern`,
+   * `minimum`, `maximum` and the `email` / `uri` formats are translated into validator
+   * descriptors. The returned builder can be customized like any other form.
+   *
+   * @param config - The ril configuration the mapped components are registered on
+   * @param schema - Object schema, local `$ref` and `allOf` are resolved
+   * @param mapping - Components of types, formats and fields, and additional props
+   * @returns A new form builder with a row per field
+   * @throws SerializationError listing every property that cannot be mapped
+   *
+   * @example
+   * ```typescript
+   * const signupForm = form
+   *   .fromJsonSchema(rilConfig, signupSchema, {
+   *     formId: 'signup',
+   *     formats: { date: 'date-picker' },
+   *     fields: { bio: 'textarea' },
+   *   })
+   *   .setSubmitOptions({ skipInvalid: true })
+   *   .build();
+   * ```
+   */
+  static fromJsonSchema<Cm extends Record<string, any> = Record<string, never>>(
+    config: ril<Cm>,
+    schema: JsonSchema,
+    mapping: JsonSchemaMapping<Cm> = {}
+  ): form<Cm, Record<string, unknown>> {
+    const issues: SerializationIssue[] = [];
+    const entries = generateFormFromJsonSchema(schema, config, mapping, issues);
+    throwOnIssues('Cannot generate a form from JSON Schema', issues);
+
+    const builder = new form<Cm, Record<string, unknown>>(config, mapping.formId);
+    for (const entry of entries) {
+      if (entry.kind === 'field') {
+        builder.add(entry.field as FieldConfig<Cm, keyof Cm & string>);
+        continue;
+      }
+
+      builder.addRepeatable(entry.id, (repeatable) => {
+        repeatable.addSeparateRows(entry.fields as FieldConfig<Cm, keyof Cm & string>[]);
+        if (entry.min !== undefined) repeatable.min(entry.min);
+        if (entry.max !== undefined) repeatable.max(entry.max);
+        if (entry.defaultValue) repeatable.defaultValue(entry.defaultValue);
+        return repeatable;
+      });
+    }
+
+    return builder;
+  }
+
   /**
    * Converts a FieldConfig to a FormFieldConfig
    *
@@ -178,6 +354,9 @@ export class form<C extends Record<string, any> = Record<string, never>> {
           fieldConfig.validation?.validateOnChange ?? component.validation?.validateOnChange,
         validateOnBlur:
           fieldConfig.validation?.validateOnBlur ?? component.validation?.validateOnBlur,
+        mode: fieldConfig.validation?.mode ?? component.validation?.mode,
+        reValidateMode:
+          fieldConfig.validation?.reValidateMode ?? component.validation?.reValidateMode,
         debounceMs: fieldConfig.validation?.debounceMs ?? component.validation?.debounceMs,
 
         // Combine validation rules: merge component and field validation
@@ -206,6 +385,10 @@ export class form<C extends Record<string, any> = Record<string, never>> {
       props: { ...component.defaultProps, ...fieldConfig.props },
       validation: combinedValidation,
       conditions: fieldConfig.conditions,
+      computed: fieldConfig.computed,
+      whenHidden: fieldConfig.whenHidden,
+      effects: fieldConfig.effects,
+      optionsLoader: fieldConfig.optionsLoader,
     };
   }
 
@@ -252,7 +435,8 @@ export class form<C extends Record<string, any> = Record<string, never>> {
    * - Multiple fields (>3): Creates separate rows for each field
    * - Array with options: Explicit control over row configuration
    *
-   * @template T - The component type
+   * @template F - The field configurations, whose literal ids and value types are added
+   * to the values of the form
    * @param fields - Field configurations (variadic or array)
    * @returns The form builder instance for method chaining
    * @throws Error if no fields provided or invalid configuration
@@ -275,10 +459,16 @@ export class form<C extends Record<string, any> = Record<string, never>> {
    * ], { spacing: 'loose', alignment: 'center' });
    * ```
    */
-  add<T extends keyof C & string>(...fields: FieldConfig<C, T>[]): this;
-  add<T extends keyof C & string>(fields: FieldConfig<C, T>[]): this;
-  add<T extends keyof C & string>(...args: FieldConfig<C, T>[] | [FieldConfig<C, T>[]]): this {
-    let fieldConfigs: FieldConfig<C, T>[];
+  add<const F extends readonly FieldConfig<C, keyof C & string>[]>(
+    ...fields: F & FieldConfigs<C, F>
+  ): form<C, Simplify<TValues & FieldValues<C, F>>>;
+  add<const F extends readonly FieldConfig<C, keyof C & string>[]>(
+    fields: F & FieldConfigs<C, F>
+  ): form<C, Simplify<TValues & FieldValues<C, F>>>;
+  add(
+    ...args: FieldConfig<C, keyof C & string>[] | [FieldConfig<C, keyof C & string>[]]
+  ): form<C, any> {
+    let fieldConfigs: FieldConfig<C, keyof C & string>[];
     let isExplicitArray = false;
 
     // Check if first argument is an array (explicit array syntax)
@@ -287,7 +477,7 @@ export class form<C extends Record<string, any> = Record<string, never>> {
       isExplicitArray = true;
     } else {
       // Variadic arguments - all arguments should be field configs
-      fieldConfigs = args as FieldConfig<C, T>[];
+      fieldConfigs = args as FieldConfig<C, keyof C & string>[];
     }
 
     if (fieldConfigs.length === 0) {
@@ -329,7 +519,7 @@ export class form<C extends Record<string, any> = Record<string, never>> {
    * regardless of the number of fields. It's an alternative to the add() method
    * when you need explicit control over row separation.
    *
-   * @template T - The component type
+   * @template F - The field configurations
    * @param fieldConfigs - Array of field configurations
    * @returns The form builder instance for method chaining
    *
@@ -343,7 +533,10 @@ export class form<C extends Record<string, any> = Record<string, never>> {
    * ]);
    * ```
    */
-  addSeparateRows<T extends keyof C & string>(fieldConfigs: FieldConfig<C, T>[]): this {
+  addSeparateRows<const F extends readonly FieldConfig<C, keyof C & string>[]>(
+    fieldConfigs: F & FieldConfigs<C, F>
+  ): form<C, Simplify<TValues & FieldValues<C, F>>>;
+  addSeparateRows(fieldConfigs: FieldConfig<C, keyof C & string>[]): form<C, any> {
     for (const config of fieldConfigs) {
       // Use array syntax to ensure we're using the correct overload
       this.add(config);
@@ -357,6 +550,8 @@ export class form<C extends Record<string, any> = Record<string, never>> {
    * Repeatable fields allow users to add/remove instances of a group of fields
    * at runtime (e.g., "Add another item", "Add another contact").
    *
+   * The values of the form gain an array of the template values under `id`.
+   *
    * @param id - Unique identifier for the repeatable group (cannot contain [ or ])
    * @param configure - Callback receiving a RepeatableBuilder for fluent configuration
    * @returns The form builder instance for method chaining
@@ -374,10 +569,14 @@ export class form<C extends Record<string, any> = Record<string, never>> {
    * );
    * ```
    */
+  addRepeatable<const Id extends string, TItem extends Record<string, any>>(
+    id: Id,
+    configure: (builder: RepeatableBuilder<C>) => RepeatableBuilder<C, TItem>
+  ): form<C, Simplify<TValues & RepeatableValues<Id, TItem>>>;
   addRepeatable(
     id: string,
-    configure: (builder: RepeatableBuilder<C>) => RepeatableBuilder<C>
-  ): this {
+    configure: (builder: RepeatableBuilder<C>) => RepeatableBuilder<C, any>
+  ): form<C, any> {
     // Validate ID — brackets are reserved for composite keys
     if (id.includes('[') || id.includes(']')) {
       throw new Error(
@@ -587,6 +786,9 @@ export class form<C extends Record<string, any> = Record<string, never>> {
    * form is submitted or when validation is explicitly triggered. Form validators
    * receive all form data and can perform cross-field validation.
    *
+   * Its `mode` and `reValidateMode` set when every field is validated, before and after
+   * the first submit, fields can override them in their own `validation`.
+   *
    * @param validationConfig - Form validation configuration
    * @returns The form builder instance for method chaining
    *
@@ -632,6 +834,28 @@ export class form<C extends Record<string, any> = Record<string, never>> {
     return this;
   }
 
+  /**
+   * Enables draft autosave for this form
+   *
+   * Values and touched state are saved with the given adapter after each change,
+   * restored when the form mounts and cleared after a successful submit.
+   *
+   * @param persistence - Persistence configuration
+   * @returns The form builder instance for method chaining
+   *
+   * @example
+   * ```typescript
+   * builder.setPersistence({
+   *   adapter: new LocalStorageAdapter({ keyPrefix: 'drafts_' }),
+   *   debounceMs: 1000,
+   * });
+   * ```
+   */
+  setPersistence(persistence: FormPersistenceConfig): this {
+    this._persistence = persistence;
+    return this;
+  }
+
   /**
    * Adds validators to the form-level validation
    *
@@ -739,8 +963,8 @@ export class form<C extends Record<string, any> = Record<string, never>> {
    *   .add({ type: 'text', props: { label: 'Additional field' } });
    * ```
    */
-  clone(newFormId?: string): form<C> {
-    const cloned = new form<C>(this.config, newFormId || `${this.formId}-clone`);
+  clone(newFormId?: string): form<C, TValues> {
+    const cloned = new form<C, TValues>(this.config, newFormId || `${this.formId}-clone`);
     cloned.rows = deepClone(this.rows);
     return cloned;
   }
@@ -825,9 +1049,60 @@ export class form<C extends Record<string, any> = Record<string, never>> {
       }
     }
 
+    // Check that validator descriptors resolve against the validator registry
+    this.resolveRows(errors);
+
     return errors;
   }
 
+  /**
+   * Resolves the validator descriptors of fields and repeatables against the validator
+   * registry of the ril instance
+   *
+   * @param errors - Receives the descriptors that cannot be resolved, which are left as is
+   * @returns Rows whose validation only holds Standard Schemas
+   *
+   * @internal
+   */
+  private resolveRows(errors: string[]): FormRowEntry[] {
+    const factories = this.config.getValidators();
+
+    const resolve = (validation: FieldValidationConfig | undefined, owner: string) => {
+      try {
+        return resolveFieldValidation(validation, factories);
+      } catch (error) {
+        errors.push(`${owner}: ${error instanceof Error ? error.message : String(error)}`);
+        return validation;
+      }
+    };
+    const resolveRow = (row: FormFieldRow): FormFieldRow => ({
+      ...row,
+      fields: row.fields.map((field) =>
+        field.validation
+          ? { ...field, validation: resolve(field.validation, `Field "${field.id}"`) }
+          : field
+      ),
+    });
+
+    return this.rows.map((row): FormRowEntry => {
+      if (row.kind === 'fields') {
+        return resolveRow(row);
+      }
+
+      const { repeatable } = row;
+      const rows = repeatable.rows.map(resolveRow);
+      return {
+        ...row,
+        repeatable: {
+          ...repeatable,
+          rows,
+          allFields: rows.flatMap((repeatableRow) => repeatableRow.fields),
+          validation: resolve(repeatable.validation, `Repeatable "${repeatable.id}"`),
+        },
+      };
+    });
+  }
+
   /**
    * Builds the final form configuration
    *
@@ -852,14 +1127,17 @@ export class form<C extends Record<string, any> = Record<string, never>> {
    * - Render configuration for customization
    * - Form-level validation configuration
    */
-  build(): FormConfiguration<C> {
+  build(): FormConfiguration<C, TValues> {
     const errors = this.validate();
     if (errors.length > 0) {
       throw new Error(`Form validation failed: ${errors.join(', ')}`);
     }
 
+    // Validator descriptors are known to resolve at this point
+    const rows = this.resolveRows([]);
+
     // Build repeatableFields index
-    const repeatableRows = this.rows.filter(
+    const repeatableRows = rows.filter(
       (row): row is FormRepeatableRow => row.kind === 'repeatable'
     );
     const repeatableFields: Record<string, RepeatableFieldConfig> | undefined =
@@ -869,23 +1147,30 @@ export class form<C extends Record<string, any> = Record<string, never>> {
 
     return {
       id: this.formId,
-      rows: [...this.rows],
-      allFields: this.getFields(),
+      rows,
+      allFields: rows
+        .filter((row): row is FormFieldRow => row.kind === 'fields')
+        .flatMap((row) => row.fields),
       repeatableFields,
       config: this.config,
       renderConfig: this.config.getFormRenderConfig(),
-      validation: this.formValidation,
+      validation: this.formValidation as FormValidationConfig<TValues> | undefined,
       submitOptions: this._submitOptions,
+      persistence: this._persistence,
     };
   }
 
   /**
    * Exports the form configuration as JSON
    *
-   * This method serializes the form configuration to a plain JavaScript
-   * object suitable for storage, transmission, or debugging.
+   * The output is a versioned document (see `FORM_JSON_SCHEMA`) covering fields,
+   * repeatables, conditions, validators, form validation and submit options, that
+   * `fromJSON()` restores as is. Validators are stored by name, so only validators
+   * registered on the ril instance can be exported; persistence adapters are code and
+   * are left out.
    *
-   * @returns Plain object representation of the form
+   * @returns JSON document describing the form
+   * @throws SerializationError listing every value that cannot be represented in JSON
    *
    * @example
    * ```typescript
@@ -893,22 +1178,33 @@ export class form<C extends Record<string, any> = Record<string, never>> {
    * localStorage.setItem('savedForm', JSON.stringify(formJson));
    * ```
    */
-  toJSON(): any {
-    return {
-      id: this.formId,
-      rows: this.rows,
-    };
+  toJSON(): FormJSON {
+    const issues: SerializationIssue[] = [];
+    const definition = serializeFormDefinition(
+      {
+        id: this.formId,
+        rows: this.rows,
+        validation: this.formValidation,
+        submitOptions: this._submitOptions,
+      },
+      '',
+      issues
+    );
+    throwOnIssues(`Cannot serialize form "${this.formId}"`, issues);
+
+    return { version: SERIALIZATION_VERSION, ...definition };
   }
 
   /**
    * Imports form configuration from JSON
    *
-   * This method restores form state from a previously exported JSON
-   * configuration. It's useful for loading saved forms or restoring
-   * form state from external sources.
+   * This method restores a form exported with `toJSON()`. The document is validated
+   * first: unknown properties, wrong types, unregistered components and unknown
+   * validators are all reported, with their JSON path, in a single error.
    *
-   * @param json - The JSON object containing form configuration
+   * @param json - The JSON document describing the form
    * @returns The form builder instance for method chaining
+   * @throws SerializationError if the document is invalid
    *
    * @example
    * ```typescript
@@ -917,24 +1213,50 @@ export class form<C extends Record<string, any> = Record<string, never>> {
    * ```
    *
    * @remarks
-   * - Only imports basic form structure (ID and rows)
-   * - Does not validate imported configuration
-   * - Existing form content is replaced
+   * - Documents without `version`, exported by older releases, are still accepted
+   * - Existing form content is replaced, and the values are no longer typed
    */
-  fromJSON(json: any): this {
-    if (json.id) this.formId = json.id;
-    if (json.rows) {
-      // Add kind: 'fields' to legacy rows that don't have a kind discriminant
-      this.rows = json.rows.map((row: any) => {
-        if (!row.kind) {
-          return { ...row, kind: 'fields' as const };
-        }
-        return row;
-      });
+  fromJSON(json: FormDefinitionJSON | Record<string, unknown>): form<C, Record<string, unknown>> {
+    const issues: SerializationIssue[] = [];
+    if (isPlainObject(json)) {
+      checkSerializationVersion(json, issues);
+    }
+
+    const definition = parseFormDefinition(json, this.config, '', issues, ['version', '$schema']);
+    throwOnIssues('Invalid form JSON', issues);
+
+    if (definition) {
+      this.formId = definition.id;
+      this.rows = definition.rows;
+      this.formValidation = definition.validation;
+      this._submitOptions = definition.submitOptions;
     }
     return this;
   }
 
+  /**
+   * Derives the JSON Schema (draft 2020-12) of the data the form submits
+   *
+   * Properties are the field ids, as `onSubmit` receives them, and repeatables are
+   * arrays of objects. Types come from the `valueSchema` of components, or are inferred
+   * from validators; `label`, `description` and `options` props become `title`,
+   * `description` and `enum`, and validators their JSON Schema keywords. Fields are
+   * required when they have a `required` validator and no visible/required condition.
+   *
+   * @returns JSON Schema of the submitted payload
+   * @throws Error if the form configuration is invalid, as `build()` does
+   *
+   * @example
+   * ```typescript
+   * const schema = builder.toJsonSchema();
+   * // Validate payloads server-side with any JSON Schema validator
+   * ajv.validate(schema, request.body);
+   * ```
+   */
+  toJsonSchema(): JsonSchema {
+    return createFormValuesSchema(this.build());
+  }
+
   /**
    * Gets comprehensive statistics about the form
    *
@@ -4,7 +4,7 @@ import type {
   RepeatableFieldConfig,
   ril,
 } from '@rilaykit/core';
-import { type FieldConfig, form } from './form';
+import { type FieldConfig, type FieldConfigs, type FieldValues, type Simplify, form } from './form';
 
 // =================================================================
 // REPEATABLE BUILDER
@@ -27,8 +27,14 @@ import { type FieldConfig, form } from './form';
  *   )
  *   .build()
  * ```
+ *
+ * @template TItem - Values of an item, accumulated from the template fields like
+ * `form.add()` does
  */
-export class RepeatableBuilder<C extends Record<string, any>> {
+export class RepeatableBuilder<
+  C extends Record<string, any>,
+  TItem extends Record<string, any> = Record<never, never>,
+> {
   private innerForm: form<C>;
   private _min?: number;
   private _max?: number;
@@ -43,9 +49,15 @@ export class RepeatableBuilder<C extends Record<string, any>> {
    * Add fields to the repeatable template
    * Same API as form.add() — variadic ≤3 puts them on the same row
    */
-  add<T extends keyof C & string>(...fields: FieldConfig<C, T>[]): this;
-  add<T extends keyof C & string>(fields: FieldConfig<C, T>[]): this;
-  add<T extends keyof C & string>(...args: FieldConfig<C, T>[] | [FieldConfig<C, T>[]]): this {
+  add<const F extends readonly FieldConfig<C, keyof C & string>[]>(
+    ...fields: F & FieldConfigs<C, F>
+  ): RepeatableBuilder<C, Simplify<TItem & FieldValues<C, F>>>;
+  add<const F extends readonly FieldConfig<C, keyof C & string>[]>(
+    fields: F & FieldConfigs<C, F>
+  ): RepeatableBuilder<C, Simplify<TItem & FieldValues<C, F>>>;
+  add(
+    ...args: FieldConfig<C, keyof C & string>[] | [FieldConfig<C, keyof C & string>[]]
+  ): RepeatableBuilder<C, any> {
     this.innerForm.add(...(args as any));
     return this;
   }
@@ -53,7 +65,10 @@ export class RepeatableBuilder<C extends Record<string, any>> {
   /**
    * Add fields each on their own row
    */
-  addSeparateRows<T extends keyof C & string>(fields: FieldConfig<C, T>[]): this {
+  addSeparateRows<const F extends readonly FieldConfig<C, keyof C & string>[]>(
+    fields: F & FieldConfigs<C, F>
+  ): RepeatableBuilder<C, Simplify<TItem & FieldValues<C, F>>>;
+  addSeparateRows(fields: FieldConfig<C, keyof C & string>[]): RepeatableBuilder<C, any> {
     this.innerForm.addSeparateRows(fields);
     return this;
   }
@@ -0,0 +1,21 @@
+#!/usr/bin/env node
+import { CLI_USAGE, runCli } from './run';
+
+const argv = process.argv.slice(2);
+
+if (argv.length === 0 || argv.includes('--help')) {
+  console.log(CLI_USAGE);
+} else {
+  runCli(argv).then(
+    (output) => {
+      if (!argv.includes('--out')) {
+        process.stdout.write(output);
+      }
+    },
+    (error: unknown) => {
+      console.error(`rilaykit-forms: ${error instanceof Error ? error.message : String(error)}`);
+      console.error(`\n${CLI_USAGE}`);
+      process.exitCode = 1;
+    }
+  );
+}
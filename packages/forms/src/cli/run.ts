@@ -0,0 +1,129 @@
+/**
+ * Commands of the `rilaykit-forms` executable
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename, extname, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { FormConfiguration } from '@rilaykit/core';
+import { createFormValuesSchema, generateFormValuesTypes } from '../utils/form-values-schema';
+import type { JsonSchema } from '../utils/json-schema';
+
+export const CLI_USAGE = `Usage:
+  rilaykit-forms types <input> [--export <name>] [--name <TypeName>] [--out <file.d.ts>]
+  rilaykit-forms schema <input> [--export <name>] [--out <file.json>]
+
+<input> is a JSON Schema file (.json), or a module exporting a form builder, a built
+form configuration or a JSON Schema (default export unless --export is given).`;
+
+interface CliOptions {
+  command: string;
+  input: string;
+  exportName: string;
+  typeName?: string;
+  out?: string;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const [command, ...rest] = argv;
+  const positional: string[] = [];
+  const flags: Record<string, string> = {};
+
+  for (let index = 0; index < rest.length; index++) {
+    const arg = rest[index];
+    if (arg.startsWith('--')) {
+      const value = rest[index + 1];
+      if (value === undefined || value.startsWith('--')) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      flags[arg.slice(2)] = value;
+      index++;
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  if (command !== 'types' && command !== 'schema') {
+    throw new Error(command ? `Unknown command "${command}"` : 'Missing command');
+  }
+  if (positional.length !== 1) {
+    throw new Error('Expected exactly one input');
+  }
+
+  const unknownFlag = Object.keys(flags).find((flag) => !['export', 'name', 'out'].includes(flag));
+  if (unknownFlag) {
+    throw new Error(`Unknown option --${unknownFlag}`);
+  }
+
+  return {
+    command,
+    input: positional[0],
+    exportName: flags.export ?? 'default',
+    typeName: flags.name,
+    out: flags.out,
+  };
+}
+
+function isFormConfiguration(value: unknown): value is FormConfiguration<any> {
+  return Boolean(value && typeof value === 'object' && 'allFields' in value && 'config' in value);
+}
+
+async function loadSchema(
+  path: string,
+  exportName: string
+): Promise<{ schema: JsonSchema; name: string }> {
+  const fallbackName = basename(path, extname(path));
+
+  if (extname(path) === '.json') {
+    const schema = JSON.parse(await readFile(path, 'utf8')) as JsonSchema;
+    return { schema, name: schema.title ?? fallbackName };
+  }
+
+  const module = await import(pathToFileURL(path).href);
+  const value = module[exportName];
+  if (!value || typeof value !== 'object') {
+    throw new Error(`Module "${path}" has no "${exportName}" export`);
+  }
+
+  if (typeof value.toJsonSchema === 'function') {
+    const schema = value.toJsonSchema() as JsonSchema;
+    return { schema, name: schema.title ?? fallbackName };
+  }
+  if (isFormConfiguration(value)) {
+    return { schema: createFormValuesSchema(value), name: value.id };
+  }
+  return { schema: value as JsonSchema, name: value.title ?? fallbackName };
+}
+
+function toTypeName(name: string): string {
+  const pascalCase = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('');
+  return /^[A-Za-z]/.test(pascalCase) ? `${pascalCase}Values` : `Form${pascalCase}Values`;
+}
+
+/**
+ * Runs a command, writing its output to `--out` when given
+ *
+ * @returns The generated output
+ * @throws Error on invalid arguments or inputs, with a message meant for the user
+ */
+export async function runCli(argv: string[], cwd: string = process.cwd()): Promise<string> {
+  const options = parseArgs(argv);
+  const { schema, name } = await loadSchema(resolve(cwd, options.input), options.exportName);
+
+  const output =
+    options.command === 'schema'
+      ? `${JSON.stringify(schema, null, 2)}\n`
+      : `// Generated by rilaykit-forms from ${options.input}, do not edit\n\n${generateFormValuesTypes(
+          schema,
+          options.typeName ?? toTypeName(name)
+        )}`;
+
+  if (options.out) {
+    await writeFile(resolve(cwd, options.out), output);
+  }
+  return output;
+}
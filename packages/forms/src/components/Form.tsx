@@ -1,25 +1,38 @@
-import type { FormConfiguration } from '@rilaykit/core';
+import type {
+  FormConfiguration,
+  FormPersistenceConfig,
+  HistoryOptions,
+  SubmissionResult,
+} from '@rilaykit/core';
 import { useMemo } from 'react';
 import { form } from '../builders/form';
 import { FormProvider } from './FormProvider';
 
-export interface FormProps {
-  formConfig: FormConfiguration<any> | form<any>;
+export interface FormProps<TValues extends Record<string, any> = Record<string, any>> {
+  formConfig: FormConfiguration<any, TValues> | form<any, TValues>;
   defaultValues?: Record<string, any>;
-  onSubmit?: (data: Record<string, any>) => void | Promise<void>;
+  /** Throwing or returning a SubmissionError shows its errors in the form */
+  onSubmit?: (data: TValues) => SubmissionResult;
   onFieldChange?: (fieldId: string, value: any, formData: Record<string, any>) => void;
+  history?: HistoryOptions | boolean;
+  persistence?: FormPersistenceConfig;
+  /** Values outside of the form that computed fields can depend on */
+  externalValues?: Record<string, unknown>;
   className?: string;
   children: React.ReactNode;
 }
 
-export function Form({
+export function Form<TValues extends Record<string, any> = Record<string, any>>({
   formConfig,
   defaultValues,
   onSubmit,
   onFieldChange,
+  history,
+  persistence,
+  externalValues,
   className,
   children,
-}: FormProps) {
+}: FormProps<TValues>) {
   // Auto-build if it's a form builder
   const resolvedFormConfig = useMemo(() => {
     if (formConfig instanceof form) {
@@ -34,6 +47,9 @@ export function Form({
       defaultValues={defaultValues}
       onSubmit={onSubmit}
       onFieldChange={onFieldChange}
+      history={history}
+      persistence={persistence}
+      externalValues={externalValues}
       className={className}
     >
       {children}
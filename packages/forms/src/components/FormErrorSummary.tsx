@@ -0,0 +1,132 @@
+import type {
+  ComponentRendererBaseProps,
+  FormErrorSummaryItem,
+  FormErrorSummaryRendererProps,
+  FormFieldConfig,
+} from '@rilaykit/core';
+import { ComponentRendererWrapper } from '@rilaykit/core';
+import React, { useCallback, useMemo } from 'react';
+import { useStore } from 'zustand';
+import { useFormErrors, useFormStore } from '../stores';
+import { getFieldsInOrder } from '../utils/field-focus';
+import { useFormConfigContext } from './FormProvider';
+
+export interface FormErrorSummaryProps
+  extends ComponentRendererBaseProps<FormErrorSummaryRendererProps> {}
+
+/**
+ * Reads the label of a field from its `label` prop
+ */
+function getFieldLabel(field: FormFieldConfig | undefined): string | undefined {
+  return typeof field?.props?.label === 'string' ? field.props.label : undefined;
+}
+
+/**
+ * Lists the errors of the form, with links moving the focus to the invalid fields
+ *
+ * Field errors are listed in the order of the fields, items of repeatables included, then
+ * come the form-level errors. Without an `errorSummaryRenderer`, a default list is rendered
+ * while the form has errors.
+ */
+export const FormErrorSummary = React.memo(function FormErrorSummary({
+  className,
+  ...props
+}: FormErrorSummaryProps) {
+  const { formConfig } = useFormConfigContext();
+  const store = useFormStore();
+  const repeatableOrder = useStore(store, (state) => state._repeatableOrder);
+  const { formErrors, fieldErrors } = useFormErrors();
+
+  const errors = useMemo(() => {
+    const items: FormErrorSummaryItem[] = [];
+    const listedFieldIds = new Set<string>();
+
+    const addFieldErrors = (fieldId: string, label: string | undefined) => {
+      listedFieldIds.add(fieldId);
+      for (const error of fieldErrors[fieldId] ?? []) {
+        items.push({ fieldId, label, error });
+      }
+    };
+
+    for (const { fieldId, field } of getFieldsInOrder(formConfig, repeatableOrder)) {
+      addFieldErrors(fieldId, getFieldLabel(field));
+    }
+
+    // Errors set on ids the form doesn't know, e.g. through setErrors
+    for (const fieldId of Object.keys(fieldErrors)) {
+      if (!listedFieldIds.has(fieldId)) {
+        addFieldErrors(fieldId, undefined);
+      }
+    }
+
+    for (const error of formErrors) {
+      items.push({ error });
+    }
+
+    return items;
+  }, [formConfig, repeatableOrder, fieldErrors, formErrors]);
+
+  const handleFocusField = useCallback(
+    (fieldId: string) => {
+      const handle = store.getState()._fieldHandles.get(fieldId);
+      if (handle) {
+        handle.focus();
+      } else {
+        document.getElementById(fieldId)?.focus();
+      }
+    },
+    [store]
+  );
+
+  const baseProps: FormErrorSummaryRendererProps = useMemo(
+    () => ({
+      errors,
+      onFocusField: handleFocusField,
+      className,
+    }),
+    [errors, handleFocusField, className]
+  );
+
+  const renderer = formConfig.renderConfig?.errorSummaryRenderer;
+
+  if (renderer || props.renderAs) {
+    return (
+      <ComponentRendererWrapper
+        name="FormErrorSummary"
+        renderer={renderer}
+        props={baseProps}
+        {...props}
+      />
+    );
+  }
+
+  if (errors.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={className} role="alert">
+      <ul>
+        {errors.map(({ fieldId, label, error }, index) => (
+          <li key={`${fieldId ?? ''}-${index}`}>
+            {fieldId ? (
+              <a
+                href={`#${fieldId}`}
+                onClick={(event) => {
+                  event.preventDefault();
+                  handleFocusField(fieldId);
+                }}
+              >
+                {label ? `${label}: ${error.message}` : error.message}
+              </a>
+            ) : (
+              error.message
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+});
+
+export default FormErrorSummary;
@@ -1,9 +1,28 @@
 import type { ComponentRenderProps, FormFieldConfig } from '@rilaykit/core';
-import React, { useCallback, useMemo } from 'react';
-import { useFieldActions, useFieldConditions, useFieldState, useFieldValue } from '../stores';
+import React, { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useFieldOptions } from '../hooks/useFieldOptions';
+import {
+  type FieldFocusHandle,
+  useFieldActions,
+  useFieldConditions,
+  useFieldState,
+  useFieldValue,
+  useFormStoreApi,
+} from '../stores';
 import { parseCompositeKey } from '../utils/repeatable-data';
+import { shouldValidateOn } from '../utils/validation-mode';
 import { useFormConfigContext } from './FormProvider';
 
+// Elements a field can be focused through, the first one of the field is used
+const FOCUSABLE_SELECTOR = [
+  'input:not([type="hidden"]):not([disabled])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  'button:not([disabled])',
+  '[contenteditable="true"]',
+  '[tabindex]:not([tabindex="-1"])',
+].join(', ');
+
 export interface FormFieldProps {
   fieldId: string;
   /** Pre-resolved field config (used by RepeatableItem to skip allFields lookup) */
@@ -30,6 +49,8 @@ export const FormField = React.memo(function FormField({
   const fieldState = useFieldState(fieldId);
   const conditions = useFieldConditions(fieldId);
   const { setValue, setTouched } = useFieldActions(fieldId);
+  const store = useFormStoreApi();
+  const wrapperRef = useRef<HTMLDivElement>(null);
 
   // Get field config — use prop if provided, otherwise lookup
   const fieldConfig = useMemo(() => {
@@ -67,15 +88,22 @@ export const FormField = React.memo(function FormField({
 
   const isValidating = fieldState.validationState === 'validating';
 
+  const fieldOptions = useFieldOptions({
+    fieldId,
+    optionsLoader: fieldConfig.optionsLoader,
+    formConfig,
+  });
+
   // Compute effective conditions
   const effectiveConditions = useMemo(
     () => ({
       isVisible: forceVisible || conditions.visible,
       isFieldDisabled: disabled || conditions.disabled,
       isFieldRequired: conditions.required || conditionsHelpers.isFieldRequired(fieldId),
-      isFieldReadonly: conditions.readonly,
+      // Computed fields are derived from other fields
+      isFieldReadonly: conditions.readonly || fieldConfig.computed !== undefined,
     }),
-    [forceVisible, disabled, conditions, conditionsHelpers, fieldId]
+    [forceVisible, disabled, conditions, conditionsHelpers, fieldId, fieldConfig.computed]
   );
 
   // Stable change handler
@@ -83,12 +111,26 @@ export const FormField = React.memo(function FormField({
     async (newValue: unknown) => {
       setValue(newValue);
 
-      // Validate immediately if configured OR if field is already touched
-      if (fieldConfig.validation?.validateOnChange || fieldState.touched) {
-        await validateField(fieldId, newValue);
+      // Validate as the validation mode says, after debounceMs if set
+      const shouldValidate = shouldValidateOn(
+        'change',
+        fieldConfig.validation,
+        formConfig.validation,
+        { touched: fieldState.touched, isSubmitted: store.getState().submitCount > 0 }
+      );
+      if (shouldValidate) {
+        await validateField(fieldId, newValue, { debounce: true });
       }
     },
-    [fieldId, setValue, validateField, fieldConfig.validation?.validateOnChange, fieldState.touched]
+    [
+      fieldId,
+      setValue,
+      validateField,
+      fieldConfig.validation,
+      formConfig.validation,
+      fieldState.touched,
+      store,
+    ]
   );
 
   // Stable blur handler
@@ -97,7 +139,11 @@ export const FormField = React.memo(function FormField({
       setTouched();
     }
 
-    if (fieldConfig.validation?.validateOnBlur !== false) {
+    const shouldValidate = shouldValidateOn('blur', fieldConfig.validation, formConfig.validation, {
+      touched: fieldState.touched,
+      isSubmitted: store.getState().submitCount > 0,
+    });
+    if (shouldValidate) {
       await validateField(fieldId);
     }
   }, [
@@ -105,7 +151,9 @@ export const FormField = React.memo(function FormField({
     fieldState.touched,
     setTouched,
     validateField,
-    fieldConfig.validation?.validateOnBlur,
+    fieldConfig.validation,
+    formConfig.validation,
+    store,
   ]);
 
   // Memoize merged props
@@ -140,6 +188,12 @@ export const FormField = React.memo(function FormField({
       error: fieldState.errors,
       isValidating,
       touched: fieldState.touched,
+      ...(fieldConfig.optionsLoader && {
+        options: fieldOptions.options,
+        isLoadingOptions: fieldOptions.isLoading,
+        optionsError: fieldOptions.error,
+        onOptionsSearch: fieldOptions.search,
+      }),
     }),
     [
       fieldId,
@@ -151,9 +205,26 @@ export const FormField = React.memo(function FormField({
       fieldState.errors,
       isValidating,
       fieldState.touched,
+      fieldConfig.optionsLoader,
+      fieldOptions,
     ]
   );
 
+  // Register the field so a failed submit can bring the user to it, while it is rendered
+  useEffect(() => {
+    if (!effectiveConditions.isVisible) return;
+
+    const handle: FieldFocusHandle = {
+      focus: () => {
+        wrapperRef.current?.querySelector<HTMLElement>(FOCUSABLE_SELECTOR)?.focus();
+      },
+      scrollIntoView: () => {
+        wrapperRef.current?.scrollIntoView?.({ behavior: 'smooth', block: 'center' });
+      },
+    };
+    return store.getState()._registerField(fieldId, handle);
+  }, [store, fieldId, effectiveConditions.isVisible]);
+
   // Hide field if not visible
   if (!effectiveConditions.isVisible) {
     return null;
@@ -180,6 +251,7 @@ export const FormField = React.memo(function FormField({
 
   return (
     <div
+      ref={wrapperRef}
       className={className}
       data-field-id={fieldId}
       data-field-type={componentConfig.type}
@@ -1,16 +1,33 @@
 import type {
   FieldConditions,
+  FieldValidationOptions,
   FormConfiguration,
+  FormPersistenceConfig,
+  HistoryOptions,
+  SubmissionError,
+  SubmissionResult,
   SubmitOptions,
   ValidationResult,
 } from '@rilaykit/core';
 import type React from 'react';
-import { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
 import { type UseFormConditionsReturn, useFormConditions } from '../hooks';
+import { useComputedFields } from '../hooks/useComputedFields';
+import { useFormPersistence } from '../hooks/useFormPersistence';
 import { useFormSubmissionWithStore } from '../hooks/useFormSubmissionWithStore';
 import { useFormValidationWithStore } from '../hooks/useFormValidationWithStore';
 import { FormStoreContext, createFormStore } from '../stores';
+import { moveToFirstInvalidField } from '../utils/field-focus';
 import { buildCompositeKey, flattenRepeatableValues } from '../utils/repeatable-data';
+import { applySubmissionError } from '../utils/submission-errors';
 
 // =================================================================
 // FORM CONFIG CONTEXT
@@ -19,7 +36,11 @@ import { buildCompositeKey, flattenRepeatableValues } from '../utils/repeatable-
 export interface FormConfigContextValue {
   formConfig: FormConfiguration;
   conditionsHelpers: Omit<UseFormConditionsReturn, 'fieldConditions'>;
-  validateField: (fieldId: string, value?: unknown) => Promise<ValidationResult>;
+  validateField: (
+    fieldId: string,
+    value?: unknown,
+    options?: FieldValidationOptions
+  ) => Promise<ValidationResult>;
   validateForm: () => Promise<ValidationResult>;
   submit: (eventOrOptions?: React.FormEvent | SubmitOptions) => Promise<boolean>;
 }
@@ -41,12 +62,35 @@ export function useFormConfigContext(): FormConfigContextValue {
 // FORM PROVIDER PROPS
 // =================================================================
 
-export interface FormProviderProps {
+/**
+ * @template TValues - Values submitted by the form, inferred from `formConfig`
+ */
+export interface FormProviderProps<TValues extends Record<string, any> = Record<string, unknown>> {
   children: React.ReactNode;
-  formConfig: FormConfiguration;
+  formConfig: FormConfiguration<any, TValues>;
   defaultValues?: Record<string, unknown>;
-  onSubmit?: (data: Record<string, unknown>) => void | Promise<void>;
+  /** Throwing or returning a SubmissionError shows its errors in the form */
+  onSubmit?: (data: TValues) => SubmissionResult;
   onFieldChange?: (fieldId: string, value: unknown, formData: Record<string, unknown>) => void;
+  /**
+   * Enables undo/redo of value changes, exposed through `useFormActions()`
+   */
+  history?: HistoryOptions | boolean;
+  /**
+   * Autosaves values as a draft, overrides the persistence configured on the form
+   */
+  persistence?: FormPersistenceConfig;
+  /**
+   * Values outside of the form that computed fields can depend on, e.g. the data of the
+   * other steps of a workflow
+   */
+  externalValues?: Record<string, unknown>;
+  /**
+   * Errors of a rejected submission to show, e.g. those a workflow received for this step.
+   * Applied to the fields each time a new error is given, the user is then brought to the
+   * first invalid field as `submitOptions.onInvalidSubmit` of the form says.
+   */
+  submissionError?: SubmissionError;
   className?: string;
 }
 
@@ -54,14 +98,18 @@ export interface FormProviderProps {
 // FORM PROVIDER IMPLEMENTATION
 // =================================================================
 
-export function FormProvider({
+export function FormProvider<TValues extends Record<string, any> = Record<string, unknown>>({
   children,
   formConfig,
   defaultValues = {},
   onSubmit,
   onFieldChange,
+  history,
+  persistence,
+  externalValues,
+  submissionError,
   className,
-}: FormProviderProps) {
+}: FormProviderProps<TValues>) {
   // Create store once - stable across renders
   // Synchronously initialize repeatable configs and default values
   const [store] = useState(() => {
@@ -106,7 +154,7 @@ export function FormProvider({
       }
     }
 
-    const s = createFormStore(initialValues);
+    const s = createFormStore(initialValues, { history });
 
     // Set repeatable configs and order synchronously
     const state = s.getState();
@@ -208,6 +256,25 @@ export function FormProvider({
     }
   }, [formConfig.id, formConfig.repeatableFields, store, defaultValues]);
 
+  const formConfigRef = useRef(formConfig);
+  formConfigRef.current = formConfig;
+
+  // Show the given submission errors, after the reset above when the form changed too
+  useEffect(() => {
+    if (submissionError) {
+      const currentFormConfig = formConfigRef.current;
+      applySubmissionError(store, submissionError, currentFormConfig);
+      moveToFirstInvalidField(
+        store,
+        currentFormConfig,
+        currentFormConfig.submitOptions?.onInvalidSubmit
+      );
+    }
+  }, [submissionError, store]);
+
+  // Keep computed fields in sync with their dependencies
+  useComputedFields({ formConfig, store, externalValues });
+
   // Subscribe to form values for reactive conditions evaluation
   const [formValues, setFormValues] = useState(() => store.getState().values);
 
@@ -243,6 +310,7 @@ export function FormProvider({
     formConfig,
     formValues,
     repeatableOrder,
+    store,
   });
 
   // Sync conditions to store whenever they change
@@ -286,13 +354,33 @@ export function FormProvider({
   });
 
   // Initialize submission with store
-  const { submit } = useFormSubmissionWithStore({
+  const { submit: submitForm } = useFormSubmissionWithStore({
     store,
-    onSubmit,
+    // Submitted data is structured after the fields of formConfig, as TValues describes
+    onSubmit: onSubmit as FormProviderProps['onSubmit'],
     validateForm,
     defaultSubmitOptions: formConfig.submitOptions,
+    formConfig,
+  });
+
+  // Draft autosave, cleared once the form is successfully submitted
+  const { clearDraft } = useFormPersistence({
+    formId: formConfig.id,
+    store,
+    persistence: persistence ?? formConfig.persistence,
   });
 
+  const submit = useCallback(
+    async (eventOrOptions?: React.FormEvent | SubmitOptions): Promise<boolean> => {
+      const success = await submitForm(eventOrOptions);
+      if (success) {
+        await clearDraft();
+      }
+      return success;
+    },
+    [submitForm, clearDraft]
+  );
+
   // Memoize form config context
   const formConfigContextValue = useMemo(
     () => ({
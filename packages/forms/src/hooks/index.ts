@@ -12,6 +12,9 @@
  * UTILITY HOOKS:
  * - useConditionEvaluation: Evaluates conditional behaviors
  * - useFormConditions: Specialized hook for form conditional logic
+ * - useComputedFields: Recomputes derived field values
+ * - useFieldOptions: Loads field options asynchronously
+ * - useFormPersistence: Draft autosave and restore
  */
 
 // Condition evaluation
@@ -26,6 +29,18 @@ export * from './useFormValidationWithStore';
 // Repeatable fields
 export { useRepeatableField, type UseRepeatableFieldReturn } from './use-repeatable-field';
 
+// Computed fields
+export { useComputedFields } from './useComputedFields';
+export type { UseComputedFieldsProps } from './useComputedFields';
+
+// Async options
+export { useFieldOptions } from './useFieldOptions';
+export type { UseFieldOptionsProps, UseFieldOptionsReturn } from './useFieldOptions';
+
+// Persistence
+export { useFormPersistence } from './useFormPersistence';
+export type { UseFormPersistenceProps, UseFormPersistenceReturn } from './useFormPersistence';
+
 // Monitoring
 export { useFormMonitoring } from './useFormMonitoring';
 export type { UseFormMonitoringProps, UseFormMonitoringReturn } from './useFormMonitoring';
@@ -0,0 +1,221 @@
+import {
+  type ComputedFieldConfig,
+  ConditionDependencyGraph,
+  type FormConfiguration,
+  getFieldValue,
+} from '@rilaykit/core';
+import { useEffect, useRef } from 'react';
+import type { FormStore } from '../stores';
+import { buildCompositeKey } from '../utils/repeatable-data';
+
+export interface UseComputedFieldsProps {
+  formConfig: FormConfiguration;
+  store: FormStore;
+  /** Values outside of the form that computed fields can depend on */
+  externalValues?: Record<string, unknown>;
+}
+
+interface ComputedTarget {
+  /** Dependencies as declared, with the path of their value in the store */
+  deps: Array<{ name: string; path: string }>;
+  compute: ComputedFieldConfig['compute'];
+}
+
+/**
+ * Lists the computed fields of the form, one per active item for repeatables, with the
+ * dependencies on item fields scoped to the same item
+ */
+function collectComputedTargets(
+  formConfig: FormConfiguration,
+  repeatableOrder: Record<string, string[]>
+): Map<string, ComputedTarget> {
+  const targets = new Map<string, ComputedTarget>();
+
+  for (const field of formConfig.allFields) {
+    if (field.computed) {
+      targets.set(field.id, {
+        deps: field.computed.deps.map((dep) => ({ name: dep, path: dep })),
+        compute: field.computed.compute,
+      });
+    }
+  }
+
+  for (const [repeatableId, config] of Object.entries(formConfig.repeatableFields ?? {})) {
+    const computedFields = config.allFields.filter((field) => field.computed);
+    if (computedFields.length === 0) continue;
+
+    const templateFieldIds = new Set(config.allFields.map((field) => field.id));
+
+    for (const itemKey of repeatableOrder[repeatableId] ?? []) {
+      for (const field of computedFields) {
+        const { deps, compute } = field.computed as ComputedFieldConfig;
+        targets.set(buildCompositeKey(repeatableId, itemKey, field.id), {
+          deps: deps.map((dep) => ({
+            name: dep,
+            path: templateFieldIds.has(dep) ? buildCompositeKey(repeatableId, itemKey, dep) : dep,
+          })),
+          compute,
+        });
+      }
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Finds the computed fields depending on themselves, directly or through other ones
+ */
+function findCyclicTargets(targets: Map<string, ComputedTarget>): Set<string> {
+  const cyclic = new Set<string>();
+  const visited = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (fieldId: string) => {
+    const index = path.indexOf(fieldId);
+    if (index !== -1) {
+      for (const cyclicId of path.slice(index)) cyclic.add(cyclicId);
+      return;
+    }
+    if (visited.has(fieldId)) return;
+
+    path.push(fieldId);
+    for (const dep of targets.get(fieldId)?.deps ?? []) {
+      if (targets.has(dep.path)) visit(dep.path);
+    }
+    path.pop();
+    visited.add(fieldId);
+  };
+
+  for (const fieldId of targets.keys()) {
+    visit(fieldId);
+  }
+
+  return cyclic;
+}
+
+function hasComputedFields(formConfig: FormConfiguration): boolean {
+  return (
+    formConfig.allFields.some((field) => field.computed) ||
+    Object.values(formConfig.repeatableFields ?? {}).some((config) =>
+      config.allFields.some((field) => field.computed)
+    )
+  );
+}
+
+/**
+ * Keeps the values of computed fields in sync with their dependencies
+ *
+ * Only the computed fields depending on a changed value are recomputed, through a
+ * dependency graph. Computed values are written without recording history nor marking
+ * the form dirty, and are submitted like any other value.
+ */
+export function useComputedFields({
+  formConfig,
+  store,
+  externalValues,
+}: UseComputedFieldsProps): void {
+  const externalValuesRef = useRef(externalValues);
+  const recomputeAllRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    if (!hasComputedFields(formConfig)) return;
+
+    const graph = new ConditionDependencyGraph();
+    let targets = new Map<string, ComputedTarget>();
+
+    const rebuild = (repeatableOrder: Record<string, string[]>) => {
+      targets = collectComputedTargets(formConfig, repeatableOrder);
+
+      // Cycles would recompute forever, these fields are left untouched
+      for (const fieldId of findCyclicTargets(targets)) {
+        console.warn(`Computed field "${fieldId}" depends on itself`);
+        targets.delete(fieldId);
+      }
+
+      graph.clear();
+      for (const [fieldId, target] of targets) {
+        graph.addFieldDependencies(
+          fieldId,
+          target.deps.map((dep) => dep.path)
+        );
+      }
+    };
+
+    const readValue = (values: Record<string, unknown>, path: string) => {
+      const value = getFieldValue(values, path);
+      return value === undefined && externalValuesRef.current
+        ? getFieldValue(externalValuesRef.current, path)
+        : value;
+    };
+
+    const recompute = (fieldIds: Iterable<string>) => {
+      const values = { ...store.getState().values };
+      const queue = [...fieldIds];
+      let changed = false;
+
+      while (queue.length > 0) {
+        const fieldId = queue.shift() as string;
+        const target = targets.get(fieldId);
+        if (!target) continue;
+
+        let value: unknown;
+        try {
+          value = target.compute(
+            Object.fromEntries(target.deps.map((dep) => [dep.name, readValue(values, dep.path)]))
+          );
+        } catch (error) {
+          console.error(`Error computing field "${fieldId}":`, error);
+          continue;
+        }
+
+        if (Object.is(value, values[fieldId])) continue;
+
+        values[fieldId] = value;
+        changed = true;
+        queue.push(...graph.getAffectedFields(fieldId));
+      }
+
+      if (changed) {
+        store.setState({ values });
+      }
+    };
+
+    rebuild(store.getState()._repeatableOrder);
+    recompute(targets.keys());
+    recomputeAllRef.current = () => recompute(targets.keys());
+
+    const unsubscribeValues = store.subscribe(
+      (state) => state.values,
+      (values, prevValues) => {
+        const changedPaths = Object.keys(values).filter(
+          (fieldId) => values[fieldId] !== prevValues[fieldId]
+        );
+        const affected = graph.getAffectedFieldsMultiple(changedPaths);
+        if (affected.length > 0) {
+          recompute(affected);
+        }
+      }
+    );
+
+    // Items added or removed
+    const unsubscribeOrder = store.subscribe(
+      (state) => state._repeatableOrder,
+      (repeatableOrder) => {
+        rebuild(repeatableOrder);
+        recompute(targets.keys());
+      }
+    );
+
+    return () => {
+      recomputeAllRef.current = null;
+      unsubscribeValues();
+      unsubscribeOrder();
+    };
+  }, [formConfig, store]);
+
+  useEffect(() => {
+    externalValuesRef.current = externalValues;
+    recomputeAllRef.current?.();
+  }, [externalValues]);
+}
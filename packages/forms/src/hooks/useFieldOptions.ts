@@ -0,0 +1,217 @@
+import {
+  type FieldOption,
+  type FormConfiguration,
+  type OptionsLoaderConfig,
+  getFieldValue,
+} from '@rilaykit/core';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useStore } from 'zustand';
+import { useFormStoreApi } from '../stores';
+import { buildCompositeKey, parseCompositeKey } from '../utils/repeatable-data';
+
+export interface UseFieldOptionsProps {
+  fieldId: string;
+  optionsLoader?: OptionsLoaderConfig;
+  formConfig: FormConfiguration;
+}
+
+export interface UseFieldOptionsReturn {
+  options: FieldOption[];
+  isLoading: boolean;
+  error?: Error;
+  /** Loads the options matching a search text, debounced */
+  search: (text: string) => void;
+  /** Loads the options again, bypassing the cache */
+  reload: () => void;
+}
+
+interface OptionsState {
+  options: FieldOption[];
+  isLoading: boolean;
+  error?: Error;
+}
+
+const EMPTY_OPTIONS: FieldOption[] = [];
+
+const DEFAULT_SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Loaded options per loader, keyed by dependency values and search. Repeatable items share
+ * the loader of their template field, and so its cache.
+ */
+const optionsCache = new WeakMap<OptionsLoaderConfig, Map<string, FieldOption[]>>();
+
+function getOptionsCache(optionsLoader: OptionsLoaderConfig): Map<string, FieldOption[]> {
+  let cache = optionsCache.get(optionsLoader);
+  if (!cache) {
+    cache = new Map();
+    optionsCache.set(optionsLoader, cache);
+  }
+  return cache;
+}
+
+/**
+ * Creates a hash of the dependency values, the options are reloaded when it changes
+ */
+function createValuesHash(values: unknown[]): string {
+  try {
+    return JSON.stringify(values);
+  } catch {
+    // Values that cannot be serialized are compared by their string form
+    return values.map(String).join('\n');
+  }
+}
+
+/**
+ * Resolves the paths of the dependencies, ids of the item fields refer to the same item
+ */
+function resolveDependencyPaths(
+  fieldId: string,
+  deps: readonly string[],
+  formConfig: FormConfiguration
+): Array<{ name: string; path: string }> {
+  const parsed = parseCompositeKey(fieldId);
+  const templateFieldIds = new Set(
+    parsed
+      ? (formConfig.repeatableFields?.[parsed.repeatableId]?.allFields ?? []).map(
+          (field) => field.id
+        )
+      : []
+  );
+
+  return deps.map((dep) => ({
+    name: dep,
+    path:
+      parsed && templateFieldIds.has(dep)
+        ? buildCompositeKey(parsed.repeatableId, parsed.itemKey, dep)
+        : dep,
+  }));
+}
+
+/**
+ * Loads the options of a field from its `optionsLoader`
+ *
+ * Only the values of the declared dependencies are tracked: the options are loaded again
+ * when one of them changes, and the pending request is aborted through its signal. Results
+ * are cached per dependency values and search, and searches are debounced.
+ *
+ * @example
+ * ```tsx
+ * const { options, isLoading, search } = useFieldOptions({
+ *   fieldId: 'region',
+ *   optionsLoader: fieldConfig.optionsLoader,
+ *   formConfig,
+ * });
+ * ```
+ */
+export function useFieldOptions({
+  fieldId,
+  optionsLoader,
+  formConfig,
+}: UseFieldOptionsProps): UseFieldOptionsReturn {
+  const store = useFormStoreApi();
+
+  const depPaths = useMemo(
+    () => resolveDependencyPaths(fieldId, optionsLoader?.deps ?? [], formConfig),
+    [fieldId, optionsLoader, formConfig]
+  );
+
+  // Re-renders only when a dependency value changes
+  const depsHash = useStore(store, (state) =>
+    optionsLoader
+      ? createValuesHash(depPaths.map((dep) => getFieldValue(state.values, dep.path)))
+      : ''
+  );
+
+  const [searchText, setSearchText] = useState('');
+  const [reloadCount, setReloadCount] = useState(0);
+  const [state, setState] = useState<OptionsState>({ options: EMPTY_OPTIONS, isLoading: false });
+
+  const searchTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastReloadCountRef = useRef(reloadCount);
+  const lastDepsHashRef = useRef(depsHash);
+
+  useEffect(() => {
+    if (!optionsLoader) return;
+
+    const cache = optionsLoader.cache === false ? undefined : getOptionsCache(optionsLoader);
+    const cacheKey = `${depsHash}\n${searchText}`;
+    const skipCache = lastReloadCountRef.current !== reloadCount;
+    lastReloadCountRef.current = reloadCount;
+
+    // Options of other dependency values are not shown while loading
+    const depsChanged = lastDepsHashRef.current !== depsHash;
+    lastDepsHashRef.current = depsHash;
+
+    const cached = skipCache ? undefined : cache?.get(cacheKey);
+    if (cached) {
+      setState({ options: cached, isLoading: false });
+      return;
+    }
+
+    const values = store.getState().values;
+    const deps = Object.fromEntries(
+      depPaths.map((dep) => [dep.name, getFieldValue(values, dep.path)])
+    );
+    const controller = new AbortController();
+
+    setState((previous) => ({
+      options: depsChanged ? EMPTY_OPTIONS : previous.options,
+      isLoading: true,
+    }));
+
+    Promise.resolve()
+      .then(() => optionsLoader.load({ deps, search: searchText, signal: controller.signal }))
+      .then(
+        (options) => {
+          if (controller.signal.aborted) return;
+          cache?.set(cacheKey, options);
+          setState({ options, isLoading: false });
+        },
+        (error) => {
+          if (controller.signal.aborted) return;
+          setState((previous) => ({
+            options: previous.options,
+            isLoading: false,
+            error: error instanceof Error ? error : new Error(String(error)),
+          }));
+        }
+      );
+
+    // Stale requests are cancelled when dependencies change or the field unmounts
+    return () => controller.abort();
+  }, [optionsLoader, depsHash, depPaths, searchText, reloadCount, store]);
+
+  useEffect(
+    () => () => {
+      if (searchTimeoutRef.current) clearTimeout(searchTimeoutRef.current);
+    },
+    []
+  );
+
+  const search = useCallback(
+    (text: string) => {
+      if (searchTimeoutRef.current) clearTimeout(searchTimeoutRef.current);
+      searchTimeoutRef.current = setTimeout(
+        () => setSearchText(text),
+        optionsLoader?.searchDebounceMs ?? DEFAULT_SEARCH_DEBOUNCE_MS
+      );
+    },
+    [optionsLoader]
+  );
+
+  const reload = useCallback(() => {
+    setReloadCount((count) => count + 1);
+  }, []);
+
+  return useMemo(
+    () => ({
+      options: state.options,
+      isLoading: state.isLoading,
+      error: state.error,
+      search,
+      reload,
+    }),
+    [state, search, reload]
+  );
+}
@@ -1,5 +1,13 @@
-import type { ConditionalBehavior, FormConfiguration } from '@rilaykit/core';
-import { useCallback, useMemo } from 'react';
+import {
+  type ConditionConfig,
+  type ConditionalBehavior,
+  type FormConfiguration,
+  type FormFieldConfig,
+  type HiddenFieldPolicy,
+  evaluateCondition,
+} from '@rilaykit/core';
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import type { FormStore } from '../stores';
 import { buildCompositeKey } from '../utils/repeatable-data';
 import { scopeConditions } from '../utils/scope-conditions';
 import {
@@ -12,6 +20,8 @@ export interface UseFormConditionsProps {
   formValues: Record<string, any>;
   /** Active repeatable item keys, keyed by repeatable ID */
   repeatableOrder?: Record<string, string[]>;
+  /** Store receiving the values of hidden fields policies and field effects */
+  store?: FormStore;
 }
 
 export interface UseFormConditionsReturn {
@@ -24,12 +34,59 @@ export interface UseFormConditionsReturn {
   isFieldReadonly: (fieldId: string) => boolean;
 }
 
+interface HiddenFieldEntry {
+  policy: HiddenFieldPolicy;
+  /** Default value of the repeatable template field, for items added after mount */
+  itemDefaultValue?: unknown;
+}
+
+interface FieldEffectEntry {
+  when: ConditionConfig;
+  set: Record<string, unknown>;
+}
+
+/**
+ * Collects the effects of a field, scoped to a repeatable item when one is given
+ */
+function collectFieldEffects(
+  effects: Map<string, FieldEffectEntry>,
+  field: FormFieldConfig,
+  fieldId: string,
+  scope?: { repeatableId: string; itemKey: string; templateFieldIds: Set<string> }
+): void {
+  field.effects?.forEach((effect, index) => {
+    const key = `${fieldId}#${index}`;
+    if (!scope) {
+      effects.set(key, { when: effect.when, set: { ...effect.set } });
+      return;
+    }
+
+    const { repeatableId, itemKey, templateFieldIds } = scope;
+    effects.set(key, {
+      when: scopeConditions({ visible: effect.when }, repeatableId, itemKey, templateFieldIds)
+        .visible as ConditionConfig,
+      set: Object.fromEntries(
+        Object.entries(effect.set).map(([targetId, value]) => [
+          templateFieldIds.has(targetId)
+            ? buildCompositeKey(repeatableId, itemKey, targetId)
+            : targetId,
+          value,
+        ])
+      ),
+    });
+  });
+}
+
 /**
  * Hook to manage conditional behaviors for form fields
  *
  * This hook evaluates conditions for all form fields and provides
  * convenient methods to check field states.
  *
+ * When a store is given, it also applies the `whenHidden` policies of the fields once they
+ * get hidden, and the `effects` of the fields once their condition becomes true. These
+ * values are written without recording history nor marking the form dirty.
+ *
  * @param props - Configuration for form conditions
  * @returns Object containing field conditions and helper methods
  *
@@ -54,16 +111,23 @@ export function useFormConditions({
   formConfig,
   formValues,
   repeatableOrder,
+  store,
 }: UseFormConditionsProps): UseFormConditionsReturn {
   // Create field conditions map for evaluation - memoize to avoid recreating on every render
-  const fieldsWithConditions = useMemo(() => {
+  const { fieldsWithConditions, hiddenFields, fieldEffects } = useMemo(() => {
     const conditionsMap: Record<string, ConditionalBehavior | undefined> = {};
+    const hiddenFields = new Map<string, HiddenFieldEntry>();
+    const fieldEffects = new Map<string, FieldEffectEntry>();
 
     // Static fields
     for (const field of formConfig.allFields) {
       if (field.conditions) {
         conditionsMap[field.id] = field.conditions;
       }
+      if (field.conditions?.visible && field.whenHidden) {
+        hiddenFields.set(field.id, { policy: field.whenHidden });
+      }
+      collectFieldEffects(fieldEffects, field, field.id);
     }
 
     // Repeatable item fields — scope conditions to each active item
@@ -77,9 +141,21 @@ export function useFormConditions({
 
         for (const itemKey of keys) {
           for (const templateField of config.allFields) {
+            const compositeId = buildCompositeKey(repeatableId, itemKey, templateField.id);
+            collectFieldEffects(fieldEffects, templateField, compositeId, {
+              repeatableId,
+              itemKey,
+              templateFieldIds,
+            });
+
             if (!templateField.conditions) continue;
 
-            const compositeId = buildCompositeKey(repeatableId, itemKey, templateField.id);
+            if (templateField.conditions.visible && templateField.whenHidden) {
+              hiddenFields.set(compositeId, {
+                policy: templateField.whenHidden,
+                itemDefaultValue: config.defaultValue?.[templateField.id],
+              });
+            }
             conditionsMap[compositeId] = scopeConditions(
               templateField.conditions,
               repeatableId,
@@ -91,7 +167,7 @@ export function useFormConditions({
       }
     }
 
-    return conditionsMap;
+    return { fieldsWithConditions: conditionsMap, hiddenFields, fieldEffects };
   }, [formConfig.allFields, formConfig.repeatableFields, repeatableOrder]);
 
   // Check if form has any conditional fields - memoize for performance
@@ -105,6 +181,66 @@ export function useFormConditions({
     hasConditionalFields ? formValues : {}
   );
 
+  // Last visibility of the fields and results of the effect conditions, to act on changes only
+  const previousVisibilityRef = useRef(new Map<string, boolean>());
+  const previousEffectsRef = useRef(new Map<string, boolean>());
+
+  useEffect(() => {
+    if (!store || (hiddenFields.size === 0 && fieldEffects.size === 0)) return;
+
+    const state = store.getState();
+    const values = { ...state.values };
+    let changed = false;
+
+    const setValue = (fieldId: string, value: unknown) => {
+      if (Object.is(values[fieldId], value)) return;
+      values[fieldId] = value;
+      changed = true;
+    };
+
+    // Effects apply when their condition becomes true, not when first evaluated
+    const effectResults = new Map<string, boolean>();
+    for (const [key, effect] of fieldEffects) {
+      let matches = false;
+      try {
+        matches = evaluateCondition(effect.when, formValues);
+      } catch (error) {
+        console.warn(`Error evaluating effect condition ${key}:`, error);
+      }
+      effectResults.set(key, matches);
+
+      const previous = previousEffectsRef.current.get(key);
+      if (matches && previous === false) {
+        for (const [fieldId, value] of Object.entries(effect.set)) {
+          setValue(fieldId, value);
+        }
+      }
+    }
+    previousEffectsRef.current = effectResults;
+
+    // Fields are visible until their conditions are evaluated, those hidden on mount are
+    // processed as well
+    for (const [fieldId, { policy, itemDefaultValue }] of hiddenFields) {
+      const visible = fieldConditions[fieldId]?.visible ?? true;
+      const wasVisible = previousVisibilityRef.current.get(fieldId) ?? true;
+      previousVisibilityRef.current.set(fieldId, visible);
+      if (visible || !wasVisible) continue;
+
+      if (policy === 'clear') {
+        setValue(fieldId, undefined);
+      } else if (policy === 'reset') {
+        setValue(
+          fieldId,
+          fieldId in state._defaultValues ? state._defaultValues[fieldId] : itemDefaultValue
+        );
+      }
+    }
+
+    if (changed) {
+      store.setState({ values });
+    }
+  }, [store, hiddenFields, fieldEffects, fieldConditions, formValues]);
+
   // Helper function to get condition result for a specific field
   const getFieldCondition = useCallback(
     (fieldId: string): ConditionEvaluationResult | undefined => {
@@ -0,0 +1,145 @@
+import type { FormPersistenceConfig, PersistedWorkflowData } from '@rilaykit/core';
+import { useCallback, useEffect, useRef } from 'react';
+import type { FormStore } from '../stores';
+
+export interface UseFormPersistenceProps {
+  formId: string;
+  store: FormStore;
+  persistence?: FormPersistenceConfig;
+}
+
+export interface UseFormPersistenceReturn {
+  /** Cancel any pending autosave and remove the saved draft */
+  clearDraft: () => Promise<void>;
+}
+
+const DEFAULT_DEBOUNCE_MS = 500;
+
+/**
+ * Form drafts are stored in the workflow persistence format so that every workflow
+ * adapter can be reused: values go in `stepData`, the rest in `metadata`.
+ */
+function storeStateToDraft(formId: string, store: FormStore): PersistedWorkflowData {
+  const state = store.getState();
+
+  return {
+    workflowId: formId,
+    currentStepIndex: 0,
+    allData: {},
+    stepData: state.values,
+    visitedSteps: [],
+    lastSaved: Date.now(),
+    metadata: {
+      touched: Object.keys(state.touched).filter((fieldId) => state.touched[fieldId]),
+      repeatableOrder: state._repeatableOrder,
+      repeatableNextKey: state._repeatableNextKey,
+    },
+  };
+}
+
+/**
+ * Autosaves form values and touched state as a draft and restores it on mount
+ */
+export function useFormPersistence({
+  formId,
+  store,
+  persistence,
+}: UseFormPersistenceProps): UseFormPersistenceReturn {
+  const persistenceRef = useRef(persistence);
+  persistenceRef.current = persistence;
+
+  const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const isRestoringRef = useRef(false);
+  const hasPersistence = !!persistence;
+  const storageKey = persistence?.key ?? formId;
+
+  const cancelPendingSave = useCallback(() => {
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = null;
+    }
+  }, []);
+
+  // Restore the draft once on mount, except the fields the user already changed
+  useEffect(() => {
+    const adapter = persistenceRef.current?.adapter;
+    if (!adapter) return;
+
+    let cancelled = false;
+
+    adapter
+      .load(storageKey)
+      .then((draft) => {
+        if (!draft || cancelled) return;
+
+        const touched = (draft.metadata?.touched as string[] | undefined) ?? [];
+        isRestoringRef.current = true;
+        store.setState((state) => {
+          // Values written since mount by computed fields or conditions are not user changes
+          const restored = Object.fromEntries(
+            Object.entries(draft.stepData).filter(
+              ([fieldId]) => !state._dirtyFields[fieldId] && !state.touched[fieldId]
+            )
+          );
+
+          return {
+            values: { ...state.values, ...restored },
+            touched: {
+              ...Object.fromEntries(touched.map((fieldId) => [fieldId, true])),
+              ...state.touched,
+            },
+            _repeatableOrder: draft.metadata?.repeatableOrder ?? state._repeatableOrder,
+            _repeatableNextKey: draft.metadata?.repeatableNextKey ?? state._repeatableNextKey,
+          };
+        });
+        isRestoringRef.current = false;
+      })
+      .catch((error) => {
+        console.error('[FormPersistence] Failed to restore draft:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [store, storageKey]);
+
+  // Debounced autosave on value and touched changes
+  useEffect(() => {
+    if (!hasPersistence) return;
+
+    const unsubscribe = store.subscribe(
+      (state) => [state.values, state.touched] as const,
+      () => {
+        if (isRestoringRef.current) return;
+
+        cancelPendingSave();
+        saveTimeoutRef.current = setTimeout(() => {
+          saveTimeoutRef.current = null;
+          const adapter = persistenceRef.current?.adapter;
+
+          adapter?.save(storageKey, storeStateToDraft(formId, store)).catch((error) => {
+            console.error('[FormPersistence] Autosave failed:', error);
+          });
+        }, persistenceRef.current?.debounceMs ?? DEFAULT_DEBOUNCE_MS);
+      },
+      { equalityFn: (a, b) => a[0] === b[0] && a[1] === b[1] }
+    );
+
+    return () => {
+      unsubscribe();
+      cancelPendingSave();
+    };
+  }, [store, formId, storageKey, hasPersistence, cancelPendingSave]);
+
+  const clearDraft = useCallback(async () => {
+    cancelPendingSave();
+
+    try {
+      await persistenceRef.current?.adapter.remove(storageKey);
+    } catch (error) {
+      console.error('[FormPersistence] Failed to clear draft:', error);
+    }
+  }, [storageKey, cancelPendingSave]);
+
+  return { clearDraft };
+}
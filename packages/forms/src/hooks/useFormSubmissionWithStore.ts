@@ -1,25 +1,75 @@
-import type { SubmitOptions, ValidationResult } from '@rilaykit/core';
+import {
+  type FormConfiguration,
+  type FormFieldConfig,
+  SubmissionError,
+  type SubmissionResult,
+  type SubmitOptions,
+  type ValidationResult,
+} from '@rilaykit/core';
 import type React from 'react';
 import { useCallback, useRef } from 'react';
-import type { FormStore } from '../stores';
-import { structureFormValues } from '../utils/repeatable-data';
+import type { FormStore, FormStoreState } from '../stores';
+import { moveToFirstInvalidField } from '../utils/field-focus';
+import { parseCompositeKey, structureFormValues } from '../utils/repeatable-data';
+import { applySubmissionError } from '../utils/submission-errors';
 
 export interface UseFormSubmissionWithStoreProps {
   store: FormStore;
-  onSubmit?: (data: Record<string, unknown>) => void | Promise<void>;
+  /** Throwing or returning a SubmissionError shows its errors in the form */
+  onSubmit?: (data: Record<string, unknown>) => SubmissionResult;
   validateForm: () => Promise<ValidationResult>;
   defaultSubmitOptions?: SubmitOptions;
+  /**
+   * Fields of the form, the values of hidden fields with a `clear` or `exclude` policy are left
+   * out and a failed submit brings the user to the first invalid field in their order
+   */
+  formConfig?: FormConfiguration;
 }
 
 function isFormEvent(value: unknown): value is React.FormEvent {
   return typeof value === 'object' && value !== null && 'preventDefault' in value;
 }
 
+function findFieldConfig(
+  formConfig: FormConfiguration,
+  fieldId: string
+): FormFieldConfig | undefined {
+  const staticField = formConfig.allFields.find((field) => field.id === fieldId);
+  if (staticField) return staticField;
+
+  const parsed = parseCompositeKey(fieldId);
+  return parsed
+    ? formConfig.repeatableFields?.[parsed.repeatableId]?.allFields.find(
+        (field) => field.id === parsed.fieldId
+      )
+    : undefined;
+}
+
+/**
+ * Leaves out the values of the hidden fields whose policy excludes them from the submitted data
+ */
+function omitHiddenValues(
+  values: Record<string, unknown>,
+  state: FormStoreState,
+  formConfig: FormConfiguration | undefined
+): Record<string, unknown> {
+  if (!formConfig) return values;
+
+  return Object.fromEntries(
+    Object.entries(values).filter(([fieldId]) => {
+      if (state._fieldConditions[fieldId]?.visible !== false) return true;
+      const policy = findFieldConfig(formConfig, fieldId)?.whenHidden;
+      return policy !== 'clear' && policy !== 'exclude';
+    })
+  );
+}
+
 export function useFormSubmissionWithStore({
   store,
   onSubmit,
   validateForm,
   defaultSubmitOptions,
+  formConfig,
 }: UseFormSubmissionWithStoreProps) {
   // Use ref to store current onSubmit callback
   const onSubmitRef = useRef(onSubmit);
@@ -28,6 +78,9 @@ export function useFormSubmissionWithStore({
   const defaultSubmitOptionsRef = useRef(defaultSubmitOptions);
   defaultSubmitOptionsRef.current = defaultSubmitOptions;
 
+  const formConfigRef = useRef(formConfig);
+  formConfigRef.current = formConfig;
+
   const submit = useCallback(
     async (eventOrOptions?: React.FormEvent | SubmitOptions): Promise<boolean> => {
       // Handle both React.FormEvent and SubmitOptions
@@ -53,24 +106,39 @@ export function useFormSubmissionWithStore({
       }
 
       state._setSubmitting(true);
+      state._incrementSubmitCount();
+      if (state.formErrors.length > 0) {
+        state._setFormErrors([]);
+      }
+
+      // A SubmissionError returned by onSubmit is handled like a thrown one
+      const submitValues = async (values: Record<string, unknown>) => {
+        const result = await onSubmitRef.current?.(values);
+        if (result instanceof SubmissionError) {
+          throw result;
+        }
+      };
 
       try {
         // force takes priority over skipInvalid
         if (resolvedOptions.force) {
           // Skip validation entirely — submit current values as-is
           const currentState = store.getState();
+          const values = omitHiddenValues(
+            currentState.values as Record<string, unknown>,
+            currentState,
+            formConfigRef.current
+          );
           const hasRepeatables = Object.keys(currentState._repeatableConfigs).length > 0;
           const structuredValues = hasRepeatables
             ? structureFormValues(
-                currentState.values as Record<string, unknown>,
+                values,
                 currentState._repeatableConfigs,
                 currentState._repeatableOrder
               )
-            : (currentState.values as Record<string, unknown>);
+            : values;
 
-          if (onSubmitRef.current) {
-            await onSubmitRef.current(structuredValues);
-          }
+          await submitValues(structuredValues);
 
           state._setSubmitting(false);
           return true;
@@ -81,12 +149,19 @@ export function useFormSubmissionWithStore({
 
         if (!validationResult.isValid && !resolvedOptions.skipInvalid) {
           state._setSubmitting(false);
+          if (formConfigRef.current) {
+            moveToFirstInvalidField(store, formConfigRef.current, resolvedOptions.onInvalidSubmit);
+          }
           return false;
         }
 
         // Get current values, filtering out invalid fields if skipInvalid
         const currentState = store.getState();
-        let valuesToSubmit = currentState.values as Record<string, unknown>;
+        let valuesToSubmit = omitHiddenValues(
+          currentState.values as Record<string, unknown>,
+          currentState,
+          formConfigRef.current
+        );
 
         if (resolvedOptions.skipInvalid && !validationResult.isValid) {
           const invalidFieldIds = new Set(
@@ -110,14 +185,18 @@ export function useFormSubmissionWithStore({
           : valuesToSubmit;
 
         // Call onSubmit if provided
-        if (onSubmitRef.current) {
-          await onSubmitRef.current(structuredValues);
-        }
+        await submitValues(structuredValues);
 
         state._setSubmitting(false);
         return true;
       } catch (error) {
         state._setSubmitting(false);
+        // Errors of a rejected submission are shown on the matching fields
+        if (error instanceof SubmissionError && formConfigRef.current) {
+          applySubmissionError(store, error, formConfigRef.current);
+          moveToFirstInvalidField(store, formConfigRef.current, resolvedOptions.onInvalidSubmit);
+          return false;
+        }
         // Don't re-throw - submission errors are handled internally
         console.error('Form submission error:', error);
         return false;
@@ -1,4 +1,11 @@
-import type { FormConfiguration, FormFieldConfig, ValidationResult } from '@rilaykit/core';
+import type {
+  FieldValidationOptions,
+  FormConfiguration,
+  FormFieldConfig,
+  ValidationError,
+  ValidationResult,
+  ValidationState,
+} from '@rilaykit/core';
 import {
   createValidationContext,
   hasUnifiedValidation,
@@ -6,9 +13,9 @@ import {
   validateFormWithUnifiedConfig,
   validateWithUnifiedConfig,
 } from '@rilaykit/core';
-import { useCallback, useRef } from 'react';
+import { useCallback, useEffect, useRef } from 'react';
 import type { FormStore } from '../stores';
-import { buildCompositeKey, parseCompositeKey } from '../utils/repeatable-data';
+import { buildCompositeKey, parseCompositeKey, resolveFieldPath } from '../utils/repeatable-data';
 import type { UseFormConditionsReturn } from './useFormConditions';
 
 // Helper function to create success result
@@ -16,6 +23,33 @@ function createSuccessResult(): ValidationResult {
   return { isValid: true, errors: [] };
 }
 
+/**
+ * Latest validation of a field, the ones it supersedes resolve with its result
+ */
+interface FieldValidationRun {
+  controller: AbortController;
+  promise: Promise<ValidationResult>;
+  /** Run that superseded this one */
+  next?: FieldValidationRun;
+}
+
+/**
+ * Waits for `ms`, or until the signal is aborted
+ */
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timeout = setTimeout(resolve, ms);
+    signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timeout);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
 export interface UseFormValidationWithStoreProps {
   formConfig: FormConfiguration;
   store: FormStore;
@@ -35,9 +69,29 @@ export function useFormValidationWithStore({
   formConfigRef.current = formConfig;
   conditionsHelpersRef.current = conditionsHelpers;
 
-  // Optimized field validation with stable dependencies
-  const validateField = useCallback(
-    async (fieldId: string, value?: unknown): Promise<ValidationResult> => {
+  const runsRef = useRef(new Map<string, FieldValidationRun>());
+
+  // Fields showing errors of form-level schemas, cleared once the schemas pass
+  const formLevelErrorFieldsRef = useRef(new Set<string>());
+
+  // Pending validations are cancelled on unmount
+  useEffect(() => {
+    const runs = runsRef.current;
+    return () => {
+      for (const run of runs.values()) {
+        run.controller.abort();
+      }
+      runs.clear();
+    };
+  }, []);
+
+  const runFieldValidation = useCallback(
+    async (
+      fieldId: string,
+      value: unknown,
+      options: FieldValidationOptions,
+      signal: AbortSignal
+    ): Promise<ValidationResult> => {
       // Try static fields first, then composite key lookup for repeatable fields
       let fieldConfig: FormFieldConfig | undefined = formConfigRef.current.allFields.find(
         (field) => field.id === fieldId
@@ -56,17 +110,34 @@ export function useFormValidationWithStore({
         }
       }
 
-      const state = store.getState();
-
       // Skip if field doesn't exist
       if (!fieldConfig) {
         return createSuccessResult();
       }
 
+      const debounceMs = fieldConfig.validation?.debounceMs;
+      if (options.debounce && debounceMs) {
+        // The field is validating as soon as the run is scheduled
+        store.getState()._setValidationState(fieldId, 'validating');
+        await wait(debounceMs, signal);
+        if (signal.aborted) {
+          // The run superseding this one commits the state of the field
+          return createSuccessResult();
+        }
+      }
+
+      const state = store.getState();
+
+      // Only the latest validation of the field commits its result
+      const commit = (errors: ValidationError[], validationState: ValidationState) => {
+        if (signal.aborted) return;
+        state._setErrors(fieldId, errors);
+        state._setValidationState(fieldId, validationState);
+      };
+
       // Skip if field is invisible (clear errors)
       if (!conditionsHelpersRef.current.isFieldVisible(fieldId)) {
-        state._setErrors(fieldId, []);
-        state._setValidationState(fieldId, 'valid');
+        commit([], 'valid');
         return createSuccessResult();
       }
 
@@ -80,13 +151,11 @@ export function useFormValidationWithStore({
             isValid: false as const,
             errors: [{ message: 'This field is required', code: 'CONDITIONAL_REQUIRED' }],
           };
-          state._setErrors(fieldId, result.errors);
-          state._setValidationState(fieldId, 'invalid');
+          commit(result.errors, 'invalid');
           return result;
         }
 
-        state._setErrors(fieldId, []);
-        state._setValidationState(fieldId, 'valid');
+        commit([], 'valid');
         return createSuccessResult();
       }
 
@@ -97,6 +166,7 @@ export function useFormValidationWithStore({
         fieldId,
         formId: formConfigRef.current.id,
         allFormData: { ...state.values, [fieldId]: valueToValidate },
+        signal,
       });
 
       state._setValidationState(fieldId, 'validating');
@@ -125,15 +195,13 @@ export function useFormValidationWithStore({
                 ...result.errors,
               ],
             };
-            state._setErrors(fieldId, enhancedResult.errors);
-            state._setValidationState(fieldId, 'invalid');
+            commit(enhancedResult.errors, 'invalid');
             return enhancedResult;
           }
         }
 
         // Set results
-        state._setErrors(fieldId, result.errors);
-        state._setValidationState(fieldId, result.isValid ? 'valid' : 'invalid');
+        commit(result.errors, result.isValid ? 'valid' : 'invalid');
         return result;
       } catch (error) {
         const errorResult = {
@@ -145,14 +213,49 @@ export function useFormValidationWithStore({
             },
           ],
         };
-        state._setErrors(fieldId, errorResult.errors);
-        state._setValidationState(fieldId, 'invalid');
+        commit(errorResult.errors, 'invalid');
         return errorResult;
       }
     },
     [store]
   );
 
+  /**
+   * Validates a field, superseding its pending validation: the pending one is aborted, does
+   * not commit its result and resolves with the result of the new one
+   */
+  const validateField = useCallback(
+    (
+      fieldId: string,
+      value?: unknown,
+      options: FieldValidationOptions = {}
+    ): Promise<ValidationResult> => {
+      const runs = runsRef.current;
+      const previous = runs.get(fieldId);
+      previous?.controller.abort();
+
+      const controller = new AbortController();
+      const run: FieldValidationRun = {
+        controller,
+        promise: runFieldValidation(fieldId, value, options, controller.signal).then((result) => {
+          // Settled runs are forgotten, e.g. the ones of removed repeatable items
+          if (runs.get(fieldId) === run) {
+            runs.delete(fieldId);
+          }
+          return run.next ? run.next.promise : result;
+        }),
+      };
+      runs.set(fieldId, run);
+
+      if (previous) {
+        previous.next = run;
+      }
+
+      return run.promise;
+    },
+    [runFieldValidation]
+  );
+
   // Optimized form validation with stable dependencies
   const validateForm = useCallback(async (): Promise<ValidationResult> => {
     const state = store.getState();
@@ -181,10 +284,12 @@ export function useFormValidationWithStore({
       fieldsToValidate.map((field) => validateField(field.id))
     );
     let hasFieldErrors = fieldResults.some((result) => !result.isValid);
+    const validatedFieldIds = new Set(fieldsToValidate.map((field) => field.id));
 
     // Validate repeatable fields
     const repeatableConfigs = formConfigRef.current.repeatableFields ?? {};
     const repeatableResults: ValidationResult[] = [];
+    const repeatableCountErrors: ValidationError[] = [];
 
     for (const [repeatableId, config] of Object.entries(repeatableConfigs)) {
       const order = state._repeatableOrder[repeatableId] ?? [];
@@ -203,21 +308,19 @@ export function useFormValidationWithStore({
 
           const result = await validateField(compositeId);
           repeatableResults.push(result);
+          validatedFieldIds.add(compositeId);
         }
       }
 
       // Validate min count constraint
       if (config.min !== undefined && order.length < config.min) {
-        repeatableResults.push({
-          isValid: false,
-          errors: [
-            {
-              message: `At least ${config.min} item(s) required`,
-              code: 'REPEATABLE_MIN_COUNT',
-              path: repeatableId,
-            },
-          ],
-        });
+        const countError: ValidationError = {
+          message: `At least ${config.min} item(s) required`,
+          code: 'REPEATABLE_MIN_COUNT',
+          path: repeatableId,
+        };
+        repeatableCountErrors.push(countError);
+        repeatableResults.push({ isValid: false, errors: [countError] });
       }
     }
 
@@ -265,6 +368,37 @@ export function useFormValidationWithStore({
       }
     }
 
+    // Errors of form-level schemas are shown on the field of their path, the others and the
+    // item count errors of repeatables belong to the form
+    const formLevelFieldErrors: Record<string, ValidationError[]> = {};
+    const formErrors: ValidationError[] = [...repeatableCountErrors];
+    const { _repeatableOrder } = store.getState();
+
+    for (const error of formResult.errors) {
+      const fieldId = error.path
+        ? resolveFieldPath(error.path, formConfigRef.current, _repeatableOrder)
+        : null;
+      if (fieldId) {
+        formLevelFieldErrors[fieldId] = [...(formLevelFieldErrors[fieldId] ?? []), error];
+      } else {
+        formErrors.push(error);
+      }
+    }
+
+    for (const fieldId of formLevelErrorFieldsRef.current) {
+      if (!formLevelFieldErrors[fieldId] && !validatedFieldIds.has(fieldId)) {
+        state._setErrors(fieldId, []);
+      }
+    }
+    for (const [fieldId, errors] of Object.entries(formLevelFieldErrors)) {
+      const fieldErrors = validatedFieldIds.has(fieldId)
+        ? (store.getState().errors[fieldId] ?? [])
+        : [];
+      state._setErrors(fieldId, [...fieldErrors, ...errors]);
+    }
+    formLevelErrorFieldsRef.current = new Set(Object.keys(formLevelFieldErrors));
+    state._setFormErrors(formErrors);
+
     return {
       isValid: !hasFieldErrors && formResult.isValid,
       errors: [
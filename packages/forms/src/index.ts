@@ -1,6 +1,8 @@
 // Export all form builder components
 export { Form } from './components/Form';
 export { FormBody } from './components/FormBody';
+export { FormErrorSummary } from './components/FormErrorSummary';
+export type { FormErrorSummaryProps } from './components/FormErrorSummary';
 export { FormField } from './components/FormField';
 export { FormProvider, useFormConfigContext } from './components/FormProvider';
 export type { FormConfigContextValue, FormProviderProps } from './components/FormProvider';
@@ -11,7 +13,14 @@ export { RepeatableItem } from './components/repeatable-item';
 
 // Export form builder and ensure prototype extension is applied
 export { form as FormBuilder, form } from './builders/form';
-export type { FieldConfig } from './builders/form';
+export type {
+  FieldConfig,
+  FieldConfigs,
+  FieldValue,
+  FieldValues,
+  InferFormValues,
+  RepeatableValues,
+} from './builders/form';
 export { RepeatableBuilder } from './builders/repeatable-builder';
 
 // Export Zustand store and hooks
@@ -25,3 +34,35 @@ export type { ConditionEvaluationResult } from './hooks/useConditionEvaluation';
 
 // Export repeatable utilities
 export { structureFormValues, flattenRepeatableValues } from './utils/repeatable-data';
+
+// Export JSON format of form definitions
+export {
+  FORM_JSON_SCHEMA,
+  FORM_JSON_SCHEMA_DEFS,
+  parseFormDefinition,
+  serializeFormDefinition,
+} from './utils/form-json';
+export type {
+  FormDefinitionJSON,
+  FormFieldJSON,
+  FormFieldRowJSON,
+  FormJSON,
+  FormRepeatableRowJSON,
+  FormRowJSON,
+  FormValidationJSON,
+  ParsedFormDefinition,
+} from './utils/form-json';
+
+// Export form generation from JSON Schema
+export { DEFAULT_JSON_SCHEMA_MAPPING, generateFormFromJsonSchema } from './utils/json-schema';
+export type {
+  JsonSchema,
+  JsonSchemaField,
+  JsonSchemaFieldOption,
+  JsonSchemaFormEntry,
+  JsonSchemaMapping,
+  JsonSchemaType,
+} from './utils/json-schema';
+
+// Export contract of submitted data
+export { createFormValuesSchema, generateFormValuesTypes } from './utils/form-values-schema';
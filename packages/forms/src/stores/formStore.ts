@@ -1,23 +1,47 @@
 import type {
   FieldConditions,
   FieldState,
+  FormConfiguration,
   FormState,
+  HistoryOptions,
   RepeatableFieldConfig,
   ValidationError,
   ValidationState,
 } from '@rilaykit/core';
-import { createContext, useContext } from 'react';
+import { StateHistory, applyHistoryEntry } from '@rilaykit/core';
+import { createContext, useContext, useMemo } from 'react';
 import { createStore, useStore } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
+import type { form } from '../builders/form';
 import { buildCompositeKey } from '../utils/repeatable-data';
 
 // =================================================================
 // STORE STATE & ACTIONS
 // =================================================================
 
+/**
+ * Handle of a rendered field, registered by FormField to bring the user to it
+ */
+export interface FieldFocusHandle {
+  focus: () => void;
+  scrollIntoView: () => void;
+}
+
 export interface FormStoreState extends FormState {
+  // History state
+  canUndo: boolean;
+  canRedo: boolean;
+
+  /** Errors that belong to no field, e.g. returned by the server on submit */
+  formErrors: ValidationError[];
+
+  /** Submit attempts since the last reset, fields follow their `reValidateMode` once above 0 */
+  submitCount: number;
+
   // Internal state
   _defaultValues: Record<string, unknown>;
+  /** Fields changed through `_setValue`, unlike values written by computed fields or conditions */
+  _dirtyFields: Record<string, boolean>;
   _fieldConditions: Record<string, FieldConditions>;
 
   // Repeatable state
@@ -25,16 +49,25 @@ export interface FormStoreState extends FormState {
   _repeatableOrder: Record<string, string[]>;
   _repeatableNextKey: Record<string, number>;
 
+  /** Handles of the rendered fields, mutated in place as fields mount so nothing re-renders */
+  _fieldHandles: Map<string, FieldFocusHandle>;
+
   // Actions (internal - exposed via FormActions interface)
   _setValue: (fieldId: string, value: unknown) => void;
   _setTouched: (fieldId: string) => void;
   _setErrors: (fieldId: string, errors: ValidationError[]) => void;
   _clearErrors: (fieldId: string) => void;
+  _setFormErrors: (errors: ValidationError[]) => void;
   _setValidationState: (fieldId: string, state: ValidationState) => void;
   _setSubmitting: (isSubmitting: boolean) => void;
+  _incrementSubmitCount: () => void;
   _reset: (values?: Record<string, unknown>) => void;
   _setFieldConditions: (fieldId: string, conditions: FieldConditions) => void;
+  /** Registers the handle of a rendered field, returns the function unregistering it */
+  _registerField: (fieldId: string, handle: FieldFocusHandle) => () => void;
   _updateIsValid: () => void;
+  _undo: () => void;
+  _redo: () => void;
 
   // Repeatable actions
   _setRepeatableConfig: (id: string, config: RepeatableFieldConfig) => void;
@@ -57,7 +90,52 @@ export interface FormStoreState extends FormState {
 
 export type FormStore = ReturnType<typeof createFormStore>;
 
-export function createFormStore(initialValues: Record<string, unknown> = {}) {
+export interface CreateFormStoreOptions {
+  /**
+   * Enables undo/redo of value changes
+   */
+  history?: HistoryOptions | boolean;
+}
+
+export function createFormStore(
+  initialValues: Record<string, unknown> = {},
+  options: CreateFormStoreOptions = {}
+) {
+  const history = options.history
+    ? new StateHistory(options.history === true ? {} : options.history)
+    : null;
+
+  const getHistoryFlags = () =>
+    history ? { canUndo: history.canUndo(), canRedo: history.canRedo() } : {};
+
+  // Records a change of the items of a repeatable, with the values of the items added or removed
+  const recordRepeatableChange = (
+    state: FormStoreState,
+    repeatableId: string,
+    order: string[],
+    values: Record<string, unknown>
+  ) => {
+    if (!history) return;
+
+    const changedKeys = new Set(
+      Object.keys({ ...state.values, ...values }).filter(
+        (key) => !Object.is(state.values[key], values[key])
+      )
+    );
+    history.record([
+      {
+        path: ['_repeatableOrder', repeatableId],
+        previous: state._repeatableOrder[repeatableId],
+        next: order,
+      },
+      ...[...changedKeys].map((key) => ({
+        path: ['values', key],
+        previous: state.values[key],
+        next: values[key],
+      })),
+    ]);
+  };
+
   return createStore<FormStoreState>()(
     subscribeWithSelector((set, get) => ({
       // Initial state
@@ -68,9 +146,14 @@ export function createFormStore(initialValues: Record<string, unknown> = {}) {
       isDirty: false,
       isSubmitting: false,
       isValid: true,
+      canUndo: false,
+      canRedo: false,
+      formErrors: [],
+      submitCount: 0,
 
       // Internal state
       _defaultValues: { ...initialValues },
+      _dirtyFields: {},
       _fieldConditions: {},
 
       // Repeatable state
@@ -78,13 +161,25 @@ export function createFormStore(initialValues: Record<string, unknown> = {}) {
       _repeatableOrder: {},
       _repeatableNextKey: {},
 
+      _fieldHandles: new Map(),
+
       // Actions
       _setValue: (fieldId, value) => {
+        const previous = get().values[fieldId];
+        if (history && previous !== value) {
+          history.record(
+            [{ path: ['values', fieldId], previous, next: value }],
+            `values.${fieldId}`
+          );
+        }
+
         set((state) => {
           const newValues = { ...state.values, [fieldId]: value };
           return {
             values: newValues,
             isDirty: true,
+            _dirtyFields: { ...state._dirtyFields, [fieldId]: true },
+            ...getHistoryFlags(),
           };
         });
       },
@@ -130,6 +225,10 @@ export function createFormStore(initialValues: Record<string, unknown> = {}) {
         get()._updateIsValid();
       },
 
+      _setFormErrors: (errors) => {
+        set({ formErrors: errors });
+      },
+
       _setValidationState: (fieldId, validationState) => {
         set((state) => ({
           validationStates: {
@@ -143,21 +242,41 @@ export function createFormStore(initialValues: Record<string, unknown> = {}) {
         set({ isSubmitting });
       },
 
+      _incrementSubmitCount: () => {
+        set((state) => ({ submitCount: state.submitCount + 1 }));
+      },
+
       _reset: (values) => {
         const resetValues = values ?? get()._defaultValues;
+        history?.clear();
         set({
+          ...getHistoryFlags(),
           values: { ...resetValues },
           errors: {},
+          formErrors: [],
+          submitCount: 0,
           validationStates: {},
           touched: {},
           isDirty: false,
           isSubmitting: false,
           isValid: true,
+          _dirtyFields: {},
           _repeatableOrder: {},
           _repeatableNextKey: {},
         });
       },
 
+      _registerField: (fieldId, handle) => {
+        const handles = get()._fieldHandles;
+        handles.set(fieldId, handle);
+        return () => {
+          // Another FormField may have registered the same field since
+          if (handles.get(fieldId) === handle) {
+            handles.delete(fieldId);
+          }
+        };
+      },
+
       _setFieldConditions: (fieldId, conditions) => {
         set((state) => ({
           _fieldConditions: {
@@ -176,6 +295,28 @@ export function createFormStore(initialValues: Record<string, unknown> = {}) {
         set({ isValid: !hasErrors && !hasInvalidFields });
       },
 
+      _undo: () => {
+        const entry = history?.undo();
+        if (!entry) return;
+
+        set((state) => ({
+          ...applyHistoryEntry(state, entry, 'undo'),
+          isDirty: true,
+          ...getHistoryFlags(),
+        }));
+      },
+
+      _redo: () => {
+        const entry = history?.redo();
+        if (!entry) return;
+
+        set((state) => ({
+          ...applyHistoryEntry(state, entry, 'redo'),
+          isDirty: true,
+          ...getHistoryFlags(),
+        }));
+      },
+
       // Repeatable actions
       _setRepeatableConfig: (id, config) => {
         set((state) => ({
@@ -202,17 +343,21 @@ export function createFormStore(initialValues: Record<string, unknown> = {}) {
           newValues[compositeKey] = itemDefaults[field.id] ?? undefined;
         }
 
+        const newOrder = [...currentOrder, itemKey];
+        recordRepeatableChange(state, repeatableId, newOrder, newValues);
+
         set({
           values: newValues,
           isDirty: true,
           _repeatableOrder: {
             ...state._repeatableOrder,
-            [repeatableId]: [...currentOrder, itemKey],
+            [repeatableId]: newOrder,
           },
           _repeatableNextKey: {
             ...state._repeatableNextKey,
             [repeatableId]: nextKeyNum + 1,
           },
+          ...getHistoryFlags(),
         });
 
         return itemKey;
@@ -246,6 +391,8 @@ export function createFormStore(initialValues: Record<string, unknown> = {}) {
           delete newFieldConditions[compositeKey];
         }
 
+        recordRepeatableChange(state, repeatableId, newOrder, newValues);
+
         set({
           values: newValues,
           errors: newErrors,
@@ -257,6 +404,7 @@ export function createFormStore(initialValues: Record<string, unknown> = {}) {
             ...state._repeatableOrder,
             [repeatableId]: newOrder,
           },
+          ...getHistoryFlags(),
         });
 
         get()._updateIsValid();
@@ -275,11 +423,14 @@ export function createFormStore(initialValues: Record<string, unknown> = {}) {
         const [moved] = newOrder.splice(fromIndex, 1);
         newOrder.splice(toIndex, 0, moved);
 
+        recordRepeatableChange(state, repeatableId, newOrder, state.values);
+
         set({
           _repeatableOrder: {
             ...state._repeatableOrder,
             [repeatableId]: newOrder,
           },
+          ...getHistoryFlags(),
         });
       },
 
@@ -307,6 +458,8 @@ export function createFormStore(initialValues: Record<string, unknown> = {}) {
         const clampedIndex = Math.max(0, Math.min(index, newOrder.length));
         newOrder.splice(clampedIndex, 0, itemKey);
 
+        recordRepeatableChange(state, repeatableId, newOrder, newValues);
+
         set({
           values: newValues,
           isDirty: true,
@@ -318,6 +471,7 @@ export function createFormStore(initialValues: Record<string, unknown> = {}) {
             ...state._repeatableNextKey,
             [repeatableId]: nextKeyNum + 1,
           },
+          ...getHistoryFlags(),
         });
 
         return itemKey;
@@ -353,10 +507,20 @@ const EMPTY_FIELD_ERRORS: ValidationError[] = [];
 
 /**
  * Select a single field value - re-renders only when this field's value changes
+ *
+ * Passing the form types the value after its fields, the value is still read from the
+ * nearest FormProvider:
+ * `const email = useFieldValue(signupForm, 'email'); // string | undefined`
  */
-export function useFieldValue<T = unknown>(fieldId: string): T {
+export function useFieldValue<
+  TValues extends Record<string, any>,
+  K extends keyof TValues & string,
+>(formConfig: FormConfiguration<any, TValues> | form<any, TValues>, fieldId: K): TValues[K];
+export function useFieldValue<T = unknown>(fieldId: string): T;
+export function useFieldValue(...args: [unknown, string] | [string]): unknown {
+  const fieldId = args.length === 2 ? args[1] : args[0];
   const store = useFormStore();
-  return useStore(store, (state) => state.values[fieldId] as T);
+  return useStore(store, (state) => state.values[fieldId]);
 }
 
 /**
@@ -455,7 +619,14 @@ export function useFormDirty(): boolean {
 
 /**
  * Select all form values - uses shallow comparison
+ *
+ * Passing the form types the values after its fields. Items of repeatables are stored
+ * under composite keys (`items[k0].name`), not as the arrays `onSubmit` receives.
  */
+export function useFormValues<TValues extends Record<string, any>>(
+  formConfig: FormConfiguration<any, TValues> | form<any, TValues>
+): Partial<TValues>;
+export function useFormValues(): Record<string, unknown>;
 export function useFormValues(): Record<string, unknown> {
   const store = useFormStore();
 
@@ -479,6 +650,39 @@ export function useFormSubmitState(): {
   return { isSubmitting, isValid, isDirty };
 }
 
+export interface UseFormErrorsResult {
+  /** Errors that belong to no field */
+  formErrors: ValidationError[];
+  /** Errors of the fields that have some, by field id */
+  fieldErrors: Record<string, ValidationError[]>;
+  /** Whether the form or any field has errors */
+  hasErrors: boolean;
+}
+
+/**
+ * Select the form-level errors and the errors of all fields - re-renders when any of them change
+ */
+export function useFormErrors(): UseFormErrorsResult {
+  const store = useFormStore();
+  const errors = useStore(store, (state) => state.errors);
+  const formErrors = useStore(store, (state) => state.formErrors);
+
+  return useMemo(() => {
+    const fieldErrors: Record<string, ValidationError[]> = {};
+    for (const [fieldId, fieldIdErrors] of Object.entries(errors)) {
+      if (fieldIdErrors.length > 0) {
+        fieldErrors[fieldId] = fieldIdErrors;
+      }
+    }
+
+    return {
+      formErrors,
+      fieldErrors,
+      hasErrors: formErrors.length > 0 || Object.keys(fieldErrors).length > 0,
+    };
+  }, [errors, formErrors]);
+}
+
 // Stable empty array for repeatable keys
 const EMPTY_KEYS: string[] = [];
 
@@ -527,14 +731,20 @@ export interface UseFormActionsResult {
   setSubmitting: (isSubmitting: boolean) => void;
   reset: (values?: Record<string, unknown>) => void;
   setFieldConditions: (fieldId: string, conditions: FieldConditions) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
 }
 
 /**
  * Get stable form-level action references
- * Actions don't cause re-renders
+ * Actions don't cause re-renders, only `canUndo` / `canRedo` changes do
  */
 export function useFormActions(): UseFormActionsResult {
   const store = useFormStore();
+  const canUndo = useStore(store, (state) => state.canUndo);
+  const canRedo = useStore(store, (state) => state.canRedo);
 
   return {
     setValue: (fieldId: string, value: unknown) => store.getState()._setValue(fieldId, value),
@@ -545,6 +755,10 @@ export function useFormActions(): UseFormActionsResult {
     reset: (values?: Record<string, unknown>) => store.getState()._reset(values),
     setFieldConditions: (fieldId: string, conditions: FieldConditions) =>
       store.getState()._setFieldConditions(fieldId, conditions),
+    undo: () => store.getState()._undo(),
+    redo: () => store.getState()._redo(),
+    canUndo,
+    canRedo,
   };
 }
 
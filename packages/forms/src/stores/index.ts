@@ -1,6 +1,8 @@
 export {
   // Store factory
   createFormStore,
+  type CreateFormStoreOptions,
+  type FieldFocusHandle,
   type FormStore,
   type FormStoreState,
   // Context
@@ -19,6 +21,8 @@ export {
   useFormDirty,
   useFormValues,
   useFormSubmitState,
+  useFormErrors,
+  type UseFormErrorsResult,
   // Repeatable selectors
   useRepeatableKeys,
   // Action hooks
@@ -0,0 +1,73 @@
+import type { FormConfiguration, FormFieldConfig, InvalidSubmitBehavior } from '@rilaykit/core';
+import type { FormStore } from '../stores';
+import { buildCompositeKey } from './repeatable-data';
+
+/**
+ * A field of the form in row order, `field` is unset for the repeatable itself
+ */
+export interface OrderedField {
+  fieldId: string;
+  field?: FormFieldConfig;
+}
+
+/**
+ * Lists the fields of a form in the order of its rows, each repeatable followed by the
+ * fields of its items in item order
+ */
+export function getFieldsInOrder(
+  formConfig: FormConfiguration,
+  repeatableOrder: Record<string, string[]>
+): OrderedField[] {
+  const fields: OrderedField[] = [];
+
+  for (const row of formConfig.rows) {
+    if (row.kind === 'repeatable') {
+      const { repeatable } = row;
+      fields.push({ fieldId: repeatable.id });
+      for (const itemKey of repeatableOrder[repeatable.id] ?? []) {
+        for (const field of repeatable.allFields) {
+          fields.push({ fieldId: buildCompositeKey(repeatable.id, itemKey, field.id), field });
+        }
+      }
+      continue;
+    }
+
+    for (const field of row.fields) {
+      fields.push({ fieldId: field.id, field });
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Brings the user to the first rendered field with errors, in row order
+ *
+ * @returns Whether a field was found
+ */
+export function moveToFirstInvalidField(
+  store: FormStore,
+  formConfig: FormConfiguration,
+  behavior: InvalidSubmitBehavior = 'focusFirstError'
+): boolean {
+  if (behavior === 'none') {
+    return false;
+  }
+
+  const state = store.getState();
+  const handle = getFieldsInOrder(formConfig, state._repeatableOrder)
+    .filter(({ fieldId }) => (state.errors[fieldId]?.length ?? 0) > 0)
+    .map(({ fieldId }) => state._fieldHandles.get(fieldId))
+    .find((fieldHandle) => fieldHandle !== undefined);
+
+  if (!handle) {
+    return false;
+  }
+
+  if (behavior === 'scrollToFirstError') {
+    handle.scrollIntoView();
+  } else {
+    handle.focus();
+  }
+  return true;
+}
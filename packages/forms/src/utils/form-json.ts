@@ -0,0 +1,727 @@
+import {
+  type ConditionConfig,
+  type ConditionalBehavior,
+  type ConditionalBehaviorJSON,
+  type FieldEffect,
+  type FieldValidationJSON,
+  type FormFieldConfig,
+  type FormFieldRow,
+  type FormRowEntry,
+  type FormValidationConfig,
+  type HiddenFieldPolicy,
+  type InvalidSubmitBehavior,
+  REVALIDATE_MODES,
+  type ReValidateMode,
+  type RepeatableFieldConfig,
+  SERIALIZATION_SCHEMA_DEFS,
+  SERIALIZATION_VERSION,
+  type SerializationIssue,
+  type SubmitOptions,
+  VALIDATION_MODES,
+  type ValidationMode,
+  type ValidatorDescriptor,
+  checkJsonValue,
+  checkKnownKeys,
+  isPlainObject,
+  joinPath,
+  omitUndefined,
+  parseCondition,
+  parseConditionalBehavior,
+  parseFieldValidation,
+  parseValidators,
+  readOptional,
+  readOptionalEnum,
+  readString,
+  type ril,
+  serializeCondition,
+  serializeConditionalBehavior,
+  serializeFieldValidation,
+  serializeValidators,
+} from '@rilaykit/core';
+
+// =================================================================
+// JSON TYPES
+// =================================================================
+
+export interface FormFieldJSON {
+  id: string;
+  /** ID of the component registered on the ril instance */
+  componentId: string;
+  props?: Record<string, unknown>;
+  validation?: FieldValidationJSON;
+  conditions?: ConditionalBehaviorJSON;
+  whenHidden?: HiddenFieldPolicy;
+  effects?: FieldEffectJSON[];
+}
+
+export interface FieldEffectJSON {
+  when: ConditionConfig;
+  set: Record<string, unknown>;
+}
+
+export interface FormFieldRowJSON {
+  kind: 'fields';
+  id: string;
+  fields: FormFieldJSON[];
+  maxColumns?: number;
+}
+
+export interface FormRepeatableRowJSON {
+  kind: 'repeatable';
+  id: string;
+  repeatable: {
+    id: string;
+    rows: FormFieldRowJSON[];
+    min?: number;
+    max?: number;
+    defaultValue?: Record<string, unknown>;
+    validation?: FieldValidationJSON;
+  };
+}
+
+export type FormRowJSON = FormFieldRowJSON | FormRepeatableRowJSON;
+
+export interface FormValidationJSON {
+  validate?: ValidatorDescriptor[];
+  validateOnSubmit?: boolean;
+  validateOnStepChange?: boolean;
+  mode?: ValidationMode;
+  reValidateMode?: ReValidateMode;
+}
+
+/**
+ * Form definition, as embedded in the steps of a flow
+ */
+export interface FormDefinitionJSON {
+  id: string;
+  rows: FormRowJSON[];
+  validation?: FormValidationJSON;
+  submitOptions?: SubmitOptions;
+}
+
+/**
+ * Document produced by `form.toJSON()`
+ */
+export interface FormJSON extends FormDefinitionJSON {
+  $schema?: string;
+  version: number;
+}
+
+/**
+ * Form definition restored from JSON
+ */
+export interface ParsedFormDefinition {
+  id: string;
+  rows: FormRowEntry[];
+  validation?: FormValidationConfig;
+  submitOptions?: SubmitOptions;
+}
+
+const CONDITION_KEYS = ['visible', 'disabled', 'required', 'readonly'] as const;
+
+const HIDDEN_FIELD_POLICIES: readonly HiddenFieldPolicy[] = ['keep', 'clear', 'reset', 'exclude'];
+
+const INVALID_SUBMIT_BEHAVIORS: readonly InvalidSubmitBehavior[] = [
+  'focusFirstError',
+  'scrollToFirstError',
+  'none',
+];
+
+// =================================================================
+// SERIALIZATION
+// =================================================================
+
+function serializeField(
+  field: FormFieldConfig,
+  path: string,
+  issues: SerializationIssue[]
+): FormFieldJSON {
+  checkJsonValue(field.props, joinPath(path, 'props'), issues);
+  if (field.computed) {
+    issues.push({
+      path: joinPath(path, 'computed'),
+      message: 'Computed fields cannot be serialized',
+    });
+  }
+  if (field.optionsLoader) {
+    issues.push({
+      path: joinPath(path, 'optionsLoader'),
+      message: 'Options loaders cannot be serialized',
+    });
+  }
+
+  return omitUndefined({
+    id: field.id,
+    componentId: field.componentId,
+    props: Object.keys(field.props).length > 0 ? field.props : undefined,
+    validation: serializeFieldValidation(field.validation, joinPath(path, 'validation'), issues),
+    conditions: serializeConditionalBehavior(field.conditions),
+    whenHidden: field.whenHidden,
+    effects: field.effects?.map((effect, index) => {
+      checkJsonValue(
+        effect.set,
+        joinPath(joinPath(joinPath(path, 'effects'), index), 'set'),
+        issues
+      );
+      return { when: serializeCondition(effect.when), set: { ...effect.set } };
+    }),
+  });
+}
+
+function serializeFieldRow(
+  row: FormFieldRow,
+  path: string,
+  issues: SerializationIssue[]
+): FormFieldRowJSON {
+  return omitUndefined({
+    kind: 'fields' as const,
+    id: row.id,
+    fields: row.fields.map((field, index) =>
+      serializeField(field, joinPath(joinPath(path, 'fields'), index), issues)
+    ),
+    maxColumns: row.maxColumns,
+  });
+}
+
+function serializeRepeatable(
+  repeatable: RepeatableFieldConfig,
+  path: string,
+  issues: SerializationIssue[]
+): FormRepeatableRowJSON['repeatable'] {
+  if (repeatable.defaultValue) {
+    checkJsonValue(repeatable.defaultValue, joinPath(path, 'defaultValue'), issues);
+  }
+
+  return omitUndefined({
+    id: repeatable.id,
+    rows: repeatable.rows.map((row, index) =>
+      serializeFieldRow(row, joinPath(joinPath(path, 'rows'), index), issues)
+    ),
+    min: repeatable.min,
+    max: repeatable.max,
+    defaultValue: repeatable.defaultValue,
+    validation: serializeFieldValidation(
+      repeatable.validation,
+      joinPath(path, 'validation'),
+      issues
+    ),
+  });
+}
+
+/**
+ * Serializes a form definition, reporting what cannot be represented in JSON
+ */
+export function serializeFormDefinition(
+  definition: ParsedFormDefinition,
+  path: string,
+  issues: SerializationIssue[]
+): FormDefinitionJSON {
+  const rows = definition.rows.map((row, index): FormRowJSON => {
+    const rowPath = joinPath(joinPath(path, 'rows'), index);
+
+    if (row.kind === 'repeatable') {
+      return {
+        kind: 'repeatable',
+        id: row.id,
+        repeatable: serializeRepeatable(row.repeatable, joinPath(rowPath, 'repeatable'), issues),
+      };
+    }
+    return serializeFieldRow(row, rowPath, issues);
+  });
+
+  const { validation } = definition;
+  const validate = validation
+    ? serializeValidators(
+        validation.validate,
+        joinPath(joinPath(path, 'validation'), 'validate'),
+        issues
+      )
+    : [];
+
+  return omitUndefined({
+    id: definition.id,
+    rows,
+    validation: validation
+      ? omitUndefined({
+          validate: validate.length > 0 ? validate : undefined,
+          validateOnSubmit: validation.validateOnSubmit,
+          validateOnStepChange: validation.validateOnStepChange,
+          mode: validation.mode,
+          reValidateMode: validation.reValidateMode,
+        })
+      : undefined,
+    submitOptions: definition.submitOptions ? { ...definition.submitOptions } : undefined,
+  });
+}
+
+// =================================================================
+// DESERIALIZATION
+// =================================================================
+
+function parseField(
+  value: unknown,
+  config: ril<any>,
+  path: string,
+  issues: SerializationIssue[]
+): FormFieldConfig | undefined {
+  if (!isPlainObject(value)) {
+    issues.push({ path, message: 'Expected a field object' });
+    return undefined;
+  }
+
+  checkKnownKeys(
+    value,
+    ['id', 'componentId', 'props', 'validation', 'conditions', 'whenHidden', 'effects'],
+    path,
+    issues
+  );
+  const id = readString(value, 'id', path, issues);
+  const componentId = readString(value, 'componentId', path, issues);
+
+  if (id && (id.includes('[') || id.includes(']'))) {
+    issues.push({
+      path: joinPath(path, 'id'),
+      message: '"[" and "]" are reserved for repeatable composite keys',
+    });
+  }
+  if (componentId && !config.hasComponent(componentId)) {
+    issues.push({
+      path: joinPath(path, 'componentId'),
+      message: `Component "${componentId}" is not registered`,
+    });
+  }
+
+  const props = value.props ?? {};
+  if (isPlainObject(props)) {
+    checkJsonValue(props, joinPath(path, 'props'), issues);
+  } else {
+    issues.push({ path: joinPath(path, 'props'), message: 'Expected an object' });
+  }
+
+  return omitUndefined({
+    id: id as string,
+    componentId: componentId as string,
+    props: props as Record<string, unknown>,
+    validation: parseFieldValidation(
+      value.validation,
+      joinPath(path, 'validation'),
+      issues,
+      config.getValidators()
+    ),
+    conditions: parseConditionalBehavior(
+      value.conditions,
+      CONDITION_KEYS,
+      joinPath(path, 'conditions'),
+      issues
+    ) as ConditionalBehavior | undefined,
+    whenHidden: parseHiddenFieldPolicy(value.whenHidden, joinPath(path, 'whenHidden'), issues),
+    effects: parseFieldEffects(value.effects, joinPath(path, 'effects'), issues),
+  });
+}
+
+function parseHiddenFieldPolicy(
+  value: unknown,
+  path: string,
+  issues: SerializationIssue[]
+): HiddenFieldPolicy | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!HIDDEN_FIELD_POLICIES.includes(value as HiddenFieldPolicy)) {
+    issues.push({ path, message: 'Expected "keep", "clear", "reset" or "exclude"' });
+    return undefined;
+  }
+  return value as HiddenFieldPolicy;
+}
+
+function parseFieldEffects(
+  value: unknown,
+  path: string,
+  issues: SerializationIssue[]
+): FieldEffect[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'Expected an array of effects' });
+    return undefined;
+  }
+
+  return value.flatMap((effect, index) => {
+    const effectPath = joinPath(path, index);
+    if (!isPlainObject(effect)) {
+      issues.push({ path: effectPath, message: 'Expected an effect object' });
+      return [];
+    }
+
+    checkKnownKeys(effect, ['when', 'set'], effectPath, issues);
+    const when = parseCondition(effect.when, joinPath(effectPath, 'when'), issues);
+    if (!isPlainObject(effect.set)) {
+      issues.push({ path: joinPath(effectPath, 'set'), message: 'Expected an object' });
+      return [];
+    }
+    checkJsonValue(effect.set, joinPath(effectPath, 'set'), issues);
+
+    return when ? [{ when, set: effect.set }] : [];
+  });
+}
+
+function parseFields(
+  value: unknown,
+  config: ril<any>,
+  path: string,
+  issues: SerializationIssue[]
+): FormFieldConfig[] {
+  if (!Array.isArray(value) || value.length === 0 || value.length > 3) {
+    issues.push({ path, message: 'Expected an array of 1 to 3 fields' });
+    return [];
+  }
+
+  return value.flatMap((field, index) => {
+    const parsed = parseField(field, config, joinPath(path, index), issues);
+    return parsed ? [parsed] : [];
+  });
+}
+
+function parseFieldRow(
+  value: Record<string, unknown>,
+  config: ril<any>,
+  path: string,
+  issues: SerializationIssue[]
+): FormFieldRow {
+  checkKnownKeys(value, ['kind', 'id', 'fields', 'maxColumns'], path, issues);
+
+  return omitUndefined({
+    kind: 'fields' as const,
+    id: readString(value, 'id', path, issues) as string,
+    fields: parseFields(value.fields, config, joinPath(path, 'fields'), issues),
+    maxColumns: readOptional<number>(value, 'maxColumns', 'number', path, issues),
+  });
+}
+
+function parseRepeatable(
+  value: unknown,
+  config: ril<any>,
+  path: string,
+  issues: SerializationIssue[]
+): RepeatableFieldConfig | undefined {
+  if (!isPlainObject(value)) {
+    issues.push({ path, message: 'Expected a repeatable object' });
+    return undefined;
+  }
+
+  checkKnownKeys(value, ['id', 'rows', 'min', 'max', 'defaultValue', 'validation'], path, issues);
+  const id = readString(value, 'id', path, issues);
+  if (id && (id.includes('[') || id.includes(']'))) {
+    issues.push({
+      path: joinPath(path, 'id'),
+      message: '"[" and "]" are reserved for composite keys',
+    });
+  }
+
+  const rowsPath = joinPath(path, 'rows');
+  const rows: FormFieldRow[] = [];
+  if (Array.isArray(value.rows)) {
+    value.rows.forEach((row, index) => {
+      const rowPath = joinPath(rowsPath, index);
+      if (!isPlainObject(row) || (row.kind !== undefined && row.kind !== 'fields')) {
+        issues.push({
+          path: rowPath,
+          message: 'Expected a row of fields (nested repeatables are not supported)',
+        });
+        return;
+      }
+      rows.push(parseFieldRow(row, config, rowPath, issues));
+    });
+  } else {
+    issues.push({ path: rowsPath, message: 'Expected an array of rows' });
+  }
+
+  if (value.defaultValue !== undefined) {
+    if (isPlainObject(value.defaultValue)) {
+      checkJsonValue(value.defaultValue, joinPath(path, 'defaultValue'), issues);
+    } else {
+      issues.push({ path: joinPath(path, 'defaultValue'), message: 'Expected an object' });
+    }
+  }
+
+  return omitUndefined({
+    id: id as string,
+    rows,
+    allFields: rows.flatMap((row) => row.fields),
+    min: readOptional<number>(value, 'min', 'number', path, issues),
+    max: readOptional<number>(value, 'max', 'number', path, issues),
+    defaultValue: value.defaultValue as Record<string, unknown> | undefined,
+    validation: parseFieldValidation(
+      value.validation,
+      joinPath(path, 'validation'),
+      issues,
+      config.getValidators()
+    ),
+  });
+}
+
+function parseFormValidation(
+  value: unknown,
+  config: ril<any>,
+  path: string,
+  issues: SerializationIssue[]
+): FormValidationConfig | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isPlainObject(value)) {
+    issues.push({ path, message: 'Expected a validation object' });
+    return undefined;
+  }
+
+  checkKnownKeys(
+    value,
+    ['validate', 'validateOnSubmit', 'validateOnStepChange', 'mode', 'reValidateMode'],
+    path,
+    issues
+  );
+
+  return omitUndefined({
+    validate:
+      value.validate === undefined
+        ? undefined
+        : (parseValidators(
+            value.validate,
+            joinPath(path, 'validate'),
+            issues,
+            config.getValidators()
+          ) as FormValidationConfig['validate']),
+    validateOnSubmit: readOptional<boolean>(value, 'validateOnSubmit', 'boolean', path, issues),
+    validateOnStepChange: readOptional<boolean>(
+      value,
+      'validateOnStepChange',
+      'boolean',
+      path,
+      issues
+    ),
+    mode: readOptionalEnum(value, 'mode', VALIDATION_MODES, path, issues),
+    reValidateMode: readOptionalEnum(value, 'reValidateMode', REVALIDATE_MODES, path, issues),
+  });
+}
+
+function parseSubmitOptions(
+  value: unknown,
+  path: string,
+  issues: SerializationIssue[]
+): SubmitOptions | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isPlainObject(value)) {
+    issues.push({ path, message: 'Expected a submit options object' });
+    return undefined;
+  }
+
+  checkKnownKeys(value, ['force', 'skipInvalid', 'onInvalidSubmit'], path, issues);
+
+  return omitUndefined({
+    force: readOptional<boolean>(value, 'force', 'boolean', path, issues),
+    skipInvalid: readOptional<boolean>(value, 'skipInvalid', 'boolean', path, issues),
+    onInvalidSubmit: readOptionalEnum(
+      value,
+      'onInvalidSubmit',
+      INVALID_SUBMIT_BEHAVIORS,
+      path,
+      issues
+    ),
+  });
+}
+
+/**
+ * Validates a form definition and restores its rows, components must be registered on `config`
+ *
+ * Rows without `kind`, written before repeatables existed, are read as rows of fields.
+ */
+export function parseFormDefinition(
+  value: unknown,
+  config: ril<any>,
+  path: string,
+  issues: SerializationIssue[],
+  extraKeys: readonly string[] = []
+): ParsedFormDefinition | undefined {
+  if (!isPlainObject(value)) {
+    issues.push({ path, message: 'Expected a form object' });
+    return undefined;
+  }
+
+  checkKnownKeys(value, ['id', 'rows', 'validation', 'submitOptions', ...extraKeys], path, issues);
+  const id = readString(value, 'id', path, issues);
+
+  const rowsPath = joinPath(path, 'rows');
+  const rows: FormRowEntry[] = [];
+  if (Array.isArray(value.rows)) {
+    value.rows.forEach((row, index) => {
+      const rowPath = joinPath(rowsPath, index);
+      if (!isPlainObject(row)) {
+        issues.push({ path: rowPath, message: 'Expected a row object' });
+        return;
+      }
+
+      if (row.kind === 'repeatable') {
+        checkKnownKeys(row, ['kind', 'id', 'repeatable'], rowPath, issues);
+        const repeatable = parseRepeatable(
+          row.repeatable,
+          config,
+          joinPath(rowPath, 'repeatable'),
+          issues
+        );
+        if (repeatable) {
+          rows.push({
+            kind: 'repeatable',
+            id: readString(row, 'id', rowPath, issues) as string,
+            repeatable,
+          });
+        }
+      } else if (row.kind === undefined || row.kind === 'fields') {
+        rows.push(parseFieldRow(row, config, rowPath, issues));
+      } else {
+        issues.push({
+          path: joinPath(rowPath, 'kind'),
+          message: 'Expected "fields" or "repeatable"',
+        });
+      }
+    });
+  } else {
+    issues.push({ path: rowsPath, message: 'Expected an array of rows' });
+  }
+
+  return omitUndefined({
+    id: id as string,
+    rows,
+    validation: parseFormValidation(value.validation, config, joinPath(path, 'validation'), issues),
+    submitOptions: parseSubmitOptions(value.submitOptions, joinPath(path, 'submitOptions'), issues),
+  });
+}
+
+// =================================================================
+// JSON SCHEMA
+// =================================================================
+
+const FORM_DEFINITION_PROPERTIES = {
+  id: { type: 'string', minLength: 1 },
+  rows: { type: 'array', items: { $ref: '#/$defs/row' } },
+  validation: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      validate: { type: 'array', items: { $ref: '#/$defs/validator' } },
+      validateOnSubmit: { type: 'boolean' },
+      validateOnStepChange: { type: 'boolean' },
+      mode: { enum: [...VALIDATION_MODES] },
+      reValidateMode: { enum: [...REVALIDATE_MODES] },
+    },
+  },
+  submitOptions: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      force: { type: 'boolean' },
+      skipInvalid: { type: 'boolean' },
+      onInvalidSubmit: { enum: [...INVALID_SUBMIT_BEHAVIORS] },
+    },
+  },
+} as const;
+
+/**
+ * JSON Schema definitions of the form format, reused by the flow format
+ */
+export const FORM_JSON_SCHEMA_DEFS = {
+  ...SERIALIZATION_SCHEMA_DEFS,
+  conditionalBehavior: {
+    type: 'object',
+    additionalProperties: false,
+    properties: Object.fromEntries(
+      CONDITION_KEYS.map((key) => [key, { $ref: '#/$defs/condition' }])
+    ),
+  },
+  field: {
+    type: 'object',
+    required: ['id', 'componentId'],
+    additionalProperties: false,
+    properties: {
+      id: { type: 'string', minLength: 1, pattern: '^[^\\[\\]]+$' },
+      componentId: { type: 'string', minLength: 1 },
+      props: { type: 'object' },
+      validation: { $ref: '#/$defs/fieldValidation' },
+      conditions: { $ref: '#/$defs/conditionalBehavior' },
+      whenHidden: { enum: [...HIDDEN_FIELD_POLICIES] },
+      effects: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['when', 'set'],
+          additionalProperties: false,
+          properties: {
+            when: { $ref: '#/$defs/condition' },
+            set: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  fieldRow: {
+    type: 'object',
+    required: ['kind', 'id', 'fields'],
+    additionalProperties: false,
+    properties: {
+      kind: { const: 'fields' },
+      id: { type: 'string', minLength: 1 },
+      fields: { type: 'array', minItems: 1, maxItems: 3, items: { $ref: '#/$defs/field' } },
+      maxColumns: { type: 'number' },
+    },
+  },
+  repeatableRow: {
+    type: 'object',
+    required: ['kind', 'id', 'repeatable'],
+    additionalProperties: false,
+    properties: {
+      kind: { const: 'repeatable' },
+      id: { type: 'string', minLength: 1 },
+      repeatable: {
+        type: 'object',
+        required: ['id', 'rows'],
+        additionalProperties: false,
+        properties: {
+          id: { type: 'string', minLength: 1, pattern: '^[^\\[\\]]+$' },
+          rows: { type: 'array', items: { $ref: '#/$defs/fieldRow' } },
+          min: { type: 'number' },
+          max: { type: 'number' },
+          defaultValue: { type: 'object' },
+          validation: { $ref: '#/$defs/fieldValidation' },
+        },
+      },
+    },
+  },
+  row: {
+    oneOf: [{ $ref: '#/$defs/fieldRow' }, { $ref: '#/$defs/repeatableRow' }],
+  },
+  formDefinition: {
+    type: 'object',
+    required: ['id', 'rows'],
+    additionalProperties: false,
+    properties: FORM_DEFINITION_PROPERTIES,
+  },
+} as const;
+
+/**
+ * JSON Schema (draft 2020-12) of the documents produced by `form.toJSON()`
+ */
+export const FORM_JSON_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  title: 'Rilay form',
+  type: 'object',
+  required: ['version', 'id', 'rows'],
+  additionalProperties: false,
+  properties: {
+    $schema: { type: 'string' },
+    version: { const: SERIALIZATION_VERSION },
+    ...FORM_DEFINITION_PROPERTIES,
+  },
+  $defs: FORM_JSON_SCHEMA_DEFS,
+} as const;
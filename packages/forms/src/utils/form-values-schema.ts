@@ -0,0 +1,234 @@
+/**
+ * Contract of the data a form submits, as JSON Schema (draft 2020-12) and TypeScript
+ *
+ * Used by `form.toJsonSchema()` and the `rilaykit-forms` codegen command.
+ */
+
+import {
+  type FormConfiguration,
+  type FormFieldConfig,
+  type ValidatorDescriptor,
+  getValidatorDescriptor,
+  isPlainObject,
+  isValidatorDescriptor,
+  normalizeToArray,
+  type ril,
+} from '@rilaykit/core';
+import type { JsonSchema, JsonSchemaType } from './json-schema';
+
+// =================================================================
+// JSON SCHEMA
+// =================================================================
+
+function getDescriptors(field: FormFieldConfig): ValidatorDescriptor[] {
+  const { validate } = field.validation ?? {};
+  if (!validate) {
+    return [];
+  }
+
+  return normalizeToArray(validate).flatMap((validator) => {
+    const descriptor = isValidatorDescriptor(validator)
+      ? validator
+      : getValidatorDescriptor(validator);
+    return descriptor ? [descriptor] : [];
+  });
+}
+
+/**
+ * Describes the value of a field from its component, props and validators
+ *
+ * The component `valueSchema` is authoritative for the type. Without it, the type is
+ * inferred from validators, which cannot tell whether a `number()` input submits a
+ * number or its text.
+ */
+function createFieldSchema(
+  field: FormFieldConfig,
+  config: ril<any>
+): { schema: JsonSchema; required: boolean } {
+  const component = config.getComponent(field.componentId);
+  const schema: JsonSchema = { ...(component?.valueSchema as JsonSchema | undefined) };
+  const inferType = (type: JsonSchemaType) => {
+    if (!component?.valueSchema && schema.type === undefined) {
+      schema.type = type;
+    }
+  };
+
+  const { label, description, options } = field.props ?? {};
+  if (typeof label === 'string') schema.title = label;
+  if (typeof description === 'string') schema.description = description;
+  if (Array.isArray(options) && schema.enum === undefined) {
+    schema.enum = options.map((option) => (isPlainObject(option) ? option.value : option));
+  }
+
+  let required = false;
+  for (const { name, args = [] } of getDescriptors(field)) {
+    switch (name) {
+      case 'required':
+        required = true;
+        break;
+      case 'email':
+      case 'url':
+        inferType('string');
+        schema.format = name === 'email' ? 'email' : 'uri';
+        break;
+      case 'minLength':
+      case 'maxLength':
+        inferType('string');
+        schema[name] = args[0] as number;
+        break;
+      case 'pattern':
+        inferType('string');
+        schema.pattern = args[0] as string;
+        break;
+      case 'number':
+        inferType('number');
+        break;
+      case 'min':
+      case 'max':
+        inferType('number');
+        schema[name === 'min' ? 'minimum' : 'maximum'] = args[0] as number;
+        break;
+    }
+  }
+
+  // Conditionally visible or required fields can be submitted empty
+  const conditional = Boolean(field.conditions?.visible || field.conditions?.required);
+
+  return { schema, required: required && !conditional };
+}
+
+function createObjectSchema(
+  fields: FormFieldConfig[],
+  config: ril<any>
+): Required<Pick<JsonSchema, 'properties' | 'required'>> {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const field of fields) {
+    const fieldSchema = createFieldSchema(field, config);
+    properties[field.id] = fieldSchema.schema;
+    if (fieldSchema.required) {
+      required.push(field.id);
+    }
+  }
+
+  return { properties, required };
+}
+
+/**
+ * Derives the JSON Schema of the data submitted by a form
+ *
+ * Fields are keyed by id (dot-path ids are not nested) and repeatables are arrays of
+ * objects keyed by template field id, as `onSubmit` receives them. The schema does not
+ * forbid additional properties, since default values not bound to a field are
+ * submitted as well.
+ */
+export function createFormValuesSchema(formConfig: FormConfiguration<any>): JsonSchema {
+  const { properties, required } = createObjectSchema(formConfig.allFields, formConfig.config);
+
+  for (const repeatable of Object.values(formConfig.repeatableFields ?? {})) {
+    const items = createObjectSchema(repeatable.allFields, formConfig.config);
+    properties[repeatable.id] = {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: items.properties,
+        ...(items.required.length > 0 && { required: items.required }),
+        additionalProperties: false,
+      },
+      ...(repeatable.min !== undefined && { minItems: repeatable.min }),
+      ...(repeatable.max !== undefined && { maxItems: repeatable.max }),
+    };
+    required.push(repeatable.id);
+  }
+
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    title: formConfig.id,
+    type: 'object',
+    properties,
+    ...(required.length > 0 && { required }),
+  };
+}
+
+// =================================================================
+// TYPESCRIPT
+// =================================================================
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+function indent(text: string, depth: number): string {
+  return text.replace(/\n/g, `\n${'  '.repeat(depth)}`);
+}
+
+function toTypeScript(schema: JsonSchema | undefined): string {
+  if (!schema) {
+    return 'unknown';
+  }
+  if ('const' in schema) {
+    return JSON.stringify(schema.const);
+  }
+  if (schema.enum) {
+    return schema.enum.map((value) => JSON.stringify(value)).join(' | ') || 'never';
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  if (types.length === 0) {
+    return schema.properties ? toObjectType(schema) : 'unknown';
+  }
+
+  return types
+    .map((type) => {
+      switch (type) {
+        case 'string':
+          return 'string';
+        case 'number':
+        case 'integer':
+          return 'number';
+        case 'boolean':
+          return 'boolean';
+        case 'null':
+          return 'null';
+        case 'array': {
+          const items = toTypeScript(schema.items);
+          return /^[\w$"]+(\[\])?$/.test(items) ? `${items}[]` : `Array<${items}>`;
+        }
+        case 'object':
+          return toObjectType(schema);
+        default:
+          return 'unknown';
+      }
+    })
+    .join(' | ');
+}
+
+function toObjectType(schema: JsonSchema): string {
+  if (!schema.properties) {
+    return 'Record<string, unknown>';
+  }
+
+  const required = schema.required ?? [];
+  const members = Object.entries(schema.properties).map(([key, property]) => {
+    const comment = property.description ?? property.title;
+    const name = IDENTIFIER.test(key) ? key : JSON.stringify(key);
+    const optional = required.includes(key) ? '' : '?';
+    return `${comment ? `/** ${comment.replace(/\*\//g, '*\\/')} */\n` : ''}${name}${optional}: ${toTypeScript(property)};`;
+  });
+
+  return `{\n  ${indent(members.join('\n'), 1)}\n}`;
+}
+
+/**
+ * Generates a TypeScript declaration of the values described by a JSON Schema
+ *
+ * @param schema - Object schema, e.g. produced by `form.toJsonSchema()`
+ * @param typeName - Name of the exported type
+ * @returns Declaration source, ready to be written to a `.d.ts` file
+ */
+export function generateFormValuesTypes(schema: JsonSchema, typeName: string): string {
+  if (!IDENTIFIER.test(typeName)) {
+    throw new Error(`"${typeName}" is not a valid type name`);
+  }
+
+  return `export type ${typeName} = ${toTypeScript(schema)};\n`;
+}
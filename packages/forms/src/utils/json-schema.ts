@@ -0,0 +1,482 @@
+/**
+ * Form generation from JSON Schema (draft 2020-12), used by `form.fromJsonSchema()`
+ *
+ * Properties are mapped to components registered on the ril instance, constraints to
+ * validator descriptors and nested objects to dot-path field ids. Arrays of objects
+ * become repeatables.
+ */
+
+import {
+  type SerializationIssue,
+  type ValidatorDescriptor,
+  isPlainObject,
+  joinPath,
+  omitUndefined,
+  type ril,
+} from '@rilaykit/core';
+
+// =================================================================
+// TYPES
+// =================================================================
+
+export type JsonSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'null';
+
+/**
+ * JSON Schema keywords read by `form.fromJsonSchema()`, other keywords are ignored
+ */
+export interface JsonSchema {
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  definitions?: Record<string, JsonSchema>;
+  type?: JsonSchemaType | JsonSchemaType[];
+  title?: string;
+  description?: string;
+  default?: unknown;
+  format?: string;
+  enum?: unknown[];
+  const?: unknown;
+  oneOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  [keyword: string]: unknown;
+}
+
+/**
+ * Maps JSON Schema properties to components registered on the ril instance
+ *
+ * @template C - The component configuration map
+ */
+export interface JsonSchemaMapping<C extends Record<string, any> = Record<string, any>> {
+  /** ID of the generated form, auto-generated if not provided */
+  formId?: string;
+  /**
+   * Component of each JSON type, merged with `DEFAULT_JSON_SCHEMA_MAPPING`.
+   * `array` is used for arrays of values, arrays of objects become repeatables.
+   */
+  types?: Partial<Record<'string' | 'number' | 'integer' | 'boolean' | 'array', keyof C & string>>;
+  /** Component of string formats (`date`, `email`...), takes precedence over `types.string` */
+  formats?: Record<string, keyof C & string>;
+  /** Component of properties with a fixed set of values (`enum`, `oneOf` of `const`) */
+  enum?: keyof C & string;
+  /** Component of specific fields by field id, takes precedence over everything else */
+  fields?: Record<string, keyof C & string>;
+  /** Additional props of a field, merged over the props derived from its schema */
+  props?: (property: JsonSchema, fieldId: string) => Record<string, unknown> | undefined;
+}
+
+/**
+ * Components used when the mapping does not specify one
+ */
+export const DEFAULT_JSON_SCHEMA_MAPPING = {
+  types: { string: 'text', number: 'number', integer: 'number', boolean: 'checkbox' },
+  enum: 'select',
+} as const;
+
+export interface JsonSchemaFieldOption {
+  value: unknown;
+  label: string;
+}
+
+/**
+ * Field generated from a property
+ */
+export interface JsonSchemaField {
+  id: string;
+  type: string;
+  props: Record<string, unknown>;
+  validation?: { validate: ValidatorDescriptor[] };
+}
+
+/**
+ * Entry of the generated form, in property order
+ */
+export type JsonSchemaFormEntry =
+  | { kind: 'field'; field: JsonSchemaField }
+  | {
+      kind: 'repeatable';
+      id: string;
+      fields: JsonSchemaField[];
+      min?: number;
+      max?: number;
+      defaultValue?: Record<string, unknown>;
+    };
+
+interface GenerationContext {
+  config: ril<any>;
+  root: JsonSchema;
+  mapping: JsonSchemaMapping<any>;
+  issues: SerializationIssue[];
+}
+
+// =================================================================
+// SCHEMA RESOLUTION
+// =================================================================
+
+function resolvePointer(root: JsonSchema, ref: string): unknown {
+  return ref
+    .slice(2)
+    .split('/')
+    .map((segment) => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<unknown>(
+      (target, segment) => (isPlainObject(target) ? target[segment] : undefined),
+      root
+    );
+}
+
+/**
+ * Follows `$ref` and merges `allOf`, so that the returned schema describes the property
+ * by itself
+ */
+function resolveSchema(
+  schema: JsonSchema,
+  path: string,
+  context: GenerationContext,
+  refs: string[] = []
+): JsonSchema | undefined {
+  let resolved = schema;
+
+  if (schema.$ref !== undefined) {
+    const { $ref, ...siblings } = schema;
+    if (!$ref.startsWith('#/') && $ref !== '#') {
+      context.issues.push({ path, message: `Only local references are supported, got "${$ref}"` });
+      return undefined;
+    }
+    if (refs.includes($ref)) {
+      context.issues.push({ path, message: `Circular reference "${$ref}"` });
+      return undefined;
+    }
+
+    const target = $ref === '#' ? context.root : resolvePointer(context.root, $ref);
+    if (!isPlainObject(target)) {
+      context.issues.push({ path, message: `Cannot resolve reference "${$ref}"` });
+      return undefined;
+    }
+
+    const referenced = resolveSchema(target as JsonSchema, path, context, [...refs, $ref]);
+    if (!referenced) {
+      return undefined;
+    }
+    resolved = { ...referenced, ...siblings };
+  }
+
+  if (resolved.allOf) {
+    const { allOf, ...merged } = resolved;
+    const properties: Record<string, JsonSchema> = { ...merged.properties };
+    const required: string[] = [...(merged.required ?? [])];
+
+    for (const [index, part] of allOf.entries()) {
+      const partPath = joinPath(joinPath(path, 'allOf'), index);
+      const partSchema = resolveSchema(part, partPath, context, refs);
+      if (!partSchema) {
+        return undefined;
+      }
+
+      Object.assign(merged, partSchema);
+      Object.assign(properties, partSchema.properties);
+      required.push(...(partSchema.required ?? []));
+    }
+
+    return { ...merged, properties, required };
+  }
+
+  return resolved;
+}
+
+/**
+ * Returns the type of a property, ignoring `null` in nullable types
+ */
+function getSchemaType(schema: JsonSchema): JsonSchemaType | undefined {
+  if (Array.isArray(schema.type)) {
+    const types = schema.type.filter((type) => type !== 'null');
+    return types.length === 1 ? types[0] : undefined;
+  }
+  if (schema.type) {
+    return schema.type;
+  }
+  if (schema.properties) {
+    return 'object';
+  }
+  if (schema.items) {
+    return 'array';
+  }
+
+  // Properties with a fixed set of values often omit their type
+  const value = getOptions(schema)?.[0]?.value;
+  const valueType = typeof value;
+  if (valueType === 'string' || valueType === 'boolean') {
+    return valueType;
+  }
+  if (valueType === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return undefined;
+}
+
+/**
+ * Returns the options of a property with a fixed set of values
+ */
+function getOptions(schema: JsonSchema): JsonSchemaFieldOption[] | undefined {
+  if (schema.enum) {
+    return schema.enum
+      .filter((value) => value !== null)
+      .map((value) => ({ value, label: String(value) }));
+  }
+
+  const variants = schema.oneOf ?? schema.anyOf;
+  if (variants?.length && variants.every((variant) => 'const' in variant)) {
+    return variants.map((variant) => ({
+      value: variant.const,
+      label: variant.title ?? String(variant.const),
+    }));
+  }
+
+  return undefined;
+}
+
+// =================================================================
+// FIELD GENERATION
+// =================================================================
+
+function getValidators(
+  schema: JsonSchema,
+  type: JsonSchemaType,
+  required: boolean
+): ValidatorDescriptor[] {
+  const validators: ValidatorDescriptor[] = [];
+
+  if (required) {
+    validators.push({ name: 'required' });
+  }
+
+  if (type === 'string') {
+    if (schema.format === 'email') validators.push({ name: 'email' });
+    if (schema.format === 'uri' || schema.format === 'url') validators.push({ name: 'url' });
+    if (schema.minLength !== undefined) {
+      validators.push({ name: 'minLength', args: [schema.minLength] });
+    }
+    if (schema.maxLength !== undefined) {
+      validators.push({ name: 'maxLength', args: [schema.maxLength] });
+    }
+    if (schema.pattern !== undefined) {
+      validators.push({ name: 'pattern', args: [schema.pattern] });
+    }
+  }
+
+  if (type === 'number' || type === 'integer') {
+    validators.push({ name: 'number' });
+    if (schema.minimum !== undefined) validators.push({ name: 'min', args: [schema.minimum] });
+    if (schema.maximum !== undefined) validators.push({ name: 'max', args: [schema.maximum] });
+  }
+
+  return validators;
+}
+
+function getComponent(
+  schema: JsonSchema,
+  type: JsonSchemaType,
+  id: string,
+  options: JsonSchemaFieldOption[] | undefined,
+  context: GenerationContext
+): string | undefined {
+  const { mapping } = context;
+  const types: Partial<Record<string, string>> = {
+    ...DEFAULT_JSON_SCHEMA_MAPPING.types,
+    ...mapping.types,
+  };
+
+  if (mapping.fields?.[id]) return mapping.fields[id];
+  if (options && type !== 'array') return mapping.enum ?? DEFAULT_JSON_SCHEMA_MAPPING.enum;
+  if (type === 'string' && schema.format && mapping.formats?.[schema.format]) {
+    return mapping.formats[schema.format];
+  }
+  return types[type];
+}
+
+function createField(
+  schema: JsonSchema,
+  type: JsonSchemaType,
+  id: string,
+  key: string,
+  required: boolean,
+  path: string,
+  context: GenerationContext
+): JsonSchemaField | undefined {
+  const options = getOptions(type === 'array' && schema.items ? schema.items : schema);
+  const component = getComponent(schema, type, id, options, context);
+
+  if (!component) {
+    context.issues.push({ path, message: `No component is mapped to type "${type}"` });
+    return undefined;
+  }
+  if (!context.config.hasComponent(component)) {
+    context.issues.push({ path, message: `Component "${component}" is not registered` });
+    return undefined;
+  }
+
+  const validate = getValidators(schema, type, required);
+
+  return omitUndefined({
+    id,
+    type: component,
+    props: omitUndefined({
+      label: schema.title ?? key,
+      description: schema.description,
+      options,
+      ...context.mapping.props?.(schema, id),
+    }),
+    validation: validate.length > 0 ? { validate } : undefined,
+  });
+}
+
+/**
+ * Generates the entries of the properties of an object schema, nested objects are
+ * flattened into dot-path field ids
+ */
+function generateProperties(
+  schema: JsonSchema,
+  prefix: string,
+  path: string,
+  context: GenerationContext,
+  inRepeatable: boolean
+): JsonSchemaFormEntry[] {
+  const required = schema.required ?? [];
+
+  return Object.entries(schema.properties ?? {}).flatMap(
+    ([key, propertySchema]): JsonSchemaFormEntry[] => {
+      const propertyPath = joinPath(joinPath(path, 'properties'), key);
+      const id = prefix ? `${prefix}.${key}` : key;
+
+      if (key.includes('[') || key.includes(']') || key.includes('.')) {
+        context.issues.push({
+          path: propertyPath,
+          message: 'Property names cannot contain "[", "]" or "."',
+        });
+        return [];
+      }
+
+      const property = resolveSchema(propertySchema, propertyPath, context);
+      if (!property) {
+        return [];
+      }
+
+      const type = getSchemaType(property);
+
+      if (type === 'object' && !context.mapping.fields?.[id]) {
+        return generateProperties(property, id, propertyPath, context, inRepeatable);
+      }
+
+      if (type === 'array' && !context.mapping.fields?.[id]) {
+        const items = property.items
+          ? resolveSchema(property.items, joinPath(propertyPath, 'items'), context)
+          : undefined;
+
+        if (items && getSchemaType(items) === 'object') {
+          if (inRepeatable) {
+            context.issues.push({
+              path: propertyPath,
+              message: 'Arrays of objects cannot be nested in arrays of objects',
+            });
+            return [];
+          }
+
+          return [createRepeatable(property, items, id, propertyPath, context)];
+        }
+      }
+
+      if (!type || type === 'null') {
+        context.issues.push({ path: propertyPath, message: 'Cannot determine the type' });
+        return [];
+      }
+
+      const field = createField(
+        property,
+        type,
+        id,
+        key,
+        required.includes(key),
+        propertyPath,
+        context
+      );
+      return field ? [{ kind: 'field', field }] : [];
+    }
+  );
+}
+
+function createRepeatable(
+  schema: JsonSchema,
+  items: JsonSchema,
+  id: string,
+  path: string,
+  context: GenerationContext
+): JsonSchemaFormEntry {
+  const itemsPath = joinPath(path, 'items');
+  const fields = generateProperties(items, '', itemsPath, context, true).flatMap((entry) =>
+    entry.kind === 'field' ? [entry.field] : []
+  );
+
+  if (fields.length === 0) {
+    context.issues.push({ path: itemsPath, message: 'Expected at least one property' });
+  }
+
+  const defaults = Object.entries(items.properties ?? {}).filter(
+    ([, property]) => property.default !== undefined
+  );
+
+  return omitUndefined({
+    kind: 'repeatable' as const,
+    id,
+    fields,
+    min: schema.minItems,
+    max: schema.maxItems,
+    defaultValue:
+      defaults.length > 0
+        ? Object.fromEntries(defaults.map(([key, property]) => [key, property.default]))
+        : undefined,
+  });
+}
+
+/**
+ * Generates the fields and repeatables of an object schema, reporting what cannot be
+ * mapped to a registered component
+ */
+export function generateFormFromJsonSchema(
+  schema: JsonSchema,
+  config: ril<any>,
+  mapping: JsonSchemaMapping<any>,
+  issues: SerializationIssue[]
+): JsonSchemaFormEntry[] {
+  const context: GenerationContext = { config, root: schema, mapping, issues };
+
+  if (!isPlainObject(schema)) {
+    issues.push({ path: '', message: 'Expected a schema object' });
+    return [];
+  }
+
+  const resolved = resolveSchema(schema, '', context);
+  if (!resolved) {
+    return [];
+  }
+  if (getSchemaType(resolved) !== 'object') {
+    issues.push({ path: 'type', message: 'Expected an object schema' });
+    return [];
+  }
+
+  return generateProperties(resolved, '', '', context, false);
+}
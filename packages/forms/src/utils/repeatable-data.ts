@@ -1,4 +1,4 @@
-import type { RepeatableFieldConfig } from '@rilaykit/core';
+import type { FormConfiguration, RepeatableFieldConfig } from '@rilaykit/core';
 
 // =================================================================
 // COMPOSITE KEY HELPERS
@@ -143,3 +143,45 @@ export function flattenRepeatableValues(
 
   return { values, order, nextKeys };
 }
+
+// =================================================================
+// PATHS: error paths → store keys
+// =================================================================
+
+/**
+ * Regex to parse paths into repeatable items: `repeatableId[key].fieldId`,
+ * `repeatableId[index].fieldId` or `repeatableId.index.fieldId`
+ */
+const ITEM_PATH_REGEX = /^([^[\].]+)(?:\[([^\]]+)\]|\.(\d+))\.(.+)$/;
+
+/**
+ * Resolves a field id or path to the key of the field in the store.
+ * Item indexes are resolved to item keys, e.g. `items[2].qty` → `items[k5].qty`.
+ * Returns null if the path matches no field of the form.
+ */
+export function resolveFieldPath(
+  path: string,
+  formConfig: FormConfiguration,
+  repeatableOrder: Record<string, string[]>
+): string | null {
+  if (formConfig.allFields.some((field) => field.id === path)) {
+    return path;
+  }
+
+  const match = ITEM_PATH_REGEX.exec(path);
+  if (!match) return null;
+
+  const [, repeatableId, bracketKey, dotIndex, fieldId] = match;
+  const config = formConfig.repeatableFields?.[repeatableId];
+  if (!config?.allFields.some((field) => field.id === fieldId)) return null;
+
+  const order = repeatableOrder[repeatableId] ?? [];
+  const segment = bracketKey ?? dotIndex;
+  const itemKey = order.includes(segment)
+    ? segment
+    : /^\d+$/.test(segment)
+      ? order[Number(segment)]
+      : undefined;
+
+  return itemKey ? buildCompositeKey(repeatableId, itemKey, fieldId) : null;
+}
@@ -1,5 +1,5 @@
 import type { ConditionalBehavior } from '@rilaykit/core';
-import type { ConditionConfig } from '@rilaykit/core';
+import { type ConditionConfig, type ConditionValue, isFieldReference } from '@rilaykit/core';
 
 // =================================================================
 // SCOPE CONDITIONS
@@ -81,10 +81,9 @@ function scopeConditionConfig(
   templateFieldIds: Set<string>
 ): ConditionConfig {
   // Scope the field reference if it belongs to the template
-  const scopedField =
-    config.field && templateFieldIds.has(config.field)
-      ? `${repeatableId}[${itemKey}].${config.field}`
-      : config.field;
+  const scope = (field: string) =>
+    field && templateFieldIds.has(field) ? `${repeatableId}[${itemKey}].${field}` : field;
+  const scopedField = scope(config.field);
 
   // Recursively scope nested conditions
   const scopedConditions = config.conditions?.map((nested) =>
@@ -94,6 +93,20 @@ function scopeConditionConfig(
   return {
     ...config,
     field: scopedField,
+    value: scopeValue(config.value, scope),
     conditions: scopedConditions,
   };
 }
+
+/**
+ * Scopes the fields referenced by a condition value, e.g. `field('startDate')`
+ */
+function scopeValue(value: ConditionValue, scope: (field: string) => string): ConditionValue {
+  if (isFieldReference(value)) {
+    return { field: scope(value.field) };
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => (isFieldReference(item) ? { field: scope(item.field) } : item));
+  }
+  return value;
+}
@@ -0,0 +1,35 @@
+import type { FormConfiguration, SubmissionError, ValidationError } from '@rilaykit/core';
+import type { FormStore } from '../stores';
+import { resolveFieldPath } from './repeatable-data';
+
+/**
+ * Shows the errors of a rejected submission in the form
+ *
+ * Errors are set on the fields their path resolves to, which are marked as touched so they
+ * are validated again once changed. Errors whose path matches no field of the form are
+ * kept as form-level errors, with that path.
+ */
+export function applySubmissionError(
+  store: FormStore,
+  error: SubmissionError,
+  formConfig: FormConfiguration
+): void {
+  const state = store.getState();
+  const fieldErrors: Record<string, ValidationError[]> = {};
+  const formErrors: ValidationError[] = [...error.formErrors];
+
+  for (const [path, errors] of Object.entries(error.fieldErrors)) {
+    const fieldId = resolveFieldPath(path, formConfig, state._repeatableOrder);
+    if (fieldId) {
+      fieldErrors[fieldId] = [...(fieldErrors[fieldId] ?? []), ...errors];
+    } else {
+      formErrors.push(...errors.map((fieldError) => ({ ...fieldError, path })));
+    }
+  }
+
+  for (const [fieldId, errors] of Object.entries(fieldErrors)) {
+    state._setTouched(fieldId);
+    state._setErrors(fieldId, errors);
+  }
+  state._setFormErrors(formErrors);
+}
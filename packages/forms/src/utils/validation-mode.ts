@@ -0,0 +1,64 @@
+import type { FieldValidationConfig, FormValidationConfig } from '@rilaykit/core';
+
+/**
+ * What happened to a field that may validate it
+ */
+export type ValidationTrigger = 'change' | 'blur';
+
+/**
+ * Decides whether a field is validated on a change or when it loses the focus
+ *
+ * The `validateOnChange` / `validateOnBlur` flags of the field take precedence, then its
+ * `mode` / `reValidateMode`, then those of the form. The `mode` applies until the form is
+ * submitted, the `reValidateMode` afterwards.
+ *
+ * When no mode is configured at all, fields keep the behavior they had before modes
+ * existed: validated on blur unless `validateOnBlur` is `false`, and on change once
+ * touched or when `validateOnChange` is set, whether or not the form was submitted.
+ *
+ * @param trigger - The change or blur of the field
+ * @param fieldValidation - Validation of the field
+ * @param formValidation - Validation of the form
+ * @param state - Whether the field was touched and whether the form was submitted
+ */
+export function shouldValidateOn(
+  trigger: ValidationTrigger,
+  fieldValidation: FieldValidationConfig | undefined,
+  formValidation: FormValidationConfig | undefined,
+  { touched, isSubmitted }: { touched: boolean; isSubmitted: boolean }
+): boolean {
+  const flag =
+    trigger === 'change' ? fieldValidation?.validateOnChange : fieldValidation?.validateOnBlur;
+
+  const hasModes =
+    fieldValidation?.mode !== undefined ||
+    fieldValidation?.reValidateMode !== undefined ||
+    formValidation?.mode !== undefined ||
+    formValidation?.reValidateMode !== undefined;
+  if (!hasModes) {
+    return trigger === 'change' ? flag === true || touched : flag !== false;
+  }
+
+  if (flag !== undefined) {
+    return flag;
+  }
+
+  const triggerMode = trigger === 'change' ? 'onChange' : 'onBlur';
+
+  if (isSubmitted) {
+    const reValidateMode =
+      fieldValidation?.reValidateMode ?? formValidation?.reValidateMode ?? 'onChange';
+    return reValidateMode === triggerMode;
+  }
+
+  const mode = fieldValidation?.mode ?? formValidation?.mode ?? 'onTouched';
+  switch (mode) {
+    case 'all':
+      return true;
+    case 'onTouched':
+      // Changes are validated once the field was left a first time
+      return trigger === 'blur' || touched;
+    default:
+      return mode === triggerMode;
+  }
+}
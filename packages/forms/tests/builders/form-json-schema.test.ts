@@ -0,0 +1,201 @@
+import { SerializationError, getValidatorDescriptor, ril } from '@rilaykit/core';
+import React from 'react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { form } from '../../src/builders/form';
+import type { JsonSchema } from '../../src/utils/json-schema';
+
+describe('form.fromJsonSchema', () => {
+  let rilConfig: any;
+
+  beforeEach(() => {
+    rilConfig = ril
+      .create()
+      .addComponent('text', { name: 'Text', renderer: () => React.createElement('input') })
+      .addComponent('number', { name: 'Number', renderer: () => React.createElement('input') })
+      .addComponent('checkbox', {
+        name: 'Checkbox',
+        renderer: () => React.createElement('input'),
+      })
+      .addComponent('select', { name: 'Select', renderer: () => React.createElement('select') })
+      .addComponent('date', { name: 'Date', renderer: () => React.createElement('input') })
+      .addComponent('textarea', {
+        name: 'Textarea',
+        renderer: () => React.createElement('textarea'),
+      });
+  });
+
+  const customerSchema: JsonSchema = {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    type: 'object',
+    required: ['email', 'age'],
+    properties: {
+      email: { type: 'string', format: 'email', title: 'Email', maxLength: 120 },
+      age: { type: 'integer', minimum: 18, maximum: 120 },
+      plan: {
+        oneOf: [
+          { const: 'free', title: 'Free' },
+          { const: 'pro', title: 'Pro' },
+        ],
+      },
+      newsletter: { type: 'boolean', description: 'Monthly news' },
+      address: { $ref: '#/$defs/address' },
+    },
+    $defs: {
+      address: {
+        type: 'object',
+        required: ['city'],
+        properties: {
+          city: { type: 'string', minLength: 2 },
+          zip: { type: ['string', 'null'], pattern: '^\\d{5}$' },
+        },
+      },
+    },
+  };
+
+  it('should map properties to registered components', () => {
+    const formConfig = form
+      .fromJsonSchema(rilConfig, customerSchema, { formId: 'customer' })
+      .build();
+
+    expect(formConfig.id).toBe('customer');
+    expect(formConfig.allFields.map((field) => [field.id, field.componentId])).toEqual([
+      ['email', 'text'],
+      ['age', 'number'],
+      ['plan', 'select'],
+      ['newsletter', 'checkbox'],
+      ['address.city', 'text'],
+      ['address.zip', 'text'],
+    ]);
+    expect(formConfig.allFields[0].props).toEqual({ label: 'Email' });
+    expect(formConfig.allFields[2].props).toEqual({
+      label: 'plan',
+      options: [
+        { value: 'free', label: 'Free' },
+        { value: 'pro', label: 'Pro' },
+      ],
+    });
+    expect(formConfig.allFields[3].props).toEqual({
+      label: 'newsletter',
+      description: 'Monthly news',
+    });
+  });
+
+  it('should translate constraints into validators', () => {
+    const formConfig = form.fromJsonSchema(rilConfig, customerSchema).build();
+    const descriptors = (id: string) =>
+      (formConfig.allFields.find((field) => field.id === id)?.validation?.validate as any[]).map(
+        getValidatorDescriptor
+      );
+
+    expect(descriptors('email')).toEqual([
+      { name: 'required' },
+      { name: 'email' },
+      { name: 'maxLength', args: [120] },
+    ]);
+    expect(descriptors('age')).toEqual([
+      { name: 'required' },
+      { name: 'number' },
+      { name: 'min', args: [18] },
+      { name: 'max', args: [120] },
+    ]);
+    expect(descriptors('address.city')).toEqual([
+      { name: 'required' },
+      { name: 'minLength', args: [2] },
+    ]);
+    expect(descriptors('address.zip')).toEqual([{ name: 'pattern', args: ['^\\d{5}$'] }]);
+    expect(formConfig.allFields[3].validation).toBeUndefined();
+  });
+
+  it('should turn arrays of objects into repeatables', () => {
+    const formConfig = form
+      .fromJsonSchema(rilConfig, {
+        type: 'object',
+        properties: {
+          contacts: {
+            type: 'array',
+            minItems: 1,
+            maxItems: 5,
+            items: {
+              type: 'object',
+              required: ['name'],
+              properties: {
+                name: { type: 'string' },
+                role: { enum: ['owner', 'billing'], default: 'owner' },
+              },
+            },
+          },
+        },
+      })
+      .build();
+
+    expect(formConfig.repeatableFields?.contacts).toMatchObject({
+      min: 1,
+      max: 5,
+      defaultValue: { role: 'owner' },
+    });
+    expect(
+      formConfig.repeatableFields?.contacts.allFields.map((field) => [field.id, field.componentId])
+    ).toEqual([
+      ['name', 'text'],
+      ['role', 'select'],
+    ]);
+  });
+
+  it('should apply the mapping of formats, fields and props', () => {
+    const formConfig = form
+      .fromJsonSchema(
+        rilConfig,
+        {
+          allOf: [
+            { type: 'object', properties: { birthday: { type: 'string', format: 'date' } } },
+            { type: 'object', properties: { bio: { type: 'string' } } },
+          ],
+        },
+        {
+          formats: { date: 'date' },
+          fields: { bio: 'textarea' },
+          props: (property, fieldId) => ({ placeholder: `${fieldId} (${property.type})` }),
+        }
+      )
+      .build();
+
+    expect(formConfig.allFields.map((field) => [field.componentId, field.props])).toEqual([
+      ['date', { label: 'birthday', placeholder: 'birthday (string)' }],
+      ['textarea', { label: 'bio', placeholder: 'bio (string)' }],
+    ]);
+  });
+
+  it('should report every property that cannot be mapped', () => {
+    let error: SerializationError | undefined;
+    try {
+      form.fromJsonSchema(
+        rilConfig,
+        {
+          type: 'object',
+          properties: {
+            tags: { type: 'array', items: { type: 'string' } },
+            owner: { $ref: '#/$defs/person' },
+            rating: { type: 'number' },
+          },
+          $defs: { person: { $ref: '#/$defs/person' } },
+        },
+        { types: { number: 'slider' } }
+      );
+    } catch (caught) {
+      error = caught as SerializationError;
+    }
+
+    expect(error).toBeInstanceOf(SerializationError);
+    expect(error?.issues).toEqual([
+      { path: 'properties.tags', message: 'No component is mapped to type "array"' },
+      { path: 'properties.owner', message: 'Circular reference "#/$defs/person"' },
+      { path: 'properties.rating', message: 'Component "slider" is not registered' },
+    ]);
+  });
+
+  it('should reject schemas that do not describe an object', () => {
+    expect(() => form.fromJsonSchema(rilConfig, { type: 'string' })).toThrow(
+      'type: Expected an object schema'
+    );
+  });
+});
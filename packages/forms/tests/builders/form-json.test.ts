@@ -0,0 +1,447 @@
+import {
+  SerializationError,
+  all,
+  any,
+  custom,
+  email,
+  field,
+  getValidatorDescriptor,
+  minLength,
+  not,
+  required,
+  ril,
+  when,
+} from '@rilaykit/core';
+import React from 'react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { form } from '../../src/builders/form';
+
+describe('Form JSON serialization', () => {
+  let rilConfig: any;
+
+  beforeEach(() => {
+    rilConfig = ril
+      .create()
+      .addComponent('text', {
+        name: 'Text Input',
+        renderer: () => React.createElement('input'),
+        defaultProps: { label: '' },
+      })
+      .addComponent('checkbox', {
+        name: 'Checkbox',
+        renderer: () => React.createElement('input'),
+      });
+  });
+
+  const createSignupForm = () =>
+    form
+      .create(rilConfig, 'signup')
+      .add(
+        {
+          id: 'email',
+          type: 'text',
+          props: { label: 'Email' },
+          validation: { validate: [required(), email('Invalid email')], validateOnBlur: true },
+        },
+        { id: 'newsletter', type: 'checkbox' }
+      )
+      .add({
+        id: 'company',
+        type: 'text',
+        conditions: { visible: when('newsletter').equals(true).and(when('email').exists()) },
+      })
+      .addRepeatable('phones', (r) =>
+        r
+          .add({ id: 'number', type: 'text', validation: { validate: minLength(6) } })
+          .min(1)
+          .defaultValue({ number: '' })
+      )
+      .setValidation({ validateOnSubmit: true })
+      .setSubmitOptions({ skipInvalid: true });
+
+  it('should export a versioned, JSON-compatible document', () => {
+    const json = createSignupForm().toJSON();
+
+    expect(JSON.parse(JSON.stringify(json))).toEqual(json);
+    expect(json).toMatchObject({
+      version: 1,
+      id: 'signup',
+      validation: { validateOnSubmit: true },
+      submitOptions: { skipInvalid: true },
+    });
+    expect(json.rows[0]).toEqual({
+      kind: 'fields',
+      id: 'row-1',
+      maxColumns: 2,
+      fields: [
+        {
+          id: 'email',
+          componentId: 'text',
+          props: { label: 'Email' },
+          validation: {
+            validate: [{ name: 'required' }, { name: 'email', message: 'Invalid email' }],
+            validateOnBlur: true,
+          },
+        },
+        { id: 'newsletter', componentId: 'checkbox' },
+      ],
+    });
+    expect(json.rows[1].kind === 'fields' && json.rows[1].fields[0].conditions).toEqual({
+      visible: {
+        field: '',
+        operator: 'exists',
+        logicalOperator: 'and',
+        conditions: [
+          { field: 'newsletter', operator: 'equals', value: true },
+          { field: 'email', operator: 'exists' },
+        ],
+      },
+    });
+  });
+
+  it('should restore an equivalent form', () => {
+    const json = createSignupForm().toJSON();
+
+    const restored = form.create(rilConfig).fromJSON(JSON.parse(JSON.stringify(json)));
+    const formConfig = restored.build();
+
+    expect(restored.toJSON()).toEqual(json);
+    expect(formConfig.id).toBe('signup');
+    expect(formConfig.submitOptions).toEqual({ skipInvalid: true });
+    expect(formConfig.repeatableFields?.phones).toMatchObject({
+      min: 1,
+      defaultValue: { number: '' },
+    });
+    expect(formConfig.allFields.map((field) => field.id)).toEqual([
+      'email',
+      'newsletter',
+      'company',
+    ]);
+
+    const validators = formConfig.allFields[0].validation?.validate as any[];
+    expect(validators.map(getValidatorDescriptor)).toEqual([
+      { name: 'required' },
+      { name: 'email', message: 'Invalid email' },
+    ]);
+  });
+
+  it('should keep validators working after a round trip', async () => {
+    const json = createSignupForm().toJSON();
+    const formConfig = form.create(rilConfig).fromJSON(json).build();
+
+    const [requiredValidator, emailValidator] = formConfig.allFields[0].validation
+      ?.validate as any[];
+
+    expect(await requiredValidator['~standard'].validate('')).toMatchObject({
+      issues: [{ message: 'This field is required' }],
+    });
+    expect(await emailValidator['~standard'].validate('nope')).toEqual({
+      issues: [{ message: 'Invalid email' }],
+    });
+  });
+
+  it('should round-trip conditions comparing fields and dates', () => {
+    const builder = form.create(rilConfig, 'booking').add(
+      { id: 'start', type: 'text' },
+      {
+        id: 'end',
+        type: 'text',
+        conditions: {
+          visible: when('start').after(new Date('2024-01-01T00:00:00.000Z')),
+          required: when('end').between(field('start'), '2024-12-31'),
+        },
+      }
+    );
+    const json = JSON.parse(JSON.stringify(builder.toJSON()));
+
+    expect(json.rows[0].fields[1].conditions).toEqual({
+      visible: { field: 'start', operator: 'after', value: '2024-01-01T00:00:00.000Z' },
+      required: { field: 'end', operator: 'between', value: [{ field: 'start' }, '2024-12-31'] },
+    });
+    expect(form.create(rilConfig).fromJSON(json).toJSON()).toEqual(json);
+  });
+
+  it('should round-trip nested condition groups', () => {
+    const builder = form.create(rilConfig, 'groups').add({
+      id: 'discount',
+      type: 'checkbox',
+      conditions: {
+        visible: all(
+          when('country').equals('FR'),
+          any(when('age').lessThan(26), not(when('employed').equals(true)))
+        ),
+      },
+    });
+    const json = JSON.parse(JSON.stringify(builder.toJSON()));
+    const restored = form.create(rilConfig).fromJSON(json);
+
+    expect(restored.toJSON()).toEqual(json);
+    expect(json.rows[0].fields[0].conditions.visible.conditions[1].conditions[1]).toEqual({
+      field: '',
+      operator: 'exists',
+      logicalOperator: 'not',
+      conditions: [{ field: 'employed', operator: 'equals', value: true }],
+    });
+  });
+
+  it('should reject a negation of several conditions', () => {
+    const visible = {
+      field: '',
+      operator: 'exists',
+      logicalOperator: 'not',
+      conditions: [
+        { field: 'a', operator: 'exists' },
+        { field: 'b', operator: 'exists' },
+      ],
+    };
+    const json = {
+      version: 1,
+      id: 'broken',
+      rows: [
+        {
+          kind: 'fields',
+          id: 'row-1',
+          fields: [{ id: 'a', componentId: 'text', conditions: { visible } }],
+        },
+      ],
+    };
+
+    expect(() => form.create(rilConfig).fromJSON(json)).toThrow(
+      'rows[0].fields[0].conditions.visible.conditions: Expected a single condition'
+    );
+  });
+
+  it('should round-trip hidden field policies and effects', () => {
+    const builder = form.create(rilConfig, 'billing').add(
+      {
+        id: 'country',
+        type: 'text',
+        effects: [{ when: when('country').equals('FR'), set: { currency: 'EUR' } }],
+      },
+      {
+        id: 'currency',
+        type: 'text',
+        whenHidden: 'clear',
+        conditions: { visible: when('country').exists() },
+      }
+    );
+    const json = JSON.parse(JSON.stringify(builder.toJSON()));
+
+    expect(json.rows[0].fields[0].effects).toEqual([
+      { when: { field: 'country', operator: 'equals', value: 'FR' }, set: { currency: 'EUR' } },
+    ]);
+    expect(json.rows[0].fields[1].whenHidden).toBe('clear');
+    expect(form.create(rilConfig).fromJSON(json).toJSON()).toEqual(json);
+  });
+
+  it('should reject invalid hidden field policies and effects', () => {
+    const json = {
+      version: 1,
+      id: 'broken',
+      rows: [
+        {
+          kind: 'fields',
+          id: 'row-1',
+          fields: [
+            {
+              id: 'a',
+              componentId: 'text',
+              whenHidden: 'remove',
+              effects: [{ when: { field: 'a', operator: 'exists' }, set: 'b' }],
+            },
+          ],
+        },
+      ],
+    };
+
+    let error: SerializationError | undefined;
+    try {
+      form.create(rilConfig).fromJSON(json);
+    } catch (caught) {
+      error = caught as SerializationError;
+    }
+
+    expect(error?.issues).toEqual([
+      {
+        path: 'rows[0].fields[0].whenHidden',
+        message: 'Expected "keep", "clear", "reset" or "exclude"',
+      },
+      { path: 'rows[0].fields[0].effects[0].set', message: 'Expected an object' },
+    ]);
+  });
+
+  it('should round-trip the invalid submit behavior and reject unknown ones', () => {
+    const json = form
+      .create(rilConfig, 'contact')
+      .add({ id: 'email', type: 'text' })
+      .setSubmitOptions({ onInvalidSubmit: 'scrollToFirstError' })
+      .toJSON();
+
+    expect(json.submitOptions).toEqual({ onInvalidSubmit: 'scrollToFirstError' });
+    expect(form.create(rilConfig).fromJSON(json).build().submitOptions).toEqual({
+      onInvalidSubmit: 'scrollToFirstError',
+    });
+
+    let error: SerializationError | undefined;
+    try {
+      form.create(rilConfig).fromJSON({ ...json, submitOptions: { onInvalidSubmit: 'shake' } });
+    } catch (caught) {
+      error = caught as SerializationError;
+    }
+
+    expect(error?.issues).toEqual([
+      {
+        path: 'submitOptions.onInvalidSubmit',
+        message: 'Expected "focusFirstError", "scrollToFirstError" or "none"',
+      },
+    ]);
+  });
+
+  it('should round-trip the validation modes of the form and its fields', () => {
+    const json = form
+      .create(rilConfig, 'contact')
+      .add({ id: 'email', type: 'text', validation: { mode: 'onChange' } })
+      .setValidation({ mode: 'onSubmit', reValidateMode: 'onBlur' })
+      .toJSON();
+
+    expect(json.validation).toEqual({ mode: 'onSubmit', reValidateMode: 'onBlur' });
+    expect(json.rows[0]).toMatchObject({ fields: [{ validation: { mode: 'onChange' } }] });
+
+    const restored = form.create(rilConfig).fromJSON(json).build();
+    expect(restored.validation).toEqual({ mode: 'onSubmit', reValidateMode: 'onBlur' });
+    expect(restored.allFields[0].validation?.mode).toBe('onChange');
+
+    let error: SerializationError | undefined;
+    try {
+      form.create(rilConfig).fromJSON({ ...json, validation: { mode: 'onFocus' } });
+    } catch (caught) {
+      error = caught as SerializationError;
+    }
+
+    expect(error?.issues).toEqual([
+      {
+        path: 'validation.mode',
+        message: 'Expected "onSubmit", "onBlur", "onChange", "onTouched" or "all"',
+      },
+    ]);
+  });
+
+  it('should refuse to export validators that cannot be referenced by name', () => {
+    const builder = form.create(rilConfig, 'custom').add({
+      id: 'code',
+      type: 'text',
+      props: { format: () => '' },
+      validation: { validate: [required(), custom(() => true)] },
+    });
+
+    expect(() => builder.toJSON()).toThrow(SerializationError);
+    try {
+      builder.toJSON();
+    } catch (error) {
+      expect((error as SerializationError).issues).toEqual([
+        {
+          path: 'rows[0].fields[0].props.format',
+          message: 'Cannot serialize a value of type function',
+        },
+        {
+          path: 'rows[0].fields[0].validation.validate[1]',
+          message:
+            'Only validators referenced by name (registered on the ril instance) can be serialized',
+        },
+      ]);
+    }
+  });
+
+  it('should refuse to export computed fields', () => {
+    const builder = form
+      .create(rilConfig, 'computed')
+      .add(
+        { id: 'name', type: 'text' },
+        { id: 'slug', type: 'text', computed: { deps: ['name'], compute: ({ name }) => name } }
+      );
+
+    expect(() => builder.toJSON()).toThrow(
+      'rows[0].fields[1].computed: Computed fields cannot be serialized'
+    );
+  });
+
+  it('should refuse to export options loaders', () => {
+    const builder = form.create(rilConfig, 'options').add({
+      id: 'region',
+      type: 'text',
+      optionsLoader: { deps: ['country'], load: async () => [] },
+    });
+
+    expect(() => builder.toJSON()).toThrow(
+      'rows[0].fields[0].optionsLoader: Options loaders cannot be serialized'
+    );
+  });
+
+  it('should report every issue of an invalid document with its path', () => {
+    const invalidJson = {
+      version: 1,
+      id: 'broken',
+      rows: [
+        {
+          kind: 'fields',
+          id: 'row-1',
+          fields: [
+            {
+              id: 'email',
+              componentId: 'unknown',
+              validation: { validate: [{ name: 'postalCode' }, { name: 'minLength', args: [] }] },
+            },
+            {
+              id: 'age',
+              componentId: 'text',
+              conditions: { visible: { field: 'email', operator: 'sameAs' } },
+              lable: 'Age',
+            },
+          ],
+        },
+      ],
+    };
+
+    let error: SerializationError | undefined;
+    try {
+      form.create(rilConfig).fromJSON(invalidJson);
+    } catch (caught) {
+      error = caught as SerializationError;
+    }
+
+    expect(error).toBeInstanceOf(SerializationError);
+    expect(error?.issues).toEqual([
+      {
+        path: 'rows[0].fields[0].componentId',
+        message: 'Component "unknown" is not registered',
+      },
+      {
+        path: 'rows[0].fields[0].validation.validate[0]',
+        message: 'Unknown validator "postalCode"',
+      },
+      {
+        path: 'rows[0].fields[0].validation.validate[1]',
+        message: 'Validator "minLength" expects a number as argument 1',
+      },
+      { path: 'rows[0].fields[1].lable', message: 'Unknown property' },
+      {
+        path: 'rows[0].fields[1].conditions.visible.operator',
+        message: expect.stringContaining('Expected one of equals, notEquals'),
+      },
+    ]);
+    expect(error?.message).toContain('- rows[0].fields[0].componentId:');
+  });
+
+  it('should reject unsupported versions', () => {
+    expect(() => form.create(rilConfig).fromJSON({ version: 2, id: 'future', rows: [] })).toThrow(
+      'version: Unsupported version 2, expected 1'
+    );
+  });
+
+  it('should not change the builder when the document is invalid', () => {
+    const builder = createSignupForm();
+
+    expect(() => builder.fromJSON({ id: 'broken', rows: 'nope' })).toThrow(SerializationError);
+    expect(builder.build().id).toBe('signup');
+  });
+});
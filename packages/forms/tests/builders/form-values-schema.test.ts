@@ -0,0 +1,123 @@
+import { email, min, required, ril, when } from '@rilaykit/core';
+import React from 'react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { form } from '../../src/builders/form';
+import { generateFormValuesTypes } from '../../src/utils/form-values-schema';
+
+describe('form.toJsonSchema', () => {
+  let rilConfig: any;
+
+  beforeEach(() => {
+    rilConfig = ril
+      .create()
+      .addComponent('text', { name: 'Text', renderer: () => React.createElement('input') })
+      .addComponent('checkbox', {
+        name: 'Checkbox',
+        renderer: () => React.createElement('input'),
+        valueSchema: { type: 'boolean' },
+      })
+      .addComponent('select', {
+        name: 'Select',
+        renderer: () => React.createElement('select'),
+        valueSchema: { type: 'string' },
+      });
+  });
+
+  const createOrderForm = () =>
+    form
+      .create(rilConfig, 'order')
+      .add(
+        {
+          id: 'email',
+          type: 'text',
+          props: { label: 'Email' },
+          validation: { validate: [required(), email()] },
+        },
+        { id: 'quantity', type: 'text', validation: { validate: [required(), min(1)] } }
+      )
+      .add({
+        id: 'delivery',
+        type: 'select',
+        props: { options: [{ value: 'pickup' }, { value: 'courier' }] },
+        validation: { validate: { name: 'required' } },
+      })
+      .add({
+        id: 'address.street',
+        type: 'text',
+        validation: { validate: [required(), { name: 'maxLength', args: [80] }] },
+        conditions: { visible: when('delivery').equals('courier') },
+      })
+      .add({ id: 'gift', type: 'checkbox', props: { description: 'Wrap it' } })
+      .addRepeatable('lines', (r) =>
+        r
+          .add({ id: 'sku', type: 'text', validation: { validate: required() } })
+          .add({ id: 'note', type: 'text' })
+          .min(1)
+          .max(20)
+      );
+
+  it('should describe the submitted payload', () => {
+    expect(createOrderForm().toJsonSchema()).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      title: 'order',
+      type: 'object',
+      properties: {
+        email: { title: 'Email', type: 'string', format: 'email' },
+        quantity: { type: 'number', minimum: 1 },
+        delivery: { type: 'string', enum: ['pickup', 'courier'] },
+        'address.street': { type: 'string', maxLength: 80 },
+        gift: { type: 'boolean', description: 'Wrap it' },
+        lines: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { sku: {}, note: {} },
+            required: ['sku'],
+            additionalProperties: false,
+          },
+          minItems: 1,
+          maxItems: 20,
+        },
+      },
+      required: ['email', 'quantity', 'delivery', 'lines'],
+    });
+  });
+
+  it('should not infer types over the value schema of the component', () => {
+    const schema = form
+      .create(rilConfig, 'consent')
+      .add({
+        id: 'accepted',
+        type: 'checkbox',
+        validation: { validate: { name: 'minLength', args: [1] } },
+      })
+      .toJsonSchema();
+
+    expect(schema.properties?.accepted).toEqual({ type: 'boolean', minLength: 1 });
+  });
+
+  it('should generate the TypeScript type of the payload', () => {
+    expect(generateFormValuesTypes(createOrderForm().toJsonSchema(), 'OrderValues')).toBe(
+      `export type OrderValues = {
+  /** Email */
+  email: string;
+  quantity: number;
+  delivery: "pickup" | "courier";
+  "address.street"?: string;
+  /** Wrap it */
+  gift?: boolean;
+  lines: Array<{
+    sku: unknown;
+    note?: unknown;
+  }>;
+};
+`
+    );
+  });
+
+  it('should reject invalid type names', () => {
+    expect(() => generateFormValuesTypes({ type: 'object' }, 'order-values')).toThrow(
+      '"order-values" is not a valid type name'
+    );
+  });
+});
@@ -0,0 +1,145 @@
+import {
+  type ComponentRenderProps,
+  type FormConfiguration,
+  email,
+  number,
+  required,
+  ril,
+} from '@rilaykit/core';
+import React from 'react';
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { type InferFormValues, form } from '../../src/builders/form';
+import type { FormProviderProps } from '../../src/components/FormProvider';
+import type { useFieldValue, useFormValues } from '../../src/stores';
+
+interface TextProps {
+  label?: string;
+}
+
+interface Option {
+  value: string;
+  label: string;
+}
+
+const TextInput = (_props: ComponentRenderProps<TextProps, string>) => React.createElement('input');
+const Checkbox = (_props: ComponentRenderProps<TextProps, boolean>) => React.createElement('input');
+const Select = (_props: ComponentRenderProps<{ options: Option[] }, string[]>) =>
+  React.createElement('select');
+
+const rilConfig = ril
+  .create()
+  .addComponent('text', { name: 'Text', renderer: TextInput })
+  .addComponent('checkbox', { name: 'Checkbox', renderer: Checkbox })
+  .addComponent('tags', { name: 'Tags', renderer: Select })
+  .addComponent('input', { name: 'Input', renderer: () => React.createElement('input') });
+
+describe('form values inference', () => {
+  it('should map field ids to the value of their component', () => {
+    const signupForm = form
+      .create(rilConfig, 'signup')
+      .add(
+        { id: 'email', type: 'text', props: { label: 'Email' } },
+        { id: 'newsletter', type: 'checkbox' }
+      )
+      .add([{ id: 'interests', type: 'tags', props: { options: [] } }]);
+
+    expectTypeOf<InferFormValues<typeof signupForm>>().toEqualTypeOf<{
+      email?: string;
+      newsletter?: boolean;
+      interests?: string[];
+    }>();
+    expectTypeOf(signupForm.build()).toEqualTypeOf<
+      FormConfiguration<InferRil<typeof rilConfig>, InferFormValues<typeof signupForm>>
+    >();
+    expect(signupForm.build().allFields).toHaveLength(3);
+  });
+
+  it('should fall back to the output of validators for untyped components', () => {
+    const contactForm = form
+      .create(rilConfig)
+      .add(
+        { id: 'email', type: 'input', validation: { validate: [required(), email()] } },
+        { id: 'age', type: 'input', validation: { validate: number() } },
+        { id: 'notes', type: 'input' }
+      );
+
+    expectTypeOf<InferFormValues<typeof contactForm>>().toEqualTypeOf<{
+      email?: string;
+      age?: number;
+      notes?: unknown;
+    }>();
+  });
+
+  it('should type repeatables as arrays of their items', () => {
+    const orderForm = form
+      .create(rilConfig)
+      .add({ id: 'customer', type: 'text' })
+      .addRepeatable('items', (r) =>
+        r.add({ id: 'name', type: 'text' }, { id: 'gift', type: 'checkbox' }).min(1)
+      );
+
+    expectTypeOf<InferFormValues<typeof orderForm>>().toEqualTypeOf<{
+      customer?: string;
+      items: { name?: string; gift?: boolean }[];
+    }>();
+  });
+
+  it('should widen the values when ids are not literals', () => {
+    const fieldId: string = 'dynamic';
+    const dynamicForm = form
+      .create(rilConfig)
+      .add({ id: 'known', type: 'checkbox' })
+      .add({ id: fieldId, type: 'text' });
+
+    expectTypeOf<InferFormValues<typeof dynamicForm>>().toEqualTypeOf<{
+      [fieldId: string]: unknown;
+      known?: boolean;
+    }>();
+    expectTypeOf(form.create(rilConfig).fromJSON(dynamicForm.toJSON())).toEqualTypeOf<
+      form<InferRil<typeof rilConfig>, Record<string, unknown>>
+    >();
+  });
+
+  it('should type computed fields after their compute function', () => {
+    const orderForm = form.create(rilConfig).add(
+      { id: 'qty', type: 'input', validation: { validate: number() } },
+      {
+        id: 'label',
+        type: 'text',
+        computed: { deps: ['qty'], compute: ({ qty }) => (qty ? `${qty} items` : null) },
+      }
+    );
+
+    expectTypeOf<InferFormValues<typeof orderForm>>().toEqualTypeOf<{
+      qty?: number;
+      label?: string | null;
+    }>();
+  });
+
+  it('should keep props checked against their own component', () => {
+    form.create(rilConfig).add(
+      { id: 'email', type: 'text', props: { label: 'Email' } },
+      // @ts-expect-error - options is not a prop of text
+      { id: 'other', type: 'text', props: { options: [] } }
+    );
+  });
+
+  it('should type onSubmit and the form hooks', () => {
+    const profileForm = form
+      .create(rilConfig)
+      .add({ id: 'name', type: 'text' }, { id: 'public', type: 'checkbox' })
+      .build();
+
+    expectTypeOf<FormProviderProps<InferFormValues<typeof profileForm>>['onSubmit']>()
+      .parameter(0)
+      .toEqualTypeOf<{ name?: string; public?: boolean }>();
+    expectTypeOf<typeof useFieldValue<{ name?: string }, 'name'>>().returns.toEqualTypeOf<
+      string | undefined
+    >();
+    expectTypeOf<typeof useFormValues<{ name?: string }>>().returns.toEqualTypeOf<{
+      name?: string;
+    }>();
+  });
+});
+
+type InferRil<T> = T extends ril<infer C> ? C : never;
@@ -1,5 +1,5 @@
 // @ts-nocheck - Disable TypeScript checking for test file due to generic constraints
-import { email, minLength, required, ril } from '@rilaykit/core';
+import { email, getValidatorDescriptor, minLength, pattern, required, ril } from '@rilaykit/core';
 import React from 'react';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { form } from '../../src/builders/form';
@@ -438,6 +438,86 @@ describe('Form Builder', () => {
     });
   });
 
+  describe('validator descriptors', () => {
+    it('should resolve built-in validators by name at build time', async () => {
+      const config = form
+        .create(rilConfig)
+        .add({
+          id: 'name',
+          type: 'text',
+          validation: { validate: [{ name: 'required' }, { name: 'minLength', args: [2] }] },
+        })
+        .build();
+
+      const [requiredValidator, minLengthValidator] = config.allFields[0].validation.validate;
+
+      expect(await requiredValidator['~standard'].validate('')).toMatchObject({
+        issues: [{ message: 'This field is required' }],
+      });
+      expect(await minLengthValidator['~standard'].validate('a')).toMatchObject({
+        issues: [{ message: 'Must be at least 2 characters long' }],
+      });
+    });
+
+    it('should resolve validators registered on the ril instance', async () => {
+      const config = rilConfig.addValidator('postalCode', (_args, message) =>
+        pattern(/^\d{5}$/, message ?? 'Invalid postal code')
+      );
+
+      const formConfig = form
+        .create(config)
+        .add({ id: 'zip', type: 'text', validation: { validate: { name: 'postalCode' } } })
+        .addRepeatable('addresses', (r) =>
+          r.add({
+            id: 'city',
+            type: 'text',
+            validation: { validate: [{ name: 'postalCode', message: 'Nope' }] },
+          })
+        )
+        .build();
+
+      const zipValidator = formConfig.allFields[0].validation.validate;
+      expect(await zipValidator['~standard'].validate('abc')).toMatchObject({
+        issues: [{ message: 'Invalid postal code' }],
+      });
+      expect(getValidatorDescriptor(zipValidator)).toEqual({ name: 'postalCode' });
+
+      const [cityValidator] =
+        formConfig.repeatableFields.addresses.allFields[0].validation.validate;
+      expect(await cityValidator['~standard'].validate('abc')).toMatchObject({
+        issues: [{ message: 'Nope' }],
+      });
+    });
+
+    it('should keep descriptors serializable before building', () => {
+      const builder = form.create(rilConfig, 'address').add({
+        id: 'name',
+        type: 'text',
+        validation: { validate: [required(), { name: 'maxLength', args: [40] }] },
+      });
+
+      expect(builder.toJSON().rows[0].fields[0].validation.validate).toEqual([
+        { name: 'required' },
+        { name: 'maxLength', args: [40] },
+      ]);
+    });
+
+    it('should report descriptors that cannot be resolved', () => {
+      const builder = form
+        .create(rilConfig)
+        .add(
+          { id: 'zip', type: 'text', validation: { validate: [{ name: 'postalCode' }] } },
+          { id: 'name', type: 'text', validation: { validate: { name: 'minLength', args: ['2'] } } }
+        );
+
+      expect(builder.validate()).toEqual([
+        'Field "zip": Unknown validator "postalCode"',
+        'Field "name": Validator "minLength" expects a number as argument 1',
+      ]);
+      expect(() => builder.build()).toThrow('Field "zip": Unknown validator "postalCode"');
+    });
+  });
+
   describe('complex form scenarios', () => {
     it('should handle mixed field types and layouts', () => {
       const builder = form
@@ -0,0 +1,79 @@
+/**
+ * @vitest-environment node
+ */
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { runCli } from '../../src/cli/run';
+
+describe('rilaykit-forms CLI', () => {
+  let cwd: string;
+
+  const schema = {
+    title: 'signup-form',
+    type: 'object',
+    properties: { email: { type: 'string' }, age: { type: 'integer' } },
+    required: ['email'],
+  };
+
+  beforeEach(async () => {
+    cwd = await mkdtemp(join(tmpdir(), 'rilaykit-cli-'));
+  });
+
+  afterEach(async () => {
+    await rm(cwd, { recursive: true, force: true });
+  });
+
+  it('should generate a declaration file from a JSON Schema', async () => {
+    await writeFile(join(cwd, 'signup.schema.json'), JSON.stringify(schema));
+
+    await runCli(['types', 'signup.schema.json', '--out', 'signup.d.ts'], cwd);
+
+    expect(await readFile(join(cwd, 'signup.d.ts'), 'utf8')).toBe(
+      `// Generated by rilaykit-forms from signup.schema.json, do not edit
+
+export type SignupFormValues = {
+  email: string;
+  age?: number;
+};
+`
+    );
+  });
+
+  it('should read named exports of modules', async () => {
+    await writeFile(
+      join(cwd, 'forms.mjs'),
+      `export const signup = { toJsonSchema: () => (${JSON.stringify(schema)}) };`
+    );
+
+    const output = await runCli(
+      ['types', 'forms.mjs', '--export', 'signup', '--name', 'Signup'],
+      cwd
+    );
+    expect(output).toContain('export type Signup = {');
+
+    expect(JSON.parse(await runCli(['schema', 'forms.mjs', '--export', 'signup'], cwd))).toEqual(
+      schema
+    );
+  });
+
+  it('should reject invalid arguments', async () => {
+    await expect(runCli(['generate', 'form.json'], cwd)).rejects.toThrow(
+      'Unknown command "generate"'
+    );
+    await expect(runCli(['types'], cwd)).rejects.toThrow('Expected exactly one input');
+    await expect(runCli(['types', 'form.json', '--output', 'x'], cwd)).rejects.toThrow(
+      'Unknown option --output'
+    );
+    await expect(runCli(['types', 'form.json', '--out'], cwd)).rejects.toThrow(
+      'Missing value for --out'
+    );
+  });
+
+  it('should report missing exports', async () => {
+    await writeFile(join(cwd, 'empty.mjs'), 'export const other = 1;');
+
+    await expect(runCli(['schema', 'empty.mjs'], cwd)).rejects.toThrow('has no "default" export');
+  });
+});
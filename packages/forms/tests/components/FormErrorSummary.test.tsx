@@ -0,0 +1,163 @@
+import { ril } from '@rilaykit/core';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { form } from '../../src/builders/form';
+import { FormErrorSummary } from '../../src/components/FormErrorSummary';
+import { FormField } from '../../src/components/FormField';
+import { FormProvider } from '../../src/components/FormProvider';
+import { type FormStore, useFormErrors, useFormStoreApi } from '../../src/stores';
+
+const TextInput = ({ id, value, onChange }: any) => (
+  <input
+    id={id}
+    data-testid={id}
+    value={value ?? ''}
+    onChange={(e) => onChange?.(e.target.value)}
+  />
+);
+
+describe('FormErrorSummary', () => {
+  let config: ril<Record<string, any>>;
+  let store: FormStore;
+
+  const Capture = () => {
+    store = useFormStoreApi();
+    return null;
+  };
+
+  const createForm = (formConfig: ReturnType<typeof form.create>) =>
+    formConfig
+      .add({ id: 'email', type: 'text', props: { label: 'Email' } })
+      .addRepeatable('items', (r) =>
+        r.add({ id: 'qty', type: 'text', props: { label: 'Quantity' } })
+      )
+      .add({ id: 'name', type: 'text', props: { label: 'Name' } })
+      .build();
+
+  beforeEach(() => {
+    config = ril.create().addComponent('text', { name: 'Text', renderer: TextInput });
+  });
+
+  it('should render nothing while the form has no errors', () => {
+    render(
+      <FormProvider formConfig={createForm(form.create(config))}>
+        <FormErrorSummary />
+      </FormProvider>
+    );
+
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('should list field errors in form order, then the form-level errors', () => {
+    render(
+      <FormProvider
+        formConfig={createForm(form.create(config))}
+        defaultValues={{ items: [{ qty: 0 }] }}
+      >
+        <Capture />
+        <FormErrorSummary />
+      </FormProvider>
+    );
+
+    act(() => {
+      const state = store.getState();
+      const [itemKey] = state._repeatableOrder.items;
+      state._setErrors('name', [{ message: 'Required' }]);
+      state._setErrors(`items[${itemKey}].qty`, [{ message: 'Out of stock' }]);
+      state._setErrors('email', [{ message: 'Invalid' }]);
+      state._setFormErrors([{ message: 'Try again later' }]);
+    });
+
+    expect(screen.getAllByRole('listitem').map((item) => item.textContent)).toEqual([
+      'Email: Invalid',
+      'Quantity: Out of stock',
+      'Name: Required',
+      'Try again later',
+    ]);
+  });
+
+  it('should focus the field of a clicked error', () => {
+    render(
+      <FormProvider formConfig={createForm(form.create(config))}>
+        <Capture />
+        <FormField fieldId="name" />
+        <FormErrorSummary />
+      </FormProvider>
+    );
+
+    act(() => {
+      store.getState()._setErrors('name', [{ message: 'Required' }]);
+    });
+    fireEvent.click(screen.getByText('Name: Required'));
+
+    expect(screen.getByTestId('name')).toHaveFocus();
+  });
+
+  it('should use the configured errorSummaryRenderer', () => {
+    const errorSummaryRenderer = vi.fn(({ errors, onFocusField }: any) => (
+      <div data-testid="summary">
+        {errors.map(({ fieldId, error }: any) => (
+          <button key={error.message} type="button" onClick={() => onFocusField(fieldId)}>
+            {error.message}
+          </button>
+        ))}
+      </div>
+    ));
+    const formConfig = createForm(form.create(config.configure({ errorSummaryRenderer })));
+
+    render(
+      <FormProvider formConfig={formConfig}>
+        <Capture />
+        <FormField fieldId="email" />
+        <FormErrorSummary className="summary" />
+      </FormProvider>
+    );
+
+    act(() => {
+      store.getState()._setErrors('email', [{ message: 'Invalid' }]);
+    });
+    fireEvent.click(screen.getByText('Invalid'));
+
+    expect(screen.getByTestId('email')).toHaveFocus();
+    expect(errorSummaryRenderer).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        className: 'summary',
+        errors: [{ fieldId: 'email', label: 'Email', error: { message: 'Invalid' } }],
+      })
+    );
+  });
+});
+
+describe('useFormErrors', () => {
+  it('should only return the fields with errors', () => {
+    const config = ril.create().addComponent('text', { name: 'Text', renderer: TextInput });
+    let store: FormStore | undefined;
+    let result: ReturnType<typeof useFormErrors> | undefined;
+
+    const Capture = () => {
+      store = useFormStoreApi();
+      result = useFormErrors();
+      return null;
+    };
+
+    render(
+      <FormProvider
+        formConfig={form
+          .create(config)
+          .add({ id: 'a', type: 'text' }, { id: 'b', type: 'text' })
+          .build()}
+      >
+        <Capture />
+      </FormProvider>
+    );
+    expect(result?.hasErrors).toBe(false);
+
+    act(() => {
+      store?.getState()._setErrors('a', []);
+      store?.getState()._setErrors('b', [{ message: 'Required' }]);
+    });
+
+    expect(result?.fieldErrors).toEqual({ b: [{ message: 'Required' }] });
+    expect(result?.hasErrors).toBe(true);
+  });
+});
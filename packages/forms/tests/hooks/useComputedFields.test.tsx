@@ -0,0 +1,245 @@
+import type { ComponentRenderProps, FormConfiguration } from '@rilaykit/core';
+import { ril } from '@rilaykit/core';
+import { act, render, screen } from '@testing-library/react';
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { form } from '../../src/builders/form';
+import { FormField } from '../../src/components/FormField';
+import { FormProvider, useFormConfigContext } from '../../src/components/FormProvider';
+import { type FormStore, useFormStoreApi } from '../../src/stores';
+
+describe('useComputedFields', () => {
+  let rilConfig: any;
+  let store: FormStore;
+  let submit: (() => Promise<boolean>) | undefined;
+
+  const Capture = () => {
+    store = useFormStoreApi();
+    submit = useFormConfigContext().submit;
+    return null;
+  };
+
+  const renderForm = (
+    formConfig: FormConfiguration,
+    props: Partial<React.ComponentProps<typeof FormProvider>> = {}
+  ) =>
+    render(
+      <FormProvider formConfig={formConfig} {...props}>
+        <Capture />
+        {props.children}
+      </FormProvider>
+    );
+
+  const TextInput = ({ id, value, props }: ComponentRenderProps) =>
+    React.createElement('input', {
+      'data-testid': id,
+      value: value ?? '',
+      readOnly: props.readOnly,
+      onChange: () => {},
+    });
+
+  beforeEach(() => {
+    rilConfig = ril.create().addComponent('text', { name: 'Text', renderer: TextInput });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should compute values on mount and when dependencies change', () => {
+    const formConfig = form
+      .create(rilConfig, 'order')
+      .add(
+        { id: 'price', type: 'text' },
+        { id: 'qty', type: 'text' },
+        {
+          id: 'subtotal',
+          type: 'text',
+          computed: {
+            deps: ['price', 'qty'],
+            compute: ({ price, qty }) => (price ?? 0) * (qty ?? 0),
+          },
+        }
+      )
+      .add({
+        id: 'total',
+        type: 'text',
+        computed: { deps: ['subtotal'], compute: ({ subtotal }) => subtotal * 1.2 },
+      })
+      .build();
+
+    renderForm(formConfig, { defaultValues: { price: 10, qty: 2 } });
+
+    expect(store.getState().values).toMatchObject({ subtotal: 20, total: 24 });
+
+    act(() => store.getState()._setValue('qty', 5));
+
+    expect(store.getState().values).toMatchObject({ subtotal: 50, total: 60 });
+  });
+
+  it('should only recompute the fields depending on the changed value', () => {
+    const computeTotal = vi.fn(({ price, qty }) => price * qty);
+    const computeInitials = vi.fn(({ name }) => name?.[0]);
+    const formConfig = form
+      .create(rilConfig)
+      .add({ id: 'price', type: 'text' }, { id: 'qty', type: 'text' }, { id: 'name', type: 'text' })
+      .add(
+        { id: 'total', type: 'text', computed: { deps: ['price', 'qty'], compute: computeTotal } },
+        { id: 'initial', type: 'text', computed: { deps: ['name'], compute: computeInitials } }
+      )
+      .build();
+
+    renderForm(formConfig);
+    computeTotal.mockClear();
+    computeInitials.mockClear();
+
+    act(() => store.getState()._setValue('name', 'Ada'));
+
+    expect(computeTotal).not.toHaveBeenCalled();
+    expect(computeInitials).toHaveBeenCalledWith({ name: 'Ada' });
+    expect(store.getState().values.initial).toBe('A');
+  });
+
+  it('should not record computed values in history', () => {
+    const formConfig = form
+      .create(rilConfig)
+      .add(
+        { id: 'qty', type: 'text' },
+        { id: 'double', type: 'text', computed: { deps: ['qty'], compute: ({ qty }) => qty * 2 } }
+      )
+      .build();
+
+    renderForm(formConfig, { defaultValues: { qty: 1 }, history: true });
+
+    act(() => store.getState()._setValue('qty', 3));
+    expect(store.getState().values.double).toBe(6);
+
+    act(() => store.getState()._undo());
+    expect(store.getState().values).toMatchObject({ qty: 1, double: 2 });
+    expect(store.getState().canUndo).toBe(false);
+  });
+
+  it('should compute values per repeatable item and submit them', async () => {
+    const onSubmit = vi.fn();
+    const formConfig = form
+      .create(rilConfig, 'invoice')
+      .add({ id: 'currency', type: 'text' })
+      .addRepeatable('lines', (r) =>
+        r
+          .add(
+            { id: 'price', type: 'text' },
+            { id: 'qty', type: 'text' },
+            {
+              id: 'lineTotal',
+              type: 'text',
+              computed: {
+                deps: ['price', 'qty', 'currency'],
+                compute: ({ price, qty, currency }) => `${price * qty} ${currency}`,
+              },
+            }
+          )
+          .min(1)
+          .defaultValue({ price: 0, qty: 1 })
+      )
+      .build();
+
+    renderForm(formConfig, { defaultValues: { currency: 'EUR' }, onSubmit });
+
+    act(() => {
+      store.getState()._setValue('lines[k0].price', 5);
+      store.getState()._appendRepeatableItem('lines', { price: 3, qty: 2 });
+    });
+
+    expect(store.getState().values).toMatchObject({
+      'lines[k0].lineTotal': '5 EUR',
+      'lines[k1].lineTotal': '6 EUR',
+    });
+
+    act(() => store.getState()._setValue('currency', 'USD'));
+    await act(async () => {
+      await submit?.();
+    });
+
+    expect(onSubmit).toHaveBeenCalledWith({
+      currency: 'USD',
+      lines: [
+        { price: 5, qty: 1, lineTotal: '5 USD' },
+        { price: 3, qty: 2, lineTotal: '6 USD' },
+      ],
+    });
+  });
+
+  it('should read dependencies from external values', () => {
+    const formConfig = form
+      .create(rilConfig)
+      .add(
+        { id: 'shipping', type: 'text' },
+        {
+          id: 'total',
+          type: 'text',
+          computed: {
+            deps: ['cart.subtotal', 'shipping'],
+            compute: (values) => values['cart.subtotal'] + (values.shipping ?? 0),
+          },
+        }
+      )
+      .build();
+
+    const { rerender } = renderForm(formConfig, {
+      externalValues: { cart: { subtotal: 40 } },
+    });
+    expect(store.getState().values.total).toBe(40);
+
+    rerender(
+      <FormProvider formConfig={formConfig} externalValues={{ cart: { subtotal: 50 } }}>
+        <Capture />
+      </FormProvider>
+    );
+    act(() => store.getState()._setValue('shipping', 5));
+
+    expect(store.getState().values.total).toBe(55);
+  });
+
+  it('should render computed fields read-only', () => {
+    const formConfig = form
+      .create(rilConfig)
+      .add(
+        { id: 'name', type: 'text' },
+        {
+          id: 'slug',
+          type: 'text',
+          computed: { deps: ['name'], compute: ({ name }) => name?.toLowerCase() },
+        }
+      )
+      .build();
+
+    renderForm(formConfig, {
+      defaultValues: { name: 'Hello' },
+      children: (
+        <>
+          <FormField fieldId="name" />
+          <FormField fieldId="slug" />
+        </>
+      ),
+    });
+
+    expect(screen.getByTestId('slug')).toHaveProperty('readOnly', true);
+    expect(screen.getByTestId('slug')).toHaveProperty('value', 'hello');
+    expect(screen.getByTestId('name')).toHaveProperty('readOnly', false);
+  });
+
+  it('should stop on computed fields depending on themselves', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const formConfig = form
+      .create(rilConfig)
+      .add(
+        { id: 'a', type: 'text', computed: { deps: ['b'], compute: ({ b }) => (b ?? 0) + 1 } },
+        { id: 'b', type: 'text', computed: { deps: ['a'], compute: ({ a }) => (a ?? 0) + 1 } }
+      )
+      .build();
+
+    renderForm(formConfig);
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('depends on itself'));
+  });
+});
@@ -0,0 +1,204 @@
+import type { ComponentRenderProps, FormConfiguration, OptionsLoaderContext } from '@rilaykit/core';
+import { ril } from '@rilaykit/core';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { form } from '../../src/builders/form';
+import { FormField } from '../../src/components/FormField';
+import { FormProvider } from '../../src/components/FormProvider';
+import { type FormStore, useFormStoreApi } from '../../src/stores';
+
+describe('useFieldOptions', () => {
+  let rilConfig: any;
+  let store: FormStore;
+
+  const Capture = () => {
+    store = useFormStoreApi();
+    return null;
+  };
+
+  const Select = ({
+    id,
+    options,
+    isLoadingOptions,
+    optionsError,
+    onOptionsSearch,
+  }: ComponentRenderProps) => (
+    <div data-testid={id}>
+      <input data-testid={`${id}-search`} onChange={(e) => onOptionsSearch?.(e.target.value)} />
+      {isLoadingOptions && <span>loading</span>}
+      {optionsError && <span>{optionsError.message}</span>}
+      {options?.map((option) => (
+        <span key={String(option.value)}>{option.label}</span>
+      ))}
+    </div>
+  );
+
+  const renderFields = (formConfig: FormConfiguration, fieldIds: string[]) =>
+    render(
+      <FormProvider formConfig={formConfig} defaultValues={{ country: 'FR' }}>
+        <Capture />
+        {fieldIds.map((fieldId) => (
+          <FormField key={fieldId} fieldId={fieldId} />
+        ))}
+      </FormProvider>
+    );
+
+  const regions: Record<string, string[]> = {
+    FR: ['Bretagne', 'Normandie'],
+    ES: ['Galicia'],
+  };
+
+  const loadRegions = ({ deps }: OptionsLoaderContext) =>
+    Promise.resolve(
+      (regions[deps.country] ?? []).map((region) => ({ label: region, value: region }))
+    );
+
+  beforeEach(() => {
+    rilConfig = ril
+      .create()
+      .addComponent('text', { name: 'Text', renderer: () => null })
+      .addComponent('select', { name: 'Select', renderer: Select });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should expose loaded options to the component', async () => {
+    const formConfig = form
+      .create(rilConfig)
+      .add(
+        { id: 'country', type: 'text' },
+        { id: 'region', type: 'select', optionsLoader: { deps: ['country'], load: loadRegions } }
+      )
+      .build();
+
+    renderFields(formConfig, ['region']);
+
+    expect(screen.getByText('loading')).toBeInTheDocument();
+    await waitFor(() => expect(screen.getByText('Normandie')).toBeInTheDocument());
+    expect(screen.queryByText('loading')).not.toBeInTheDocument();
+  });
+
+  it('should reload options when a dependency changes and reuse cached ones', async () => {
+    const load = vi.fn(loadRegions);
+    const formConfig = form
+      .create(rilConfig)
+      .add(
+        { id: 'country', type: 'text' },
+        { id: 'region', type: 'select', optionsLoader: { deps: ['country'], load } }
+      )
+      .build();
+
+    renderFields(formConfig, ['region']);
+    await waitFor(() => expect(screen.getByText('Bretagne')).toBeInTheDocument());
+
+    act(() => store.getState()._setValue('country', 'ES'));
+    expect(screen.queryByText('Bretagne')).not.toBeInTheDocument();
+    await waitFor(() => expect(screen.getByText('Galicia')).toBeInTheDocument());
+
+    act(() => store.getState()._setValue('country', 'FR'));
+    expect(screen.getByText('Bretagne')).toBeInTheDocument();
+    expect(load).toHaveBeenCalledTimes(2);
+
+    // Values that are not dependencies are ignored
+    act(() => store.getState()._setValue('other', 'value'));
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should abort stale requests and ignore their results', async () => {
+    const signals: AbortSignal[] = [];
+    const resolvers: Array<() => void> = [];
+    const load = ({ deps, signal }: OptionsLoaderContext) => {
+      signals.push(signal);
+      return new Promise<Array<{ label: string; value: string }>>((resolve) => {
+        resolvers.push(() => resolve([{ label: `${deps.country} region`, value: deps.country }]));
+      });
+    };
+    const formConfig = form
+      .create(rilConfig)
+      .add(
+        { id: 'country', type: 'text' },
+        { id: 'region', type: 'select', optionsLoader: { deps: ['country'], load } }
+      )
+      .build();
+
+    renderFields(formConfig, ['region']);
+    await waitFor(() => expect(signals).toHaveLength(1));
+
+    act(() => store.getState()._setValue('country', 'ES'));
+    await waitFor(() => expect(signals).toHaveLength(2));
+    expect(signals[0].aborted).toBe(true);
+
+    await act(async () => {
+      resolvers[0]();
+      resolvers[1]();
+    });
+
+    expect(screen.getByText('ES region')).toBeInTheDocument();
+    expect(screen.queryByText('FR region')).not.toBeInTheDocument();
+  });
+
+  it('should debounce searches', async () => {
+    vi.useFakeTimers();
+    const load = vi.fn(({ search }: OptionsLoaderContext) =>
+      Promise.resolve([{ label: `Result for "${search}"`, value: search }])
+    );
+    const formConfig = form
+      .create(rilConfig)
+      .add({ id: 'city', type: 'select', optionsLoader: { load, searchDebounceMs: 200 } })
+      .build();
+
+    renderFields(formConfig, ['city']);
+    await act(async () => {});
+
+    fireEvent.change(screen.getByTestId('city-search'), { target: { value: 'Pa' } });
+    fireEvent.change(screen.getByTestId('city-search'), { target: { value: 'Par' } });
+    await act(async () => {
+      vi.advanceTimersByTime(200);
+    });
+
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(load).toHaveBeenLastCalledWith(expect.objectContaining({ search: 'Par' }));
+    expect(screen.getByText('Result for "Par"')).toBeInTheDocument();
+  });
+
+  it('should expose loading errors', async () => {
+    const formConfig = form
+      .create(rilConfig)
+      .add({
+        id: 'region',
+        type: 'select',
+        optionsLoader: { load: () => Promise.reject(new Error('Network error')) },
+      })
+      .build();
+
+    renderFields(formConfig, ['region']);
+
+    await waitFor(() => expect(screen.getByText('Network error')).toBeInTheDocument());
+    expect(screen.queryByText('loading')).not.toBeInTheDocument();
+  });
+
+  it('should resolve dependencies on item fields within the same item', async () => {
+    const load = vi.fn(loadRegions);
+    const formConfig = form
+      .create(rilConfig)
+      .addRepeatable('addresses', (r) =>
+        r.add(
+          { id: 'country', type: 'text' },
+          { id: 'region', type: 'select', optionsLoader: { deps: ['country'], load } }
+        )
+      )
+      .build();
+
+    render(
+      <FormProvider formConfig={formConfig} defaultValues={{ addresses: [{ country: 'ES' }] }}>
+        <FormField fieldId="addresses[k0].region" />
+      </FormProvider>
+    );
+
+    await waitFor(() => expect(screen.getByText('Galicia')).toBeInTheDocument());
+    expect(load).toHaveBeenCalledWith(expect.objectContaining({ deps: { country: 'ES' } }));
+  });
+});
@@ -0,0 +1,222 @@
+import type { ComponentRenderProps, FormConfiguration } from '@rilaykit/core';
+import { ril, when } from '@rilaykit/core';
+import { act, render } from '@testing-library/react';
+import React from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { form } from '../../src/builders/form';
+import { FormProvider, useFormConfigContext } from '../../src/components/FormProvider';
+import { type FormStore, useFormStoreApi } from '../../src/stores';
+
+describe('useFormConditions - hidden fields and effects', () => {
+  let rilConfig: any;
+  let store: FormStore;
+  let submit: (() => Promise<boolean>) | undefined;
+
+  const Capture = () => {
+    store = useFormStoreApi();
+    submit = useFormConfigContext().submit;
+    return null;
+  };
+
+  const renderForm = (
+    formConfig: FormConfiguration,
+    props: Partial<React.ComponentProps<typeof FormProvider>> = {}
+  ) =>
+    render(
+      <FormProvider formConfig={formConfig} {...props}>
+        <Capture />
+      </FormProvider>
+    );
+
+  const submitForm = async () => {
+    await act(async () => {
+      await submit?.();
+    });
+  };
+
+  const TextInput = ({ id, value }: ComponentRenderProps) =>
+    React.createElement('input', { 'data-testid': id, value: value ?? '', onChange: () => {} });
+
+  const buildForm = (whenHidden?: 'keep' | 'clear' | 'reset' | 'exclude') =>
+    form
+      .create(rilConfig, 'account')
+      .add({ id: 'type', type: 'text' })
+      .add({
+        id: 'company',
+        type: 'text',
+        whenHidden,
+        conditions: { visible: when('type').equals('business') },
+      })
+      .build();
+
+  beforeEach(() => {
+    rilConfig = ril.create().addComponent('text', { name: 'Text', renderer: TextInput });
+  });
+
+  it('should keep and submit hidden values by default', async () => {
+    const onSubmit = vi.fn();
+    renderForm(buildForm(), { defaultValues: { type: 'business', company: 'Acme' }, onSubmit });
+
+    act(() => store.getState()._setValue('type', 'personal'));
+    await submitForm();
+
+    expect(store.getState().values.company).toBe('Acme');
+    expect(onSubmit).toHaveBeenCalledWith({ type: 'personal', company: 'Acme' });
+  });
+
+  it('should clear the value of a field once hidden', async () => {
+    const onSubmit = vi.fn();
+    renderForm(buildForm('clear'), {
+      defaultValues: { type: 'business', company: 'Acme' },
+      onSubmit,
+    });
+
+    act(() => store.getState()._setValue('type', 'personal'));
+
+    expect(store.getState().values.company).toBeUndefined();
+
+    await submitForm();
+    expect(onSubmit).toHaveBeenCalledWith({ type: 'personal' });
+  });
+
+  it('should clear fields hidden on mount', () => {
+    renderForm(buildForm('clear'), { defaultValues: { type: 'personal', company: 'Acme' } });
+
+    expect(store.getState().values.company).toBeUndefined();
+  });
+
+  it('should reset the value of a field once hidden', async () => {
+    const onSubmit = vi.fn();
+    renderForm(buildForm('reset'), {
+      defaultValues: { type: 'business', company: 'Acme' },
+      onSubmit,
+    });
+
+    act(() => store.getState()._setValue('company', 'Globex'));
+    act(() => store.getState()._setValue('type', 'personal'));
+
+    expect(store.getState().values.company).toBe('Acme');
+
+    await submitForm();
+    expect(onSubmit).toHaveBeenCalledWith({ type: 'personal', company: 'Acme' });
+  });
+
+  it('should exclude hidden values from the submitted data without clearing them', async () => {
+    const onSubmit = vi.fn();
+    renderForm(buildForm('exclude'), {
+      defaultValues: { type: 'business', company: 'Acme' },
+      onSubmit,
+    });
+
+    act(() => store.getState()._setValue('type', 'personal'));
+    await submitForm();
+
+    expect(store.getState().values.company).toBe('Acme');
+    expect(onSubmit).toHaveBeenLastCalledWith({ type: 'personal' });
+
+    act(() => store.getState()._setValue('type', 'business'));
+    await submitForm();
+
+    expect(onSubmit).toHaveBeenLastCalledWith({ type: 'business', company: 'Acme' });
+  });
+
+  it('should exclude hidden values from forced submissions', async () => {
+    const onSubmit = vi.fn();
+    const formConfig = form
+      .create(rilConfig)
+      .add({ id: 'type', type: 'text' })
+      .add({
+        id: 'company',
+        type: 'text',
+        whenHidden: 'exclude',
+        conditions: { visible: when('type').equals('business') },
+      })
+      .setSubmitOptions({ force: true })
+      .build();
+
+    renderForm(formConfig, { defaultValues: { type: 'personal', company: 'Acme' }, onSubmit });
+    await submitForm();
+
+    expect(onSubmit).toHaveBeenCalledWith({ type: 'personal' });
+  });
+
+  it('should set values when the condition of an effect becomes true', () => {
+    const formConfig = form
+      .create(rilConfig)
+      .add(
+        {
+          id: 'country',
+          type: 'text',
+          effects: [{ when: when('country').equals('FR'), set: { currency: 'EUR', vat: 20 } }],
+        },
+        { id: 'currency', type: 'text' },
+        { id: 'vat', type: 'text' }
+      )
+      .build();
+
+    renderForm(formConfig, { defaultValues: { country: 'FR', currency: 'USD' } });
+
+    // Not applied on mount, the default values win
+    expect(store.getState().values).toMatchObject({ currency: 'USD' });
+
+    act(() => store.getState()._setValue('country', 'US'));
+    act(() => store.getState()._setValue('currency', 'USD'));
+    act(() => store.getState()._setValue('country', 'FR'));
+
+    expect(store.getState().values).toMatchObject({ currency: 'EUR', vat: 20 });
+
+    // Applied again only after the condition turned false
+    act(() => store.getState()._setValue('currency', 'GBP'));
+    act(() => store.getState()._setValue('vat', 5));
+
+    expect(store.getState().values).toMatchObject({ currency: 'GBP', vat: 5 });
+  });
+
+  it('should scope effects and hidden policies to repeatable items', async () => {
+    const onSubmit = vi.fn();
+    const formConfig = form
+      .create(rilConfig, 'order')
+      .addRepeatable('items', (r) =>
+        r
+          .add(
+            {
+              id: 'kind',
+              type: 'text',
+              effects: [{ when: when('kind').equals('digital'), set: { shipping: 0 } }],
+            },
+            { id: 'shipping', type: 'text' },
+            {
+              id: 'weight',
+              type: 'text',
+              whenHidden: 'clear',
+              conditions: { visible: when('kind').equals('physical') },
+            }
+          )
+          .defaultValue({ kind: 'physical', shipping: 5, weight: 1 })
+      )
+      .build();
+
+    renderForm(formConfig, { onSubmit });
+
+    act(() => {
+      store.getState()._appendRepeatableItem('items');
+      store.getState()._appendRepeatableItem('items');
+    });
+    act(() => store.getState()._setValue('items[k1].kind', 'digital'));
+
+    expect(store.getState().values).toMatchObject({
+      'items[k0].shipping': 5,
+      'items[k0].weight': 1,
+      'items[k1].shipping': 0,
+      'items[k1].weight': undefined,
+    });
+
+    await submitForm();
+    expect(onSubmit).toHaveBeenCalledWith({
+      items: [
+        { kind: 'physical', shipping: 5, weight: 1 },
+        { kind: 'digital', shipping: 0 },
+      ],
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import type {
+  FormConfiguration,
+  PersistedWorkflowData,
+  WorkflowPersistenceAdapter,
+} from '@rilaykit/core';
+import { ril, when } from '@rilaykit/core';
+import { act, render } from '@testing-library/react';
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { form } from '../../src/builders/form';
+import { FormProvider, useFormConfigContext } from '../../src/components/FormProvider';
+import { type FormStore, useFormStoreApi } from '../../src/stores';
+
+// In-memory adapter following the workflow persistence contract
+class MemoryAdapter implements WorkflowPersistenceAdapter {
+  storage = new Map<string, PersistedWorkflowData>();
+
+  save = vi.fn(async (key: string, data: PersistedWorkflowData) => {
+    this.storage.set(key, data);
+  });
+
+  load = vi.fn(async (key: string) => this.storage.get(key) ?? null);
+
+  remove = vi.fn(async (key: string) => {
+    this.storage.delete(key);
+  });
+
+  exists = vi.fn(async (key: string) => this.storage.has(key));
+}
+
+describe('useFormPersistence', () => {
+  let formConfig: FormConfiguration;
+  let draft: PersistedWorkflowData;
+  let adapter: MemoryAdapter;
+  let store: FormStore;
+  let submit: (() => Promise<boolean>) | undefined;
+
+  const Capture = () => {
+    store = useFormStoreApi();
+    submit = useFormConfigContext().submit;
+    return null;
+  };
+
+  const renderForm = (props: Partial<React.ComponentProps<typeof FormProvider>> = {}) =>
+    render(
+      <FormProvider formConfig={formConfig} persistence={{ adapter, debounceMs: 200 }} {...props}>
+        <Capture />
+      </FormProvider>
+    );
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    adapter = new MemoryAdapter();
+
+    const config = ril.create().addComponent('text', {
+      name: 'Text Input',
+      renderer: () => React.createElement('div'),
+    });
+
+    formConfig = form
+      .create(config, 'signup')
+      .add({ id: 'name', type: 'text' }, { id: 'email', type: 'text' })
+      .build();
+
+    draft = {
+      workflowId: 'signup',
+      currentStepIndex: 0,
+      allData: {},
+      stepData: { name: 'Saved', email: 'saved@example.com' },
+      visitedSteps: [],
+      lastSaved: Date.now(),
+      metadata: { touched: ['email'] },
+    };
+  });
+
+  const flushLoad = () =>
+    act(async () => {
+      await Promise.resolve();
+    });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should autosave values and touched state after the debounce delay', async () => {
+    renderForm();
+
+    act(() => {
+      store.getState()._setValue('name', 'J');
+      store.getState()._setValue('name', 'John');
+      store.getState()._setTouched('name');
+    });
+    expect(adapter.save).not.toHaveBeenCalled();
+
+    await act(async () => {
+      vi.advanceTimersByTime(200);
+    });
+
+    expect(adapter.save).toHaveBeenCalledTimes(1);
+    expect(adapter.storage.get('signup')).toMatchObject({
+      workflowId: 'signup',
+      stepData: { name: 'John' },
+      metadata: { touched: ['name'] },
+    });
+  });
+
+  it('should restore the draft on mount', async () => {
+    adapter.storage.set('signup', draft);
+
+    renderForm({ defaultValues: { name: 'Default' } });
+
+    await flushLoad();
+
+    expect(store.getState().values).toEqual({ name: 'Saved', email: 'saved@example.com' });
+    expect(store.getState().touched).toEqual({ email: true });
+
+    // Restoring the draft does not trigger an autosave
+    await act(async () => {
+      vi.advanceTimersByTime(500);
+    });
+    expect(adapter.save).not.toHaveBeenCalled();
+  });
+
+  it('should keep the fields the user changed before the draft loaded', async () => {
+    adapter.storage.set('signup', draft);
+
+    renderForm();
+    act(() => {
+      store.getState()._setValue('name', 'Typed');
+    });
+    await flushLoad();
+
+    expect(store.getState().values).toEqual({ name: 'Typed', email: 'saved@example.com' });
+  });
+
+  it('should restore the draft into a form with computed fields', async () => {
+    const config = formConfig.config;
+    formConfig = form
+      .create(config, 'signup')
+      .add({ id: 'name', type: 'text' }, { id: 'email', type: 'text' })
+      .add({
+        id: 'greeting',
+        type: 'text',
+        computed: {
+          deps: ['user.title', 'name'],
+          compute: (values) => `Hello ${values['user.title']} ${values.name ?? ''}`.trim(),
+        },
+      })
+      .build();
+    adapter.storage.set('signup', draft);
+
+    const { rerender } = renderForm({ externalValues: { user: { title: 'Mr' } } });
+    // The computed field changes while the draft is loading
+    rerender(
+      <FormProvider
+        formConfig={formConfig}
+        persistence={{ adapter, debounceMs: 200 }}
+        externalValues={{ user: { title: 'Dr' } }}
+      >
+        <Capture />
+      </FormProvider>
+    );
+    expect(store.getState().values.greeting).toBe('Hello Dr');
+    await flushLoad();
+
+    expect(store.getState().values).toMatchObject({
+      name: 'Saved',
+      email: 'saved@example.com',
+      greeting: 'Hello Dr Saved',
+    });
+  });
+
+  it('should restore the draft into a form clearing hidden fields', async () => {
+    const config = formConfig.config;
+    formConfig = form
+      .create(config, 'signup')
+      .add({ id: 'type', type: 'text' })
+      .add({
+        id: 'company',
+        type: 'text',
+        whenHidden: 'clear',
+        conditions: { visible: when('type').equals('business') },
+      })
+      .build();
+    adapter.storage.set('signup', {
+      ...draft,
+      stepData: { type: 'business', company: 'Acme' },
+    });
+
+    renderForm({ defaultValues: { company: 'Default' } });
+    expect(store.getState().values.company).toBeUndefined();
+    await flushLoad();
+
+    expect(store.getState().values).toMatchObject({ type: 'business', company: 'Acme' });
+  });
+
+  it('should clear the draft after a successful submit', async () => {
+    const onSubmit = vi.fn();
+    renderForm({ onSubmit });
+
+    act(() => {
+      store.getState()._setValue('name', 'John');
+    });
+
+    await act(async () => {
+      await submit?.();
+    });
+
+    expect(onSubmit).toHaveBeenCalledWith({ name: 'John' });
+    expect(adapter.remove).toHaveBeenCalledWith('signup');
+
+    // The pending autosave was cancelled
+    await act(async () => {
+      vi.advanceTimersByTime(500);
+    });
+    expect(adapter.storage.has('signup')).toBe(false);
+  });
+
+  it('should keep the draft when submit fails', async () => {
+    renderForm({
+      onSubmit: () => {
+        throw new Error('Network error');
+      },
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await act(async () => {
+      await submit?.();
+    });
+
+    expect(adapter.remove).not.toHaveBeenCalled();
+  });
+
+  it('should use the persistence configured on the form and its key', async () => {
+    const config = formConfig.config;
+    formConfig = form
+      .create(config, 'contact')
+      .add({ id: 'name', type: 'text' })
+      .setPersistence({ adapter, key: 'contact-draft', debounceMs: 100 })
+      .build();
+
+    render(
+      <FormProvider formConfig={formConfig}>
+        <Capture />
+      </FormProvider>
+    );
+
+    act(() => {
+      store.getState()._setValue('name', 'John');
+    });
+    await act(async () => {
+      vi.advanceTimersByTime(100);
+    });
+
+    expect(adapter.storage.get('contact-draft')?.stepData).toEqual({ name: 'John' });
+  });
+});
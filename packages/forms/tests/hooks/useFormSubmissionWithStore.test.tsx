@@ -1,11 +1,11 @@
 import type { FormConfiguration } from '@rilaykit/core';
-import { required, ril } from '@rilaykit/core';
+import { SubmissionError, required, ril } from '@rilaykit/core';
 import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
 import React from 'react';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { form } from '../../src/builders/form';
 import { FormProvider, useFormConfigContext } from '../../src/components/FormProvider';
-import { useFormStoreApi, useFormSubmitState } from '../../src/stores';
+import { type FormStore, useFormStoreApi, useFormSubmitState } from '../../src/stores';
 
 // ============================================================================
 // SETUP
@@ -934,3 +934,88 @@ describe('useFormSubmissionWithStore - SubmitOptions', () => {
     });
   });
 });
+
+describe('useFormSubmissionWithStore - SubmissionError', () => {
+  let config: ReturnType<typeof createConfig>;
+  let store: FormStore;
+  let submit: (options?: { force?: boolean }) => Promise<boolean>;
+
+  const Capture = () => {
+    store = useFormStoreApi();
+    submit = useFormConfigContext().submit;
+    return null;
+  };
+
+  beforeEach(() => {
+    config = createConfig();
+  });
+
+  const createOrderForm = () =>
+    form
+      .create(config, 'order')
+      .add({ id: 'email', type: 'email' })
+      .addRepeatable('items', (r) => r.add({ id: 'qty', type: 'text' }))
+      .build();
+
+  it('should show the errors of a thrown SubmissionError on the matching fields', async () => {
+    const onSubmit = vi.fn().mockRejectedValue(
+      new SubmissionError(
+        {
+          email: [{ message: 'Already registered' }],
+          'items[1].qty': [{ message: 'Out of stock' }],
+          coupon: [{ message: 'Expired' }],
+        },
+        [{ message: 'The order could not be created' }]
+      )
+    );
+
+    render(
+      <FormProvider
+        formConfig={createOrderForm()}
+        defaultValues={{ email: 'ada@example.com', items: [{ qty: 1 }, { qty: 9 }] }}
+        onSubmit={onSubmit}
+      >
+        <Capture />
+      </FormProvider>
+    );
+
+    let result: boolean | undefined;
+    await act(async () => {
+      result = await submit();
+    });
+
+    const state = store.getState();
+    expect(result).toBe(false);
+    expect(state.errors.email).toEqual([{ message: 'Already registered' }]);
+    expect(state.errors['items[k1].qty']).toEqual([{ message: 'Out of stock' }]);
+    expect(state.touched['items[k1].qty']).toBe(true);
+    expect(state.formErrors).toEqual([
+      { message: 'The order could not be created' },
+      { message: 'Expired', path: 'coupon' },
+    ]);
+    expect(state.isSubmitting).toBe(false);
+  });
+
+  it('should handle a returned SubmissionError and clear form errors on the next submit', async () => {
+    const onSubmit = vi
+      .fn()
+      .mockResolvedValueOnce(new SubmissionError({}, [{ message: 'Server unavailable' }]))
+      .mockResolvedValueOnce(undefined);
+
+    render(
+      <FormProvider formConfig={createOrderForm()} onSubmit={onSubmit}>
+        <Capture />
+      </FormProvider>
+    );
+
+    await act(async () => {
+      expect(await submit({ force: true })).toBe(false);
+    });
+    expect(store.getState().formErrors).toEqual([{ message: 'Server unavailable' }]);
+
+    await act(async () => {
+      expect(await submit({ force: true })).toBe(true);
+    });
+    expect(store.getState().formErrors).toEqual([]);
+  });
+});
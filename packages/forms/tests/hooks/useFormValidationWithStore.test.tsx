@@ -0,0 +1,261 @@
+import type { FormConfiguration, ValidationResult } from '@rilaykit/core';
+import { async, ril } from '@rilaykit/core';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { form } from '../../src/builders/form';
+import { FormField } from '../../src/components/FormField';
+import {
+  type FormConfigContextValue,
+  FormProvider,
+  useFormConfigContext,
+} from '../../src/components/FormProvider';
+import { type FormStore, useFormStoreApi } from '../../src/stores';
+
+// ============================================================================
+// SETUP
+// ============================================================================
+
+const TextInput = ({ id, value, onChange }: any) => (
+  <input data-testid={id} value={value ?? ''} onChange={(e) => onChange?.(e.target.value)} />
+);
+
+/**
+ * Async check resolved by hand, recording the values and signals it received
+ */
+function createDeferredCheck() {
+  const calls: Array<{ value: string; signal?: AbortSignal; resolve: (ok: boolean) => void }> = [];
+  const check = (value: string, { signal }: { signal?: AbortSignal }) =>
+    new Promise<boolean>((resolve) => {
+      calls.push({ value, signal, resolve });
+    });
+  return { calls, check };
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('useFormValidationWithStore - scheduling', () => {
+  let config: any;
+  let store: FormStore;
+  let context: FormConfigContextValue;
+
+  const Capture = () => {
+    store = useFormStoreApi();
+    context = useFormConfigContext();
+    return null;
+  };
+
+  const renderForm = (formConfig: FormConfiguration) =>
+    render(
+      <FormProvider formConfig={formConfig}>
+        <Capture />
+        <FormField fieldId="username" />
+      </FormProvider>
+    );
+
+  beforeEach(() => {
+    config = ril.create().addComponent('text', { name: 'Text', renderer: TextInput });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should only validate the last value of a burst of changes after debounceMs', async () => {
+    vi.useFakeTimers();
+    const check = vi.fn(async (value: string) => value !== 'taken');
+    const formConfig = form
+      .create(config)
+      .add({
+        id: 'username',
+        type: 'text',
+        validation: { validate: async(check, 'Taken'), validateOnChange: true, debounceMs: 300 },
+      })
+      .build();
+
+    renderForm(formConfig);
+
+    fireEvent.change(screen.getByTestId('username'), { target: { value: 'ta' } });
+    fireEvent.change(screen.getByTestId('username'), { target: { value: 'tak' } });
+    fireEvent.change(screen.getByTestId('username'), { target: { value: 'taken' } });
+
+    await act(async () => {
+      vi.advanceTimersByTime(299);
+    });
+    expect(check).not.toHaveBeenCalled();
+    expect(store.getState().validationStates.username).toBe('validating');
+
+    await act(async () => {
+      vi.advanceTimersByTime(1);
+    });
+    expect(check).toHaveBeenCalledTimes(1);
+    expect(check).toHaveBeenCalledWith('taken', expect.anything());
+    expect(store.getState().errors.username).toEqual([
+      expect.objectContaining({ message: 'Taken' }),
+    ]);
+  });
+
+  it('should validate immediately outside of changes', async () => {
+    const check = vi.fn(async () => true);
+    const formConfig = form
+      .create(config)
+      .add({
+        id: 'username',
+        type: 'text',
+        validation: { validate: async(check), debounceMs: 10_000 },
+      })
+      .build();
+
+    renderForm(formConfig);
+
+    let result: ValidationResult | undefined;
+    await act(async () => {
+      result = await context.validateField('username', 'ada');
+    });
+
+    expect(result?.isValid).toBe(true);
+    expect(check).toHaveBeenCalledTimes(1);
+  });
+
+  it('should abort superseded validations and only commit the latest result', async () => {
+    const { calls, check } = createDeferredCheck();
+    const formConfig = form
+      .create(config)
+      .add({ id: 'username', type: 'text', validation: { validate: async(check, 'Taken') } })
+      .build();
+
+    renderForm(formConfig);
+
+    let first: Promise<ValidationResult> | undefined;
+    let second: Promise<ValidationResult> | undefined;
+    await act(async () => {
+      first = context.validateField('username', 'taken');
+      second = context.validateField('username', 'free');
+    });
+
+    expect(calls.map((call) => call.value)).toEqual(['taken', 'free']);
+    expect(calls[0].signal?.aborted).toBe(true);
+    expect(calls[1].signal?.aborted).toBe(false);
+
+    // The latest run resolves first, the stale result arrives afterwards
+    await act(async () => {
+      calls[1].resolve(true);
+      await second;
+    });
+    expect(store.getState().validationStates.username).toBe('valid');
+
+    await act(async () => {
+      calls[0].resolve(false);
+    });
+
+    expect(store.getState().errors.username).toEqual([]);
+    expect(store.getState().validationStates.username).toBe('valid');
+    await expect(first).resolves.toEqual({ isValid: true, errors: [] });
+  });
+
+  it('should stay validating while the latest validation is in flight', async () => {
+    const { calls, check } = createDeferredCheck();
+    const formConfig = form
+      .create(config)
+      .add({ id: 'username', type: 'text', validation: { validate: async(check, 'Taken') } })
+      .build();
+
+    renderForm(formConfig);
+
+    await act(async () => {
+      context.validateField('username', 'a');
+      context.validateField('username', 'ab');
+    });
+
+    // The superseded run resolving does not end the validation
+    await act(async () => {
+      calls[0].resolve(true);
+    });
+    expect(store.getState().validationStates.username).toBe('validating');
+
+    await act(async () => {
+      calls[1].resolve(false);
+    });
+    expect(store.getState().validationStates.username).toBe('invalid');
+  });
+});
+
+describe('useFormValidationWithStore - form-level errors', () => {
+  let store: FormStore;
+  let context: FormConfigContextValue;
+
+  const Capture = () => {
+    store = useFormStoreApi();
+    context = useFormConfigContext();
+    return null;
+  };
+
+  // Form-level schema rejecting different passwords on `confirm` and an empty form as a whole
+  const passwordsSchema = {
+    '~standard': {
+      version: 1 as const,
+      vendor: 'test',
+      validate: (values: any) => {
+        const issues = [];
+        if (values.password !== values.confirm) {
+          issues.push({ message: 'Passwords differ', path: ['confirm'] });
+        }
+        if (!values.password) {
+          issues.push({ message: 'Fill in the form' });
+        }
+        return issues.length > 0 ? { issues } : { value: values };
+      },
+    },
+  };
+
+  const renderForm = (defaultValues: Record<string, unknown>) => {
+    const config = ril.create().addComponent('text', { name: 'Text', renderer: TextInput });
+    const formConfig = form
+      .create(config)
+      .add({ id: 'password', type: 'text' }, { id: 'confirm', type: 'text' })
+      .setValidation({ validate: passwordsSchema })
+      .build();
+
+    render(
+      <FormProvider formConfig={formConfig} defaultValues={defaultValues}>
+        <Capture />
+      </FormProvider>
+    );
+  };
+
+  it('should show errors on the field of their path and keep the others on the form', async () => {
+    renderForm({ password: '', confirm: 'secret' });
+
+    await act(async () => {
+      await context.validateForm();
+    });
+
+    expect(store.getState().errors.confirm).toEqual([
+      expect.objectContaining({ message: 'Passwords differ', path: 'confirm' }),
+    ]);
+    expect(store.getState().formErrors).toEqual([
+      expect.objectContaining({ message: 'Fill in the form' }),
+    ]);
+  });
+
+  it('should clear form-level errors once the schema passes', async () => {
+    renderForm({ password: 'secret', confirm: 'other' });
+
+    await act(async () => {
+      await context.validateForm();
+    });
+    expect(store.getState().errors.confirm).toHaveLength(1);
+
+    act(() => {
+      store.getState()._setValue('confirm', 'secret');
+    });
+    await act(async () => {
+      await context.validateForm();
+    });
+
+    expect(store.getState().errors.confirm).toEqual([]);
+    expect(store.getState().formErrors).toEqual([]);
+  });
+});
@@ -0,0 +1,131 @@
+import { SubmissionError, required, ril } from '@rilaykit/core';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { form } from '../../src/builders/form';
+import { FormBody } from '../../src/components/FormBody';
+import { FormProvider } from '../../src/components/FormProvider';
+import { type FormStore, useFormStoreApi } from '../../src/stores';
+
+const TextInput = ({ id, value, onChange }: any) => (
+  <input data-testid={id} value={value ?? ''} onChange={(e) => onChange?.(e.target.value)} />
+);
+
+describe('Invalid submit - focus management', () => {
+  let config: ril<Record<string, any>>;
+  let store: FormStore;
+  const scrollIntoView = vi.fn();
+
+  const Capture = () => {
+    store = useFormStoreApi();
+    return null;
+  };
+
+  const renderForm = (formConfig: any, props: Record<string, unknown> = {}) =>
+    render(
+      <FormProvider formConfig={formConfig} {...props}>
+        <Capture />
+        <FormBody />
+      </FormProvider>
+    );
+
+  const submit = async () => {
+    await act(async () => {
+      fireEvent.submit(document.querySelector('form') as HTMLFormElement);
+    });
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // jsdom does not implement scrolling
+    Element.prototype.scrollIntoView = scrollIntoView;
+
+    config = ril
+      .create()
+      .addComponent('text', { name: 'Text', renderer: TextInput })
+      .configure({
+        rowRenderer: ({ children }: any) => <div>{children}</div>,
+        bodyRenderer: ({ children }: any) => <div>{children}</div>,
+      });
+  });
+
+  afterEach(() => {
+    // biome-ignore lint/performance/noDelete: restores the jsdom prototype
+    delete (Element.prototype as Partial<Element>).scrollIntoView;
+  });
+
+  it('should focus the first invalid field in row order', async () => {
+    const formConfig = form
+      .create(config)
+      .add({ id: 'name', type: 'text' })
+      .add({ id: 'email', type: 'text', validation: { validate: required() } })
+      .add({ id: 'city', type: 'text', validation: { validate: required() } })
+      .build();
+
+    renderForm(formConfig);
+    await submit();
+
+    expect(screen.getByTestId('email')).toHaveFocus();
+    expect(scrollIntoView).not.toHaveBeenCalled();
+  });
+
+  it('should reach the fields of repeatable items in item order', async () => {
+    const formConfig = form
+      .create(config)
+      .addRepeatable('items', (r) =>
+        r.add({ id: 'qty', type: 'text', validation: { validate: required() } })
+      )
+      .add({ id: 'note', type: 'text', validation: { validate: required() } })
+      .build();
+
+    renderForm(formConfig, { defaultValues: { items: [{ qty: '1' }, { qty: '' }] } });
+    await submit();
+
+    const [, secondItemKey] = store.getState()._repeatableOrder.items;
+    expect(screen.getByTestId(`items[${secondItemKey}].qty`)).toHaveFocus();
+  });
+
+  it('should only scroll to the field with scrollToFirstError', async () => {
+    const formConfig = form
+      .create(config)
+      .add({ id: 'email', type: 'text', validation: { validate: required() } })
+      .setSubmitOptions({ onInvalidSubmit: 'scrollToFirstError' })
+      .build();
+
+    renderForm(formConfig);
+    await submit();
+
+    expect(scrollIntoView).toHaveBeenCalledTimes(1);
+    expect(screen.getByTestId('email')).not.toHaveFocus();
+  });
+
+  it('should leave the focus alone with none', async () => {
+    const formConfig = form
+      .create(config)
+      .add({ id: 'email', type: 'text', validation: { validate: required() } })
+      .setSubmitOptions({ onInvalidSubmit: 'none' })
+      .build();
+
+    renderForm(formConfig);
+    await submit();
+
+    expect(screen.getByTestId('email')).not.toHaveFocus();
+    expect(scrollIntoView).not.toHaveBeenCalled();
+  });
+
+  it('should focus the first field rejected by the server', async () => {
+    const formConfig = form
+      .create(config)
+      .add({ id: 'name', type: 'text' }, { id: 'email', type: 'text' })
+      .build();
+    const onSubmit = vi.fn(
+      () => new SubmissionError({ email: [{ message: 'Already registered' }] })
+    );
+
+    renderForm(formConfig, { onSubmit });
+    await submit();
+
+    await waitFor(() => {
+      expect(screen.getByTestId('email')).toHaveFocus();
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { required, ril } from '@rilaykit/core';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { form } from '../../src/builders/form';
+import { FormBody } from '../../src/components/FormBody';
+import { FormProvider } from '../../src/components/FormProvider';
+import { type FormStore, useFormStoreApi } from '../../src/stores';
+
+const TextInput = ({ id, value, onChange, onBlur, error }: any) => (
+  <div>
+    <input
+      data-testid={id}
+      value={value ?? ''}
+      onChange={(e) => onChange?.(e.target.value)}
+      onBlur={onBlur}
+    />
+    {error?.length > 0 && <span data-testid={`error-${id}`}>{error[0].message}</span>}
+  </div>
+);
+
+describe('Validation modes', () => {
+  let config: ril<Record<string, any>>;
+  let store: FormStore;
+
+  const Capture = () => {
+    store = useFormStoreApi();
+    return null;
+  };
+
+  const renderForm = (formConfig: any, defaultValues?: Record<string, unknown>) =>
+    render(
+      <FormProvider formConfig={formConfig} defaultValues={defaultValues}>
+        <Capture />
+        <FormBody />
+      </FormProvider>
+    );
+
+  const change = async (fieldId: string, value: string) => {
+    await act(async () => {
+      fireEvent.change(screen.getByTestId(fieldId), { target: { value } });
+    });
+  };
+
+  const blur = async (fieldId: string) => {
+    await act(async () => {
+      fireEvent.blur(screen.getByTestId(fieldId));
+    });
+  };
+
+  const submit = async () => {
+    await act(async () => {
+      fireEvent.submit(document.querySelector('form') as HTMLFormElement);
+    });
+  };
+
+  beforeEach(() => {
+    config = ril
+      .create()
+      .addComponent('text', { name: 'Text', renderer: TextInput })
+      .configure({
+        rowRenderer: ({ children }: any) => <div>{children}</div>,
+        bodyRenderer: ({ children }: any) => <div>{children}</div>,
+      });
+  });
+
+  it('should only validate on submit, then on change, with the onSubmit mode', async () => {
+    const formConfig = form
+      .create(config)
+      .add({ id: 'email', type: 'text', validation: { validate: required('Required') } })
+      .setValidation({ mode: 'onSubmit' })
+      .build();
+
+    renderForm(formConfig);
+    await change('email', 'a');
+    await change('email', '');
+    await blur('email');
+    expect(screen.queryByTestId('error-email')).not.toBeInTheDocument();
+
+    await submit();
+    expect(screen.getByTestId('error-email')).toHaveTextContent('Required');
+
+    await change('email', 'me@example.com');
+    expect(screen.queryByTestId('error-email')).not.toBeInTheDocument();
+  });
+
+  it('should only validate again on blur with the onBlur reValidateMode', async () => {
+    const formConfig = form
+      .create(config)
+      .add({ id: 'email', type: 'text', validation: { validate: required('Required') } })
+      .setValidation({ mode: 'onSubmit', reValidateMode: 'onBlur' })
+      .build();
+
+    renderForm(formConfig);
+    await submit();
+    await change('email', 'me@example.com');
+    expect(screen.getByTestId('error-email')).toBeInTheDocument();
+
+    await blur('email');
+    expect(screen.queryByTestId('error-email')).not.toBeInTheDocument();
+  });
+
+  it('should let a field override the mode of the form', async () => {
+    const formConfig = form
+      .create(config)
+      .add(
+        { id: 'name', type: 'text', validation: { validate: required('Required') } },
+        {
+          id: 'email',
+          type: 'text',
+          validation: { validate: required('Required'), mode: 'onChange' },
+        }
+      )
+      .setValidation({ mode: 'onSubmit' })
+      .build();
+
+    renderForm(formConfig);
+    await change('name', 'a');
+    await change('name', '');
+    await change('email', 'a');
+    await change('email', '');
+
+    expect(screen.queryByTestId('error-name')).not.toBeInTheDocument();
+    expect(screen.getByTestId('error-email')).toHaveTextContent('Required');
+  });
+
+  it('should apply the mode of the form to the fields of repeatable items', async () => {
+    const formConfig = form
+      .create(config)
+      .addRepeatable('items', (r) =>
+        r.add({ id: 'qty', type: 'text', validation: { validate: required('Required') } })
+      )
+      .setValidation({ mode: 'onChange' })
+      .build();
+
+    renderForm(formConfig, { items: [{ qty: '1' }] });
+    const [itemKey] = store.getState()._repeatableOrder.items;
+    const fieldId = `items[${itemKey}].qty`;
+
+    await change(fieldId, '');
+
+    expect(screen.getByTestId(`error-${fieldId}`)).toHaveTextContent('Required');
+  });
+});
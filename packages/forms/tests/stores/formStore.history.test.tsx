@@ -0,0 +1,136 @@
+import { act, renderHook } from '@testing-library/react';
+import type React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  type CreateFormStoreOptions,
+  FormStoreContext,
+  createFormStore,
+  useFormActions,
+} from '../../src/stores/formStore';
+
+function createWrapper(
+  initialValues: Record<string, unknown> = {},
+  options: CreateFormStoreOptions = { history: true }
+) {
+  const store = createFormStore(initialValues, options);
+  const Wrapper = ({ children }: { children: React.ReactNode }) => (
+    <FormStoreContext.Provider value={store}>{children}</FormStoreContext.Provider>
+  );
+  return { Wrapper, store };
+}
+
+describe('FormStore history', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should undo and redo value changes', () => {
+    const { Wrapper, store } = createWrapper({ name: 'initial' });
+    const { result } = renderHook(() => useFormActions(), { wrapper: Wrapper });
+
+    expect(result.current.canUndo).toBe(false);
+
+    act(() => {
+      result.current.setValue('name', 'changed');
+    });
+    expect(result.current.canUndo).toBe(true);
+
+    act(() => {
+      result.current.undo();
+    });
+    expect(store.getState().values.name).toBe('initial');
+    expect(result.current.canUndo).toBe(false);
+    expect(result.current.canRedo).toBe(true);
+
+    act(() => {
+      result.current.redo();
+    });
+    expect(store.getState().values.name).toBe('changed');
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it('should undo rapid keystrokes in a field as a single change', () => {
+    const { store } = createWrapper({}, { history: { groupingMs: 300 } });
+    const { _setValue } = store.getState();
+
+    _setValue('name', 'J');
+    vi.advanceTimersByTime(100);
+    _setValue('name', 'Jo');
+    vi.advanceTimersByTime(100);
+    _setValue('name', 'Joe');
+    vi.advanceTimersByTime(500);
+    _setValue('name', 'Joey');
+
+    store.getState()._undo();
+    expect(store.getState().values.name).toBe('Joe');
+
+    store.getState()._undo();
+    expect(store.getState().values).not.toHaveProperty('name');
+    expect(store.getState().canUndo).toBe(false);
+  });
+
+  it('should keep at most the configured number of entries', () => {
+    const { store } = createWrapper({}, { history: { depth: 2 } });
+    const { _setValue } = store.getState();
+
+    _setValue('a', 1);
+    _setValue('b', 2);
+    _setValue('c', 3);
+
+    store.getState()._undo();
+    store.getState()._undo();
+    store.getState()._undo();
+
+    expect(store.getState().values).toEqual({ a: 1 });
+  });
+
+  it('should clear the history on reset', () => {
+    const { store } = createWrapper();
+
+    store.getState()._setValue('name', 'changed');
+    store.getState()._reset();
+
+    expect(store.getState().canUndo).toBe(false);
+    store.getState()._undo();
+    expect(store.getState().values).toEqual({});
+  });
+
+  it('should not record anything when history is disabled', () => {
+    const { store } = createWrapper({ name: 'initial' }, {});
+
+    store.getState()._setValue('name', 'changed');
+    store.getState()._undo();
+
+    expect(store.getState().canUndo).toBe(false);
+    expect(store.getState().values.name).toBe('changed');
+  });
+
+  it('should undo adding and removing repeatable items', () => {
+    const { store } = createWrapper();
+    store.getState()._setRepeatableConfig('items', {
+      id: 'items',
+      rows: [],
+      allFields: [{ id: 'name', componentId: 'text', props: {} }],
+      defaultValue: { name: '' },
+    } as any);
+
+    const key = store.getState()._appendRepeatableItem('items') as string;
+    vi.advanceTimersByTime(1000);
+    store.getState()._setValue(`items[${key}].name`, 'Bolt');
+    vi.advanceTimersByTime(1000);
+    store.getState()._removeRepeatableItem('items', key);
+
+    store.getState()._undo();
+    expect(store.getState()._repeatableOrder.items).toEqual([key]);
+    expect(store.getState().values[`items[${key}].name`]).toBe('Bolt');
+
+    store.getState()._undo();
+    store.getState()._undo();
+    expect(store.getState()._repeatableOrder.items).toBeUndefined();
+    expect(store.getState().values).toEqual({});
+  });
+});
@@ -1,9 +1,10 @@
-import type { RepeatableFieldConfig } from '@rilaykit/core';
+import type { FormConfiguration, RepeatableFieldConfig } from '@rilaykit/core';
 import { describe, expect, it } from 'vitest';
 import {
   buildCompositeKey,
   flattenRepeatableValues,
   parseCompositeKey,
+  resolveFieldPath,
   structureFormValues,
 } from '../../src/utils/repeatable-data';
 
@@ -293,3 +294,28 @@ describe('roundtrip: flatten ↔ structure', () => {
     expect(structured).toEqual(original);
   });
 });
+
+describe('resolveFieldPath', () => {
+  const formConfig = {
+    allFields: [{ id: 'customerName', componentId: 'text' }],
+    repeatableFields: { items: createRepeatableConfig('items', ['name', 'qty']) },
+  } as unknown as FormConfiguration;
+  const order = { items: ['k0', 'k3', 'k5'] };
+
+  it('should resolve field ids and composite keys', () => {
+    expect(resolveFieldPath('customerName', formConfig, order)).toBe('customerName');
+    expect(resolveFieldPath('items[k3].qty', formConfig, order)).toBe('items[k3].qty');
+  });
+
+  it('should resolve item indexes to item keys', () => {
+    expect(resolveFieldPath('items[1].qty', formConfig, order)).toBe('items[k3].qty');
+    expect(resolveFieldPath('items.2.name', formConfig, order)).toBe('items[k5].name');
+  });
+
+  it('should return null for paths matching no field', () => {
+    expect(resolveFieldPath('unknown', formConfig, order)).toBeNull();
+    expect(resolveFieldPath('items[3].qty', formConfig, order)).toBeNull();
+    expect(resolveFieldPath('items[k1].qty', formConfig, order)).toBeNull();
+    expect(resolveFieldPath('items[0].price', formConfig, order)).toBeNull();
+  });
+});
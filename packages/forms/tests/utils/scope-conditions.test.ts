@@ -164,6 +164,22 @@ describe('scopeConditions', () => {
       expect((scoped.visible! as any).operator).toBe('strictEquals');
     });
 
+    it('should scope field references used as condition values', () => {
+      const conditions: ConditionalBehavior = {
+        visible: {
+          field: 'price',
+          operator: 'between',
+          value: [{ field: 'qty' }, { field: 'maxPrice' }],
+        },
+        required: { field: 'price', operator: 'greaterThan', value: { field: 'qty' } },
+      };
+
+      const scoped = scopeConditions(conditions, repeatableId, itemKey, templateFieldIds);
+
+      expect(scoped.visible!.value).toEqual([{ field: 'items[k2].qty' }, { field: 'maxPrice' }]);
+      expect(scoped.required!.value).toEqual({ field: 'items[k2].qty' });
+    });
+
     it('should return different item keys for different items', () => {
       const conditions: ConditionalBehavior = {
         visible: { type: 'equals', field: 'type', value: 'a' },
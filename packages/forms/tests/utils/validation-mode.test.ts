@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { shouldValidateOn } from '../../src/utils/validation-mode';
+
+const untouched = { touched: false, isSubmitted: false };
+const touched = { touched: true, isSubmitted: false };
+const submitted = { touched: false, isSubmitted: true };
+
+describe('shouldValidateOn', () => {
+  it('should validate on blur, then on change once touched, by default', () => {
+    expect(shouldValidateOn('blur', undefined, undefined, untouched)).toBe(true);
+    expect(shouldValidateOn('change', undefined, undefined, untouched)).toBe(false);
+    expect(shouldValidateOn('change', undefined, undefined, touched)).toBe(true);
+  });
+
+  it('should keep validating as before modes when none is configured', () => {
+    // Blur validates after submit, unless turned off
+    expect(shouldValidateOn('blur', undefined, undefined, submitted)).toBe(true);
+    expect(shouldValidateOn('blur', { validateOnBlur: false }, undefined, untouched)).toBe(false);
+    // Touched fields validate on change, even with validateOnChange: false
+    expect(shouldValidateOn('change', { validateOnChange: false }, undefined, touched)).toBe(true);
+    expect(shouldValidateOn('change', { validateOnChange: false }, undefined, untouched)).toBe(
+      false
+    );
+    expect(shouldValidateOn('change', { validateOnChange: true }, undefined, untouched)).toBe(true);
+  });
+
+  it.each([
+    ['onSubmit', false, false],
+    ['onBlur', false, true],
+    ['onChange', true, false],
+    ['all', true, true],
+  ] as const)('should follow the %s mode of the form', (mode, onChange, onBlur) => {
+    expect(shouldValidateOn('change', undefined, { mode }, touched)).toBe(onChange);
+    expect(shouldValidateOn('blur', undefined, { mode }, touched)).toBe(onBlur);
+  });
+
+  it('should follow the reValidateMode once the form was submitted', () => {
+    expect(shouldValidateOn('change', undefined, { mode: 'onSubmit' }, submitted)).toBe(true);
+    expect(shouldValidateOn('blur', undefined, { mode: 'onSubmit' }, submitted)).toBe(false);
+    expect(shouldValidateOn('change', undefined, { reValidateMode: 'onBlur' }, submitted)).toBe(
+      false
+    );
+    expect(shouldValidateOn('blur', undefined, { reValidateMode: 'onBlur' }, submitted)).toBe(true);
+  });
+
+  it('should let fields override the modes of the form', () => {
+    const form = { mode: 'onSubmit', reValidateMode: 'onSubmit' } as const;
+
+    expect(shouldValidateOn('change', { mode: 'onChange' }, form, untouched)).toBe(true);
+    expect(shouldValidateOn('change', { reValidateMode: 'onChange' }, form, submitted)).toBe(true);
+    expect(shouldValidateOn('blur', { validateOnBlur: true }, form, untouched)).toBe(true);
+    expect(shouldValidateOn('change', { validateOnChange: false }, form, touched)).toBe(false);
+  });
+});
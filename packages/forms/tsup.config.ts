@@ -2,7 +2,10 @@ import { defineConfig } from 'tsup';
 
 export default defineConfig({
   // Entry points
-  entry: ['src/index.ts'],
+  entry: {
+    index: 'src/index.ts',
+    cli: 'src/cli/index.ts',
+  },
   
   // Output formats
   format: ['esm', 'cjs'],
@@ -10,6 +13,7 @@ export default defineConfig({
   // Generate TypeScript declarations with module resolution
   dts: {
     resolve: true,
+    entry: 'src/index.ts',
   },
   
   // Use custom tsconfig for build
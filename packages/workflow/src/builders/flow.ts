@@ -1,19 +1,37 @@
 import type {
+  CrossTabMode,
   CustomStepRenderer,
   FormConfiguration,
+  HistoryOptions,
   StepConditionalBehavior,
   StepConfig,
   StepDataHelper,
+  StepGuard,
+  StepTransition,
+  SubmissionResult,
   WorkflowAnalytics,
   WorkflowConfig,
   WorkflowContext,
   WorkflowPlugin,
 } from '@rilaykit/core';
-import { IdGenerator, deepClone, ensureUnique, normalizeToArray, type ril } from '@rilaykit/core';
-import { form } from '@rilaykit/forms';
+import {
+  IdGenerator,
+  type SerializationIssue,
+  checkSerializationVersion,
+  deepClone,
+  ensureUnique,
+  isPlainObject,
+  normalizeToArray,
+  type ril,
+  throwOnIssues,
+} from '@rilaykit/core';
+import { type InferFormValues, form } from '@rilaykit/forms';
 import type { StepContext, StepMetadata } from '../context/step-context';
 import { createStepContext } from '../context/step-context';
 import type { PersistenceOptions, WorkflowPersistenceAdapter } from '../persistence/types';
+import { type FlowJSON, parseFlowDefinition, serializeFlowDefinition } from '../utils/flow-json';
+import { buildStepGraph, findStepIndexById } from '../utils/stepTransitions';
+import { spliceSubflowSteps } from '../utils/subflow';
 
 /**
  * Enhanced step configuration interface for better type safety and simplicity
@@ -46,8 +64,28 @@ export interface StepDefinition {
   /**
    * Form configuration for the step
    * Can be either a built FormConfiguration or a form builder instance
+   * Required unless the step embeds a `subflow`
+   */
+  formConfig?: FormConfiguration<any, any> | form<any, any>;
+
+  /**
+   * Another workflow embedded as this step
+   *
+   * Its steps are spliced into the navigation with IDs prefixed by this step ID
+   * (`address.verification`), their data is stored under `allData[thisStepId]` and
+   * the stepper shows them as a group titled after this step. This step's
+   * `allowSkip`, `conditions` and `next` apply to the embedded steps.
+   *
+   * @example
+   * ```typescript
+   * const addressFlow = flow.create(rilConfig, 'address')
+   *   .step({ id: 'street', title: 'Street', formConfig: streetForm })
+   *   .step({ id: 'verification', title: 'Verification', formConfig: verificationForm });
+   *
+   * workflow.step({ id: 'billing-address', title: 'Billing address', subflow: addressFlow });
+   * ```
    */
-  formConfig: FormConfiguration<any> | form<any>;
+  subflow?: WorkflowConfig<any> | flow<any>;
 
   /**
    * Whether users can skip this step
@@ -67,6 +105,27 @@ export interface StepDefinition {
    */
   conditions?: StepConditionalBehavior;
 
+  /**
+   * Declarative transitions to the following step
+   *
+   * Transitions are evaluated in order after the step is validated; the first one
+   * whose `when` condition matches (or that has no `when`, acting as the default)
+   * and whose target is visible is taken. Without a matching transition the next
+   * visible step in declaration order is used.
+   *
+   * @example
+   * ```typescript
+   * {
+   *   id: 'customer-type',
+   *   next: [
+   *     { when: when('customer-type.type').equals('business'), goTo: 'business-details' },
+   *     { goTo: 'personal-details' }
+   *   ]
+   * }
+   * ```
+   */
+  next?: StepTransition[];
+
   /**
    * Custom metadata for this step
    * Allows storing arbitrary information that can be accessed via hooks and context
@@ -90,6 +149,29 @@ export interface StepDefinition {
    */
   metadata?: StepMetadata;
 
+  /**
+   * Async guard awaited before navigating to this step
+   *
+   * Return `false` to veto the navigation or a step ID to redirect it.
+   * A thrown error vetoes the navigation and is reported to `analytics.onError`.
+   *
+   * @example
+   * ```typescript
+   * canEnter: async ({ allData }) => {
+   *   const { eligible } = await api.checkEligibility(allData.customer);
+   *   return eligible ? true : 'not-eligible';
+   * }
+   * ```
+   */
+  canEnter?: StepGuard;
+
+  /**
+   * Async guard awaited before navigating away from this step, in any direction
+   *
+   * Return `false` to veto the navigation or a step ID to redirect it.
+   */
+  canLeave?: StepGuard;
+
   /**
    * Callback function that executes after successful validation and before moving to next step
    *
@@ -118,8 +200,11 @@ export interface StepDefinition {
    *   }
    * }
    * ```
+   *
+   * Throwing or returning a SubmissionError shows its errors on the matching fields, of
+   * this step or of previous ones, and does not move to the next step.
    */
-  after?: (step: StepContext) => void | Promise<void>;
+  after?: (step: StepContext) => SubmissionResult;
 
   /**
    * Legacy callback function with verbose 3-parameter signature
@@ -137,9 +222,55 @@ export interface StepDefinition {
     stepData: Record<string, any>,
     helper: StepDataHelper,
     context: WorkflowContext
-  ) => void | Promise<void>;
+  ) => SubmissionResult;
 }
 
+/** Data of a step: the values of its form, or the data of its subflow */
+type StepData<D> = D extends { subflow: infer S }
+  ? InferWorkflowData<S>
+  : D extends { formConfig: infer F }
+    ? InferFormValues<F>
+    : Record<string, unknown>;
+
+/** Ids of step definitions, `string` for computed ids */
+type StepIds<D> = D extends unknown ? ('id' extends keyof D ? D['id' & keyof D] : never) : never;
+
+/**
+ * Data contributed by steps to the workflow data, keyed by id
+ *
+ * Every entry is optional, since hidden, skipped or unvisited steps have no data. Steps
+ * with a computed id widen the data to a record, steps without an id are not part of
+ * the type.
+ */
+export type StepValues<D extends readonly unknown[]> = {
+  [E in D[number] as E extends { id: infer Id extends string }
+    ? string extends Id
+      ? never
+      : Id
+    : never]?: StepData<E>;
+} & (string extends StepIds<D[number]> ? Record<string, unknown> : unknown);
+
+/**
+ * Data collected by a flow builder or a built workflow, as `onWorkflowComplete` receives it
+ *
+ * @example
+ * ```typescript
+ * const checkout = flow.create(rilConfig).step({ id: 'shipping', formConfig: shippingForm });
+ * type CheckoutData = InferWorkflowData<typeof checkout>; // { shipping?: ShippingValues }
+ * ```
+ */
+export type InferWorkflowData<T> = T extends flow<infer TData>
+  ? TData
+  : T extends WorkflowConfig<infer TData>
+    ? TData
+    : never;
+
+/** Flattens accumulated intersections */
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+/** Workflow data once the given steps are added */
+type WithSteps<TData, D> = Simplify<TData & StepValues<D extends readonly unknown[] ? D : [D]>>;
+
 /**
  * Configuration options for workflow behavior and features
  *
@@ -156,7 +287,11 @@ interface WorkflowOptions {
     adapter: WorkflowPersistenceAdapter;
     options?: PersistenceOptions;
     userId?: string;
+    /** Synchronize or lock the workflow across browser tabs */
+    crossTab?: CrossTabMode;
   };
+  /** Undo/redo history of value changes and navigation */
+  history?: HistoryOptions | boolean;
 }
 
 /**
@@ -204,8 +339,10 @@ interface WorkflowOptions {
  * ```
  *
  * @class flow
+ * @template TData - Data collected by the workflow, accumulated from the literal ids and
+ * forms of its steps, typing `onWorkflowComplete`
  */
-export class flow {
+export class flow<TData extends Record<string, any> = Record<never, never>> {
   private config: ril<any>;
   private workflowId: string;
   private workflowName: string;
@@ -216,7 +353,9 @@ export class flow {
     adapter: WorkflowPersistenceAdapter;
     options?: PersistenceOptions;
     userId?: string;
+    crossTab?: CrossTabMode;
   };
+  private historyConfig?: HistoryOptions | boolean;
   private plugins: WorkflowPlugin[] = [];
   private idGenerator = new IdGenerator();
 
@@ -279,6 +418,11 @@ export class flow {
    * @returns A complete StepConfig object
    */
   private createStepFromDefinition(stepDef: StepDefinition): StepConfig {
+    const stepId = stepDef.id || this.idGenerator.next('step');
+    if (!stepDef.formConfig) {
+      throw new Error(`Step "${stepId}" must define either a formConfig or a subflow`);
+    }
+
     // Transform new 'after' callback to legacy 'onAfterValidation' format
     // If 'after' is provided, use it (transformed). Otherwise, use legacy 'onAfterValidation'
     const onAfterValidation = stepDef.after
@@ -289,7 +433,7 @@ export class flow {
       : stepDef.onAfterValidation;
 
     return {
-      id: stepDef.id || this.idGenerator.next('step'),
+      id: stepId,
       title: stepDef.title,
       description: stepDef.description,
       formConfig:
@@ -297,11 +441,46 @@ export class flow {
       allowSkip: stepDef.allowSkip || false,
       renderer: stepDef.renderer,
       conditions: stepDef.conditions,
+      next: stepDef.next,
       metadata: stepDef.metadata,
+      canEnter: stepDef.canEnter,
+      canLeave: stepDef.canLeave,
       onAfterValidation,
     };
   }
 
+  /**
+   * Helper method to splice the steps of an embedded sub-flow
+   *
+   * @private
+   * @param stepDef - The step definition embedding the sub-flow
+   * @returns The sub-flow steps, prefixed and grouped under the step ID
+   * @throws Error if the step also defines a formConfig
+   */
+  private createStepsFromSubflow(stepDef: StepDefinition): StepConfig[] {
+    const stepId = stepDef.id || this.idGenerator.next('step');
+    if (stepDef.formConfig) {
+      throw new Error(`Step "${stepId}" cannot define both a formConfig and a subflow`);
+    }
+
+    const subflowConfig =
+      stepDef.subflow instanceof flow ? stepDef.subflow.build() : stepDef.subflow!;
+
+    return spliceSubflowSteps(
+      {
+        id: stepId,
+        title: stepDef.title,
+        description: stepDef.description,
+        allowSkip: stepDef.allowSkip,
+        conditions: stepDef.conditions,
+        next: stepDef.next,
+        canEnter: stepDef.canEnter,
+        canLeave: stepDef.canLeave,
+      },
+      subflowConfig
+    );
+  }
+
   /**
    * Internal method to add steps - shared implementation for addStep() and step()
    * @private
@@ -310,8 +489,11 @@ export class flow {
     const stepDefinitions = normalizeToArray(input);
 
     for (const stepDef of stepDefinitions) {
-      const step = this.createStepFromDefinition(stepDef);
-      this.steps.push(step);
+      if (stepDef.subflow) {
+        this.steps.push(...this.createStepsFromSubflow(stepDef));
+      } else {
+        this.steps.push(this.createStepFromDefinition(stepDef));
+      }
     }
 
     return this;
@@ -348,7 +530,7 @@ export class flow {
    * });
    * ```
    */
-  addStep(stepDefinition: StepDefinition): this;
+  addStep<const D extends StepDefinition>(stepDefinition: D): flow<WithSteps<TData, D>>;
 
   /**
    * Universal add method - handles single steps or multiple steps
@@ -367,10 +549,10 @@ export class flow {
    * ]);
    * ```
    */
-  addStep(stepDefinitions: StepDefinition[]): this;
+  addStep<const D extends readonly StepDefinition[]>(stepDefinitions: D): flow<WithSteps<TData, D>>;
 
-  addStep(input: StepDefinition | StepDefinition[]): this {
-    return this._addStepsInternal(input);
+  addStep(input: StepDefinition | readonly StepDefinition[]): flow<any> {
+    return this._addStepsInternal(input as StepDefinition | StepDefinition[]);
   }
 
   /**
@@ -400,8 +582,11 @@ export class flow {
    * ]);
    * ```
    */
-  step(input: StepDefinition | StepDefinition[]): this {
-    return this._addStepsInternal(input);
+  step<const D extends StepDefinition | readonly StepDefinition[]>(
+    input: D
+  ): flow<WithSteps<TData, D>>;
+  step(input: StepDefinition | readonly StepDefinition[]): flow<any> {
+    return this._addStepsInternal(input as StepDefinition | StepDefinition[]);
   }
 
   /**
@@ -425,7 +610,8 @@ export class flow {
    *     adapter: new LocalStorageAdapter(),
    *     options: { autoPersist: true, debounceMs: 1000 },
    *     userId: 'user123'
-   *   }
+   *   },
+   *   history: { depth: 50 }
    * });
    * ```
    */
@@ -438,6 +624,10 @@ export class flow {
       this.persistenceConfig = options.persistence;
     }
 
+    if (options.history !== undefined) {
+      this.historyConfig = options.history;
+    }
+
     return this;
   }
 
@@ -661,8 +851,8 @@ export class flow {
    * template.addStep(additionalStep);
    * ```
    */
-  clone(newWorkflowId?: string, newWorkflowName?: string): flow {
-    const cloned = new flow(
+  clone(newWorkflowId?: string, newWorkflowName?: string): flow<TData> {
+    const cloned = new flow<TData>(
       this.config,
       newWorkflowId || `${this.workflowId}-clone`,
       newWorkflowName || this.workflowName
@@ -672,6 +862,7 @@ export class flow {
     cloned.persistenceConfig = this.persistenceConfig
       ? deepClone(this.persistenceConfig)
       : undefined;
+    cloned.historyConfig = this.historyConfig;
     cloned.plugins = [...this.plugins];
     return cloned;
   }
@@ -708,6 +899,8 @@ export class flow {
       errors.push(error instanceof Error ? error.message : String(error));
     }
 
+    errors.push(...this.validateStepTransitions());
+
     // Check plugin dependencies
     for (const plugin of this.plugins) {
       if (plugin.dependencies) {
@@ -725,6 +918,78 @@ export class flow {
     return errors;
   }
 
+  /**
+   * Validates declarative step transitions
+   *
+   * Detects transitions pointing to unknown steps, steps that can never be reached
+   * from the start of the workflow, and cycles between steps.
+   *
+   * @private
+   * @returns Array of validation error messages
+   */
+  private validateStepTransitions(): string[] {
+    const errors: string[] = [];
+    if (this.steps.length === 0) return errors;
+
+    for (const step of this.steps) {
+      for (const transition of step.next ?? []) {
+        if (findStepIndexById(this.steps, transition.goTo) === -1) {
+          errors.push(`Step "${step.id}" has a transition to unknown step "${transition.goTo}"`);
+        }
+      }
+    }
+
+    const graph = buildStepGraph(this.steps);
+
+    // Reachability - the workflow starts on the first visible step
+    const reachable = new Set<number>();
+    const queue: number[] = [];
+    for (let i = 0; i < this.steps.length; i++) {
+      queue.push(i);
+      if (!this.steps[i].conditions?.visible) break;
+    }
+    while (queue.length > 0) {
+      const index = queue.shift()!;
+      if (reachable.has(index)) continue;
+      reachable.add(index);
+      queue.push(...graph[index]);
+    }
+
+    this.steps.forEach((step, index) => {
+      if (!reachable.has(index)) {
+        errors.push(`Step "${step.id}" is unreachable`);
+      }
+    });
+
+    // Cycle detection - depth-first search looking for back edges
+    const state = new Map<number, 'visiting' | 'done'>();
+    const stack: number[] = [];
+    const visit = (index: number): void => {
+      state.set(index, 'visiting');
+      stack.push(index);
+
+      for (const target of graph[index]) {
+        if (state.get(target) === 'visiting') {
+          const cycle = [...stack.slice(stack.indexOf(target)), target];
+          errors.push(
+            `Workflow contains a cycle: ${cycle.map((i) => this.steps[i].id).join(' -> ')}`
+          );
+        } else if (!state.has(target)) {
+          visit(target);
+        }
+      }
+
+      stack.pop();
+      state.set(index, 'done');
+    };
+
+    for (let i = 0; i < this.steps.length; i++) {
+      if (!state.has(i)) visit(i);
+    }
+
+    return errors;
+  }
+
   /**
    * Get comprehensive workflow statistics
    *
@@ -777,19 +1042,20 @@ export class flow {
    * }
    * ```
    */
-  build(): WorkflowConfig {
+  build(): WorkflowConfig<TData> {
     const validationErrors = this.validate();
     if (validationErrors.length > 0) {
       throw new Error(`Workflow validation failed: ${validationErrors.join(', ')}`);
     }
 
-    const finalConfig: WorkflowConfig = {
+    const finalConfig: WorkflowConfig<TData> = {
       id: this.workflowId,
       name: this.workflowName,
       description: this.workflowDescription,
       steps: this.steps,
       analytics: this.analytics,
       persistence: this.persistenceConfig,
+      history: this.historyConfig,
       plugins: this.plugins,
       renderConfig: this.config.getWorkflowRenderConfig(),
     };
@@ -800,11 +1066,13 @@ export class flow {
   /**
    * Export workflow configuration to JSON
    *
-   * Serializes the workflow configuration to a JSON-compatible object.
-   * Useful for saving workflows, creating templates, or transferring
-   * configurations between systems.
+   * Serializes the workflow to a versioned document (see `FLOW_JSON_SCHEMA`) covering
+   * steps, their forms, conditions, transitions and metadata, and history options.
+   * Callbacks, guards, custom step renderers, analytics, plugins and persistence are
+   * code: they are left out and can be configured again after `fromJSON()`.
    *
-   * @returns JSON-serializable workflow configuration
+   * @returns JSON document describing the workflow
+   * @throws SerializationError listing every value that cannot be represented in JSON
    *
    * @example
    * ```typescript
@@ -812,27 +1080,34 @@ export class flow {
    * localStorage.setItem('workflow-template', JSON.stringify(json));
    * ```
    */
-  toJSON(): any {
-    return {
-      id: this.workflowId,
-      name: this.workflowName,
-      description: this.workflowDescription,
-      steps: this.steps,
-      analytics: this.analytics,
-      persistence: this.persistenceConfig,
-      plugins: this.plugins.map((plugin) => ({ name: plugin.name, version: plugin.version })),
-    };
+  toJSON(): FlowJSON {
+    const issues: SerializationIssue[] = [];
+    const json = serializeFlowDefinition(
+      {
+        id: this.workflowId,
+        name: this.workflowName,
+        description: this.workflowDescription,
+        steps: this.steps,
+        history: this.historyConfig,
+      },
+      issues
+    );
+    throwOnIssues(`Cannot serialize workflow "${this.workflowId}"`, issues);
+
+    return json;
   }
 
   /**
    * Import workflow configuration from JSON
    *
-   * Loads workflow configuration from a JSON object. This method
-   * performs partial updates, only modifying properties that are
-   * present in the JSON object.
+   * Loads a workflow exported with `toJSON()`, replacing its definition and steps.
+   * The document is validated first and every issue is reported, with its JSON path,
+   * in a single error. Analytics, plugins and persistence configured on this builder
+   * are kept, the workflow data is no longer typed.
    *
-   * @param json - JSON object containing workflow configuration
+   * @param json - JSON document describing the workflow
    * @returns The flow instance for method chaining
+   * @throws SerializationError if the document is invalid
    *
    * @example
    * ```typescript
@@ -840,14 +1115,22 @@ export class flow {
    * workflow.fromJSON(json);
    * ```
    */
-  fromJSON(json: any): this {
-    this.workflowId = json.workflowId;
-    this.workflowName = json.workflowName;
-    this.workflowDescription = json.workflowDescription;
-    this.steps = json.steps;
-    this.analytics = json.analytics;
-    this.persistenceConfig = json.persistence;
-    this.plugins = json.plugins || [];
+  fromJSON(json: FlowJSON | Record<string, unknown>): flow<Record<string, unknown>> {
+    const issues: SerializationIssue[] = [];
+    if (isPlainObject(json)) {
+      checkSerializationVersion(json, issues);
+    }
+
+    const definition = parseFlowDefinition(json, this.config, issues);
+    throwOnIssues('Invalid workflow JSON', issues);
+
+    if (definition) {
+      this.workflowId = definition.id;
+      this.workflowName = definition.name;
+      this.workflowDescription = definition.description;
+      this.steps = definition.steps;
+      this.historyConfig = definition.history;
+    }
     return this;
   }
 }
@@ -5,9 +5,12 @@ import { flow } from '../builders/flow';
 import type { WorkflowProviderProps } from './WorkflowProvider';
 import { WorkflowProvider } from './WorkflowProvider';
 
-export type WorkflowProps = Omit<WorkflowProviderProps, 'children' | 'workflowConfig'> & {
+export type WorkflowProps<TData extends Record<string, any> = Record<string, unknown>> = Omit<
+  WorkflowProviderProps<TData>,
+  'children' | 'workflowConfig'
+> & {
   children: React.ReactNode;
-  workflowConfig: WorkflowConfig | flow;
+  workflowConfig: WorkflowConfig<TData> | flow<TData>;
 };
 
 /**
@@ -16,7 +19,11 @@ export type WorkflowProps = Omit<WorkflowProviderProps, 'children' | 'workflowCo
  * component-based interface for building workflows.
  * Accepts both WorkflowConfig and flow builder instances.
  */
-export function Workflow({ children, workflowConfig, ...props }: WorkflowProps) {
+export function Workflow<TData extends Record<string, any> = Record<string, unknown>>({
+  children,
+  workflowConfig,
+  ...props
+}: WorkflowProps<TData>) {
   // Auto-build if it's a flow builder
   const resolvedWorkflowConfig = useMemo(() => {
     if (workflowConfig instanceof flow) {
@@ -58,6 +58,7 @@ export const WorkflowNextButton = React.memo(function WorkflowNextButton({
       isLastStep: context.isLastStep,
       canGoNext: computedState.canGoNext,
       isSubmitting: computedState.finalIsSubmitting,
+      isPending: workflowState.isTransitioning,
       onSubmit: handleSubmit,
       className,
       currentStep,
@@ -69,6 +70,7 @@ export const WorkflowNextButton = React.memo(function WorkflowNextButton({
       context.isLastStep,
       computedState.canGoNext,
       computedState.finalIsSubmitting,
+      workflowState.isTransitioning,
       handleSubmit,
       className,
       currentStep,
@@ -1,10 +1,12 @@
-import type {
-  FormConfiguration,
-  StepConfig,
-  WorkflowConfig,
-  WorkflowContext,
+import {
+  type FormConfiguration,
+  type StepConfig,
+  SubmissionError,
+  type SubmissionResult,
+  type WorkflowConfig,
+  type WorkflowContext,
 } from '@rilaykit/core';
-import { FormProvider } from '@rilaykit/forms';
+import { FormProvider, useFormStoreApi } from '@rilaykit/forms';
 import type React from 'react';
 import {
   createContext,
@@ -15,6 +17,7 @@ import {
   useRef,
   useState,
 } from 'react';
+import { useStore } from 'zustand';
 import {
   useWorkflowAnalytics,
   useWorkflowConditions,
@@ -23,7 +26,15 @@ import {
 } from '../hooks';
 import { usePersistence } from '../hooks/usePersistence';
 import type { UseWorkflowConditionsReturn } from '../hooks/useWorkflowConditions';
-import type { WorkflowPersistenceAdapter } from '../persistence/types';
+import type {
+  PersistedWorkflowData,
+  WorkflowPersistenceAdapter,
+  WorkflowPersistenceError,
+} from '../persistence/types';
+import { generateStorageKey } from '../persistence/utils';
+import { extractStepData } from '../utils/dataFlattening';
+import { type StepPathHistory, findStepIndexById } from '../utils/stepTransitions';
+import { splitSubmissionError } from '../utils/submissionErrors';
 
 // Noop adapter — always call usePersistence to respect Rules of Hooks
 const NOOP_PERSISTENCE_ADAPTER: WorkflowPersistenceAdapter = {
@@ -33,10 +44,12 @@ const NOOP_PERSISTENCE_ADAPTER: WorkflowPersistenceAdapter = {
   exists: async () => false,
 };
 import {
+  type CrossTabSync,
   type WorkflowStore,
   WorkflowStoreContext,
   type WorkflowStoreState,
   createWorkflowStore,
+  syncWorkflowStoreAcrossTabs,
 } from '../stores';
 
 // =================================================================
@@ -86,7 +99,13 @@ export interface WorkflowContextValue {
   // Persistence
   persistNow?: () => Promise<void>;
   isPersisting?: boolean;
-  persistenceError?: Error | null;
+  persistenceError?: WorkflowPersistenceError | null;
+
+  // Cross-tab
+  /** Whether another tab took over the workflow (`crossTab: 'lock'`) */
+  isLockedElsewhere: boolean;
+  /** Takes the workflow back from another tab and reloads its saved state */
+  takeOver?: () => Promise<void>;
 }
 
 const WorkflowReactContext = createContext<WorkflowContextValue | null>(null);
@@ -95,13 +114,22 @@ const WorkflowReactContext = createContext<WorkflowContextValue | null>(null);
 // PROVIDER PROPS
 // =================================================================
 
-export interface WorkflowProviderProps {
+/**
+ * @template TData - Data collected by the workflow, inferred from `workflowConfig`
+ */
+export interface WorkflowProviderProps<
+  TData extends Record<string, any> = Record<string, unknown>,
+> {
   children: React.ReactNode;
-  workflowConfig: WorkflowConfig;
+  workflowConfig: WorkflowConfig<TData>;
   defaultValues?: Record<string, unknown>;
   defaultStep?: string; // ID of the step to start on
   onStepChange?: (fromStep: number, toStep: number, context: WorkflowContext) => void;
-  onWorkflowComplete?: (data: Record<string, unknown>) => void | Promise<void>;
+  /**
+   * Throwing or returning a SubmissionError shows its errors on the fields of their steps
+   * and goes back to the first step with errors
+   */
+  onWorkflowComplete?: (data: TData) => SubmissionResult;
   className?: string;
 }
 
@@ -128,11 +156,76 @@ function calculateInitialSteps(
   return { visitedSteps, passedSteps };
 }
 
+// =================================================================
+// HELPER: Convert persisted data to store state
+// =================================================================
+
+function toStoreState(persistedData: PersistedWorkflowData): Partial<WorkflowStoreState> {
+  return {
+    currentStepIndex: persistedData.currentStepIndex,
+    allData: persistedData.allData,
+    stepData: persistedData.stepData,
+    visitedSteps: new Set(persistedData.visitedSteps),
+    passedSteps: new Set(persistedData.passedSteps || []),
+  };
+}
+
+// =================================================================
+// HELPER: Read-only while another tab owns the workflow
+// =================================================================
+
+/**
+ * Turns an action into a no-op returning `lockedResult` while the workflow is locked
+ * in another tab (`crossTab: 'lock'`), as changes made here would never be saved
+ */
+function unlessLockedElsewhere<TArgs extends unknown[], TResult>(
+  store: WorkflowStore,
+  action: (...args: TArgs) => TResult,
+  lockedResult: () => TResult
+): (...args: TArgs) => TResult {
+  return (...args) => (store.getState().isLockedElsewhere ? lockedResult() : action(...args));
+}
+
+const resolveFalse = () => Promise.resolve(false);
+const returnFalse = () => false;
+
+// =================================================================
+// HELPER: Sync restored values (undo/redo, other tabs) into the step form
+// =================================================================
+
+function WorkflowRestoreSync({
+  store,
+  stepId,
+  fieldIds,
+}: {
+  store: WorkflowStore;
+  stepId?: string;
+  fieldIds: string[];
+}) {
+  const formStore = useFormStoreApi();
+  const restoreRevision = useStore(store, (state) => state._restoreRevision);
+
+  useEffect(() => {
+    if (restoreRevision === 0 || !stepId) return;
+
+    const stepData = extractStepData(store.getState().allData, stepId);
+    const { values, _setValue } = formStore.getState();
+
+    for (const fieldId of fieldIds) {
+      if (values[fieldId] !== stepData[fieldId]) {
+        _setValue(fieldId, stepData[fieldId]);
+      }
+    }
+  }, [restoreRevision, store, formStore, stepId, fieldIds]);
+
+  return null;
+}
+
 // =================================================================
 // WORKFLOW PROVIDER
 // =================================================================
 
-export function WorkflowProvider({
+export function WorkflowProvider<TData extends Record<string, any> = Record<string, unknown>>({
   children,
   workflowConfig,
   defaultValues = {},
@@ -140,7 +233,7 @@ export function WorkflowProvider({
   onStepChange,
   onWorkflowComplete,
   className,
-}: WorkflowProviderProps) {
+}: WorkflowProviderProps<TData>) {
   // Stable refs for callbacks to avoid recreating dependencies
   const onStepChangeRef = useRef(onStepChange);
   const onWorkflowCompleteRef = useRef(onWorkflowComplete);
@@ -153,7 +246,7 @@ export function WorkflowProvider({
   const defaultStepIndex = useMemo(() => {
     if (!defaultStep) return 0;
 
-    const stepIndex = workflowConfig.steps.findIndex((step) => step.id === defaultStep);
+    const stepIndex = findStepIndexById(workflowConfig.steps, defaultStep);
     if (stepIndex === -1) {
       console.warn(`Default step with ID "${defaultStep}" not found. Starting at step 0.`);
       return 0;
@@ -176,6 +269,7 @@ export function WorkflowProvider({
       defaultStepIndex,
       initialVisitedSteps: initialSteps.visitedSteps,
       initialPassedSteps: initialSteps.passedSteps,
+      history: workflowConfig.history,
     });
   }
   const store = storeRef.current;
@@ -249,17 +343,56 @@ export function WorkflowProvider({
     [store]
   );
 
-  const resetWorkflow = useCallback(() => store.getState()._reset(), [store]);
+  // Steps the user went through, followed back by goPrevious
+  const stepHistoryRef = useRef<StepPathHistory>({ stepIndexes: [], currentStepIndex: -1 });
+
+  const resetWorkflow = useCallback(() => {
+    stepHistoryRef.current = { stepIndexes: [], currentStepIndex: -1 };
+    store.getState()._reset();
+  }, [store]);
+
+  // Errors of a rejected submission by step id, shown when their step is displayed
+  const [stepSubmissionErrors, setStepSubmissionErrors] = useState<Record<string, SubmissionError>>(
+    {}
+  );
+
+  const handleSubmissionError = useCallback(
+    (error: SubmissionError) => {
+      const { currentStepIndex } = store.getState();
+      const { firstStepIndex, stepErrors } = splitSubmissionError(
+        error,
+        workflowConfig.steps,
+        currentStepIndex
+      );
+      setStepSubmissionErrors(stepErrors);
+
+      // Go back to the first step to fix, guards do not apply
+      if (firstStepIndex !== currentStepIndex) {
+        setCurrentStep(firstStepIndex);
+        markStepVisited(firstStepIndex, workflowConfig.steps[firstStepIndex].id);
+      }
+    },
+    [store, workflowConfig.steps, setCurrentStep, markStepVisited]
+  );
 
   // Initialize persistence unconditionally (Rules of Hooks)
   const hasPersistence = !!workflowConfig.persistence?.adapter;
 
+  const crossTabMode = hasPersistence ? workflowConfig.persistence?.crossTab : undefined;
+  const isLockedElsewhere = useStore(store, (state) => state.isLockedElsewhere);
+  const stepIds = useMemo(
+    () => workflowConfig.steps.map((step) => step.id),
+    [workflowConfig.steps]
+  );
+
   const persistenceHook = usePersistence({
     workflowId: workflowConfig.id,
     workflowState,
     adapter: workflowConfig.persistence?.adapter ?? NOOP_PERSISTENCE_ADAPTER,
     options: workflowConfig.persistence?.options,
     userId: workflowConfig.persistence?.userId,
+    paused: isLockedElsewhere,
+    stepIds,
   });
 
   // Ref to avoid re-triggering effect when persistenceHook identity changes
@@ -278,13 +411,7 @@ export function WorkflowProvider({
         try {
           const persistedData = await persistenceHookRef.current.loadPersistedData();
           if (persistedData) {
-            store.getState()._loadPersistedState({
-              currentStepIndex: persistedData.currentStepIndex,
-              allData: persistedData.allData,
-              stepData: persistedData.stepData,
-              visitedSteps: new Set(persistedData.visitedSteps),
-              passedSteps: new Set(persistedData.passedSteps || []),
-            });
+            store.getState()._loadPersistedState(toStoreState(persistedData));
             return;
           }
         } catch (error) {
@@ -297,6 +424,38 @@ export function WorkflowProvider({
     loadPersistedData();
   }, [store, hasPersistence]);
 
+  // Synchronize or lock the workflow across tabs
+  const crossTabStorageKey = generateStorageKey(
+    workflowConfig.persistence?.options?.storageKey || workflowConfig.id,
+    workflowConfig.persistence?.userId
+  );
+  const crossTabSyncRef = useRef<CrossTabSync | null>(null);
+
+  useEffect(() => {
+    if (!crossTabMode) return;
+
+    const sync = syncWorkflowStoreAcrossTabs(store, {
+      channel: crossTabStorageKey,
+      mode: crossTabMode,
+    });
+    crossTabSyncRef.current = sync;
+
+    return () => {
+      sync.dispose();
+      crossTabSyncRef.current = null;
+    };
+  }, [store, crossTabMode, crossTabStorageKey]);
+
+  const takeOver = useCallback(async () => {
+    crossTabSyncRef.current?.takeOver();
+
+    // Pick up what the other tab saved in the meantime
+    const persistedData = await persistenceHookRef.current.loadPersistedData();
+    if (persistedData) {
+      store.getState()._applyExternalState(toStoreState(persistedData));
+    }
+  }, [store]);
+
   // Extract persistence utilities (only expose when persistence is configured)
   const persistenceInfo = useMemo(
     () => ({
@@ -349,26 +508,11 @@ export function WorkflowProvider({
     workflowConfig,
     workflowState,
     currentStep,
+    stepHistoryRef,
   });
 
-  // Calculate isFirst/isLast based on visible steps
+  // Calculate isFirst/isLast based on the path taken through visible steps
   const workflowContext = useMemo((): WorkflowContext => {
-    let firstVisibleStepIndex = -1;
-    for (let i = 0; i < workflowConfig.steps.length; i++) {
-      if (conditionsHelpers.isStepVisible(i)) {
-        firstVisibleStepIndex = i;
-        break;
-      }
-    }
-
-    let lastVisibleStepIndex = -1;
-    for (let i = workflowConfig.steps.length - 1; i >= 0; i--) {
-      if (conditionsHelpers.isStepVisible(i)) {
-        lastVisibleStepIndex = i;
-        break;
-      }
-    }
-
     const visibleVisitedSteps = new Set<string>();
     for (let i = 0; i < workflowConfig.steps.length; i++) {
       const step = workflowConfig.steps[i];
@@ -379,8 +523,8 @@ export function WorkflowProvider({
 
     return {
       ...baseWorkflowContext,
-      isFirstStep: workflowState.currentStepIndex === firstVisibleStepIndex,
-      isLastStep: workflowState.currentStepIndex === lastVisibleStepIndex,
+      isFirstStep: conditionsHelpers.getPreviousStepIndex(workflowState.currentStepIndex) === null,
+      isLastStep: conditionsHelpers.getNextStepIndex(workflowState.currentStepIndex) === null,
       visibleVisitedSteps,
       passedSteps: workflowState.passedSteps,
     };
@@ -400,6 +544,10 @@ export function WorkflowProvider({
     workflowContext,
   });
 
+  // Submission is set up after navigation, which submits when step.next.skip() ends the workflow
+  const submitWorkflowRef = useRef<() => Promise<void>>(async () => {});
+  const completeWorkflow = useCallback(() => submitWorkflowRef.current(), []);
+
   // Initialize navigation
   const {
     goToStep,
@@ -421,6 +569,9 @@ export function WorkflowProvider({
     markStepPassed,
     setStepData: setStepDataAction,
     onStepChange: onStepChangeRef.current,
+    onSubmissionError: handleSubmissionError,
+    onComplete: completeWorkflow,
+    stepHistoryRef,
   });
 
   // Ensure we start on the first visible step
@@ -434,7 +585,7 @@ export function WorkflowProvider({
     if (!currentStepIsVisible) {
       for (let i = 0; i < workflowConfig.steps.length; i++) {
         if (conditionsHelpers.isStepVisible(i)) {
-          setCurrentStep(i);
+          store.getState()._withoutHistory(() => setCurrentStep(i));
           markStepVisited(i, workflowConfig.steps[i].id);
           break;
         }
@@ -443,6 +594,7 @@ export function WorkflowProvider({
 
     hasInitializedStepRef.current = true;
   }, [
+    store,
     workflowState.currentStepIndex,
     workflowConfig.steps,
     setCurrentStep,
@@ -475,11 +627,13 @@ export function WorkflowProvider({
       }
 
       if (nextVisibleStep !== null) {
-        setCurrentStep(nextVisibleStep);
-        markStepVisited(nextVisibleStep, workflowConfig.steps[nextVisibleStep].id);
+        const stepIndex = nextVisibleStep;
+        store.getState()._withoutHistory(() => setCurrentStep(stepIndex));
+        markStepVisited(stepIndex, workflowConfig.steps[stepIndex].id);
       }
     }
   }, [
+    store,
     conditionsHelpers,
     workflowState.currentStepIndex,
     workflowConfig.steps,
@@ -493,55 +647,81 @@ export function WorkflowProvider({
     workflowState,
     workflowContext,
     setSubmitting,
-    onWorkflowComplete: onWorkflowCompleteRef.current,
+    // allData is keyed by the steps of workflowConfig, as TData describes
+    onWorkflowComplete:
+      onWorkflowCompleteRef.current as WorkflowProviderProps['onWorkflowComplete'],
+    onSubmissionError: handleSubmissionError,
     analyticsStartTime,
   });
+  submitWorkflowRef.current = submitWorkflow;
 
   // Create field value setter for form integration
   const setValue = useCallback(
     (fieldId: string, value: unknown) => {
+      if (store.getState().isLockedElsewhere) return;
       setFieldValue(fieldId, value, currentStep?.id || '');
     },
-    [setFieldValue, currentStep?.id]
+    [store, setFieldValue, currentStep?.id]
   );
 
   // Create step data setter
   const handleSetStepData = useCallback(
     (data: Record<string, unknown>) => {
+      if (store.getState().isLockedElsewhere) return;
       setStepDataAction(data, currentStep?.id || '');
     },
-    [setStepDataAction, currentStep?.id]
+    [store, setStepDataAction, currentStep?.id]
   );
 
   // Create form submission handler
   const handleSubmit = useCallback(
     async (values: Record<string, unknown>) => {
+      if (store.getState().isLockedElsewhere) return;
+
       if (currentStep?.id && values) {
         setStepDataAction(values, currentStep.id);
       }
 
+      // The errors of a previous submission are fixed once the step is submitted again
+      const stepId = currentStep?.id;
+      if (stepId) {
+        setStepSubmissionErrors((errors) => {
+          if (!errors[stepId]) return errors;
+          const { [stepId]: _fixed, ...otherErrors } = errors;
+          return otherErrors;
+        });
+      }
+
       if (workflowContext.isLastStep) {
-        await submitWorkflow();
+        try {
+          await submitWorkflow();
+        } catch (error) {
+          // Already shown on the steps of its fields, like errors of after callbacks
+          if (!(error instanceof SubmissionError)) {
+            throw error;
+          }
+        }
       } else {
         await goNext();
       }
     },
-    [workflowContext.isLastStep, submitWorkflow, goNext, currentStep?.id, setStepDataAction]
+    [store, workflowContext.isLastStep, submitWorkflow, goNext, currentStep?.id, setStepDataAction]
   );
 
   // Memoize context value
   const navigationMethods = useMemo(
     () => ({
-      goToStep,
-      goNext,
-      goPrevious,
-      skipStep,
-      canGoToStep,
-      canGoNext,
-      canGoPrevious,
-      canSkipCurrentStep,
+      goToStep: unlessLockedElsewhere(store, goToStep, resolveFalse),
+      goNext: unlessLockedElsewhere(store, goNext, resolveFalse),
+      goPrevious: unlessLockedElsewhere(store, goPrevious, resolveFalse),
+      skipStep: unlessLockedElsewhere(store, skipStep, resolveFalse),
+      canGoToStep: unlessLockedElsewhere(store, canGoToStep, returnFalse),
+      canGoNext: unlessLockedElsewhere(store, canGoNext, returnFalse),
+      canGoPrevious: unlessLockedElsewhere(store, canGoPrevious, returnFalse),
+      canSkipCurrentStep: unlessLockedElsewhere(store, canSkipCurrentStep, returnFalse),
     }),
     [
+      store,
       goToStep,
       goNext,
       goPrevious,
@@ -564,11 +744,11 @@ export function WorkflowProvider({
 
   const submissionMethods = useMemo(
     () => ({
-      submitWorkflow,
+      submitWorkflow: unlessLockedElsewhere(store, submitWorkflow, () => Promise.resolve()),
       isSubmitting,
-      canSubmit,
+      canSubmit: canSubmit && !isLockedElsewhere,
     }),
-    [submitWorkflow, isSubmitting, canSubmit]
+    [store, submitWorkflow, isSubmitting, canSubmit, isLockedElsewhere]
   );
 
   const contextValue: WorkflowContextValue = useMemo(
@@ -586,6 +766,8 @@ export function WorkflowProvider({
       persistNow: persistenceInfo.persistNow,
       isPersisting: persistenceInfo.isPersisting,
       persistenceError: persistenceInfo.persistenceError,
+      isLockedElsewhere,
+      takeOver: crossTabMode ? takeOver : undefined,
     }),
     [
       workflowState,
@@ -598,6 +780,9 @@ export function WorkflowProvider({
       dataMethods,
       submissionMethods,
       persistenceInfo,
+      isLockedElsewhere,
+      crossTabMode,
+      takeOver,
     ]
   );
 
@@ -605,7 +790,7 @@ export function WorkflowProvider({
   const formProviderDefaultValues = useMemo(() => {
     if (!currentStep?.id) return {};
 
-    const currentStepData = (workflowState?.allData[currentStep.id] || {}) as Record<
+    const currentStepData = extractStepData(workflowState.allData, currentStep.id) as Record<
       string,
       unknown
     >;
@@ -624,6 +809,11 @@ export function WorkflowProvider({
     return filteredData;
   }, [workflowState?.allData, currentStep?.id, formConfig?.allFields]);
 
+  const formFieldIds = useMemo(
+    () => formConfig?.allFields?.map((field) => field.id) ?? [],
+    [formConfig?.allFields]
+  );
+
   const formProviderKey = useMemo(
     () => workflowState.isInitializing.toString(),
     [workflowState.isInitializing]
@@ -636,11 +826,16 @@ export function WorkflowProvider({
           key={formProviderKey}
           formConfig={formConfig}
           defaultValues={formProviderDefaultValues}
+          externalValues={workflowState.allData}
           onFieldChange={setValue}
+          submissionError={currentStep ? stepSubmissionErrors[currentStep.id] : undefined}
           data-workflow-id={workflowConfig.id}
           className={className}
           onSubmit={handleSubmit}
         >
+          {(workflowConfig.history || crossTabMode) && (
+            <WorkflowRestoreSync store={store} stepId={currentStep?.id} fieldIds={formFieldIds} />
+          )}
           {children}
         </FormProvider>
       </WorkflowReactContext.Provider>
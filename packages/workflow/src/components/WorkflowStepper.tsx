@@ -1,6 +1,10 @@
-import type { ComponentRendererBaseProps, WorkflowStepperRendererProps } from '@rilaykit/core';
+import type {
+  ComponentRendererBaseProps,
+  WorkflowStepperGroup,
+  WorkflowStepperRendererProps,
+} from '@rilaykit/core';
 import { ComponentRendererWrapper } from '@rilaykit/core';
-import React, { useCallback, useMemo } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import { useWorkflowContext } from './WorkflowProvider';
 
 export interface WorkflowStepperProps
@@ -16,21 +20,20 @@ export const WorkflowStepper = React.memo(function WorkflowStepper({
   const { workflowConfig, workflowState, context, goToStep, conditionsHelpers } =
     useWorkflowContext();
 
-  // Filter visible steps and create mapping between visible and original indices
+  // Keep the steps of the computed path (visible steps following `next` transitions)
+  // and create mapping between visible and original indices
   // Memoize this expensive calculation to avoid recalculation on every render
   const { visibleSteps, visibleToOriginalIndexMap, originalToVisibleIndexMap } = useMemo(() => {
     const visible: typeof workflowConfig.steps = [];
     const visibleToOriginal = new Map<number, number>();
     const originalToVisible = new Map<number, number>();
 
-    workflowConfig.steps.forEach((step, originalIndex) => {
-      if (conditionsHelpers.isStepVisible(originalIndex)) {
-        const visibleIndex = visible.length;
-        visible.push(step);
-        visibleToOriginal.set(visibleIndex, originalIndex);
-        originalToVisible.set(originalIndex, visibleIndex);
-      }
-    });
+    for (const originalIndex of conditionsHelpers.stepPath) {
+      const visibleIndex = visible.length;
+      visible.push(workflowConfig.steps[originalIndex]);
+      visibleToOriginal.set(visibleIndex, originalIndex);
+      originalToVisible.set(originalIndex, visibleIndex);
+    }
 
     return {
       visibleSteps: visible,
@@ -61,6 +64,55 @@ export const WorkflowStepper = React.memo(function WorkflowStepper({
     [originalToVisibleIndexMap, workflowState.currentStepIndex]
   );
 
+  // Expanded state of sub-workflow groups toggled by the user (default: expanded while active)
+  const [toggledGroups, setToggledGroups] = useState<Record<string, boolean>>({});
+
+  const groups = useMemo(() => {
+    const result: WorkflowStepperGroup[] = [];
+
+    visibleSteps.forEach((step, visibleIndex) => {
+      if (!step.group) return;
+
+      const previousGroup = result[result.length - 1];
+      if (previousGroup?.id === step.group.id) {
+        previousGroup.stepIndices.push(visibleIndex);
+        return;
+      }
+
+      result.push({
+        id: step.group.id,
+        title: step.group.title,
+        description: step.group.description,
+        stepIndices: [visibleIndex],
+        isActive: false,
+        isCompleted: false,
+        isExpanded: false,
+      });
+    });
+
+    return result.map((group) => {
+      const isActive = group.stepIndices.includes(currentVisibleStepIndex);
+      return {
+        ...group,
+        isActive,
+        isCompleted: group.stepIndices.every((index) =>
+          workflowState.passedSteps.has(visibleSteps[index].id)
+        ),
+        isExpanded: toggledGroups[group.id] ?? isActive,
+      };
+    });
+  }, [visibleSteps, currentVisibleStepIndex, workflowState.passedSteps, toggledGroups]);
+
+  const handleGroupToggle = useCallback(
+    (groupId: string) => {
+      const group = groups.find((g) => g.id === groupId);
+      if (!group) return;
+
+      setToggledGroups((current) => ({ ...current, [groupId]: !group.isExpanded }));
+    },
+    [groups]
+  );
+
   // Memoize base props to avoid recreating object
   // Use visibleVisitedSteps from context (already filtered)
   const baseProps: WorkflowStepperRendererProps = useMemo(
@@ -68,10 +120,20 @@ export const WorkflowStepper = React.memo(function WorkflowStepper({
       steps: visibleSteps,
       currentStepIndex: currentVisibleStepIndex,
       visitedSteps: context.visibleVisitedSteps,
+      groups,
       onStepClick: handleStepClick,
+      onGroupToggle: handleGroupToggle,
       className,
     }),
-    [visibleSteps, currentVisibleStepIndex, context.visibleVisitedSteps, handleStepClick, className]
+    [
+      visibleSteps,
+      currentVisibleStepIndex,
+      context.visibleVisitedSteps,
+      groups,
+      handleStepClick,
+      handleGroupToggle,
+      className,
+    ]
   );
 
   return (
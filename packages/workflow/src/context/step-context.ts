@@ -32,7 +32,10 @@ export interface StepContext {
   readonly next: {
     /** Pre-fill fields in the next step */
     prefill(fields: Record<string, any>): void;
-    /** Skip the next step */
+    /**
+     * Skip the next step
+     * Only honored when the next step allows skipping (allowSkip or skippable condition)
+     */
     skip(): void;
   };
 
@@ -42,7 +45,10 @@ export interface StepContext {
     get<T = any>(stepId: string): T;
     /** Get all workflow data across all steps */
     all<T = any>(): T;
-    /** Navigate to a specific step by ID */
+    /**
+     * Navigate to a specific step by ID instead of the next step
+     * Takes precedence over next.skip() when both are called
+     */
     goto(stepId: string): void;
   };
 
@@ -84,9 +90,7 @@ export function createStepContext(
         helper.setNextStepFields(fields);
       },
       skip: () => {
-        // TODO: Implement skip logic
-        // This needs to be wired up to the workflow navigation system
-        console.warn('step.next.skip() not yet implemented');
+        helper.skipNextStep();
       },
     },
 
@@ -97,10 +101,8 @@ export function createStepContext(
       all: <T = any>(): T => {
         return helper.getAllData() as T;
       },
-      goto: (_stepId: string) => {
-        // TODO: Implement goto logic
-        // This needs to be wired up to the workflow navigation system
-        console.warn('step.workflow.goto() not yet implemented');
+      goto: (stepId: string) => {
+        helper.goToStep(stepId);
       },
     },
 
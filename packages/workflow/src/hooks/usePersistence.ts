@@ -14,7 +14,13 @@ import type {
   WorkflowPersistenceAdapter,
 } from '../persistence/types';
 import { WorkflowPersistenceError } from '../persistence/types';
-import { debounce, generateStorageKey, workflowStateToPersisted } from '../persistence/utils';
+import {
+  debounce,
+  generateStorageKey,
+  migratePersistedData,
+  resolvePersistenceVersion,
+  workflowStateToPersisted,
+} from '../persistence/utils';
 import type { WorkflowState } from './useWorkflowState';
 
 export interface UsePersistenceProps {
@@ -28,6 +34,10 @@ export interface UsePersistenceProps {
   options?: PersistenceOptions;
   /** Optional user ID for multi-user scenarios */
   userId?: string;
+  /** Suspends auto-persistence, e.g. while another tab owns the workflow */
+  paused?: boolean;
+  /** Step ids in workflow order, saved data records the id of its current step */
+  stepIds?: string[];
 }
 
 /**
@@ -60,6 +70,8 @@ export function usePersistence({
   adapter,
   options = {},
   userId,
+  paused = false,
+  stepIds,
 }: UsePersistenceProps): UsePersistenceReturn {
   const [isPersisting, setIsPersisting] = useState(false);
   const [persistenceError, setPersistenceError] = useState<WorkflowPersistenceError | null>(null);
@@ -68,6 +80,7 @@ export function usePersistence({
   // Refs for stable references
   const adapterRef = useRef(adapter);
   const optionsRef = useRef(options);
+  const stepIdsRef = useRef(stepIds);
   const persistenceStateRef = useRef<{
     lastSavedState?: WorkflowState;
     hasPendingChanges: boolean;
@@ -77,7 +90,8 @@ export function usePersistence({
   useEffect(() => {
     adapterRef.current = adapter;
     optionsRef.current = options;
-  }, [adapter, options]);
+    stepIdsRef.current = stepIds;
+  }, [adapter, options, stepIds]);
 
   // Generate storage key
   const storageKey = generateStorageKey(optionsRef.current.storageKey || workflowId, userId);
@@ -118,7 +132,9 @@ export function usePersistence({
         const persistedData = workflowStateToPersisted(
           workflowId,
           state,
-          optionsRef.current.metadata
+          optionsRef.current.metadata,
+          resolvePersistenceVersion(optionsRef.current),
+          stepIdsRef.current?.[state.currentStepIndex]
         );
 
         await adapterRef.current.save(storageKey, persistedData);
@@ -180,7 +196,16 @@ export function usePersistence({
     setIsLoadingPersisted(true);
 
     try {
-      const data = await adapterRef.current.load(storageKey);
+      const savedData = await adapterRef.current.load(storageKey);
+      // Upgrade drafts saved with an older workflow definition
+      const data = savedData
+        ? await migratePersistedData(
+            savedData,
+            resolvePersistenceVersion(optionsRef.current),
+            optionsRef.current.migrations
+          )
+        : null;
+
       if (data) {
         // Update tracking state
         persistenceStateRef.current.lastSavedState = {
@@ -239,7 +264,7 @@ export function usePersistence({
    * Auto-persistence effect
    */
   useEffect(() => {
-    if (!optionsRef.current.autoPersist) return;
+    if (!optionsRef.current.autoPersist || paused) return;
 
     // Skip if currently persisting, loading, initializing, or in transition states
     if (
@@ -262,7 +287,7 @@ export function usePersistence({
 
     // Trigger debounced save
     debouncedSave.current(workflowState);
-  }, [workflowState, isPersisting, isLoadingPersisted, hasSignificantChanges]);
+  }, [workflowState, isPersisting, isLoadingPersisted, paused, hasSignificantChanges]);
 
   /**
    * Manual save operation
@@ -1,6 +1,12 @@
 import type { ConditionalBehavior, StepConfig, WorkflowConfig } from '@rilaykit/core';
-import { useCallback, useMemo } from 'react';
+import { type MutableRefObject, useCallback, useMemo } from 'react';
 import { combineWorkflowDataForConditions } from '../utils/dataFlattening';
+import {
+  type StepPathHistory,
+  computeStepPath,
+  findPreviousStepOnPath,
+  resolveNextStepIndex,
+} from '../utils/stepTransitions';
 import {
   type ConditionEvaluationResult,
   useConditionEvaluation,
@@ -13,6 +19,8 @@ export interface UseWorkflowConditionsProps {
   workflowConfig: WorkflowConfig;
   workflowState: WorkflowState;
   currentStep: StepConfig;
+  /** Path actually taken by the user, followed back before the computed path */
+  stepHistoryRef?: MutableRefObject<StepPathHistory>;
 }
 
 /**
@@ -27,8 +35,12 @@ export interface UseWorkflowConditionsReturn {
   stepConditions: StepConditionResult;
   fieldConditions: Record<string, ConditionEvaluationResult>;
   allStepConditions: Record<number, StepConditionResult>;
+  /** Step indices the user goes through with the current data, following `next` transitions */
+  stepPath: number[];
   isStepVisible: (stepIndex: number) => boolean;
   isStepSkippable: (stepIndex: number) => boolean;
+  getNextStepIndex: (stepIndex: number) => number | null;
+  getPreviousStepIndex: (stepIndex: number) => number | null;
   isFieldVisible: (fieldId: string) => boolean;
   isFieldDisabled: (fieldId: string) => boolean;
   isFieldRequired: (fieldId: string) => boolean;
@@ -64,6 +76,7 @@ export function useWorkflowConditions({
   workflowConfig,
   workflowState,
   currentStep,
+  stepHistoryRef,
 }: UseWorkflowConditionsProps): UseWorkflowConditionsReturn {
   // Create combined data context for condition evaluation
   // FIXED: Use the new utility to properly flatten nested data for condition evaluation
@@ -175,6 +188,47 @@ export function useWorkflowConditions({
     [allStepConditions, workflowConfig.steps.length]
   );
 
+  // Path helpers - follow declarative `next` transitions
+  const getNextStepIndex = useCallback(
+    (stepIndex: number): number | null =>
+      resolveNextStepIndex(workflowConfig.steps, stepIndex, conditionData, isStepVisible),
+    [workflowConfig.steps, conditionData, isStepVisible]
+  );
+
+  const stepPath = useMemo(
+    () => computeStepPath(workflowConfig.steps, conditionData, isStepVisible),
+    [workflowConfig.steps, conditionData, isStepVisible]
+  );
+
+  const getPreviousStepIndex = useCallback(
+    (stepIndex: number): number | null => {
+      if (stepHistoryRef) {
+        const previousOnPath = findPreviousStepOnPath(
+          stepHistoryRef.current,
+          stepIndex,
+          isStepVisible
+        );
+        if (previousOnPath !== undefined) {
+          return previousOnPath;
+        }
+      }
+
+      const pathPosition = stepPath.indexOf(stepIndex);
+      if (pathPosition !== -1) {
+        return pathPosition > 0 ? stepPath[pathPosition - 1] : null;
+      }
+
+      // Step reached outside of the computed path without history: fall back to declaration order
+      for (let i = stepIndex - 1; i >= 0; i--) {
+        if (isStepVisible(i)) {
+          return i;
+        }
+      }
+      return null;
+    },
+    [stepPath, isStepVisible, stepHistoryRef]
+  );
+
   // Helper functions for field-level conditions (use full field condition system)
   const isFieldVisible = useCallback(
     (fieldId: string): boolean => {
@@ -212,8 +266,11 @@ export function useWorkflowConditions({
     stepConditions,
     fieldConditions,
     allStepConditions,
+    stepPath,
     isStepVisible,
     isStepSkippable,
+    getNextStepIndex,
+    getPreviousStepIndex,
     isFieldVisible,
     isFieldDisabled,
     isFieldRequired,
@@ -1,5 +1,17 @@
-import type { StepDataHelper, WorkflowConfig, WorkflowContext } from '@rilaykit/core';
-import { useCallback, useRef } from 'react';
+import {
+  type StepDataHelper,
+  type StepGuard,
+  SubmissionError,
+  type WorkflowConfig,
+  type WorkflowContext,
+} from '@rilaykit/core';
+import { type MutableRefObject, useCallback, useRef } from 'react';
+import { extractStepData } from '../utils/dataFlattening';
+import {
+  type StepPathHistory,
+  findStepIndexById,
+  recordStepTransition,
+} from '../utils/stepTransitions';
 import type { UseWorkflowConditionsReturn } from './useWorkflowConditions';
 import type { WorkflowState } from './useWorkflowState';
 
@@ -14,6 +26,21 @@ export interface UseWorkflowNavigationProps {
   markStepPassed: (stepId: string) => void;
   setStepData: (data: Record<string, any>, stepId: string) => void;
   onStepChange?: (fromStep: number, toStep: number, context: WorkflowContext) => void;
+  /** Shows the errors of a SubmissionError thrown or returned by an after callback */
+  onSubmissionError?: (error: SubmissionError) => void;
+  /** Submits the workflow when step.next.skip() leaves no step to go to */
+  onComplete?: () => Promise<void>;
+  /** Path actually taken by the user, updated on every navigation */
+  stepHistoryRef?: MutableRefObject<StepPathHistory>;
+}
+
+/**
+ * Navigation requested from an onAfterValidation / after callback,
+ * applied by goNext once the callback has resolved
+ */
+interface PendingNavigation {
+  skipNextStep: boolean;
+  targetStepId: string | null;
 }
 
 export interface UseWorkflowNavigationReturn {
@@ -38,11 +65,26 @@ export function useWorkflowNavigation({
   markStepPassed,
   setStepData,
   onStepChange,
+  onSubmissionError,
+  onComplete,
+  stepHistoryRef,
 }: UseWorkflowNavigationProps): UseWorkflowNavigationReturn {
   // Use ref to avoid recreating callbacks when onStepChange changes
   const onStepChangeRef = useRef(onStepChange);
   onStepChangeRef.current = onStepChange;
 
+  const onSubmissionErrorRef = useRef(onSubmissionError);
+  onSubmissionErrorRef.current = onSubmissionError;
+
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  // Navigation requested through step.next.skip() / step.workflow.goto()
+  const pendingNavigationRef = useRef<PendingNavigation>({
+    skipNextStep: false,
+    targetStepId: null,
+  });
+
   // Get current step
   const currentStep = workflowConfig.steps[workflowState.currentStepIndex];
 
@@ -54,20 +96,20 @@ export function useWorkflowNavigation({
       },
 
       setStepFields: (stepId: string, fields: Record<string, any>) => {
-        const existingData = workflowState.allData[stepId] || {};
+        const existingData = extractStepData(workflowState.allData, stepId);
         const mergedData = { ...existingData, ...fields };
         setStepData(mergedData, stepId);
       },
 
       getStepData: (stepId: string) => {
-        return workflowState.allData[stepId] || {};
+        return extractStepData(workflowState.allData, stepId);
       },
 
       setNextStepField: (fieldId: string, value: any) => {
         const nextStepIndex = workflowState.currentStepIndex + 1;
         if (nextStepIndex < workflowConfig.steps.length) {
           const nextStepId = workflowConfig.steps[nextStepIndex].id;
-          const existingData = workflowState.allData[nextStepId] || {};
+          const existingData = extractStepData(workflowState.allData, nextStepId);
           const mergedData = { ...existingData, [fieldId]: value };
           setStepData(mergedData, nextStepId);
         }
@@ -78,7 +120,7 @@ export function useWorkflowNavigation({
         if (nextStepIndex < workflowConfig.steps.length) {
           const nextStepId = workflowConfig.steps[nextStepIndex].id;
           // FIXED: Only get existing data for the next step, don't propagate current step data
-          const existingData = workflowState.allData[nextStepId] || {};
+          const existingData = extractStepData(workflowState.allData, nextStepId);
 
           // FIXED: Only merge the specified fields, not all current step data
           const mergedData = { ...existingData, ...fields };
@@ -93,12 +135,75 @@ export function useWorkflowNavigation({
       getSteps: () => {
         return [...workflowConfig.steps];
       },
+
+      skipNextStep: () => {
+        pendingNavigationRef.current.skipNextStep = true;
+      },
+
+      goToStep: (stepId: string) => {
+        if (findStepIndexById(workflowConfig.steps, stepId) === -1) {
+          throw new Error(`Step with ID "${stepId}" not found`);
+        }
+        pendingNavigationRef.current.targetStepId = stepId;
+      },
     };
   }, [workflowState.allData, workflowState.currentStepIndex, workflowConfig.steps, setStepData]);
 
-  // Core navigation function
-  const goToStep = useCallback(
-    async (stepIndex: number): Promise<boolean> => {
+  // Run a canEnter / canLeave guard, returning the index to navigate to or null when vetoed
+  const runStepGuard = useCallback(
+    async (guard: StepGuard, toIndex: number): Promise<number | null> => {
+      const result = await guard({
+        fromStep: workflowConfig.steps[workflowState.currentStepIndex],
+        toStep: workflowConfig.steps[toIndex],
+        allData: workflowContext.allData,
+        context: workflowContext,
+      });
+
+      if (result === false) return null;
+      if (typeof result !== 'string') return toIndex;
+
+      const redirectIndex = findStepIndexById(workflowConfig.steps, result);
+      if (redirectIndex === -1 || !conditionsHelpers.isStepVisible(redirectIndex)) {
+        throw new Error(`Step guard redirected to unavailable step "${result}"`);
+      }
+      return redirectIndex;
+    },
+    [workflowConfig.steps, workflowState.currentStepIndex, workflowContext, conditionsHelpers]
+  );
+
+  // Await the current step canLeave guard, then canEnter guards along redirects
+  const resolveGuardedStepIndex = useCallback(
+    async (stepIndex: number): Promise<number | null> => {
+      const fromStep = workflowConfig.steps[workflowState.currentStepIndex];
+      let targetIndex: number | null = stepIndex;
+
+      if (fromStep?.canLeave) {
+        targetIndex = await runStepGuard(fromStep.canLeave, targetIndex);
+      }
+
+      const enteredSteps = new Set<number>();
+      while (targetIndex !== null) {
+        const targetStep = workflowConfig.steps[targetIndex];
+        if (!targetStep.canEnter) break;
+
+        if (enteredSteps.has(targetIndex)) {
+          throw new Error(`Step guards redirect in a loop through step "${targetStep.id}"`);
+        }
+        enteredSteps.add(targetIndex);
+
+        const redirectIndex: number | null = await runStepGuard(targetStep.canEnter, targetIndex);
+        if (redirectIndex === targetIndex) break;
+        targetIndex = redirectIndex;
+      }
+
+      return targetIndex;
+    },
+    [workflowConfig.steps, workflowState.currentStepIndex, runStepGuard]
+  );
+
+  // Move to a visible step through its guards, throwing when a guard fails
+  const transitionToStep = useCallback(
+    async (stepIndex: number, isBack = false): Promise<boolean> => {
       if (stepIndex < 0 || stepIndex >= workflowConfig.steps.length) {
         return false;
       }
@@ -111,71 +216,110 @@ export function useWorkflowNavigation({
       setTransitioning(true);
 
       try {
+        // Guards can veto the navigation or redirect it to another step
+        const targetIndex = await resolveGuardedStepIndex(stepIndex);
+        if (targetIndex === null) {
+          return false;
+        }
+
         // Call onStepChange callback
         if (onStepChangeRef.current) {
-          onStepChangeRef.current(workflowState.currentStepIndex, stepIndex, workflowContext);
+          onStepChangeRef.current(workflowState.currentStepIndex, targetIndex, workflowContext);
+        }
+
+        if (stepHistoryRef) {
+          stepHistoryRef.current = recordStepTransition(
+            stepHistoryRef.current,
+            workflowState.currentStepIndex,
+            targetIndex,
+            isBack
+          );
         }
 
-        setCurrentStep(stepIndex);
-        markStepVisited(stepIndex, workflowConfig.steps[stepIndex].id);
+        setCurrentStep(targetIndex);
+        markStepVisited(targetIndex, workflowConfig.steps[targetIndex].id);
 
         return true;
-      } catch (error) {
-        console.error('Step transition failed:', error);
-        if (workflowConfig.analytics?.onError) {
-          workflowConfig.analytics.onError(error as Error, workflowContext);
-        }
-        return false;
       } finally {
         setTransitioning(false);
       }
     },
     [
       workflowConfig.steps,
-      workflowConfig.analytics,
       conditionsHelpers,
       workflowState.currentStepIndex,
       workflowContext,
+      resolveGuardedStepIndex,
       setTransitioning,
       setCurrentStep,
       markStepVisited,
+      stepHistoryRef,
     ]
   );
 
-  // Helper function to find the next visible step
-  const findNextVisibleStep = useCallback(
-    (fromIndex: number): number | null => {
-      for (let i = fromIndex + 1; i < workflowConfig.steps.length; i++) {
-        if (conditionsHelpers.isStepVisible(i)) {
-          return i;
+  // Navigate to a step, reporting failing guards
+  const navigateToStep = useCallback(
+    async (stepIndex: number, isBack: boolean): Promise<boolean> => {
+      try {
+        return await transitionToStep(stepIndex, isBack);
+      } catch (error) {
+        console.error('Step transition failed:', error);
+        if (workflowConfig.analytics?.onError) {
+          workflowConfig.analytics.onError(error as Error, workflowContext);
         }
+        return false;
       }
-      return null;
     },
-    [workflowConfig.steps.length, conditionsHelpers]
+    [transitionToStep, workflowConfig.analytics, workflowContext]
+  );
+
+  // Core navigation function
+  const goToStep = useCallback(
+    (stepIndex: number): Promise<boolean> => navigateToStep(stepIndex, false),
+    [navigateToStep]
+  );
+
+  // A step can be skipped when it allows it or its skippable condition is met
+  const canSkipStep = useCallback(
+    (stepIndex: number): boolean =>
+      workflowConfig.steps[stepIndex]?.allowSkip === true ||
+      conditionsHelpers.isStepSkippable(stepIndex),
+    [workflowConfig.steps, conditionsHelpers]
   );
 
-  // Helper function to find the previous visible step
+  // Helper function to find the next visible step (follows `next` transitions)
+  const findNextVisibleStep = useCallback(
+    (fromIndex: number): number | null => conditionsHelpers.getNextStepIndex(fromIndex),
+    [conditionsHelpers]
+  );
+
+  // Helper function to find the previous visible step on the path taken
   const findPreviousVisibleStep = useCallback(
-    (fromIndex: number): number | null => {
-      for (let i = fromIndex - 1; i >= 0; i--) {
-        if (conditionsHelpers.isStepVisible(i)) {
-          return i;
-        }
-      }
-      return null;
-    },
+    (fromIndex: number): number | null => conditionsHelpers.getPreviousStepIndex(fromIndex),
     [conditionsHelpers]
   );
 
   // Navigate to next step
   const goNext = useCallback(async (): Promise<boolean> => {
+    pendingNavigationRef.current = { skipNextStep: false, targetStepId: null };
+
     // Before transitioning, call onAfterValidation if it exists
     if (currentStep?.onAfterValidation) {
       try {
         const helper = createStepDataHelper();
-        await currentStep.onAfterValidation(workflowState.stepData, helper, workflowContext);
+        const result = await currentStep.onAfterValidation(
+          workflowState.stepData,
+          helper,
+          workflowContext
+        );
+        if (result instanceof SubmissionError) {
+          throw result;
+        }
       } catch (error) {
+        if (error instanceof SubmissionError) {
+          onSubmissionErrorRef.current?.(error);
+          return false;
+        }
         console.error('onAfterValidation failed:', error);
         if (workflowConfig.analytics?.onError) {
           workflowConfig.analytics.onError(error as Error, workflowContext);
@@ -184,14 +328,63 @@ export function useWorkflowNavigation({
       }
     }
 
+    const { skipNextStep, targetStepId } = pendingNavigationRef.current;
+
+    // An explicit goto() takes precedence over the regular next step
+    // The step ID was checked by the helper, the step is only passed once it is left
+    if (targetStepId) {
+      try {
+        const moved = await transitionToStep(findStepIndexById(workflowConfig.steps, targetStepId));
+        if (!moved) {
+          throw new Error(`Step "${targetStepId}" is hidden or refused the navigation`);
+        }
+      } catch (error) {
+        console.error('step.workflow.goto() failed:', error);
+        if (workflowConfig.analytics?.onError) {
+          workflowConfig.analytics.onError(error as Error, workflowContext);
+        }
+        return false;
+      }
+
+      markStepPassed(currentStep.id);
+      return true;
+    }
+
     // Mark current step as passed (validated)
     markStepPassed(currentStep.id);
 
     // Find the next visible step
-    const nextStepIndex = findNextVisibleStep(workflowState.currentStepIndex);
+    let nextStepIndex = findNextVisibleStep(workflowState.currentStepIndex);
+    let skippedStep = false;
+
+    if (skipNextStep && nextStepIndex !== null) {
+      const stepToSkip = workflowConfig.steps[nextStepIndex];
+
+      if (canSkipStep(nextStepIndex)) {
+        // Recorded like a step skipped by the user, without being visited
+        if (workflowConfig.analytics?.onStepSkip) {
+          workflowConfig.analytics.onStepSkip(stepToSkip.id, 'programmatic_skip', workflowContext);
+        }
+        markStepPassed(stepToSkip.id);
+        nextStepIndex = findNextVisibleStep(nextStepIndex);
+        skippedStep = true;
+      } else {
+        console.warn(`step.next.skip() ignored: step "${stepToSkip.id}" cannot be skipped`);
+      }
+    }
 
     // Check if we have a next visible step
     if (nextStepIndex === null) {
+      // Skipping the last remaining step completes the workflow
+      if (skippedStep && onCompleteRef.current) {
+        try {
+          await onCompleteRef.current();
+          return true;
+        } catch {
+          // Already reported by the submission
+          return false;
+        }
+      }
       return false; // Let the submission hook handle this
     }
 
@@ -203,14 +396,17 @@ export function useWorkflowNavigation({
     workflowContext,
     workflowConfig.analytics,
     workflowState.currentStepIndex,
+    workflowConfig.steps,
+    canSkipStep,
     findNextVisibleStep,
+    transitionToStep,
     goToStep,
     markStepPassed,
   ]);
 
   // Navigate to previous step
   const goPrevious = useCallback(async (): Promise<boolean> => {
-    // Find the previous visible step
+    // Find the previous visible step on the path taken
     const previousStepIndex = findPreviousVisibleStep(workflowState.currentStepIndex);
 
     // Check if we have a previous visible step
@@ -218,15 +414,12 @@ export function useWorkflowNavigation({
       return false;
     }
 
-    return goToStep(previousStepIndex);
-  }, [workflowState.currentStepIndex, findPreviousVisibleStep, goToStep]);
+    return navigateToStep(previousStepIndex, true);
+  }, [workflowState.currentStepIndex, findPreviousVisibleStep, navigateToStep]);
 
   // Skip current step
   const skipStep = useCallback(async (): Promise<boolean> => {
-    if (
-      !currentStep?.allowSkip &&
-      !conditionsHelpers.isStepSkippable(workflowState.currentStepIndex)
-    ) {
+    if (!canSkipStep(workflowState.currentStepIndex)) {
       return false;
     }
 
@@ -238,7 +431,7 @@ export function useWorkflowNavigation({
     return goNext();
   }, [
     currentStep,
-    conditionsHelpers,
+    canSkipStep,
     workflowState.currentStepIndex,
     workflowConfig.analytics,
     workflowContext,
@@ -268,11 +461,8 @@ export function useWorkflowNavigation({
 
   // Check if current step can be skipped
   const canSkipCurrentStep = useCallback((): boolean => {
-    return (
-      currentStep?.allowSkip === true &&
-      conditionsHelpers.isStepSkippable(workflowState.currentStepIndex)
-    );
-  }, [currentStep?.allowSkip, conditionsHelpers, workflowState.currentStepIndex]);
+    return canSkipStep(workflowState.currentStepIndex);
+  }, [canSkipStep, workflowState.currentStepIndex]);
 
   return {
     goToStep,
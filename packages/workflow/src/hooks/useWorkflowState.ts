@@ -1,5 +1,6 @@
 import { useCallback, useMemo, useReducer } from 'react';
 import type { PersistenceOptions, WorkflowPersistenceAdapter } from '../persistence/types';
+import { assignStepData } from '../utils/dataFlattening';
 import { usePersistence } from './usePersistence';
 
 export interface WorkflowState {
@@ -38,10 +39,7 @@ function workflowReducer(state: WorkflowState, action: WorkflowAction): Workflow
       return {
         ...state,
         stepData: action.data,
-        allData: {
-          ...state.allData,
-          [action.stepId]: action.data,
-        },
+        allData: assignStepData(state.allData, action.stepId, action.data),
       };
     }
 
@@ -56,10 +54,7 @@ function workflowReducer(state: WorkflowState, action: WorkflowAction): Workflow
       return {
         ...state,
         stepData: newStepData,
-        allData: {
-          ...state.allData,
-          [action.stepId]: newStepData,
-        },
+        allData: assignStepData(state.allData, action.stepId, newStepData),
       };
     }
 
@@ -1,4 +1,9 @@
-import type { WorkflowConfig, WorkflowContext } from '@rilaykit/core';
+import {
+  SubmissionError,
+  type SubmissionResult,
+  type WorkflowConfig,
+  type WorkflowContext,
+} from '@rilaykit/core';
 import { useCallback, useRef } from 'react';
 import type { WorkflowState } from './useWorkflowState';
 
@@ -7,7 +12,9 @@ export interface UseWorkflowSubmissionProps {
   workflowState: WorkflowState;
   workflowContext: WorkflowContext;
   setSubmitting: (isSubmitting: boolean) => void;
-  onWorkflowComplete?: (data: Record<string, any>) => void | Promise<void>;
+  onWorkflowComplete?: (data: Record<string, any>) => SubmissionResult;
+  /** Shows the errors of a submission rejected by onWorkflowComplete */
+  onSubmissionError?: (error: SubmissionError) => void;
   analyticsStartTime: React.MutableRefObject<number>;
 }
 
@@ -23,20 +30,26 @@ export function useWorkflowSubmission({
   workflowContext,
   setSubmitting,
   onWorkflowComplete,
+  onSubmissionError,
   analyticsStartTime,
 }: UseWorkflowSubmissionProps): UseWorkflowSubmissionReturn {
   // Use ref to avoid recreating callbacks when onWorkflowComplete changes
   const onWorkflowCompleteRef = useRef(onWorkflowComplete);
   onWorkflowCompleteRef.current = onWorkflowComplete;
 
+  const onSubmissionErrorRef = useRef(onSubmissionError);
+  onSubmissionErrorRef.current = onSubmissionError;
+
   // Submit workflow
   const submitWorkflow = useCallback(async () => {
     setSubmitting(true);
 
     try {
       // Call onWorkflowComplete callback if provided
-      if (onWorkflowCompleteRef.current) {
-        await onWorkflowCompleteRef.current(workflowState.allData);
+      // A returned SubmissionError is handled like a thrown one
+      const result = await onWorkflowCompleteRef.current?.(workflowState.allData);
+      if (result instanceof SubmissionError) {
+        throw result;
       }
 
       // Track workflow completion analytics
@@ -49,6 +62,11 @@ export function useWorkflowSubmission({
         );
       }
     } catch (error) {
+      if (error instanceof SubmissionError) {
+        // Rejected by the server: shown on the fields, still failing the submission
+        onSubmissionErrorRef.current?.(error);
+        throw error;
+      }
       console.error('Workflow submission failed:', error);
       if (workflowConfig.analytics?.onError) {
         workflowConfig.analytics.onError(error as Error, workflowContext);
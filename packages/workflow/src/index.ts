@@ -1,6 +1,6 @@
 // Core workflow builder
 export { flow } from './builders/flow';
-export type { StepDefinition } from './builders/flow';
+export type { InferWorkflowData, StepDefinition, StepValues } from './builders/flow';
 
 // Step context (for after callbacks)
 export type { StepContext, StepMetadata } from './context/step-context';
@@ -27,5 +27,9 @@ export * from './persistence';
 // Component types
 export type { WorkflowContextValue } from './components/WorkflowProvider';
 
+// JSON format of workflow definitions
+export { FLOW_JSON_SCHEMA } from './utils/flow-json';
+export type { FlowJSON, StepJSON, StepTransitionJSON } from './utils/flow-json';
+
 // Utility functions
 export { combineWorkflowDataForConditions, flattenObject } from './utils/dataFlattening';
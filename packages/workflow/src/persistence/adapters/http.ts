@@ -0,0 +1,336 @@
+/**
+ * @fileoverview HTTP persistence adapter for Rilay workflows
+ *
+ * This adapter persists workflow data to a REST API so that drafts can be resumed
+ * across devices. It only relies on fetch and standard HTTP semantics:
+ * - GET/PUT/DELETE on a resource URL per workflow
+ * - Optional collection URL for listing and clearing drafts
+ *
+ * Key features:
+ * - Endpoint templates and static or async headers
+ * - Retry with exponential backoff on network errors and 5xx/429 responses
+ * - Optimistic concurrency through ETags or lastSaved timestamps
+ * - Conflict callback choosing between local, remote or merged data
+ */
+
+import type {
+  HttpAdapterConfig,
+  PersistedWorkflowData,
+  PersistenceConflictResolution,
+  WorkflowPersistenceAdapter,
+} from '../types';
+import { WorkflowPersistenceConflictError, WorkflowPersistenceError } from '../types';
+
+/**
+ * Version of a workflow resource as last seen on the server
+ */
+interface RemoteVersion {
+  etag: string | null;
+  lastSaved: number;
+}
+
+/**
+ * Workflow resource fetched from the server
+ */
+interface RemoteEntry {
+  data: PersistedWorkflowData | null;
+  etag: string | null;
+}
+
+const DEFAULT_RETRY_ATTEMPTS = 3;
+const DEFAULT_RETRY_DELAY_MS = 300;
+const DEFAULT_BACKOFF_FACTOR = 2;
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+function isConflictStatus(status: number): boolean {
+  return status === 409 || status === 412;
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function toRemoteVersion(entry: RemoteEntry): RemoteVersion | null {
+  return entry.data ? { etag: entry.etag, lastSaved: entry.data.lastSaved } : null;
+}
+
+/**
+ * HTTP-based persistence adapter
+ *
+ * Saves are conditional: when the workflow was modified remotely since it was last
+ * loaded or saved on this device, `onConflict` decides which data to keep. Without
+ * `onConflict`, or when the remote data is kept, the save is rejected with a
+ * `WorkflowPersistenceConflictError` which surfaces as `persistenceError`.
+ *
+ * @example
+ * ```typescript
+ * const adapter = new HttpAdapter({
+ *   endpoint: 'https://api.example.com/drafts/{key}',
+ *   headers: async () => ({ Authorization: `Bearer ${await getToken()}` }),
+ *   onConflict: ({ local, remote }) =>
+ *     remote ? { merged: { ...remote, allData: { ...remote.allData, ...local.allData } } } : 'local',
+ * });
+ * ```
+ */
+export class HttpAdapter implements WorkflowPersistenceAdapter {
+  private readonly config: HttpAdapterConfig;
+  private readonly fetchFn: typeof fetch;
+  /** Remote version of each key, null when the key is known not to exist */
+  private readonly versions = new Map<string, RemoteVersion | null>();
+
+  constructor(config: HttpAdapterConfig) {
+    this.config = config;
+    this.fetchFn = config.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  /**
+   * Save workflow data to the server
+   */
+  async save(key: string, data: PersistedWorkflowData): Promise<void> {
+    try {
+      await this.put(key, data, false);
+    } catch (error) {
+      throw this.toPersistenceError(error, 'save', 'SAVE_FAILED');
+    }
+  }
+
+  /**
+   * Load workflow data from the server
+   */
+  async load(key: string): Promise<PersistedWorkflowData | null> {
+    try {
+      const entry = await this.fetchEntry(key);
+      this.versions.set(key, toRemoteVersion(entry));
+      return entry.data;
+    } catch (error) {
+      throw this.toPersistenceError(error, 'load', 'LOAD_FAILED');
+    }
+  }
+
+  /**
+   * Remove workflow data from the server
+   */
+  async remove(key: string): Promise<void> {
+    try {
+      const response = await this.request(this.resourceUrl(key), { method: 'DELETE' });
+      if (response.status !== 404) {
+        this.assertOk(response);
+      }
+      this.versions.set(key, null);
+    } catch (error) {
+      throw this.toPersistenceError(error, 'remove', 'REMOVE_FAILED');
+    }
+  }
+
+  /**
+   * Check if data exists for the given key
+   */
+  async exists(key: string): Promise<boolean> {
+    try {
+      return (await this.fetchEntry(key)).data !== null;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * List all available keys, requires `collectionEndpoint`
+   */
+  async listKeys(): Promise<string[]> {
+    try {
+      const response = await this.request(this.collectionUrl(), { method: 'GET' });
+      this.assertOk(response);
+      return (await response.json()) as string[];
+    } catch (error) {
+      throw this.toPersistenceError(error, 'list', 'LIST_FAILED');
+    }
+  }
+
+  /**
+   * Clear all workflow data, requires `collectionEndpoint`
+   */
+  async clear(): Promise<void> {
+    try {
+      const response = await this.request(this.collectionUrl(), { method: 'DELETE' });
+      this.assertOk(response);
+      this.versions.clear();
+    } catch (error) {
+      throw this.toPersistenceError(error, 'clear', 'CLEAR_FAILED');
+    }
+  }
+
+  /**
+   * Write data, resolving conflicts with the remote version
+   *
+   * @param isResolution - Whether the data results from a conflict resolution, in which
+   * case a new conflict is not resolved again
+   */
+  private async put(
+    key: string,
+    data: PersistedWorkflowData,
+    isResolution: boolean
+  ): Promise<void> {
+    const known = this.versions.get(key);
+    const detection = this.config.conflictDetection ?? 'etag';
+
+    // Without a known version (no load yet), the remote data is not expected to exist
+    if (detection === 'lastSaved' && !isResolution) {
+      const remote = await this.fetchEntry(key);
+      if ((remote.data?.lastSaved ?? null) !== (known?.lastSaved ?? null)) {
+        return this.resolveConflict(key, data, remote);
+      }
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (detection === 'etag' && !known) {
+      headers['If-None-Match'] = '*';
+    } else if (detection === 'etag' && known?.etag) {
+      headers['If-Match'] = known.etag;
+    }
+
+    const response = await this.request(this.resourceUrl(key), {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify(data),
+    });
+
+    if (isConflictStatus(response.status)) {
+      const remote = await this.fetchEntry(key);
+      if (isResolution) {
+        throw new WorkflowPersistenceConflictError(
+          `Workflow "${key}" was modified again while resolving a conflict`,
+          { key, local: data, remote: remote.data }
+        );
+      }
+      return this.resolveConflict(key, data, remote);
+    }
+
+    this.assertOk(response);
+    this.versions.set(key, { etag: response.headers.get('ETag'), lastSaved: data.lastSaved });
+  }
+
+  /**
+   * Ask the application which data to keep and save it
+   */
+  private async resolveConflict(
+    key: string,
+    local: PersistedWorkflowData,
+    remote: RemoteEntry
+  ): Promise<void> {
+    const conflict = { key, local, remote: remote.data };
+    const resolution: PersistenceConflictResolution = this.config.onConflict
+      ? await this.config.onConflict(conflict)
+      : 'remote';
+
+    if (resolution === 'remote') {
+      throw new WorkflowPersistenceConflictError(
+        `Workflow "${key}" was modified remotely, local changes were not saved`,
+        conflict
+      );
+    }
+
+    // Base the resolved write on the remote version so it is still conditional
+    this.versions.set(key, toRemoteVersion(remote));
+    await this.put(key, resolution === 'local' ? local : resolution.merged, true);
+  }
+
+  /**
+   * Fetch a workflow resource along with its ETag
+   */
+  private async fetchEntry(key: string): Promise<RemoteEntry> {
+    const response = await this.request(this.resourceUrl(key), { method: 'GET' });
+
+    if (response.status === 404) {
+      return { data: null, etag: null };
+    }
+
+    this.assertOk(response);
+    return {
+      data: (await response.json()) as PersistedWorkflowData,
+      etag: response.headers.get('ETag'),
+    };
+  }
+
+  /**
+   * Send a request, retrying with exponential backoff on network errors and 5xx/429
+   */
+  private async request(url: string, init: RequestInit): Promise<Response> {
+    const retry = this.config.retry === false ? { attempts: 1 } : (this.config.retry ?? {});
+    const attempts = retry.attempts ?? DEFAULT_RETRY_ATTEMPTS;
+    let delay = retry.delayMs ?? DEFAULT_RETRY_DELAY_MS;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await this.fetchFn(url, {
+          ...init,
+          headers: {
+            ...(await this.resolveHeaders()),
+            ...(init.headers as Record<string, string>),
+          },
+        });
+
+        if (!isRetryableStatus(response.status) || attempt >= attempts) {
+          return response;
+        }
+      } catch (error) {
+        if (attempt >= attempts) {
+          throw error;
+        }
+      }
+
+      await wait(delay);
+      delay *= retry.backoffFactor ?? DEFAULT_BACKOFF_FACTOR;
+    }
+  }
+
+  private async resolveHeaders(): Promise<Record<string, string>> {
+    const { headers } = this.config;
+    return typeof headers === 'function' ? await headers() : (headers ?? {});
+  }
+
+  private resourceUrl(key: string): string {
+    return this.config.endpoint.replace(/\{key\}/g, encodeURIComponent(key));
+  }
+
+  private collectionUrl(): string {
+    if (!this.config.collectionEndpoint) {
+      throw new Error('No collectionEndpoint configured');
+    }
+    return this.config.collectionEndpoint;
+  }
+
+  private assertOk(response: Response): void {
+    if (!response.ok) {
+      throw new Error(`Request failed with status ${response.status}`);
+    }
+  }
+
+  /**
+   * Wrap unknown errors into a WorkflowPersistenceError
+   */
+  private toPersistenceError(
+    error: unknown,
+    operation: string,
+    code: string
+  ): WorkflowPersistenceError {
+    if (error instanceof WorkflowPersistenceError) {
+      return error;
+    }
+
+    if (error instanceof Error) {
+      return new WorkflowPersistenceError(
+        `Failed to ${operation} remote workflow data: ${error.message}`,
+        code,
+        error
+      );
+    }
+
+    return new WorkflowPersistenceError(
+      `Unknown error occurred while trying to ${operation} remote workflow data`,
+      code
+    );
+  }
+}
@@ -5,7 +5,16 @@
  * the WorkflowPersistenceAdapter interface. Each adapter provides a different
  * storage strategy for workflow data persistence.
  */
+export { EncryptedPersistenceAdapter } from './encrypted';
+export { HttpAdapter } from './http';
+export { IndexedDBAdapter } from './indexedDB';
 export { LocalStorageAdapter } from './localStorage';
 
 // Re-export configuration types for convenience
-export type { LocalStorageAdapterConfig, WorkflowPersistenceAdapter } from '../types';
+export type {
+  EncryptedAdapterConfig,
+  HttpAdapterConfig,
+  IndexedDBAdapterConfig,
+  LocalStorageAdapterConfig,
+  WorkflowPersistenceAdapter,
+} from '../types';
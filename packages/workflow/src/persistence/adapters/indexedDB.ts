@@ -0,0 +1,297 @@
+/**
+ * @fileoverview IndexedDB persistence adapter for Rilay workflows
+ *
+ * This adapter provides browser IndexedDB-based persistence for workflow data.
+ * Unlike localStorage, IndexedDB is asynchronous, stores structured data without
+ * serialization and is not limited to a ~5MB quota, which suits large workflows.
+ *
+ * Key features:
+ * - Non-blocking reads and writes
+ * - Automatic data expiration based on maxAge
+ * - Configurable database and object store names for namespace isolation
+ * - Graceful no-op when IndexedDB is not available (SSR)
+ */
+
+import type {
+  IndexedDBAdapterConfig,
+  PersistedWorkflowData,
+  WorkflowPersistenceAdapter,
+} from '../types';
+import { WorkflowPersistenceError } from '../types';
+
+/**
+ * Internal storage format with metadata
+ */
+interface StorageEntry {
+  data: PersistedWorkflowData;
+  expiresAt?: number;
+}
+
+/**
+ * Wrap an IndexedDB request into a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * IndexedDB-based persistence adapter
+ *
+ * The database is opened lazily on first use and reused for subsequent operations.
+ *
+ * @example
+ * ```typescript
+ * const adapter = new IndexedDBAdapter({
+ *   databaseName: 'myapp',
+ *   maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+ * });
+ * ```
+ */
+export class IndexedDBAdapter implements WorkflowPersistenceAdapter {
+  private readonly databaseName: string;
+  private readonly storeName: string;
+  private readonly maxAge?: number;
+  private readonly _isAvailable: boolean;
+  private databasePromise: Promise<IDBDatabase> | null = null;
+
+  constructor(config: IndexedDBAdapterConfig = {}) {
+    this.databaseName = config.databaseName ?? 'rilay_workflows';
+    this.storeName = config.storeName ?? 'workflows';
+    this.maxAge = config.maxAge;
+
+    // Check IndexedDB availability once at initialization
+    this._isAvailable = typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Save workflow data to IndexedDB
+   */
+  async save(key: string, data: PersistedWorkflowData): Promise<void> {
+    // Skip silently if IndexedDB is not available (SSR)
+    if (!this._isAvailable) {
+      return;
+    }
+
+    try {
+      const entry: StorageEntry = {
+        data: { ...data, lastSaved: Date.now() },
+        expiresAt: this.maxAge ? Date.now() + this.maxAge : undefined,
+      };
+
+      await this.runRequest('readwrite', (store) => store.put(entry, key));
+    } catch (error) {
+      if (error instanceof Error && error.name === 'QuotaExceededError') {
+        throw new WorkflowPersistenceError('IndexedDB quota exceeded', 'QUOTA_EXCEEDED', error);
+      }
+
+      throw this.toPersistenceError(error, 'save to', 'SAVE_FAILED');
+    }
+  }
+
+  /**
+   * Load workflow data from IndexedDB
+   */
+  async load(key: string): Promise<PersistedWorkflowData | null> {
+    // Return null if IndexedDB is not available (SSR)
+    if (!this._isAvailable) {
+      return null;
+    }
+
+    try {
+      const entry = await this.getEntry(key);
+      return entry ? entry.data : null;
+    } catch (error) {
+      throw this.toPersistenceError(error, 'load from', 'LOAD_FAILED');
+    }
+  }
+
+  /**
+   * Remove workflow data from IndexedDB
+   */
+  async remove(key: string): Promise<void> {
+    // Skip silently if IndexedDB is not available (SSR)
+    if (!this._isAvailable) {
+      return;
+    }
+
+    try {
+      await this.runRequest('readwrite', (store) => store.delete(key));
+    } catch (error) {
+      throw this.toPersistenceError(error, 'remove from', 'REMOVE_FAILED');
+    }
+  }
+
+  /**
+   * Check if data exists for the given key
+   */
+  async exists(key: string): Promise<boolean> {
+    // Return false if IndexedDB is not available (SSR)
+    if (!this._isAvailable) {
+      return false;
+    }
+
+    try {
+      return (await this.getEntry(key)) !== null;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * List all available keys
+   */
+  async listKeys(): Promise<string[]> {
+    // Return empty array if IndexedDB is not available (SSR)
+    if (!this._isAvailable) {
+      return [];
+    }
+
+    try {
+      const keys = await this.runRequest('readonly', (store) => store.getAllKeys());
+      const validKeys: string[] = [];
+
+      for (const key of keys) {
+        // Check if the entry is still valid
+        if (await this.exists(String(key))) {
+          validKeys.push(String(key));
+        }
+      }
+
+      return validKeys;
+    } catch (error) {
+      throw this.toPersistenceError(error, 'list keys of', 'LIST_FAILED');
+    }
+  }
+
+  /**
+   * Clear all workflow data
+   */
+  async clear(): Promise<void> {
+    // Skip silently if IndexedDB is not available (SSR)
+    if (!this._isAvailable) {
+      return;
+    }
+
+    try {
+      await this.runRequest('readwrite', (store) => store.clear());
+    } catch (error) {
+      throw this.toPersistenceError(error, 'clear', 'CLEAR_FAILED');
+    }
+  }
+
+  /**
+   * Get a stored entry, removing it when expired
+   */
+  private async getEntry(key: string): Promise<StorageEntry | null> {
+    const entry = await this.runRequest<StorageEntry | undefined>('readonly', (store) =>
+      store.get(key)
+    );
+
+    if (!entry) {
+      return null;
+    }
+
+    // Check if data has expired
+    if (entry.expiresAt && Date.now() > entry.expiresAt) {
+      await this.remove(key);
+      return null;
+    }
+
+    return entry;
+  }
+
+  /**
+   * Run a single request in its own transaction and wait for the transaction to complete
+   */
+  private async runRequest<T>(
+    mode: IDBTransactionMode,
+    createRequest: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const database = await this.openDatabase();
+    const transaction = database.transaction(this.storeName, mode);
+    const request = createRequest(transaction.objectStore(this.storeName));
+
+    const [result] = await Promise.all([
+      requestToPromise(request),
+      new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onabort = () => reject(transaction.error);
+        transaction.onerror = () => reject(transaction.error);
+      }),
+    ]);
+
+    return result;
+  }
+
+  /**
+   * Open the database once, creating the object store on first use
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.databasePromise) {
+      this.databasePromise = this.openDatabaseWithStore().catch((error) => {
+        // Allow a later operation to retry opening the database
+        this.databasePromise = null;
+        throw error;
+      });
+    }
+
+    return this.databasePromise;
+  }
+
+  /**
+   * Open the database, upgrading it when it exists without the configured object store
+   */
+  private async openDatabaseWithStore(version?: number): Promise<IDBDatabase> {
+    const request = indexedDB.open(this.databaseName, version);
+
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(this.storeName)) {
+        request.result.createObjectStore(this.storeName);
+      }
+    };
+
+    const database = await requestToPromise(request);
+    if (database.objectStoreNames.contains(this.storeName)) {
+      // Release the connection when another adapter upgrades the database
+      database.onversionchange = () => {
+        database.close();
+        this.databasePromise = null;
+      };
+      return database;
+    }
+
+    // Another adapter created the database with a different store name
+    const nextVersion = database.version + 1;
+    database.close();
+    return this.openDatabaseWithStore(nextVersion);
+  }
+
+  /**
+   * Wrap unknown errors into a WorkflowPersistenceError
+   */
+  private toPersistenceError(
+    error: unknown,
+    operation: string,
+    code: string
+  ): WorkflowPersistenceError {
+    if (error instanceof WorkflowPersistenceError) {
+      return error;
+    }
+
+    if (error instanceof Error) {
+      return new WorkflowPersistenceError(
+        `Failed to ${operation} IndexedDB: ${error.message}`,
+        code,
+        error
+      );
+    }
+
+    return new WorkflowPersistenceError(
+      `Unknown error occurred while trying to ${operation} IndexedDB`,
+      code
+    );
+  }
+}
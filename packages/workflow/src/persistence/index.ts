@@ -7,16 +7,25 @@
 
 // Core types and interfaces
 export type {
+  EncryptedAdapterConfig,
+  HttpAdapterConfig,
+  IndexedDBAdapterConfig,
   LocalStorageAdapterConfig,
   PersistedWorkflowData,
+  PersistenceConflict,
+  PersistenceConflictResolution,
+  PersistenceMigration,
   PersistenceOptions,
   UsePersistenceReturn,
   WorkflowPersistenceAdapter,
 } from './types';
 
-export { WorkflowPersistenceError } from './types';
+export { WorkflowPersistenceConflictError, WorkflowPersistenceError } from './types';
 
 // Adapters
+export { EncryptedPersistenceAdapter } from './adapters/encrypted';
+export { HttpAdapter } from './adapters/http';
+export { IndexedDBAdapter } from './adapters/indexedDB';
 export { LocalStorageAdapter } from './adapters/localStorage';
 
 // Utilities
@@ -24,7 +33,9 @@ export {
   debounce,
   generateStorageKey,
   mergePersistedState,
+  migratePersistedData,
   persistedToWorkflowState,
+  resolvePersistenceVersion,
   validatePersistedData,
   workflowStateToPersisted,
 } from './utils';
@@ -4,6 +4,7 @@
  * This module defines the core interfaces and types for the workflow persistence system.
  * It provides a flexible adapter pattern allowing different persistence strategies:
  * - localStorage persistence
+ * - IndexedDB persistence
  * - API-based persistence
  * - Custom persistence implementations
  *
@@ -11,29 +12,18 @@
  * a simple API for common use cases.
  */
 
+import type { PersistedWorkflowData, WorkflowPersistenceAdapter } from '@rilaykit/core';
 import type { WorkflowState } from '../hooks/useWorkflowState';
 
+// The adapter contract lives in core so that forms can reuse workflow adapters
+export type { PersistedWorkflowData, WorkflowPersistenceAdapter };
+
 /**
- * Persistent workflow data that gets saved/loaded
+ * Upgrades persisted data saved with the previous schema version
  */
-export interface PersistedWorkflowData {
-  /** Unique identifier for the workflow */
-  workflowId: string;
-  /** Current step index in the workflow */
-  currentStepIndex: number;
-  /** All collected data across steps */
-  allData: Record<string, any>;
-  /** Currently active step data */
-  stepData: Record<string, any>;
-  /** Set of visited step IDs */
-  visitedSteps: string[];
-  /** Set of passed/validated step IDs */
-  passedSteps?: string[];
-  /** When this data was last saved */
-  lastSaved: number;
-  /** Optional metadata for custom persistence needs */
-  metadata?: Record<string, any>;
-}
+export type PersistenceMigration = (
+  data: PersistedWorkflowData
+) => PersistedWorkflowData | Promise<PersistedWorkflowData>;
 
 /**
  * Options for persistence operations
@@ -47,55 +37,26 @@ export interface PersistenceOptions {
   storageKey?: string;
   /** Additional metadata to include in persisted data */
   metadata?: Record<string, any>;
-}
-
-/**
- * Core persistence adapter interface
- *
- * All persistence implementations must implement this interface.
- * It provides a consistent API regardless of the underlying storage mechanism.
- */
-export interface WorkflowPersistenceAdapter {
-  /**
-   * Save workflow data
-   * @param key - Unique identifier for the stored data
-   * @param data - Workflow data to persist
-   * @returns Promise that resolves when save is complete
-   */
-  save(key: string, data: PersistedWorkflowData): Promise<void>;
-
-  /**
-   * Load workflow data
-   * @param key - Unique identifier for the stored data
-   * @returns Promise that resolves to persisted data or null if not found
-   */
-  load(key: string): Promise<PersistedWorkflowData | null>;
-
-  /**
-   * Remove persisted workflow data
-   * @param key - Unique identifier for the stored data
-   * @returns Promise that resolves when deletion is complete
-   */
-  remove(key: string): Promise<void>;
-
-  /**
-   * Check if data exists for the given key
-   * @param key - Unique identifier to check
-   * @returns Promise that resolves to true if data exists
-   */
-  exists(key: string): Promise<boolean>;
-
   /**
-   * List all available keys (optional, for debugging/admin)
-   * @returns Promise that resolves to array of available keys
+   * Current schema version of the persisted data (default: 1)
+   * Bump it whenever the workflow definition changes in a way that breaks saved drafts
    */
-  listKeys?(): Promise<string[]>;
-
+  version?: number;
   /**
-   * Clear all persisted data (optional, for cleanup)
-   * @returns Promise that resolves when all data is cleared
+   * Migrations keyed by the version they upgrade to, applied in order on load
+   *
+   * @example
+   * ```typescript
+   * migrations: {
+   *   // Version 2 renamed the "address" step to "shipping"
+   *   2: ({ allData: { address, ...rest }, ...data }) => ({
+   *     ...data,
+   *     allData: { ...rest, shipping: address },
+   *   }),
+   * }
+   * ```
    */
-  clear?(): Promise<void>;
+  migrations?: Record<number, PersistenceMigration>;
 }
 
 /**
@@ -110,6 +71,105 @@ export interface LocalStorageAdapterConfig {
   maxAge?: number;
 }
 
+/**
+ * Configuration for IndexedDB persistence adapter
+ */
+export interface IndexedDBAdapterConfig {
+  /** Database name (default: 'rilay_workflows') */
+  databaseName?: string;
+  /** Object store name (default: 'workflows') */
+  storeName?: string;
+  /** Maximum age in ms before data expires (optional) */
+  maxAge?: number;
+}
+
+/**
+ * Conflict between local data being saved and data saved remotely in the meantime
+ */
+export interface PersistenceConflict {
+  /** Storage key of the conflicting data */
+  key: string;
+  /** Data the workflow is trying to save */
+  local: PersistedWorkflowData;
+  /** Data currently stored remotely, null if it was removed */
+  remote: PersistedWorkflowData | null;
+}
+
+/**
+ * How to resolve a persistence conflict
+ * - `local`: overwrite the remote data with the local data
+ * - `remote`: keep the remote data and reject the save
+ * - `{ merged }`: save the given data, usually a merge of local and remote
+ */
+export type PersistenceConflictResolution = 'local' | 'remote' | { merged: PersistedWorkflowData };
+
+/**
+ * Configuration for HTTP persistence adapter
+ */
+export interface HttpAdapterConfig {
+  /**
+   * URL template of a single workflow resource, `{key}` is replaced by the encoded storage key
+   * @example 'https://api.example.com/drafts/{key}'
+   */
+  endpoint: string;
+  /** URL of the collection, used by listKeys (GET, returns a string array) and clear (DELETE) */
+  collectionEndpoint?: string;
+  /** Headers sent with every request, e.g. authorization */
+  headers?:
+    | Record<string, string>
+    | (() => Record<string, string> | Promise<Record<string, string>>);
+  /**
+   * How concurrent modifications are detected (default: 'etag')
+   * - `etag`: conditional requests with If-Match / If-None-Match
+   * - `lastSaved`: compare the remote lastSaved with the one last loaded or saved
+   * - `none`: last write wins
+   */
+  conflictDetection?: 'etag' | 'lastSaved' | 'none';
+  /** Resolve conflicts, saves are rejected with a CONFLICT error when omitted */
+  onConflict?: (
+    conflict: PersistenceConflict
+  ) => PersistenceConflictResolution | Promise<PersistenceConflictResolution>;
+  /** Retry policy for network errors and 5xx/429 responses, false to disable */
+  retry?:
+    | {
+        /** Maximum number of attempts (default: 3) */
+        attempts?: number;
+        /** Delay before the first retry in ms (default: 300) */
+        delayMs?: number;
+        /** Multiplier applied to the delay after each retry (default: 2) */
+        backoffFactor?: number;
+      }
+    | false;
+  /** Custom fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Configuration for encrypted persistence adapter
+ */
+export interface EncryptedAdapterConfig {
+  /** Adapter storing the encrypted data */
+  adapter: WorkflowPersistenceAdapter;
+  /**
+   * AES-GCM key used to encrypt the data, or a function resolving it
+   * @example
+   * ```typescript
+   * key: () => crypto.subtle.importKey('raw', keyBytes, 'AES-GCM', false, ['encrypt', 'decrypt'])
+   * ```
+   */
+  key: CryptoKey | (() => CryptoKey | Promise<CryptoKey>);
+  /**
+   * Field ids that are never persisted, e.g. passwords or card numbers
+   * Plain ids match the field in every step, `stepId.fieldId` only in the given step
+   */
+  exclude?: string[];
+  /**
+   * Field ids persisted with a masked value, so restored forms keep their shape
+   * Matched like `exclude`
+   */
+  redact?: string[];
+}
+
 /**
  * Error types for persistence operations
  */
@@ -124,6 +184,19 @@ export class WorkflowPersistenceError extends Error {
   }
 }
 
+/**
+ * Error thrown when a save conflicts with remote data and is not resolved in favor of local data
+ */
+export class WorkflowPersistenceConflictError extends WorkflowPersistenceError {
+  constructor(
+    message: string,
+    public readonly conflict: PersistenceConflict
+  ) {
+    super(message, 'CONFLICT');
+    this.name = 'WorkflowPersistenceConflictError';
+  }
+}
+
 /**
  * Persistence hook return type
  */
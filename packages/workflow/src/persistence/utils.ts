@@ -7,7 +7,8 @@
  */
 
 import type { WorkflowState } from '../hooks/useWorkflowState';
-import type { PersistedWorkflowData } from './types';
+import type { PersistedWorkflowData, PersistenceMigration, PersistenceOptions } from './types';
+import { WorkflowPersistenceError } from './types';
 
 /**
  * Convert WorkflowState to PersistedWorkflowData format
@@ -15,17 +16,21 @@ import type { PersistedWorkflowData } from './types';
 export function workflowStateToPersisted(
   workflowId: string,
   state: WorkflowState,
-  metadata?: Record<string, any>
+  metadata?: Record<string, any>,
+  version?: number,
+  currentStepId?: string
 ): PersistedWorkflowData {
   return {
     workflowId,
     currentStepIndex: state.currentStepIndex,
+    currentStepId,
     allData: { ...state.allData },
     stepData: { ...state.stepData },
     visitedSteps: Array.from(state.visitedSteps),
     passedSteps: Array.from(state.passedSteps),
     lastSaved: Date.now(),
     metadata,
+    version,
   };
 }
 
@@ -78,6 +83,67 @@ export function validatePersistedData(data: any): data is PersistedWorkflowData
   return true;
 }
 
+/**
+ * Resolve the current schema version of persisted data
+ *
+ * Defaults to the highest migration version, or 1 without migrations.
+ */
+export function resolvePersistenceVersion(options: PersistenceOptions = {}): number {
+  if (options.version !== undefined) {
+    return options.version;
+  }
+
+  const migrationVersions = Object.keys(options.migrations ?? {}).map(Number);
+  return Math.max(1, ...migrationVersions);
+}
+
+/**
+ * Upgrade persisted data to the current schema version
+ *
+ * Data saved without a version is considered version 1. Migrations are applied in
+ * order for every version between the saved one and the current one, versions
+ * without a migration are considered compatible.
+ *
+ * @throws WorkflowPersistenceError if the data is newer than the current version
+ * or if a migration fails
+ */
+export async function migratePersistedData(
+  data: PersistedWorkflowData,
+  version: number,
+  migrations: Record<number, PersistenceMigration> = {}
+): Promise<PersistedWorkflowData> {
+  const savedVersion = data.version ?? 1;
+
+  if (savedVersion === version) {
+    return data;
+  }
+
+  if (savedVersion > version) {
+    throw new WorkflowPersistenceError(
+      `Persisted data version ${savedVersion} is newer than the current version ${version}`,
+      'VERSION_MISMATCH'
+    );
+  }
+
+  let migrated = data;
+  for (let targetVersion = savedVersion + 1; targetVersion <= version; targetVersion++) {
+    const migration = migrations[targetVersion];
+    if (!migration) continue;
+
+    try {
+      migrated = await migration(migrated);
+    } catch (error) {
+      throw new WorkflowPersistenceError(
+        `Migration to version ${targetVersion} failed: ${(error as Error).message}`,
+        'MIGRATION_FAILED',
+        error as Error
+      );
+    }
+  }
+
+  return { ...migrated, version };
+}
+
 /**
  * Generate a storage key for a workflow
  */
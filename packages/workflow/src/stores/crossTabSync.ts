@@ -0,0 +1,215 @@
+import type { CrossTabMode } from '@rilaykit/core';
+import type { WorkflowStore, WorkflowStoreState } from './workflowStore';
+
+// =================================================================
+// TRANSPORT
+// =================================================================
+
+/**
+ * Workflow state exchanged between tabs, with Sets serialized as arrays
+ */
+interface SharedWorkflowState {
+  currentStepIndex: number;
+  allData: Record<string, unknown>;
+  stepData: Record<string, unknown>;
+  visitedSteps: string[];
+  passedSteps: string[];
+}
+
+type TabMessage =
+  | { type: 'state'; tabId: string; state: SharedWorkflowState }
+  // Sent by a tab once initialized, the open tabs answer with their state
+  | { type: 'request'; tabId: string }
+  | { type: 'claim'; tabId: string };
+
+interface TabTransport {
+  post: (message: TabMessage) => void;
+  close: () => void;
+}
+
+const STORAGE_KEY_PREFIX = 'rilay_tab_sync_';
+
+/**
+ * Messages go through BroadcastChannel when available, otherwise through
+ * `storage` events which localStorage fires in every other tab
+ */
+function createTabTransport(
+  channel: string,
+  onMessage: (message: TabMessage) => void
+): TabTransport | null {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const broadcastChannel = new BroadcastChannel(`${STORAGE_KEY_PREFIX}${channel}`);
+    broadcastChannel.onmessage = (event: MessageEvent<TabMessage>) => onMessage(event.data);
+
+    return {
+      post: (message) => broadcastChannel.postMessage(message),
+      close: () => broadcastChannel.close(),
+    };
+  }
+
+  if (typeof window !== 'undefined' && typeof localStorage !== 'undefined') {
+    const storageKey = `${STORAGE_KEY_PREFIX}${channel}`;
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === storageKey && event.newValue) {
+        onMessage(JSON.parse(event.newValue).message);
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+
+    return {
+      // The timestamp makes every write a change, so repeated messages still fire
+      post: (message) =>
+        localStorage.setItem(storageKey, JSON.stringify({ message, sentAt: Date.now() })),
+      close: () => window.removeEventListener('storage', handleStorage),
+    };
+  }
+
+  return null;
+}
+
+// =================================================================
+// SYNC LAYER
+// =================================================================
+
+export interface CrossTabSyncOptions {
+  /** Channel shared by the tabs showing the same workflow, usually its storage key */
+  channel: string;
+  mode: CrossTabMode;
+}
+
+export interface CrossTabSync {
+  /** Takes the workflow over from the other tabs (`lock` mode) */
+  takeOver: () => void;
+  /** Stops synchronizing */
+  dispose: () => void;
+}
+
+function toSharedState(state: WorkflowStoreState): SharedWorkflowState {
+  return {
+    currentStepIndex: state.currentStepIndex,
+    allData: state.allData,
+    stepData: state.stepData,
+    visitedSteps: Array.from(state.visitedSteps),
+    passedSteps: Array.from(state.passedSteps),
+  };
+}
+
+function createTabId(): string {
+  return `tab-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}`;
+}
+
+/**
+ * Synchronizes a workflow store with the same workflow open in other tabs
+ *
+ * In `sync` mode, every change is broadcast and applied by the other tabs, and a tab
+ * opened later starts from the state of the open tabs rather than from its persisted
+ * draft, which may be behind. In `lock` mode, the tab starting the sync claims the workflow and the other tabs are marked
+ * `isLockedElsewhere` until they take it back with `takeOver()`.
+ *
+ * Does nothing outside the browser.
+ */
+export function syncWorkflowStoreAcrossTabs(
+  store: WorkflowStore,
+  { channel, mode }: CrossTabSyncOptions
+): CrossTabSync {
+  const tabId = createTabId();
+  // Last state sent or received, avoids echoing a remote change back to its sender
+  let lastSharedState = '';
+
+  const transport = createTabTransport(channel, (message) => {
+    if (message.tabId === tabId) return;
+
+    if (message.type === 'claim') {
+      if (mode === 'lock') {
+        store.getState()._setLockedElsewhere(true);
+      }
+      return;
+    }
+
+    if (mode !== 'sync' || store.getState().isInitializing) return;
+
+    if (message.type === 'request') {
+      // Answered even when unchanged since last shared: the new tab has not seen it
+      shareState(true);
+      return;
+    }
+
+    const serialized = JSON.stringify(message.state);
+    if (serialized === lastSharedState) return;
+
+    lastSharedState = serialized;
+    store.getState()._applyExternalState({
+      currentStepIndex: message.state.currentStepIndex,
+      allData: message.state.allData,
+      stepData: message.state.stepData,
+      visitedSteps: new Set(message.state.visitedSteps),
+      passedSteps: new Set(message.state.passedSteps),
+    });
+  });
+
+  if (!transport) {
+    return { takeOver: () => {}, dispose: () => {} };
+  }
+
+  const claim = () => {
+    store.getState()._setLockedElsewhere(false);
+    transport.post({ type: 'claim', tabId });
+  };
+
+  const shareState = (force = false) => {
+    const shared = toSharedState(store.getState());
+    const serialized = JSON.stringify(shared);
+    if (!force && serialized === lastSharedState) return;
+
+    lastSharedState = serialized;
+    transport.post({ type: 'state', tabId, state: shared });
+  };
+
+  // Asks the open tabs for their state, the answers equal to it are ignored
+  const requestState = () => {
+    lastSharedState = JSON.stringify(toSharedState(store.getState()));
+    transport.post({ type: 'request', tabId });
+  };
+
+  const unsubscribe =
+    mode === 'sync'
+      ? store.subscribe(
+          (state) =>
+            [
+              state.isInitializing,
+              state.currentStepIndex,
+              state.allData,
+              state.stepData,
+              state.visitedSteps,
+              state.passedSteps,
+            ] as const,
+          ([isInitializing], [wasInitializing]) => {
+            if (isInitializing) return;
+            // The state just loaded is not shared, the open tabs may be ahead of it
+            if (wasInitializing) {
+              requestState();
+              return;
+            }
+
+            shareState();
+          },
+          { equalityFn: (a, b) => a.every((value, index) => Object.is(value, b[index])) }
+        )
+      : () => {};
+
+  if (mode === 'sync' && !store.getState().isInitializing) {
+    requestState();
+  }
+
+  if (mode === 'lock') {
+    claim();
+  }
+
+  return {
+    takeOver: claim,
+    dispose: () => {
+      unsubscribe();
+      transport.close();
+    },
+  };
+}
@@ -1 +1,2 @@
 export * from './workflowStore';
+export * from './crossTabSync';
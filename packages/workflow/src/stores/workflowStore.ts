@@ -1,6 +1,9 @@
+import type { HistoryOptions, HistoryPatch } from '@rilaykit/core';
+import { StateHistory, applyHistoryEntry } from '@rilaykit/core';
 import { createContext, useContext } from 'react';
 import { createStore, useStore } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
+import { assignStepData, getStepData, getStepDataPath } from '../utils/dataFlattening';
 
 // =================================================================
 // STORE STATE & ACTIONS
@@ -23,9 +26,19 @@ export interface WorkflowStoreState {
   // Submission state
   isSubmitting: boolean;
 
+  // History state
+  canUndo: boolean;
+  canRedo: boolean;
+
+  // Cross-tab state
+  /** Whether another tab took over the workflow (cross-tab `lock` mode) */
+  isLockedElsewhere: boolean;
+
   // Internal state
   _defaultValues: Record<string, unknown>;
   _defaultStepIndex: number;
+  /** Incremented when values are restored (undo/redo, other tabs), lets the step form pick them up */
+  _restoreRevision: number;
 
   // Actions (internal - prefixed with _)
   _setCurrentStep: (stepIndex: number) => void;
@@ -39,12 +52,65 @@ export interface WorkflowStoreState {
   _markStepPassed: (stepId: string) => void;
   _reset: () => void;
   _loadPersistedState: (state: Partial<WorkflowStoreState>) => void;
+  /** Applies state coming from outside the step form, e.g. another tab */
+  _applyExternalState: (state: Partial<WorkflowStoreState>) => void;
+  _setLockedElsewhere: (isLockedElsewhere: boolean) => void;
+  _undo: () => void;
+  _redo: () => void;
+  /** Runs state changes that must not be recorded in the history */
+  _withoutHistory: (callback: () => void) => void;
 }
 
 // =================================================================
 // STORE FACTORY
 // =================================================================
 
+function isShallowEqual(
+  a: Record<string, unknown> | undefined,
+  b: Record<string, unknown> | undefined
+): boolean {
+  if (a === b) return true;
+  if (!a || !b) return false;
+
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => Object.is(a[key], b[key]));
+}
+
+/**
+ * Patches of the fields whose value differs between two versions of a record
+ */
+function diffFieldPatches(
+  path: string[],
+  previous: Record<string, unknown> | undefined,
+  next: Record<string, unknown> | undefined
+): HistoryPatch[] {
+  const fieldIds = new Set([...Object.keys(previous ?? {}), ...Object.keys(next ?? {})]);
+
+  return [...fieldIds]
+    .filter((fieldId) => !Object.is(previous?.[fieldId], next?.[fieldId]))
+    .map((fieldId) => ({
+      path: [...path, fieldId],
+      previous: previous?.[fieldId],
+      next: next?.[fieldId],
+    }));
+}
+
+/**
+ * Patches of a change of the data of a step in allData, field by field once the step has data
+ */
+function stepDataPatches(
+  allData: Record<string, unknown>,
+  stepId: string,
+  next: Record<string, unknown>
+): HistoryPatch[] {
+  const path = ['allData', ...getStepDataPath(allData, stepId)];
+  const previous = getStepData(allData, stepId) as Record<string, unknown> | undefined;
+
+  return previous === undefined
+    ? [{ path, previous, next }]
+    : diffFieldPatches(path, previous, next);
+}
+
 export type WorkflowStore = ReturnType<typeof createWorkflowStore>;
 
 export interface CreateWorkflowStoreOptions {
@@ -52,6 +118,10 @@ export interface CreateWorkflowStoreOptions {
   defaultStepIndex?: number;
   initialVisitedSteps?: Set<string>;
   initialPassedSteps?: Set<string>;
+  /**
+   * Enables undo/redo of value changes and navigation
+   */
+  history?: HistoryOptions | boolean;
 }
 
 export function createWorkflowStore(options: CreateWorkflowStoreOptions = {}) {
@@ -62,6 +132,20 @@ export function createWorkflowStore(options: CreateWorkflowStoreOptions = {}) {
     initialPassedSteps = new Set<string>(),
   } = options;
 
+  const history = options.history
+    ? new StateHistory(options.history === true ? {} : options.history)
+    : null;
+  let isRecording = true;
+
+  const getHistoryFlags = () =>
+    history ? { canUndo: history.canUndo(), canRedo: history.canRedo() } : {};
+
+  const recordHistory = (patches: HistoryPatch[], groupKey?: string) => {
+    if (history && isRecording) {
+      history.record(patches, groupKey);
+    }
+  };
+
   return createStore<WorkflowStoreState>()(
     subscribeWithSelector((set, get) => ({
       // Initial state
@@ -73,41 +157,62 @@ export function createWorkflowStore(options: CreateWorkflowStoreOptions = {}) {
       visitedSteps: new Set(initialVisitedSteps),
       passedSteps: new Set(initialPassedSteps),
       isSubmitting: false,
+      canUndo: false,
+      canRedo: false,
+      isLockedElsewhere: false,
 
       // Internal state
       _defaultValues: { ...defaultValues },
       _defaultStepIndex: defaultStepIndex,
+      _restoreRevision: 0,
 
       // Actions
       _setCurrentStep: (stepIndex) => {
-        set({ currentStepIndex: stepIndex });
+        const previous = get().currentStepIndex;
+        if (previous !== stepIndex) {
+          recordHistory([{ path: ['currentStepIndex'], previous, next: stepIndex }]);
+        }
+
+        set({ currentStepIndex: stepIndex, ...getHistoryFlags() });
       },
 
       _setStepData: (data, stepId) => {
-        set((state) => ({
-          stepData: data,
-          allData: {
-            ...state.allData,
-            [stepId]: data,
-          },
-        }));
+        const state = get();
+        const allData = assignStepData(state.allData, stepId, data);
+        const existingData = getStepData(state.allData, stepId) as Record<string, unknown>;
+
+        if (history && !isShallowEqual(existingData, data)) {
+          recordHistory([
+            ...stepDataPatches(state.allData, stepId, data),
+            ...diffFieldPatches(['stepData'], state.stepData, data),
+          ]);
+        }
+
+        set({ stepData: data, allData, ...getHistoryFlags() });
       },
 
       _setAllData: (data) => {
-        set({ allData: data });
+        recordHistory([{ path: ['allData'], previous: get().allData, next: data }]);
+        set({ allData: data, ...getHistoryFlags() });
       },
 
       _setFieldValue: (fieldId, value, stepId) => {
-        set((state) => {
-          const newStepData = { ...state.stepData, [fieldId]: value };
-          return {
-            stepData: newStepData,
-            allData: {
-              ...state.allData,
-              [stepId]: newStepData,
-            },
-          };
-        });
+        const state = get();
+        const newStepData = { ...state.stepData, [fieldId]: value };
+        const allData = assignStepData(state.allData, stepId, newStepData);
+        const existingData = getStepData(state.allData, stepId) as Record<string, unknown>;
+
+        if (history && existingData?.[fieldId] !== value) {
+          recordHistory(
+            [
+              ...stepDataPatches(state.allData, stepId, newStepData),
+              { path: ['stepData', fieldId], previous: state.stepData[fieldId], next: value },
+            ],
+            `${stepId}.${fieldId}`
+          );
+        }
+
+        set({ stepData: newStepData, allData, ...getHistoryFlags() });
       },
 
       _setSubmitting: (isSubmitting) => {
@@ -136,7 +241,9 @@ export function createWorkflowStore(options: CreateWorkflowStoreOptions = {}) {
 
       _reset: () => {
         const state = get();
+        history?.clear();
         set({
+          ...getHistoryFlags(),
           currentStepIndex: state._defaultStepIndex,
           allData: { ...state._defaultValues },
           stepData: {},
@@ -149,12 +256,58 @@ export function createWorkflowStore(options: CreateWorkflowStoreOptions = {}) {
       },
 
       _loadPersistedState: (persistedState) => {
+        history?.clear();
         set((state) => ({
           ...state,
           ...persistedState,
+          ...getHistoryFlags(),
           isInitializing: false,
         }));
       },
+
+      _applyExternalState: (externalState) => {
+        history?.clear();
+        set((state) => ({
+          ...externalState,
+          ...getHistoryFlags(),
+          _restoreRevision: state._restoreRevision + 1,
+        }));
+      },
+
+      _setLockedElsewhere: (isLockedElsewhere) => {
+        set({ isLockedElsewhere });
+      },
+
+      _undo: () => {
+        const entry = history?.undo();
+        if (!entry) return;
+
+        set((state) => ({
+          ...applyHistoryEntry(state, entry, 'undo'),
+          ...getHistoryFlags(),
+          _restoreRevision: state._restoreRevision + 1,
+        }));
+      },
+
+      _redo: () => {
+        const entry = history?.redo();
+        if (!entry) return;
+
+        set((state) => ({
+          ...applyHistoryEntry(state, entry, 'redo'),
+          ...getHistoryFlags(),
+          _restoreRevision: state._restoreRevision + 1,
+        }));
+      },
+
+      _withoutHistory: (callback) => {
+        isRecording = false;
+        try {
+          callback();
+        } finally {
+          isRecording = true;
+        }
+      },
     }))
   );
 }
@@ -234,7 +387,10 @@ export function useWorkflowStepData(): Record<string, unknown> {
  */
 export function useStepDataById(stepId: string): Record<string, unknown> | undefined {
   const store = useWorkflowStore();
-  return useStore(store, (state) => state.allData[stepId] as Record<string, unknown> | undefined);
+  return useStore(
+    store,
+    (state) => getStepData(state.allData, stepId) as Record<string, unknown> | undefined
+  );
 }
 
 /**
@@ -317,14 +473,20 @@ export interface UseWorkflowActionsResult {
   markStepPassed: (stepId: string) => void;
   reset: () => void;
   loadPersistedState: (state: Partial<WorkflowStoreState>) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
 }
 
 /**
  * Get stable action references for workflow
- * Actions don't cause re-renders
+ * Actions don't cause re-renders, only `canUndo` / `canRedo` changes do
  */
 export function useWorkflowActions(): UseWorkflowActionsResult {
   const store = useWorkflowStore();
+  const canUndo = useStore(store, (state) => state.canUndo);
+  const canRedo = useStore(store, (state) => state.canRedo);
 
   return {
     setCurrentStep: (stepIndex) => store.getState()._setCurrentStep(stepIndex),
@@ -339,6 +501,10 @@ export function useWorkflowActions(): UseWorkflowActionsResult {
     markStepPassed: (stepId) => store.getState()._markStepPassed(stepId),
     reset: () => store.getState()._reset(),
     loadPersistedState: (state) => store.getState()._loadPersistedState(state),
+    undo: () => store.getState()._undo(),
+    redo: () => store.getState()._redo(),
+    canUndo,
+    canRedo,
   };
 }
 
@@ -85,6 +85,91 @@ export function combineWorkflowDataForConditions(
   };
 }
 
+/**
+ * Reads the data of a step from a workflow data structure
+ *
+ * Steps spliced from a sub-workflow have dotted IDs (`parent.child`) and their data
+ * is stored nested under the parent step ID. A direct key match is tried first.
+ *
+ * @param workflowData - The complete workflow data
+ * @param stepId - The ID of the step
+ * @returns The step data, or undefined when the step has no data yet
+ */
+export function getStepData(
+  workflowData: Record<string, any>,
+  stepId: string
+): Record<string, any> | undefined {
+  if (stepId in workflowData) {
+    return workflowData[stepId];
+  }
+
+  let current: any = workflowData;
+  for (const segment of stepId.split('.')) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = current[segment];
+  }
+
+  return current;
+}
+
+/**
+ * Replaces the data of a step in a workflow data structure, nesting it under
+ * the parent step IDs for sub-workflow steps
+ *
+ * @param workflowData - The existing workflow data
+ * @param stepId - The ID of the step
+ * @param stepData - The new data for this step
+ * @returns Updated workflow data
+ */
+export function assignStepData(
+  workflowData: Record<string, any>,
+  stepId: string,
+  stepData: Record<string, any>
+): Record<string, any> {
+  const [head, ...rest] = stepId.split('.');
+
+  if (rest.length === 0 || stepId in workflowData) {
+    return { ...workflowData, [stepId]: stepData };
+  }
+
+  const parentData = workflowData[head];
+  return {
+    ...workflowData,
+    [head]: assignStepData(
+      parentData !== null && typeof parentData === 'object' ? parentData : {},
+      rest.join('.'),
+      stepData
+    ),
+  };
+}
+
+/**
+ * Resolves the path of the data of a step in a workflow data structure, following
+ * the nesting of assignStepData
+ *
+ * @param workflowData - The complete workflow data
+ * @param stepId - The ID of the step
+ * @returns The keys leading to the step data
+ */
+export function getStepDataPath(workflowData: Record<string, any>, stepId: string): string[] {
+  const [head, ...rest] = stepId.split('.');
+
+  if (rest.length === 0 || stepId in workflowData) {
+    return [stepId];
+  }
+
+  const parentData = workflowData[head];
+  return [
+    head,
+    ...getStepDataPath(
+      parentData !== null && typeof parentData === 'object' ? parentData : {},
+      rest.join('.')
+    ),
+  ];
+}
+
 /**
  * Extracts step-specific data from a nested workflow data structure
  *
@@ -96,7 +181,7 @@ export function extractStepData(
   workflowData: Record<string, any>,
   stepId: string
 ): Record<string, any> {
-  return workflowData[stepId] || {};
+  return getStepData(workflowData, stepId) || {};
 }
 
 /**
@@ -112,11 +197,8 @@ export function mergeStepData(
   stepId: string,
   stepData: Record<string, any>
 ): Record<string, any> {
-  return {
-    ...workflowData,
-    [stepId]: {
-      ...(workflowData[stepId] || {}),
-      ...stepData,
-    },
-  };
+  return assignStepData(workflowData, stepId, {
+    ...extractStepData(workflowData, stepId),
+    ...stepData,
+  });
 }
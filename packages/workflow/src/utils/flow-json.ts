@@ -0,0 +1,411 @@
+/**
+ * JSON format of workflow definitions, produced by `flow.toJSON()` and read by `flow.fromJSON()`
+ *
+ * Only the declarative parts of a workflow are serialized: callbacks, guards, custom
+ * renderers, analytics, plugins and persistence adapters are code and stay in code.
+ */
+
+import {
+  type ConditionConfig,
+  type ConditionalBehaviorJSON,
+  type HistoryOptions,
+  SERIALIZATION_VERSION,
+  type SerializationIssue,
+  type StepConditionalBehavior,
+  type StepConfig,
+  type StepGroup,
+  checkJsonValue,
+  checkKnownKeys,
+  isPlainObject,
+  joinPath,
+  omitUndefined,
+  parseCondition,
+  parseConditionalBehavior,
+  readOptional,
+  readString,
+  type ril,
+  serializeCondition,
+  serializeConditionalBehavior,
+} from '@rilaykit/core';
+import {
+  FORM_JSON_SCHEMA_DEFS,
+  type FormDefinitionJSON,
+  form,
+  parseFormDefinition,
+  serializeFormDefinition,
+} from '@rilaykit/forms';
+
+// =================================================================
+// JSON TYPES
+// =================================================================
+
+export interface StepTransitionJSON {
+  when?: ConditionConfig;
+  goTo: string;
+}
+
+export interface StepJSON {
+  id: string;
+  title: string;
+  description?: string;
+  allowSkip?: boolean;
+  conditions?: ConditionalBehaviorJSON;
+  next?: StepTransitionJSON[];
+  group?: StepGroup;
+  metadata?: Record<string, unknown>;
+  form: FormDefinitionJSON;
+}
+
+/**
+ * Document produced by `flow.toJSON()`
+ */
+export interface FlowJSON {
+  $schema?: string;
+  version: number;
+  id: string;
+  name: string;
+  description?: string;
+  steps: StepJSON[];
+  history?: HistoryOptions | boolean;
+}
+
+/**
+ * Workflow definition restored from JSON
+ */
+export interface ParsedFlowDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  steps: StepConfig[];
+  history?: HistoryOptions | boolean;
+}
+
+const STEP_CONDITION_KEYS = ['visible', 'skippable'] as const;
+
+// =================================================================
+// SERIALIZATION
+// =================================================================
+
+function serializeStep(step: StepConfig, path: string, issues: SerializationIssue[]): StepJSON {
+  if (step.metadata) {
+    checkJsonValue(step.metadata, joinPath(path, 'metadata'), issues);
+  }
+
+  const { formConfig } = step;
+
+  return omitUndefined({
+    id: step.id,
+    title: step.title,
+    description: step.description,
+    allowSkip: step.allowSkip || undefined,
+    conditions: serializeConditionalBehavior(step.conditions),
+    next: step.next?.map((transition) =>
+      omitUndefined({
+        when: transition.when ? serializeCondition(transition.when) : undefined,
+        goTo: transition.goTo,
+      })
+    ),
+    group: step.group ? omitUndefined({ ...step.group }) : undefined,
+    metadata: step.metadata,
+    form: serializeFormDefinition(
+      {
+        id: formConfig.id,
+        rows: formConfig.rows,
+        validation: formConfig.validation,
+        submitOptions: formConfig.submitOptions,
+      },
+      joinPath(path, 'form'),
+      issues
+    ),
+  });
+}
+
+/**
+ * Serializes a workflow definition, reporting what cannot be represented in JSON
+ */
+export function serializeFlowDefinition(
+  definition: ParsedFlowDefinition,
+  issues: SerializationIssue[]
+): FlowJSON {
+  return omitUndefined({
+    version: SERIALIZATION_VERSION,
+    id: definition.id,
+    name: definition.name,
+    description: definition.description,
+    steps: definition.steps.map((step, index) =>
+      serializeStep(step, joinPath('steps', index), issues)
+    ),
+    history: definition.history,
+  });
+}
+
+// =================================================================
+// DESERIALIZATION
+// =================================================================
+
+function parseTransitions(
+  value: unknown,
+  path: string,
+  issues: SerializationIssue[]
+): StepJSON['next'] {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'Expected an array of transitions' });
+    return undefined;
+  }
+
+  return value.flatMap((transition, index) => {
+    const transitionPath = joinPath(path, index);
+    if (!isPlainObject(transition)) {
+      issues.push({ path: transitionPath, message: 'Expected a transition object' });
+      return [];
+    }
+
+    checkKnownKeys(transition, ['when', 'goTo'], transitionPath, issues);
+    const goTo = readString(transition, 'goTo', transitionPath, issues);
+    const when =
+      transition.when === undefined
+        ? undefined
+        : parseCondition(transition.when, joinPath(transitionPath, 'when'), issues);
+
+    return goTo ? [omitUndefined({ when, goTo })] : [];
+  });
+}
+
+function parseGroup(
+  value: unknown,
+  path: string,
+  issues: SerializationIssue[]
+): StepGroup | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isPlainObject(value)) {
+    issues.push({ path, message: 'Expected a group object' });
+    return undefined;
+  }
+
+  checkKnownKeys(value, ['id', 'title', 'description'], path, issues);
+
+  return omitUndefined({
+    id: readString(value, 'id', path, issues) as string,
+    title: readString(value, 'title', path, issues) as string,
+    description: readOptional<string>(value, 'description', 'string', path, issues),
+  });
+}
+
+function parseHistory(
+  value: unknown,
+  issues: SerializationIssue[]
+): HistoryOptions | boolean | undefined {
+  if (value === undefined || typeof value === 'boolean') {
+    return value;
+  }
+  if (!isPlainObject(value)) {
+    issues.push({ path: 'history', message: 'Expected a boolean or a history options object' });
+    return undefined;
+  }
+
+  checkKnownKeys(value, ['depth', 'groupingMs'], 'history', issues);
+
+  return omitUndefined({
+    depth: readOptional<number>(value, 'depth', 'number', 'history', issues),
+    groupingMs: readOptional<number>(value, 'groupingMs', 'number', 'history', issues),
+  });
+}
+
+/**
+ * Validates a workflow definition and rebuilds its steps, components must be registered
+ * on `config`
+ */
+export function parseFlowDefinition(
+  value: unknown,
+  config: ril<any>,
+  issues: SerializationIssue[]
+): ParsedFlowDefinition | undefined {
+  if (!isPlainObject(value)) {
+    issues.push({ path: '', message: 'Expected a workflow object' });
+    return undefined;
+  }
+
+  checkKnownKeys(
+    value,
+    ['$schema', 'version', 'id', 'name', 'description', 'steps', 'history'],
+    '',
+    issues
+  );
+  const id = readString(value, 'id', '', issues);
+  const name = readString(value, 'name', '', issues);
+  const description = readOptional<string>(value, 'description', 'string', '', issues);
+  const history = parseHistory(value.history, issues);
+
+  if (!Array.isArray(value.steps)) {
+    issues.push({ path: 'steps', message: 'Expected an array of steps' });
+    return undefined;
+  }
+
+  const stepIds = value.steps.map((step) => (isPlainObject(step) ? step.id : undefined));
+  const parsedSteps = value.steps.map((step, index) => {
+    const path = joinPath('steps', index);
+    if (!isPlainObject(step)) {
+      issues.push({ path, message: 'Expected a step object' });
+      return undefined;
+    }
+
+    checkKnownKeys(
+      step,
+      [
+        'id',
+        'title',
+        'description',
+        'allowSkip',
+        'conditions',
+        'next',
+        'group',
+        'metadata',
+        'form',
+      ],
+      path,
+      issues
+    );
+
+    const next = parseTransitions(step.next, joinPath(path, 'next'), issues);
+    next?.forEach((transition, transitionIndex) => {
+      if (!stepIds.includes(transition.goTo)) {
+        issues.push({
+          path: joinPath(joinPath(joinPath(path, 'next'), transitionIndex), 'goTo'),
+          message: `Unknown step "${transition.goTo}"`,
+        });
+      }
+    });
+
+    if (step.metadata !== undefined) {
+      if (isPlainObject(step.metadata)) {
+        checkJsonValue(step.metadata, joinPath(path, 'metadata'), issues);
+      } else {
+        issues.push({ path: joinPath(path, 'metadata'), message: 'Expected an object' });
+      }
+    }
+
+    parseFormDefinition(step.form, config, joinPath(path, 'form'), issues);
+
+    return {
+      id: readString(step, 'id', path, issues) as string,
+      title: readString(step, 'title', path, issues) as string,
+      description: readOptional<string>(step, 'description', 'string', path, issues),
+      allowSkip: readOptional<boolean>(step, 'allowSkip', 'boolean', path, issues) ?? false,
+      conditions: parseConditionalBehavior(
+        step.conditions,
+        STEP_CONDITION_KEYS,
+        joinPath(path, 'conditions'),
+        issues
+      ) as StepConditionalBehavior | undefined,
+      next,
+      group: parseGroup(step.group, joinPath(path, 'group'), issues),
+      metadata: step.metadata as Record<string, unknown> | undefined,
+      form: step.form,
+    };
+  });
+
+  if (issues.length > 0) {
+    return undefined;
+  }
+
+  // Forms are valid at this point, build them as the flow builder does for form builders
+  const steps = parsedSteps.flatMap((parsed): StepConfig[] => {
+    if (!parsed) return [];
+
+    const { form: formJson, ...step } = parsed;
+    const formConfig = form
+      .create(config)
+      .fromJSON(formJson as FormDefinitionJSON)
+      .build();
+    return [omitUndefined({ ...step, formConfig })];
+  });
+
+  return omitUndefined({ id: id as string, name: name as string, description, steps, history });
+}
+
+// =================================================================
+// JSON SCHEMA
+// =================================================================
+
+/**
+ * JSON Schema (draft 2020-12) of the documents produced by `flow.toJSON()`
+ */
+export const FLOW_JSON_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  title: 'Rilay workflow',
+  type: 'object',
+  required: ['version', 'id', 'name', 'steps'],
+  additionalProperties: false,
+  properties: {
+    $schema: { type: 'string' },
+    version: { const: SERIALIZATION_VERSION },
+    id: { type: 'string', minLength: 1 },
+    name: { type: 'string', minLength: 1 },
+    description: { type: 'string' },
+    steps: { type: 'array', items: { $ref: '#/$defs/step' } },
+    history: {
+      oneOf: [
+        { type: 'boolean' },
+        {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            depth: { type: 'number' },
+            groupingMs: { type: 'number' },
+          },
+        },
+      ],
+    },
+  },
+  $defs: {
+    ...FORM_JSON_SCHEMA_DEFS,
+    step: {
+      type: 'object',
+      required: ['id', 'title', 'form'],
+      additionalProperties: false,
+      properties: {
+        id: { type: 'string', minLength: 1 },
+        title: { type: 'string', minLength: 1 },
+        description: { type: 'string' },
+        allowSkip: { type: 'boolean' },
+        conditions: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            visible: { $ref: '#/$defs/condition' },
+            skippable: { $ref: '#/$defs/condition' },
+          },
+        },
+        next: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['goTo'],
+            additionalProperties: false,
+            properties: {
+              when: { $ref: '#/$defs/condition' },
+              goTo: { type: 'string', minLength: 1 },
+            },
+          },
+        },
+        group: {
+          type: 'object',
+          required: ['id', 'title'],
+          additionalProperties: false,
+          properties: {
+            id: { type: 'string' },
+            title: { type: 'string' },
+            description: { type: 'string' },
+          },
+        },
+        metadata: { type: 'object' },
+        form: { $ref: '#/$defs/formDefinition' },
+      },
+    },
+  },
+} as const;
@@ -0,0 +1,212 @@
+/**
+ * Utility functions for resolving declarative step transitions (`next`)
+ * into the path a user actually takes through a workflow
+ */
+
+import type { ConditionBuilder, ConditionConfig, StepConfig } from '@rilaykit/core';
+import { evaluateCondition } from '@rilaykit/core';
+
+/**
+ * Evaluates a transition condition, accepting both built configs and condition builders
+ */
+function evaluateTransitionCondition(
+  condition: ConditionConfig | ConditionBuilder,
+  data: Record<string, any>
+): boolean {
+  try {
+    if (condition && typeof condition === 'object' && 'build' in condition) {
+      return evaluateCondition(condition.build(), data);
+    }
+    return evaluateCondition(condition, data);
+  } catch (error) {
+    console.warn('Error evaluating step transition:', error);
+    return false;
+  }
+}
+
+/**
+ * Finds a step index by ID
+ *
+ * A sub-workflow step ID resolves to the first step spliced from that sub-workflow.
+ *
+ * @param steps - All workflow steps
+ * @param stepId - The step ID to look for
+ * @returns The step index, or -1 when not found
+ */
+export function findStepIndexById(steps: StepConfig[], stepId: string): number {
+  const index = steps.findIndex((step) => step.id === stepId);
+  if (index !== -1) return index;
+
+  return steps.findIndex((step) => step.id.startsWith(`${stepId}.`));
+}
+
+/**
+ * Resolves the index of the step that follows `fromIndex`
+ *
+ * Transitions declared in `next` are evaluated in order and the first one whose
+ * condition matches (or that has no condition) and whose target is visible wins.
+ * When no transition applies, the next visible step in declaration order is used.
+ *
+ * @param steps - All workflow steps
+ * @param fromIndex - Index of the step to navigate from
+ * @param data - Flattened workflow data used to evaluate transition conditions
+ * @param isStepVisible - Visibility check for a step index
+ * @returns The index of the next step, or null when the workflow ends here
+ */
+export function resolveNextStepIndex(
+  steps: StepConfig[],
+  fromIndex: number,
+  data: Record<string, any>,
+  isStepVisible: (stepIndex: number) => boolean
+): number | null {
+  const transitions = steps[fromIndex]?.next ?? [];
+
+  for (const transition of transitions) {
+    if (transition.when && !evaluateTransitionCondition(transition.when, data)) {
+      continue;
+    }
+
+    const targetIndex = findStepIndexById(steps, transition.goTo);
+    if (targetIndex !== -1 && isStepVisible(targetIndex)) {
+      return targetIndex;
+    }
+  }
+
+  for (let i = fromIndex + 1; i < steps.length; i++) {
+    if (isStepVisible(i)) {
+      return i;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Computes the ordered list of step indices a user goes through with the current data
+ *
+ * Starts from the first visible step and follows resolved transitions until the end
+ * of the workflow. A step is never included twice, which protects against cycles.
+ *
+ * @param steps - All workflow steps
+ * @param data - Flattened workflow data used to evaluate transition conditions
+ * @param isStepVisible - Visibility check for a step index
+ * @returns Step indices in navigation order
+ */
+export function computeStepPath(
+  steps: StepConfig[],
+  data: Record<string, any>,
+  isStepVisible: (stepIndex: number) => boolean
+): number[] {
+  const path: number[] = [];
+  const seen = new Set<number>();
+
+  let currentIndex: number | null = steps.findIndex((_, index) => isStepVisible(index));
+  if (currentIndex === -1) return path;
+
+  while (currentIndex !== null && !seen.has(currentIndex)) {
+    path.push(currentIndex);
+    seen.add(currentIndex);
+    currentIndex = resolveNextStepIndex(steps, currentIndex, data, isStepVisible);
+  }
+
+  return path;
+}
+
+/**
+ * Steps the user actually went through to reach the current one
+ */
+export interface StepPathHistory {
+  /** Indices of the steps left to reach the current step, oldest first */
+  stepIndexes: number[];
+  /** Index of the step the history leads to, the history is ignored on other steps */
+  currentStepIndex: number;
+}
+
+/**
+ * Records a navigation in the path history
+ *
+ * Going to a step of the path goes back along it. Going back to a step that is not
+ * on the path (e.g. after a restore) starts a new history.
+ *
+ * @param history - The current path history
+ * @param fromIndex - Index of the step left
+ * @param toIndex - Index of the step entered
+ * @param isBack - Whether the navigation goes to the previous step
+ * @returns The updated path history
+ */
+export function recordStepTransition(
+  history: StepPathHistory,
+  fromIndex: number,
+  toIndex: number,
+  isBack: boolean
+): StepPathHistory {
+  const stepIndexes = history.currentStepIndex === fromIndex ? history.stepIndexes : [];
+  const position = stepIndexes.indexOf(toIndex);
+
+  if (position !== -1) {
+    return { stepIndexes: stepIndexes.slice(0, position), currentStepIndex: toIndex };
+  }
+  return { stepIndexes: isBack ? [] : [...stepIndexes, fromIndex], currentStepIndex: toIndex };
+}
+
+/**
+ * Finds the last visible step of the path history that led to `stepIndex`
+ *
+ * @param history - The current path history
+ * @param stepIndex - Index of the step to go back from
+ * @param isStepVisible - Visibility check for a step index
+ * @returns The step index, or undefined when the history does not lead to that step
+ */
+export function findPreviousStepOnPath(
+  history: StepPathHistory,
+  stepIndex: number,
+  isStepVisible: (stepIndex: number) => boolean
+): number | undefined {
+  if (history.currentStepIndex !== stepIndex) return undefined;
+
+  for (let i = history.stepIndexes.length - 1; i >= 0; i--) {
+    if (isStepVisible(history.stepIndexes[i])) {
+      return history.stepIndexes[i];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Builds the static transition graph of a workflow
+ *
+ * Edges over-approximate what can happen at runtime: every transition target is
+ * considered reachable, and the declaration-order fallback also reaches past steps
+ * that may be hidden by a visibility condition. The fallback is only dropped when a
+ * step declares a default (unconditional) transition to an always-visible step.
+ *
+ * @param steps - All workflow steps
+ * @returns Adjacency list of step indices
+ */
+export function buildStepGraph(steps: StepConfig[]): number[][] {
+  return steps.map((step, index) => {
+    const targets = new Set<number>();
+    let hasDefaultTransition = false;
+
+    for (const transition of step.next ?? []) {
+      const targetIndex = findStepIndexById(steps, transition.goTo);
+      if (targetIndex !== -1) {
+        targets.add(targetIndex);
+      }
+      if (!transition.when) {
+        // A hidden default target falls through to the next transitions at runtime
+        hasDefaultTransition = targetIndex !== -1 && !steps[targetIndex].conditions?.visible;
+        if (hasDefaultTransition) break;
+      }
+    }
+
+    if (!hasDefaultTransition) {
+      for (let i = index + 1; i < steps.length; i++) {
+        targets.add(i);
+        if (!steps[i].conditions?.visible) break;
+      }
+    }
+
+    return [...targets];
+  });
+}
@@ -0,0 +1,175 @@
+/**
+ * Utility functions for embedding a built workflow (sub-flow) as a single step
+ * of another workflow
+ */
+
+import type {
+  ConditionBuilder,
+  ConditionConfig,
+  StepConditionalBehavior,
+  StepConfig,
+  StepDataHelper,
+  StepGuard,
+  StepTransition,
+  WorkflowConfig,
+} from '@rilaykit/core';
+import { isFieldReference } from '@rilaykit/core';
+
+/**
+ * Parent step properties applied to the spliced sub-flow steps
+ */
+export interface SubflowParentStep {
+  id: string;
+  title: string;
+  description?: string;
+  allowSkip?: boolean;
+  conditions?: StepConditionalBehavior;
+  next?: StepTransition[];
+  canEnter?: StepGuard;
+  canLeave?: StepGuard;
+}
+
+/**
+ * Normalizes a condition builder to its plain configuration
+ */
+function toConditionConfig(condition: ConditionConfig | ConditionBuilder): ConditionConfig {
+  return 'build' in condition ? condition.build() : condition;
+}
+
+/**
+ * Prefixes condition fields that reference a sub-flow step with the parent step ID,
+ * so that sub-flow conditions keep pointing at their namespaced data
+ */
+function scopeSubflowCondition(
+  condition: ConditionConfig | ConditionBuilder,
+  parentId: string,
+  localStepIds: Set<string>
+): ConditionConfig {
+  const config = toConditionConfig(condition);
+  const scope = (field: string) =>
+    localStepIds.has(field.split('.')[0]) ? `${parentId}.${field}` : field;
+  const scopeOperand = <T>(operand: T) =>
+    isFieldReference(operand) ? { field: scope(operand.field) } : operand;
+
+  return {
+    ...config,
+    field: scope(config.field),
+    value: Array.isArray(config.value)
+      ? config.value.map(scopeOperand)
+      : scopeOperand(config.value),
+    conditions: config.conditions?.map((nested) =>
+      scopeSubflowCondition(nested, parentId, localStepIds)
+    ),
+  };
+}
+
+/**
+ * Wraps the helper of a sub-flow step callback so that the step IDs it is given,
+ * local to the sub-flow, resolve to the spliced step IDs. Local IDs take precedence
+ * over steps of the parent workflow with the same ID.
+ */
+function scopeStepDataHelper(
+  helper: StepDataHelper,
+  parentId: string,
+  localStepIds: Set<string>
+): StepDataHelper {
+  const scope = (stepId: string) =>
+    localStepIds.has(stepId.split('.')[0]) ? `${parentId}.${stepId}` : stepId;
+
+  return {
+    ...helper,
+    setStepData: (stepId, data) => helper.setStepData(scope(stepId), data),
+    setStepFields: (stepId, fields) => helper.setStepFields(scope(stepId), fields),
+    getStepData: (stepId) => helper.getStepData(scope(stepId)),
+    goToStep: (stepId) => helper.goToStep(scope(stepId)),
+  };
+}
+
+/**
+ * Combines the parent step visibility with the visibility of a sub-flow step
+ */
+function combineVisibility(
+  parentVisible: ConditionConfig | undefined,
+  stepVisible: ConditionConfig | undefined
+): ConditionConfig | undefined {
+  if (!parentVisible) return stepVisible;
+  if (!stepVisible) return parentVisible;
+
+  return {
+    field: '',
+    operator: 'exists',
+    conditions: [parentVisible, stepVisible],
+    logicalOperator: 'and',
+  };
+}
+
+/**
+ * Splices the steps of a sub-flow into the parent workflow
+ *
+ * Each sub-flow step gets an ID prefixed with the parent step ID (`parent.child`),
+ * which stores its data under `allData[parent][child]`. Conditions and transitions
+ * of the sub-flow are rewritten to the prefixed IDs, as are the step IDs given to the
+ * helper of its onAfterValidation callbacks. The parent visibility applies
+ * to every spliced step and the parent transitions apply after the last one. The parent
+ * guards apply when entering the first step and leaving the last one.
+ *
+ * @param parent - The step embedding the sub-flow
+ * @param subflow - The built sub-flow configuration
+ * @returns The spliced steps, grouped under the parent step
+ */
+export function spliceSubflowSteps(
+  parent: SubflowParentStep,
+  subflow: WorkflowConfig
+): StepConfig[] {
+  const localStepIds = new Set(subflow.steps.map((step) => step.id.split('.')[0]));
+  const scope = (condition: ConditionConfig | ConditionBuilder) =>
+    scopeSubflowCondition(condition, parent.id, localStepIds);
+
+  const parentVisible = parent.conditions?.visible
+    ? toConditionConfig(parent.conditions.visible)
+    : undefined;
+
+  return subflow.steps.map((step, index) => {
+    const isFirstStep = index === 0;
+    const isLastStep = index === subflow.steps.length - 1;
+    const stepVisible = step.conditions?.visible ? scope(step.conditions.visible) : undefined;
+    const stepSkippable = step.conditions?.skippable
+      ? scope(step.conditions.skippable)
+      : parent.conditions?.skippable;
+
+    const stepTransitions = step.next?.map((transition) => ({
+      when: transition.when ? scope(transition.when) : undefined,
+      goTo: `${parent.id}.${transition.goTo}`,
+    }));
+    // Parent transitions apply when none of the last step transitions does
+    const next =
+      isLastStep && parent.next ? [...(stepTransitions ?? []), ...parent.next] : stepTransitions;
+
+    const { onAfterValidation } = step;
+
+    const visible = combineVisibility(parentVisible, stepVisible);
+
+    return {
+      ...step,
+      id: `${parent.id}.${step.id}`,
+      allowSkip: step.allowSkip || parent.allowSkip || false,
+      conditions: visible || stepSkippable ? { visible, skippable: stepSkippable } : undefined,
+      next,
+      onAfterValidation: onAfterValidation
+        ? (stepData, helper, context) =>
+            onAfterValidation(
+              stepData,
+              scopeStepDataHelper(helper, parent.id, localStepIds),
+              context
+            )
+        : undefined,
+      canEnter: step.canEnter ?? (isFirstStep ? parent.canEnter : undefined),
+      canLeave: step.canLeave ?? (isLastStep ? parent.canLeave : undefined),
+      group: {
+        id: parent.id,
+        title: parent.title,
+        description: parent.description,
+      },
+    };
+  });
+}
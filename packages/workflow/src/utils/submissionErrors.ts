@@ -0,0 +1,97 @@
+/**
+ * Utility functions for showing the errors of a rejected workflow submission
+ * on the steps their fields belong to
+ */
+
+import { type StepConfig, SubmissionError, type ValidationError } from '@rilaykit/core';
+
+/**
+ * Checks whether the form of a step has a field or repeatable with this id
+ */
+function stepHasField(step: StepConfig, fieldId: string): boolean {
+  return (
+    step.formConfig.allFields.some((field) => field.id === fieldId) ||
+    !!step.formConfig.repeatableFields?.[fieldId]
+  );
+}
+
+/**
+ * Finds the step a path belongs to, with the path within that step's form
+ *
+ * Paths prefixed with a step id (`billing.items[2].qty`) belong to that step, other
+ * paths to the first step with a field of that id.
+ */
+function findStepOfPath(
+  steps: StepConfig[],
+  path: string
+): { stepIndex: number; fieldPath: string } | null {
+  for (let stepIndex = 0; stepIndex < steps.length; stepIndex++) {
+    const prefix = `${steps[stepIndex].id}.`;
+    if (path.startsWith(prefix)) {
+      const fieldPath = path.slice(prefix.length);
+      const fieldId = /^[^[.]+/.exec(fieldPath)?.[0] ?? fieldPath;
+      if (stepHasField(steps[stepIndex], fieldId)) {
+        return { stepIndex, fieldPath };
+      }
+    }
+  }
+
+  const fieldId = /^[^[.]+/.exec(path)?.[0] ?? path;
+  const stepIndex = steps.findIndex((step) => stepHasField(step, fieldId));
+  return stepIndex === -1 ? null : { stepIndex, fieldPath: path };
+}
+
+/**
+ * Splits the errors of a rejected submission by the step of their field
+ *
+ * The form-level errors, and the errors of paths that match no step, go to the first
+ * step with field errors, or to the fallback step when there is none.
+ *
+ * @param error - The rejected submission
+ * @param steps - All workflow steps
+ * @param fallbackStepIndex - Step receiving the errors when no field matches, usually the current one
+ * @returns The index of the first step with errors and the errors of each step, by step id
+ */
+export function splitSubmissionError(
+  error: SubmissionError,
+  steps: StepConfig[],
+  fallbackStepIndex: number
+): { firstStepIndex: number; stepErrors: Record<string, SubmissionError> } {
+  const fieldErrorsByStep = new Map<number, Record<string, ValidationError[]>>();
+  const unknownFieldErrors: Record<string, ValidationError[]> = {};
+
+  for (const [path, errors] of Object.entries(error.fieldErrors)) {
+    const location = findStepOfPath(steps, path);
+    if (!location) {
+      unknownFieldErrors[path] = errors;
+      continue;
+    }
+
+    const stepFieldErrors = fieldErrorsByStep.get(location.stepIndex) ?? {};
+    stepFieldErrors[location.fieldPath] = [
+      ...(stepFieldErrors[location.fieldPath] ?? []),
+      ...errors,
+    ];
+    fieldErrorsByStep.set(location.stepIndex, stepFieldErrors);
+  }
+
+  const firstStepIndex =
+    fieldErrorsByStep.size > 0 ? Math.min(...fieldErrorsByStep.keys()) : fallbackStepIndex;
+
+  // Paths matching no field are reported by the form of the first step as form-level errors
+  fieldErrorsByStep.set(firstStepIndex, {
+    ...fieldErrorsByStep.get(firstStepIndex),
+    ...unknownFieldErrors,
+  });
+
+  const stepErrors: Record<string, SubmissionError> = {};
+  for (const [stepIndex, fieldErrors] of fieldErrorsByStep) {
+    stepErrors[steps[stepIndex].id] = new SubmissionError(
+      fieldErrors,
+      stepIndex === firstStepIndex ? error.formErrors : [],
+      error.message
+    );
+  }
+
+  return { firstStepIndex, stepErrors };
+}
@@ -0,0 +1,63 @@
+import { type ComponentRenderProps, type WorkflowConfig, ril } from '@rilaykit/core';
+import { form } from '@rilaykit/forms';
+import React from 'react';
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { type InferWorkflowData, flow } from '../../src/builders/flow';
+import type { WorkflowProviderProps } from '../../src/components/WorkflowProvider';
+
+const TextInput = (_props: ComponentRenderProps<{ label?: string }, string>) =>
+  React.createElement('input');
+const NumberInput = (_props: ComponentRenderProps<{ label?: string }, number>) =>
+  React.createElement('input');
+
+const rilConfig = ril
+  .create()
+  .addComponent('text', { name: 'Text', renderer: TextInput })
+  .addComponent('number', { name: 'Number', renderer: NumberInput });
+
+const shippingForm = form
+  .create(rilConfig, 'shipping')
+  .add({ id: 'country', type: 'text' }, { id: 'zip', type: 'text' });
+const paymentForm = form.create(rilConfig, 'payment').add({ id: 'amount', type: 'number' });
+
+describe('workflow data inference', () => {
+  it('should key the values of step forms by step id', () => {
+    const checkout = flow
+      .create(rilConfig, 'checkout')
+      .step({ id: 'shipping', title: 'Shipping', formConfig: shippingForm })
+      .addStep([{ id: 'payment', title: 'Payment', formConfig: paymentForm.build() }]);
+
+    expectTypeOf<InferWorkflowData<typeof checkout>>().toEqualTypeOf<{
+      shipping?: { country?: string; zip?: string };
+      payment?: { amount?: number };
+    }>();
+    expect(checkout.build().steps.map((step) => step.id)).toEqual(['shipping', 'payment']);
+  });
+
+  it('should nest the data of subflows under their step', () => {
+    const addressFlow = flow
+      .create(rilConfig, 'address')
+      .step({ id: 'street', title: 'Street', formConfig: shippingForm });
+    const onboarding = flow
+      .create(rilConfig, 'onboarding')
+      .step({ id: 'billing', title: 'Billing', subflow: addressFlow });
+
+    expectTypeOf<InferWorkflowData<typeof onboarding>>().toEqualTypeOf<{
+      billing?: { street?: { country?: string; zip?: string } };
+    }>();
+  });
+
+  it('should type the data received on completion', () => {
+    const workflowConfig = flow
+      .create(rilConfig)
+      .step({ id: 'payment', title: 'Payment', formConfig: paymentForm })
+      .build();
+
+    expectTypeOf(workflowConfig).toEqualTypeOf<WorkflowConfig<{ payment?: { amount?: number } }>>();
+    expectTypeOf<
+      WorkflowProviderProps<InferWorkflowData<typeof workflowConfig>>['onWorkflowComplete']
+    >()
+      .parameter(0)
+      .toEqualTypeOf<{ payment?: { amount?: number } }>();
+  });
+});
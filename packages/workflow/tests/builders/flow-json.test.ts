@@ -0,0 +1,142 @@
+import { SerializationError, required, ril, when } from '@rilaykit/core';
+import { form } from '@rilaykit/forms';
+import React from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { flow } from '../../src/builders/flow';
+
+describe('Flow JSON serialization', () => {
+  let rilConfig: any;
+
+  beforeEach(() => {
+    rilConfig = ril
+      .create()
+      .addComponent('text', {
+        name: 'Text Input',
+        renderer: () => React.createElement('input'),
+      })
+      .addComponent('select', {
+        name: 'Select',
+        renderer: () => React.createElement('select'),
+      });
+  });
+
+  const createCheckoutFlow = () =>
+    flow
+      .create(rilConfig, 'checkout', 'Checkout', 'Order checkout')
+      .addStep({
+        id: 'shipping',
+        title: 'Shipping',
+        formConfig: form
+          .create(rilConfig, 'shipping-form')
+          .add({ id: 'country', type: 'select', validation: { validate: required() } }),
+        next: [{ when: when('country').equals('US'), goTo: 'us-tax' }, { goTo: 'payment' }],
+        metadata: { icon: 'truck' },
+        canLeave: () => true,
+      })
+      .addStep({
+        id: 'us-tax',
+        title: 'US tax',
+        formConfig: form.create(rilConfig, 'tax-form').add({ id: 'ssn', type: 'text' }),
+        allowSkip: true,
+        conditions: { visible: when('shipping.country').equals('US') },
+      })
+      .addStep({
+        id: 'payment',
+        title: 'Payment',
+        formConfig: form.create(rilConfig, 'payment-form').add({ id: 'card', type: 'text' }),
+        after: vi.fn(),
+      })
+      .configure({ history: { depth: 20 } });
+
+  it('should export a versioned, JSON-compatible document', () => {
+    const json = createCheckoutFlow().toJSON();
+
+    expect(JSON.parse(JSON.stringify(json))).toEqual(json);
+    expect(json).toMatchObject({
+      version: 1,
+      id: 'checkout',
+      name: 'Checkout',
+      description: 'Order checkout',
+      history: { depth: 20 },
+    });
+    expect(json.steps[0]).toMatchObject({
+      id: 'shipping',
+      title: 'Shipping',
+      next: [
+        { when: { field: 'country', operator: 'equals', value: 'US' }, goTo: 'us-tax' },
+        { goTo: 'payment' },
+      ],
+      metadata: { icon: 'truck' },
+      form: {
+        id: 'shipping-form',
+        rows: [
+          {
+            kind: 'fields',
+            fields: [
+              {
+                id: 'country',
+                componentId: 'select',
+                validation: { validate: [{ name: 'required' }] },
+              },
+            ],
+          },
+        ],
+      },
+    });
+    expect(json.steps[1]).toMatchObject({
+      allowSkip: true,
+      conditions: { visible: { field: 'shipping.country', operator: 'equals', value: 'US' } },
+    });
+  });
+
+  it('should restore an equivalent workflow', () => {
+    const json = createCheckoutFlow().toJSON();
+
+    const restored = flow.create(rilConfig).fromJSON(JSON.parse(JSON.stringify(json)));
+    const workflowConfig = restored.build();
+
+    expect(restored.toJSON()).toEqual(json);
+    expect(workflowConfig.id).toBe('checkout');
+    expect(workflowConfig.history).toEqual({ depth: 20 });
+    expect(workflowConfig.steps.map((step) => step.id)).toEqual(['shipping', 'us-tax', 'payment']);
+    expect(workflowConfig.steps[0].formConfig.allFields[0].id).toBe('country');
+    expect(workflowConfig.steps[0].formConfig.config).toBe(rilConfig);
+  });
+
+  it('should keep code-level configuration of the builder', () => {
+    const plugin = { name: 'tracking', install: vi.fn() };
+    const builder = flow.create(rilConfig).use(plugin);
+
+    builder.fromJSON(createCheckoutFlow().toJSON());
+
+    expect(builder.build().plugins).toEqual([plugin]);
+  });
+
+  it('should report issues of nested forms and transitions with their path', () => {
+    const json = createCheckoutFlow().toJSON() as any;
+    json.steps[0].next[0].goTo = 'billing';
+    json.steps[2].form.rows[0].fields[0].componentId = 'card-input';
+
+    let error: SerializationError | undefined;
+    try {
+      flow.create(rilConfig).fromJSON(json);
+    } catch (caught) {
+      error = caught as SerializationError;
+    }
+
+    expect(error).toBeInstanceOf(SerializationError);
+    expect(error?.issues).toEqual([
+      { path: 'steps[0].next[0].goTo', message: 'Unknown step "billing"' },
+      {
+        path: 'steps[2].form.rows[0].fields[0].componentId',
+        message: 'Component "card-input" is not registered',
+      },
+    ]);
+  });
+
+  it('should report missing properties', () => {
+    expect(() => flow.create(rilConfig).fromJSON({ version: 1, id: 'empty', steps: {} })).toThrow(
+      /- name: Expected a non-empty string\n {2}- steps: Expected an array of steps/
+    );
+  });
+});
@@ -1,5 +1,5 @@
 // @ts-nocheck - Disable TypeScript checking for test file due to generic constraints
-import { ril } from '@rilaykit/core';
+import { ril, when } from '@rilaykit/core';
 import { form } from '@rilaykit/forms';
 import React from 'react';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
@@ -509,6 +509,175 @@ describe('Flow Builder', () => {
     });
   });
 
+  describe('step transitions', () => {
+    it('should keep next transitions on built steps', () => {
+      const next = [
+        { when: when('start.type').equals('business'), goTo: 'business' },
+        { goTo: 'personal' },
+      ];
+
+      const config = flow
+        .create(rilConfig, 'branching', 'Branching')
+        .addStep({ id: 'start', title: 'Start', formConfig: sampleForm, next })
+        .addStep({ id: 'personal', title: 'Personal', formConfig: sampleForm })
+        .addStep({ id: 'business', title: 'Business', formConfig: sampleForm })
+        .build();
+
+      expect(config.steps[0].next).toEqual(next);
+    });
+
+    it('should accept branches converging on a common step', () => {
+      const builder = flow
+        .create(rilConfig, 'branching', 'Branching')
+        .addStep({
+          id: 'start',
+          title: 'Start',
+          formConfig: sampleForm,
+          next: [
+            { when: when('start.type').equals('business'), goTo: 'business' },
+            { goTo: 'personal' },
+          ],
+        })
+        .addStep({
+          id: 'personal',
+          title: 'Personal',
+          formConfig: sampleForm,
+          next: [{ goTo: 'summary' }],
+        })
+        .addStep({ id: 'business', title: 'Business', formConfig: sampleForm })
+        .addStep({ id: 'summary', title: 'Summary', formConfig: sampleForm });
+
+      expect(builder.validate()).toEqual([]);
+    });
+
+    it('should detect transitions to unknown steps', () => {
+      const builder = flow
+        .create(rilConfig, 'branching', 'Branching')
+        .addStep({ id: 'start', title: 'Start', formConfig: sampleForm, next: [{ goTo: 'nope' }] })
+        .addStep({ id: 'end', title: 'End', formConfig: sampleForm });
+
+      expect(builder.validate()).toContain('Step "start" has a transition to unknown step "nope"');
+    });
+
+    it('should detect unreachable steps', () => {
+      const builder = flow
+        .create(rilConfig, 'branching', 'Branching')
+        .addStep({ id: 'start', title: 'Start', formConfig: sampleForm, next: [{ goTo: 'end' }] })
+        .addStep({ id: 'orphan', title: 'Orphan', formConfig: sampleForm })
+        .addStep({ id: 'end', title: 'End', formConfig: sampleForm });
+
+      expect(builder.validate()).toEqual(['Step "orphan" is unreachable']);
+      expect(() => builder.build()).toThrow('Step "orphan" is unreachable');
+    });
+
+    it('should consider steps after a conditional first step as reachable', () => {
+      const builder = flow
+        .create(rilConfig, 'branching', 'Branching')
+        .addStep({
+          id: 'optional',
+          title: 'Optional',
+          formConfig: sampleForm,
+          conditions: { visible: when('flag').equals(true).build() },
+          next: [{ goTo: 'end' }],
+        })
+        .addStep({ id: 'main', title: 'Main', formConfig: sampleForm })
+        .addStep({ id: 'end', title: 'End', formConfig: sampleForm });
+
+      expect(builder.validate()).toEqual([]);
+    });
+
+    it('should keep the fallback when the default transition targets a conditional step', () => {
+      const builder = flow
+        .create(rilConfig, 'branching', 'Branching')
+        .addStep({ id: 'start', title: 'Start', formConfig: sampleForm, next: [{ goTo: 'extra' }] })
+        .addStep({ id: 'main', title: 'Main', formConfig: sampleForm, next: [{ goTo: 'end' }] })
+        .addStep({
+          id: 'extra',
+          title: 'Extra',
+          formConfig: sampleForm,
+          conditions: { visible: when('flag').equals(true).build() },
+        })
+        .addStep({ id: 'end', title: 'End', formConfig: sampleForm });
+
+      expect(builder.validate()).toEqual([]);
+    });
+
+    it('should detect cycles', () => {
+      const builder = flow
+        .create(rilConfig, 'branching', 'Branching')
+        .addStep({ id: 'a', title: 'A', formConfig: sampleForm })
+        .addStep({
+          id: 'b',
+          title: 'B',
+          formConfig: sampleForm,
+          next: [{ when: when('b.retry').equals(true), goTo: 'a' }],
+        })
+        .addStep({ id: 'c', title: 'C', formConfig: sampleForm });
+
+      expect(builder.validate()).toEqual(['Workflow contains a cycle: a -> b -> a']);
+    });
+  });
+
+  describe('sub-workflows', () => {
+    const addressFlow = () =>
+      flow
+        .create(rilConfig, 'address', 'Address')
+        .addStep({ id: 'street', title: 'Street', formConfig: sampleForm })
+        .addStep({ id: 'city', title: 'City', formConfig: sampleForm });
+
+    it('should splice sub-workflow steps under the parent step ID', () => {
+      const config = flow
+        .create(rilConfig, 'checkout', 'Checkout')
+        .addStep({ id: 'cart', title: 'Cart', formConfig: sampleForm })
+        .addStep({ id: 'shipping', title: 'Shipping', subflow: addressFlow() })
+        .addStep({ id: 'payment', title: 'Payment', formConfig: sampleForm })
+        .build();
+
+      expect(config.steps.map((step) => step.id)).toEqual([
+        'cart',
+        'shipping.street',
+        'shipping.city',
+        'payment',
+      ]);
+      expect(config.steps[1].group).toEqual({
+        id: 'shipping',
+        title: 'Shipping',
+        description: undefined,
+      });
+      expect(config.steps[0].group).toBeUndefined();
+    });
+
+    it('should accept a built sub-workflow and transitions to the parent step ID', () => {
+      const builder = flow
+        .create(rilConfig, 'checkout', 'Checkout')
+        .addStep({
+          id: 'cart',
+          title: 'Cart',
+          formConfig: sampleForm,
+          next: [{ goTo: 'shipping' }],
+        })
+        .addStep({ id: 'shipping', title: 'Shipping', subflow: addressFlow().build() });
+
+      expect(builder.validate()).toEqual([]);
+      expect(builder.build().steps).toHaveLength(3);
+    });
+
+    it('should require either a formConfig or a subflow', () => {
+      expect(() =>
+        flow.create(rilConfig, 'checkout').addStep({ id: 'empty', title: 'Empty' })
+      ).toThrow('Step "empty" must define either a formConfig or a subflow');
+
+      expect(() =>
+        flow.create(rilConfig, 'checkout').addStep({
+          id: 'both',
+          title: 'Both',
+          formConfig: sampleForm,
+          subflow: addressFlow(),
+        })
+      ).toThrow('Step "both" cannot define both a formConfig and a subflow');
+    });
+  });
+
   describe('complex workflow scenarios', () => {
     it('should handle multi-step workflow with different configurations', () => {
       const personalForm = form
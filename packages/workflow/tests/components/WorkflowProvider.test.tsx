@@ -1,10 +1,11 @@
 import { ril } from '@rilaykit/core';
 import { form, useFormConfigContext } from '@rilaykit/forms';
-import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
 import React from 'react';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { flow } from '../../src/builders/flow';
 import { WorkflowProvider, useWorkflowContext } from '../../src/components/WorkflowProvider';
+import { type WorkflowStore, useWorkflowStore } from '../../src/stores/workflowStore';
 
 // Mock components
 const TestComponent = () => React.createElement('div', null, 'test');
@@ -428,6 +429,43 @@ describe('WorkflowProvider', () => {
     });
   });
 
+  describe('Locked in another tab', () => {
+    it('should ignore navigation and field changes while locked elsewhere', async () => {
+      let store: WorkflowStore | undefined;
+      let context: ReturnType<typeof useWorkflowContext> | undefined;
+      const TestChild = () => {
+        store = useWorkflowStore();
+        context = useWorkflowContext();
+        return null;
+      };
+
+      render(
+        <WorkflowProvider workflowConfig={workflowConfig}>
+          <TestChild />
+        </WorkflowProvider>
+      );
+      act(() => store?.getState()._setLockedElsewhere(true));
+
+      await act(async () => {
+        context?.setValue('firstName', 'John');
+        context?.setStepData({ lastName: 'Doe' });
+        expect(await context?.goNext()).toBe(false);
+        expect(await context?.goToStep(1)).toBe(false);
+      });
+
+      expect(store?.getState().currentStepIndex).toBe(0);
+      expect(store?.getState().allData).toEqual({});
+      expect(context?.canGoNext()).toBe(false);
+      expect(context?.canSubmit).toBe(false);
+
+      act(() => store?.getState()._setLockedElsewhere(false));
+      await act(async () => {
+        expect(await context?.goNext()).toBe(true);
+      });
+      expect(store?.getState().currentStepIndex).toBe(1);
+    });
+  });
+
   describe('Validation', () => {
     it('should validate current step', async () => {
       const TestChild = () => {
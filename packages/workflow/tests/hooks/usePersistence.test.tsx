@@ -10,6 +10,7 @@ import type {
   PersistedWorkflowData,
   WorkflowPersistenceAdapter,
 } from '../../src/persistence/types';
+import { WorkflowPersistenceConflictError } from '../../src/persistence/types';
 
 // Mock adapter
 class MockAdapter implements WorkflowPersistenceAdapter {
@@ -162,6 +163,54 @@ describe('usePersistence', () => {
       expect(mockAdapter.load).toHaveBeenCalledWith('test-workflow');
     });
 
+    it('should migrate data saved with an older version', async () => {
+      mockAdapter.getStorage().set('test-workflow', {
+        workflowId: 'test-workflow',
+        currentStepIndex: 0,
+        allData: { personal: { name: 'Jane' } },
+        stepData: {},
+        visitedSteps: ['personal'],
+        lastSaved: Date.now(),
+      });
+
+      const { result } = renderHook(() =>
+        usePersistence({
+          workflowId: 'test-workflow',
+          workflowState: mockWorkflowState,
+          adapter: mockAdapter,
+          options: {
+            migrations: {
+              2: (data) => ({
+                ...data,
+                allData: { identity: data.allData.personal },
+                visitedSteps: ['identity'],
+              }),
+            },
+          },
+        })
+      );
+
+      let loadedData: PersistedWorkflowData | null = null;
+      await act(async () => {
+        loadedData = await result.current.loadPersistedData();
+      });
+
+      expect(loadedData).toMatchObject({
+        version: 2,
+        allData: { identity: { name: 'Jane' } },
+        visitedSteps: ['identity'],
+      });
+
+      await act(async () => {
+        await result.current.persistNow();
+      });
+
+      expect(mockAdapter.save).toHaveBeenCalledWith(
+        'test-workflow',
+        expect.objectContaining({ version: 2 })
+      );
+    });
+
     it('should clear persisted data', async () => {
       const { result } = renderHook(() =>
         usePersistence({
@@ -285,6 +334,27 @@ describe('usePersistence', () => {
 
       expect(mockAdapter.save).not.toHaveBeenCalled();
     });
+
+    it('should not auto-persist while paused', async () => {
+      const { rerender } = renderHook(
+        ({ workflowState }) =>
+          usePersistence({
+            workflowId: 'test-workflow',
+            workflowState,
+            adapter: mockAdapter,
+            options: { autoPersist: true, debounceMs: 50 },
+            paused: true,
+          }),
+        { initialProps: { workflowState: mockWorkflowState } }
+      );
+
+      rerender({ workflowState: { ...mockWorkflowState, currentStepIndex: 2 } });
+
+      // Wait a bit to ensure no save occurs
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(mockAdapter.save).not.toHaveBeenCalled();
+    });
   });
 
   describe('error handling', () => {
@@ -311,6 +381,32 @@ describe('usePersistence', () => {
       expect(result.current.isPersisting).toBe(false);
     });
 
+    it('should surface save conflicts as persistence errors', async () => {
+      const conflict = {
+        key: 'test-workflow',
+        local: {} as PersistedWorkflowData,
+        remote: null,
+      };
+      mockAdapter.save.mockRejectedValueOnce(
+        new WorkflowPersistenceConflictError('Modified remotely', conflict)
+      );
+
+      const { result } = renderHook(() =>
+        usePersistence({
+          workflowId: 'test-workflow',
+          workflowState: mockWorkflowState,
+          adapter: mockAdapter,
+        })
+      );
+
+      await act(async () => {
+        await result.current.persistNow().catch(() => {});
+      });
+
+      expect(result.current.persistenceError).toBeInstanceOf(WorkflowPersistenceConflictError);
+      expect(result.current.persistenceError?.code).toBe('CONFLICT');
+    });
+
     it('should handle load errors', async () => {
       mockAdapter.setShouldFail(true);
 
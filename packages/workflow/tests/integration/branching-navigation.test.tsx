@@ -0,0 +1,186 @@
+import { ril, when } from '@rilaykit/core';
+import { form } from '@rilaykit/forms';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import type React from 'react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  WorkflowBody,
+  WorkflowNextButton,
+  WorkflowPreviousButton,
+  WorkflowProvider,
+  WorkflowStepper,
+  useWorkflowContext,
+} from '../../src';
+import { flow } from '../../src/builders/flow';
+
+describe('Workflow - declarative branching', () => {
+  const MockInput = ({ id, value, onChange, props }: any) => (
+    <div data-testid={`field-${id}`}>
+      <label htmlFor={id}>{props.label}</label>
+      <input
+        id={id}
+        type="text"
+        value={value || ''}
+        onChange={(e) => onChange?.(e.target.value)}
+        data-testid={`input-${id}`}
+      />
+    </div>
+  );
+
+  const NavigationDebugger = () => {
+    const { currentStep, context } = useWorkflowContext();
+
+    return (
+      <div>
+        <div data-testid="current-step-id">{currentStep?.id || 'none'}</div>
+        <div data-testid="is-last-step">{context.isLastStep ? 'true' : 'false'}</div>
+      </div>
+    );
+  };
+
+  let workflowConfig: any;
+  let config: ril<Record<string, any>>;
+
+  beforeEach(() => {
+    config = ril
+      .create()
+      .addComponent('input', {
+        name: 'Text Input',
+        renderer: MockInput,
+      })
+      .configure({
+        rowRenderer: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
+        bodyRenderer: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
+        nextButtonRenderer: () => (
+          <button type="submit" data-testid="next-button">
+            Next
+          </button>
+        ),
+        previousButtonRenderer: ({ onPrevious }: any) => (
+          <button type="button" onClick={onPrevious} data-testid="previous-button">
+            Previous
+          </button>
+        ),
+        stepperRenderer: ({ steps }: any) => (
+          <div data-testid="stepper">{steps.map((step: any) => step.id).join(',')}</div>
+        ),
+      });
+
+    const createForm = (fieldId: string) =>
+      form.create(config).add({ id: fieldId, type: 'input', props: { label: fieldId } });
+
+    workflowConfig = flow
+      .create(config, 'branching-flow')
+      .addStep({
+        id: 'customer',
+        title: 'Customer',
+        formConfig: createForm('type'),
+        next: [
+          { when: when('customer.type').equals('business'), goTo: 'business' },
+          { goTo: 'personal' },
+        ],
+      })
+      .addStep({
+        id: 'personal',
+        title: 'Personal',
+        formConfig: createForm('firstName'),
+        next: [{ goTo: 'summary' }],
+      })
+      .addStep({ id: 'business', title: 'Business', formConfig: createForm('companyName') })
+      .addStep({ id: 'summary', title: 'Summary', formConfig: createForm('notes') })
+      .build();
+  });
+
+  const renderWorkflow = () =>
+    render(
+      <WorkflowProvider workflowConfig={workflowConfig}>
+        <NavigationDebugger />
+        <WorkflowStepper />
+        <WorkflowBody />
+        <WorkflowPreviousButton />
+        <WorkflowNextButton />
+      </WorkflowProvider>
+    );
+
+  it('should follow the default transition and show the computed path', async () => {
+    renderWorkflow();
+
+    expect(screen.getByTestId('stepper')).toHaveTextContent('customer,personal,summary');
+
+    fireEvent.click(screen.getByTestId('next-button'));
+    await waitFor(() => {
+      expect(screen.getByTestId('current-step-id')).toHaveTextContent('personal');
+    });
+
+    fireEvent.click(screen.getByTestId('next-button'));
+    await waitFor(() => {
+      expect(screen.getByTestId('current-step-id')).toHaveTextContent('summary');
+    });
+    expect(screen.getByTestId('is-last-step')).toHaveTextContent('true');
+  });
+
+  it('should follow the matching branch and go back along the path taken', async () => {
+    renderWorkflow();
+
+    fireEvent.change(screen.getByTestId('input-type'), { target: { value: 'business' } });
+
+    await waitFor(() => {
+      expect(screen.getByTestId('stepper')).toHaveTextContent('customer,business,summary');
+    });
+
+    fireEvent.click(screen.getByTestId('next-button'));
+    await waitFor(() => {
+      expect(screen.getByTestId('current-step-id')).toHaveTextContent('business');
+    });
+
+    fireEvent.click(screen.getByTestId('next-button'));
+    await waitFor(() => {
+      expect(screen.getByTestId('current-step-id')).toHaveTextContent('summary');
+    });
+
+    // Going back from summary returns to the business branch, not to the personal step
+    fireEvent.click(screen.getByTestId('previous-button'));
+    await waitFor(() => {
+      expect(screen.getByTestId('current-step-id')).toHaveTextContent('business');
+    });
+
+    fireEvent.click(screen.getByTestId('previous-button'));
+    await waitFor(() => {
+      expect(screen.getByTestId('current-step-id')).toHaveTextContent('customer');
+    });
+  });
+
+  it('should go back from a goto() to the step it was called from', async () => {
+    const createStep = (id: string) => ({
+      id,
+      title: id,
+      formConfig: form
+        .create(config)
+        .add({ id: `${id}Field`, type: 'input', props: { label: id } }),
+    });
+
+    workflowConfig = flow
+      .create(config, 'goto-back-flow')
+      .addStep({
+        ...createStep('start'),
+        after: (step) => {
+          step.workflow.goto('end');
+        },
+      })
+      .addStep(createStep('middle'))
+      .addStep(createStep('end'))
+      .build();
+
+    renderWorkflow();
+
+    fireEvent.click(screen.getByTestId('next-button'));
+    await waitFor(() => {
+      expect(screen.getByTestId('current-step-id')).toHaveTextContent('end');
+    });
+
+    fireEvent.click(screen.getByTestId('previous-button'));
+    await waitFor(() => {
+      expect(screen.getByTestId('current-step-id')).toHaveTextContent('start');
+    });
+  });
+});
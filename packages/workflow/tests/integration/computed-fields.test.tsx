@@ -0,0 +1,84 @@
+import { ril } from '@rilaykit/core';
+import { form } from '@rilaykit/forms';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import type React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { WorkflowBody, WorkflowNextButton, WorkflowProvider } from '../../src';
+import { flow } from '../../src/builders/flow';
+
+describe('Workflow - computed fields', () => {
+  const MockInput = ({ id, value, onChange, props }: any) => (
+    <input
+      type="text"
+      value={value ?? ''}
+      readOnly={props.readOnly}
+      onChange={(e) => onChange?.(e.target.value)}
+      data-testid={`input-${id}`}
+    />
+  );
+
+  const config = ril
+    .create()
+    .addComponent('input', { name: 'Text Input', renderer: MockInput })
+    .configure({
+      rowRenderer: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
+      bodyRenderer: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
+      nextButtonRenderer: () => (
+        <button type="submit" data-testid="next-button">
+          Next
+        </button>
+      ),
+    });
+
+  it('should compute values from the data of previous steps', async () => {
+    const onWorkflowComplete = vi.fn();
+    const workflowConfig = flow
+      .create(config, 'checkout')
+      .addStep({
+        id: 'cart',
+        title: 'Cart',
+        formConfig: form.create(config, 'cart-form').add({ id: 'qty', type: 'input' }),
+      })
+      .addStep({
+        id: 'payment',
+        title: 'Payment',
+        formConfig: form.create(config, 'payment-form').add(
+          { id: 'unitPrice', type: 'input' },
+          {
+            id: 'total',
+            type: 'input',
+            computed: {
+              deps: ['cart.qty', 'unitPrice'],
+              compute: (values) => String(Number(values['cart.qty']) * Number(values.unitPrice)),
+            },
+          }
+        ),
+      })
+      .build();
+
+    render(
+      <WorkflowProvider workflowConfig={workflowConfig} onWorkflowComplete={onWorkflowComplete}>
+        <WorkflowBody />
+        <WorkflowNextButton />
+      </WorkflowProvider>
+    );
+
+    fireEvent.change(screen.getByTestId('input-qty'), { target: { value: '3' } });
+    fireEvent.click(screen.getByTestId('next-button'));
+    await waitFor(() => {
+      expect(screen.getByTestId('input-unitPrice')).toBeInTheDocument();
+    });
+
+    fireEvent.change(screen.getByTestId('input-unitPrice'), { target: { value: '4' } });
+    expect(screen.getByTestId('input-total')).toHaveValue('12');
+    expect(screen.getByTestId('input-total')).toHaveAttribute('readonly');
+
+    fireEvent.click(screen.getByTestId('next-button'));
+    await waitFor(() => {
+      expect(onWorkflowComplete).toHaveBeenCalledWith({
+        cart: { qty: '3' },
+        payment: expect.objectContaining({ unitPrice: '4', total: '12' }),
+      });
+    });
+  });
+});
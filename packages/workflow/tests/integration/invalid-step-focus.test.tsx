@@ -0,0 +1,97 @@
+import { SubmissionError, required, ril } from '@rilaykit/core';
+import { form } from '@rilaykit/forms';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import type React from 'react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { WorkflowBody, WorkflowNextButton, WorkflowProvider, useWorkflowContext } from '../../src';
+import { flow } from '../../src/builders/flow';
+
+describe('Workflow - focus of invalid steps', () => {
+  const MockInput = ({ id, value, onChange }: any) => (
+    <input
+      value={value || ''}
+      onChange={(e) => onChange?.(e.target.value)}
+      data-testid={`input-${id}`}
+    />
+  );
+
+  const CurrentStep = () => {
+    const { currentStep } = useWorkflowContext();
+    return <div data-testid="current-step-id">{currentStep?.id}</div>;
+  };
+
+  let config: ril<Record<string, any>>;
+
+  beforeEach(() => {
+    config = ril
+      .create()
+      .addComponent('input', { name: 'Text Input', renderer: MockInput })
+      .configure({
+        rowRenderer: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
+        bodyRenderer: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
+        nextButtonRenderer: () => (
+          <button type="submit" data-testid="next-button">
+            Next
+          </button>
+        ),
+      });
+  });
+
+  const renderWorkflow = (workflowConfig: any) =>
+    render(
+      <WorkflowProvider workflowConfig={workflowConfig}>
+        <CurrentStep />
+        <WorkflowBody />
+        <WorkflowNextButton />
+      </WorkflowProvider>
+    );
+
+  it('should focus the first invalid field when the step does not validate', async () => {
+    const workflowConfig = flow
+      .create(config, 'signup')
+      .addStep({
+        id: 'account',
+        title: 'Account',
+        formConfig: form
+          .create(config)
+          .add({ id: 'name', type: 'input' })
+          .add({ id: 'email', type: 'input', validation: { validate: required() } }),
+      })
+      .addStep({ id: 'profile', title: 'Profile', formConfig: form.create(config) })
+      .build();
+
+    renderWorkflow(workflowConfig);
+    await act(async () => {
+      fireEvent.click(screen.getByTestId('next-button'));
+    });
+
+    await waitFor(() => {
+      expect(screen.getByTestId('input-email')).toHaveFocus();
+    });
+    expect(screen.getByTestId('current-step-id')).toHaveTextContent('account');
+  });
+
+  it('should focus the field rejected by an after callback', async () => {
+    const workflowConfig = flow
+      .create(config, 'signup')
+      .addStep({
+        id: 'account',
+        title: 'Account',
+        formConfig: form
+          .create(config)
+          .add({ id: 'name', type: 'input' }, { id: 'email', type: 'input' }),
+        after: () => new SubmissionError({ email: [{ message: 'Already registered' }] }),
+      })
+      .addStep({ id: 'profile', title: 'Profile', formConfig: form.create(config) })
+      .build();
+
+    renderWorkflow(workflowConfig);
+    await act(async () => {
+      fireEvent.click(screen.getByTestId('next-button'));
+    });
+
+    await waitFor(() => {
+      expect(screen.getByTestId('input-email')).toHaveFocus();
+    });
+  });
+});
@@ -0,0 +1,345 @@
+import { ril } from '@rilaykit/core';
+import { form } from '@rilaykit/forms';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import type React from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  type StepDefinition,
+  WorkflowBody,
+  WorkflowNextButton,
+  WorkflowProvider,
+  useWorkflowContext,
+} from '../../src';
+import { flow } from '../../src/builders/flow';
+
+describe('StepContext navigation (next.skip / workflow.goto)', () => {
+  const MockInput = ({ id, value, onChange, props }: any) => (
+    <div data-testid={`field-${id}`}>
+      <label htmlFor={id}>{props.label}</label>
+      <input
+        id={id}
+        type="text"
+        value={value || ''}
+        onChange={(e) => onChange?.(e.target.value)}
+        data-testid={`input-${id}`}
+      />
+    </div>
+  );
+
+  const NavigationDebugger = () => {
+    const { currentStep, workflowState } = useWorkflowContext();
+
+    return (
+      <div>
+        <div data-testid="current-step-id">{currentStep?.id || 'none'}</div>
+        <div data-testid="visited-steps">{[...workflowState.visitedSteps].sort().join(',')}</div>
+        <div data-testid="passed-steps">{[...workflowState.passedSteps].sort().join(',')}</div>
+      </div>
+    );
+  };
+
+  let config: ril<Record<string, any>>;
+
+  const createStep = (id: string, overrides: Partial<StepDefinition> = {}): StepDefinition => ({
+    id,
+    title: id,
+    formConfig: form.create(config).add({
+      id: `${id}Field`,
+      type: 'input',
+      props: { label: id },
+    }),
+    ...overrides,
+  });
+
+  const renderWorkflow = (workflowConfig: any) =>
+    render(
+      <WorkflowProvider workflowConfig={workflowConfig}>
+        <NavigationDebugger />
+        <WorkflowBody />
+        <WorkflowNextButton />
+      </WorkflowProvider>
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    config = ril
+      .create()
+      .addComponent('input', {
+        name: 'Text Input',
+        renderer: MockInput,
+      })
+      .configure({
+        rowRenderer: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
+        bodyRenderer: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
+        nextButtonRenderer: () => (
+          <button type="submit" data-testid="next-button">
+            Next
+          </button>
+        ),
+      });
+  });
+
+  describe('step.next.skip()', () => {
+    it('should skip the next step when it allows skipping', async () => {
+      const onStepSkip = vi.fn();
+
+      const workflowConfig = flow
+        .create(config, 'skip-flow')
+        .addStep(
+          createStep('identity', {
+            after: (step) => {
+              step.next.skip();
+            },
+          })
+        )
+        .addStep(createStep('kyc', { allowSkip: true }))
+        .addStep(createStep('summary'))
+        .configure({ analytics: { onStepSkip } })
+        .build();
+
+      renderWorkflow(workflowConfig);
+
+      fireEvent.click(screen.getByTestId('next-button'));
+
+      await waitFor(() => {
+        expect(screen.getByTestId('current-step-id')).toHaveTextContent('summary');
+      });
+
+      expect(onStepSkip).toHaveBeenCalledWith('kyc', 'programmatic_skip', expect.any(Object));
+      expect(screen.getByTestId('passed-steps')).toHaveTextContent('identity,kyc');
+      expect(screen.getByTestId('visited-steps')).not.toHaveTextContent('kyc');
+    });
+
+    it('should complete the workflow when the skipped step is the last one', async () => {
+      const onStepSkip = vi.fn();
+      const onWorkflowComplete = vi.fn();
+
+      const workflowConfig = flow
+        .create(config, 'skip-last-flow')
+        .addStep(
+          createStep('identity', {
+            after: (step) => {
+              step.next.skip();
+            },
+          })
+        )
+        .addStep(createStep('kyc', { allowSkip: true }))
+        .configure({ analytics: { onStepSkip } })
+        .build();
+
+      render(
+        <WorkflowProvider workflowConfig={workflowConfig} onWorkflowComplete={onWorkflowComplete}>
+          <NavigationDebugger />
+          <WorkflowBody />
+          <WorkflowNextButton />
+        </WorkflowProvider>
+      );
+
+      fireEvent.change(screen.getByTestId('input-identityField'), { target: { value: 'Jane' } });
+      fireEvent.click(screen.getByTestId('next-button'));
+
+      await waitFor(() => {
+        expect(onWorkflowComplete).toHaveBeenCalledWith(
+          expect.objectContaining({ identity: { identityField: 'Jane' } })
+        );
+      });
+
+      expect(onStepSkip).toHaveBeenCalledWith('kyc', 'programmatic_skip', expect.any(Object));
+      expect(screen.getByTestId('current-step-id')).toHaveTextContent('identity');
+      expect(screen.getByTestId('passed-steps')).toHaveTextContent('identity,kyc');
+    });
+
+    it('should ignore skip() when the next step does not allow skipping', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const onStepSkip = vi.fn();
+
+      const workflowConfig = flow
+        .create(config, 'no-skip-flow')
+        .addStep(
+          createStep('identity', {
+            after: (step) => {
+              step.next.skip();
+            },
+          })
+        )
+        .addStep(createStep('kyc'))
+        .addStep(createStep('summary'))
+        .configure({ analytics: { onStepSkip } })
+        .build();
+
+      renderWorkflow(workflowConfig);
+
+      fireEvent.click(screen.getByTestId('next-button'));
+
+      await waitFor(() => {
+        expect(screen.getByTestId('current-step-id')).toHaveTextContent('kyc');
+      });
+
+      expect(onStepSkip).not.toHaveBeenCalled();
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('"kyc" cannot be skipped'));
+
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('step.workflow.goto()', () => {
+    it('should navigate to the requested step', async () => {
+      const workflowConfig = flow
+        .create(config, 'goto-flow')
+        .addStep(
+          createStep('customerType', {
+            after: (step) => {
+              step.workflow.goto('businessDetails');
+            },
+          })
+        )
+        .addStep(createStep('personalDetails'))
+        .addStep(createStep('businessDetails'))
+        .build();
+
+      renderWorkflow(workflowConfig);
+
+      fireEvent.click(screen.getByTestId('next-button'));
+
+      await waitFor(() => {
+        expect(screen.getByTestId('current-step-id')).toHaveTextContent('businessDetails');
+      });
+
+      expect(screen.getByTestId('passed-steps')).toHaveTextContent('customerType');
+      expect(screen.getByTestId('visited-steps')).toHaveTextContent('businessDetails');
+      expect(screen.getByTestId('visited-steps')).not.toHaveTextContent('personalDetails');
+    });
+
+    it('should take precedence over next.skip()', async () => {
+      const workflowConfig = flow
+        .create(config, 'goto-precedence-flow')
+        .addStep(
+          createStep('start', {
+            after: (step) => {
+              step.next.skip();
+              step.workflow.goto('middle');
+            },
+          })
+        )
+        .addStep(createStep('middle', { allowSkip: true }))
+        .addStep(createStep('end'))
+        .build();
+
+      renderWorkflow(workflowConfig);
+
+      fireEvent.click(screen.getByTestId('next-button'));
+
+      await waitFor(() => {
+        expect(screen.getByTestId('current-step-id')).toHaveTextContent('middle');
+      });
+    });
+
+    it('should report unknown step IDs through analytics onError and stay on the step', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const onError = vi.fn();
+
+      const workflowConfig = flow
+        .create(config, 'goto-unknown-flow')
+        .addStep(
+          createStep('start', {
+            after: (step) => {
+              step.workflow.goto('missing');
+            },
+          })
+        )
+        .addStep(createStep('end'))
+        .configure({ analytics: { onError } })
+        .build();
+
+      renderWorkflow(workflowConfig);
+
+      fireEvent.click(screen.getByTestId('next-button'));
+
+      await waitFor(() => {
+        expect(onError).toHaveBeenCalledWith(
+          expect.objectContaining({ message: 'Step with ID "missing" not found' }),
+          expect.any(Object)
+        );
+      });
+
+      expect(screen.getByTestId('current-step-id')).toHaveTextContent('start');
+      expect(screen.getByTestId('passed-steps')).toBeEmptyDOMElement();
+
+      errorSpy.mockRestore();
+    });
+
+    it('should report a hidden target step and stay on the step', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const onError = vi.fn();
+
+      const workflowConfig = flow
+        .create(config, 'goto-hidden-flow')
+        .addStep(
+          createStep('start', {
+            after: (step) => {
+              step.workflow.goto('hidden');
+            },
+          })
+        )
+        .addStep(
+          createStep('hidden', {
+            conditions: {
+              visible: { field: 'start.startField', operator: 'equals', value: 'never' },
+            },
+          })
+        )
+        .addStep(createStep('end'))
+        .configure({ analytics: { onError } })
+        .build();
+
+      renderWorkflow(workflowConfig);
+
+      fireEvent.click(screen.getByTestId('next-button'));
+
+      await waitFor(() => {
+        expect(onError).toHaveBeenCalledWith(
+          expect.objectContaining({ message: expect.stringContaining('"hidden"') }),
+          expect.any(Object)
+        );
+      });
+
+      expect(screen.getByTestId('current-step-id')).toHaveTextContent('start');
+      expect(screen.getByTestId('passed-steps')).toBeEmptyDOMElement();
+
+      errorSpy.mockRestore();
+    });
+
+    it('should not pass the step when a guard refuses the navigation', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const onError = vi.fn();
+
+      const workflowConfig = flow
+        .create(config, 'goto-guarded-flow')
+        .addStep(
+          createStep('start', {
+            after: (step) => {
+              step.workflow.goto('end');
+            },
+          })
+        )
+        .addStep(createStep('middle'))
+        .addStep(createStep('end', { canEnter: () => false }))
+        .configure({ analytics: { onError } })
+        .build();
+
+      renderWorkflow(workflowConfig);
+
+      fireEvent.click(screen.getByTestId('next-button'));
+
+      await waitFor(() => {
+        expect(onError).toHaveBeenCalledTimes(1);
+      });
+
+      expect(screen.getByTestId('current-step-id')).toHaveTextContent('start');
+      expect(screen.getByTestId('passed-steps')).toBeEmptyDOMElement();
+
+      errorSpy.mockRestore();
+    });
+  });
+});
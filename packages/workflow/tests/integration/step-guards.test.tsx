@@ -0,0 +1,245 @@
+import { ril } from '@rilaykit/core';
+import { form } from '@rilaykit/forms';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import type React from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  type StepDefinition,
+  WorkflowBody,
+  WorkflowNextButton,
+  WorkflowPreviousButton,
+  WorkflowProvider,
+  useWorkflowContext,
+} from '../../src';
+import { flow } from '../../src/builders/flow';
+
+describe('Workflow - step guards (canEnter / canLeave)', () => {
+  const MockInput = ({ id, value, onChange, props }: any) => (
+    <div data-testid={`field-${id}`}>
+      <label htmlFor={id}>{props.label}</label>
+      <input
+        id={id}
+        type="text"
+        value={value || ''}
+        onChange={(e) => onChange?.(e.target.value)}
+        data-testid={`input-${id}`}
+      />
+    </div>
+  );
+
+  const NavigationDebugger = () => {
+    const { currentStep } = useWorkflowContext();
+
+    return <div data-testid="current-step-id">{currentStep?.id || 'none'}</div>;
+  };
+
+  let config: ril<Record<string, any>>;
+
+  const createStep = (id: string, overrides: Partial<StepDefinition> = {}): StepDefinition => ({
+    id,
+    title: id,
+    formConfig: form.create(config).add({
+      id: `${id}Field`,
+      type: 'input',
+      props: { label: id },
+    }),
+    ...overrides,
+  });
+
+  const renderWorkflow = (workflowConfig: any) =>
+    render(
+      <WorkflowProvider workflowConfig={workflowConfig}>
+        <NavigationDebugger />
+        <WorkflowBody />
+        <WorkflowPreviousButton />
+        <WorkflowNextButton />
+      </WorkflowProvider>
+    );
+
+  const clickNext = () => fireEvent.click(screen.getByTestId('next-button'));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    config = ril
+      .create()
+      .addComponent('input', {
+        name: 'Text Input',
+        renderer: MockInput,
+      })
+      .configure({
+        rowRenderer: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
+        bodyRenderer: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
+        nextButtonRenderer: ({ isPending }: any) => (
+          <button type="submit" data-testid="next-button" data-pending={String(isPending)}>
+            Next
+          </button>
+        ),
+        previousButtonRenderer: ({ onPrevious }: any) => (
+          <button type="button" onClick={onPrevious} data-testid="previous-button">
+            Previous
+          </button>
+        ),
+      });
+  });
+
+  it('should pass the guard context and navigate when the guard allows it', async () => {
+    const canEnter = vi.fn().mockResolvedValue(true);
+    const workflowConfig = flow
+      .create(config, 'guards')
+      .addStep([createStep('first'), createStep('second', { canEnter })])
+      .build();
+
+    renderWorkflow(workflowConfig);
+    fireEvent.change(screen.getByTestId('input-firstField'), { target: { value: 'hello' } });
+    clickNext();
+
+    await waitFor(() => {
+      expect(screen.getByTestId('current-step-id')).toHaveTextContent('second');
+    });
+    expect(canEnter).toHaveBeenCalledWith(
+      expect.objectContaining({
+        fromStep: expect.objectContaining({ id: 'first' }),
+        toStep: expect.objectContaining({ id: 'second' }),
+        allData: expect.objectContaining({ first: { firstField: 'hello' } }),
+      })
+    );
+  });
+
+  it('should stay on the current step when canEnter vetoes the navigation', async () => {
+    const canEnter = vi.fn().mockResolvedValue(false);
+    const workflowConfig = flow
+      .create(config, 'guards')
+      .addStep([createStep('first'), createStep('second', { canEnter })])
+      .build();
+
+    renderWorkflow(workflowConfig);
+    clickNext();
+
+    await waitFor(() => expect(canEnter).toHaveBeenCalled());
+    await waitFor(() => {
+      expect(screen.getByTestId('next-button')).toHaveAttribute('data-pending', 'false');
+    });
+    expect(screen.getByTestId('current-step-id')).toHaveTextContent('first');
+  });
+
+  it('should redirect to the step returned by a guard', async () => {
+    const workflowConfig = flow
+      .create(config, 'guards')
+      .addStep([
+        createStep('first', { canLeave: async () => 'third' }),
+        createStep('second'),
+        createStep('third'),
+      ])
+      .build();
+
+    renderWorkflow(workflowConfig);
+    clickNext();
+
+    await waitFor(() => {
+      expect(screen.getByTestId('current-step-id')).toHaveTextContent('third');
+    });
+  });
+
+  it('should await canLeave when going back', async () => {
+    const canLeave = vi.fn().mockResolvedValue(false);
+    const workflowConfig = flow
+      .create(config, 'guards')
+      .addStep([createStep('first'), createStep('second', { canLeave })])
+      .build();
+
+    renderWorkflow(workflowConfig);
+    clickNext();
+    await waitFor(() => {
+      expect(screen.getByTestId('current-step-id')).toHaveTextContent('second');
+    });
+
+    fireEvent.click(screen.getByTestId('previous-button'));
+
+    await waitFor(() => expect(canLeave).toHaveBeenCalled());
+    expect(canLeave.mock.calls[0][0].toStep.id).toBe('first');
+    expect(screen.getByTestId('current-step-id')).toHaveTextContent('second');
+  });
+
+  it('should expose the pending state while a guard is awaited', async () => {
+    let allowNavigation: (result: boolean) => void = () => {};
+    const canEnter = () =>
+      new Promise<boolean>((resolve) => {
+        allowNavigation = resolve;
+      });
+
+    const workflowConfig = flow
+      .create(config, 'guards')
+      .addStep([createStep('first'), createStep('second', { canEnter })])
+      .build();
+
+    renderWorkflow(workflowConfig);
+    expect(screen.getByTestId('next-button')).toHaveAttribute('data-pending', 'false');
+
+    clickNext();
+    await waitFor(() => {
+      expect(screen.getByTestId('next-button')).toHaveAttribute('data-pending', 'true');
+    });
+
+    allowNavigation(true);
+    await waitFor(() => {
+      expect(screen.getByTestId('current-step-id')).toHaveTextContent('second');
+    });
+    expect(screen.getByTestId('next-button')).toHaveAttribute('data-pending', 'false');
+  });
+
+  it('should report guard failures to analytics and stay on the current step', async () => {
+    const onError = vi.fn();
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const workflowConfig = flow
+      .create(config, 'guards')
+      .addStep([
+        createStep('first'),
+        createStep('second', {
+          canEnter: async () => {
+            throw new Error('Eligibility service unavailable');
+          },
+        }),
+      ])
+      .configure({ analytics: { onError } })
+      .build();
+
+    renderWorkflow(workflowConfig);
+    clickNext();
+
+    await waitFor(() => {
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Eligibility service unavailable' }),
+        expect.anything()
+      );
+    });
+    expect(screen.getByTestId('current-step-id')).toHaveTextContent('first');
+
+    consoleSpy.mockRestore();
+  });
+
+  it('should report redirects to unknown steps', async () => {
+    const onError = vi.fn();
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const workflowConfig = flow
+      .create(config, 'guards')
+      .addStep([createStep('first'), createStep('second', { canEnter: () => 'unknown' })])
+      .configure({ analytics: { onError } })
+      .build();
+
+    renderWorkflow(workflowConfig);
+    clickNext();
+
+    await waitFor(() => {
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Step guard redirected to unavailable step "unknown"' }),
+        expect.anything()
+      );
+    });
+    expect(screen.getByTestId('current-step-id')).toHaveTextContent('first');
+
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,178 @@
+import { ril } from '@rilaykit/core';
+import { form } from '@rilaykit/forms';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import type React from 'react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  WorkflowBody,
+  WorkflowNextButton,
+  WorkflowProvider,
+  WorkflowStepper,
+  useWorkflowContext,
+} from '../../src';
+import { flow } from '../../src/builders/flow';
+
+describe('Workflow - sub-workflows', () => {
+  const MockInput = ({ id, value, onChange, props }: any) => (
+    <div data-testid={`field-${id}`}>
+      <label htmlFor={id}>{props.label}</label>
+      <input
+        id={id}
+        type="text"
+        value={value || ''}
+        onChange={(e) => onChange?.(e.target.value)}
+        data-testid={`input-${id}`}
+      />
+    </div>
+  );
+
+  const NavigationDebugger = () => {
+    const { currentStep, workflowState } = useWorkflowContext();
+
+    return (
+      <div>
+        <div data-testid="current-step-id">{currentStep?.id || 'none'}</div>
+        <div data-testid="all-data">{JSON.stringify(workflowState.allData)}</div>
+      </div>
+    );
+  };
+
+  let workflowConfig: any;
+  let config: ril<Record<string, any>>;
+
+  beforeEach(() => {
+    config = ril
+      .create()
+      .addComponent('input', {
+        name: 'Text Input',
+        renderer: MockInput,
+      })
+      .configure({
+        rowRenderer: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
+        bodyRenderer: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
+        nextButtonRenderer: () => (
+          <button type="submit" data-testid="next-button">
+            Next
+          </button>
+        ),
+        stepperRenderer: ({ groups, onGroupToggle }: any) => (
+          <div>
+            {groups.map((group: any) => (
+              <button
+                key={group.id}
+                type="button"
+                onClick={() => onGroupToggle?.(group.id)}
+                data-testid={`group-${group.id}`}
+              >
+                {`${group.stepIndices.join(',')}|${group.isActive}|${group.isExpanded}`}
+              </button>
+            ))}
+          </div>
+        ),
+      });
+
+    const createForm = (fieldId: string) =>
+      form.create(config).add({ id: fieldId, type: 'input', props: { label: fieldId } });
+
+    const addressFlow = flow
+      .create(config, 'address')
+      .addStep({ id: 'street', title: 'Street', formConfig: createForm('line') })
+      .addStep({ id: 'city', title: 'City', formConfig: createForm('name') });
+
+    workflowConfig = flow
+      .create(config, 'checkout')
+      .addStep({ id: 'cart', title: 'Cart', formConfig: createForm('item') })
+      .addStep({ id: 'shipping', title: 'Shipping', subflow: addressFlow })
+      .addStep({ id: 'payment', title: 'Payment', formConfig: createForm('card') })
+      .build();
+  });
+
+  const renderWorkflow = () =>
+    render(
+      <WorkflowProvider workflowConfig={workflowConfig}>
+        <NavigationDebugger />
+        <WorkflowStepper />
+        <WorkflowBody />
+        <WorkflowNextButton />
+      </WorkflowProvider>
+    );
+
+  it('should navigate through sub-workflow steps and namespace their data', async () => {
+    renderWorkflow();
+
+    fireEvent.click(screen.getByTestId('next-button'));
+    await waitFor(() => {
+      expect(screen.getByTestId('current-step-id')).toHaveTextContent('shipping.street');
+    });
+
+    fireEvent.change(screen.getByTestId('input-line'), { target: { value: '1 Main St' } });
+    fireEvent.click(screen.getByTestId('next-button'));
+    await waitFor(() => {
+      expect(screen.getByTestId('current-step-id')).toHaveTextContent('shipping.city');
+    });
+
+    fireEvent.change(screen.getByTestId('input-name'), { target: { value: 'Paris' } });
+    fireEvent.click(screen.getByTestId('next-button'));
+    await waitFor(() => {
+      expect(screen.getByTestId('current-step-id')).toHaveTextContent('payment');
+    });
+
+    const allData = JSON.parse(screen.getByTestId('all-data').textContent || '{}');
+    expect(allData.shipping).toEqual({
+      street: { line: '1 Main St' },
+      city: { name: 'Paris' },
+    });
+  });
+
+  it('should report sub-workflow progress as a collapsible stepper group', async () => {
+    renderWorkflow();
+
+    const group = () => screen.getByTestId('group-shipping');
+    expect(group()).toHaveTextContent('1,2|false|false');
+
+    fireEvent.click(screen.getByTestId('next-button'));
+    await waitFor(() => {
+      expect(group()).toHaveTextContent('1,2|true|true');
+    });
+
+    fireEvent.click(group());
+    await waitFor(() => {
+      expect(group()).toHaveTextContent('1,2|true|false');
+    });
+  });
+
+  it('should resolve sub-workflow step IDs in after callbacks', async () => {
+    const createForm = (fieldId: string) =>
+      form.create(config).add({ id: fieldId, type: 'input', props: { label: fieldId } });
+    let streetData: unknown;
+
+    const addressFlow = flow
+      .create(config, 'address')
+      .addStep({
+        id: 'street',
+        title: 'Street',
+        formConfig: createForm('line'),
+        after: (step) => {
+          streetData = step.workflow.get('street');
+          step.workflow.goto('verification');
+        },
+      })
+      .addStep({ id: 'city', title: 'City', formConfig: createForm('name') })
+      .addStep({ id: 'verification', title: 'Verification', formConfig: createForm('code') });
+
+    workflowConfig = flow
+      .create(config, 'checkout')
+      .addStep({ id: 'shipping', title: 'Shipping', subflow: addressFlow })
+      .build();
+
+    renderWorkflow();
+
+    fireEvent.change(screen.getByTestId('input-line'), { target: { value: '1 Main St' } });
+    fireEvent.click(screen.getByTestId('next-button'));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('current-step-id')).toHaveTextContent('shipping.verification');
+    });
+    expect(streetData).toEqual({ line: '1 Main St' });
+  });
+});
@@ -0,0 +1,175 @@
+import { SubmissionError, ril } from '@rilaykit/core';
+import { form, useFormStoreApi } from '@rilaykit/forms';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import type React from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { useStore } from 'zustand';
+import {
+  type StepDefinition,
+  WorkflowBody,
+  WorkflowNextButton,
+  WorkflowProvider,
+  useWorkflowContext,
+} from '../../src';
+import { flow } from '../../src/builders/flow';
+import { splitSubmissionError } from '../../src/utils/submissionErrors';
+
+describe('Workflow - submission errors', () => {
+  const MockInput = ({ id, value, onChange, error }: any) => (
+    <div>
+      <input
+        value={value || ''}
+        onChange={(e) => onChange?.(e.target.value)}
+        data-testid={`input-${id}`}
+      />
+      {error?.map((fieldError: { message: string }) => (
+        <span key={fieldError.message} data-testid={`error-${id}`}>
+          {fieldError.message}
+        </span>
+      ))}
+    </div>
+  );
+
+  const CurrentStep = () => {
+    const { currentStep } = useWorkflowContext();
+    return <div data-testid="current-step-id">{currentStep?.id}</div>;
+  };
+
+  const FormErrors = () => {
+    const formErrors = useStore(useFormStoreApi(), (state) => state.formErrors);
+    const messages = formErrors.map((error) => error.message);
+    return <div data-testid="form-errors">{messages.join(', ')}</div>;
+  };
+
+  let config: ril<Record<string, any>>;
+
+  const createStep = (id: string, overrides: Partial<StepDefinition> = {}): StepDefinition => ({
+    id,
+    title: id,
+    formConfig: form.create(config).add({ id: `${id}Field`, type: 'input' }),
+    ...overrides,
+  });
+
+  const renderWorkflow = (workflowConfig: any, onWorkflowComplete?: any) =>
+    render(
+      <WorkflowProvider workflowConfig={workflowConfig} onWorkflowComplete={onWorkflowComplete}>
+        <CurrentStep />
+        <WorkflowBody />
+        <WorkflowNextButton />
+        <FormErrors />
+      </WorkflowProvider>
+    );
+
+  const fillAndContinue = async (stepId: string, nextStepId?: string) => {
+    fireEvent.change(screen.getByTestId(`input-${stepId}Field`), { target: { value: 'value' } });
+    fireEvent.click(screen.getByTestId('next-button'));
+    if (nextStepId) {
+      await waitFor(() => {
+        expect(screen.getByTestId('current-step-id')).toHaveTextContent(nextStepId);
+      });
+    }
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    config = ril
+      .create()
+      .addComponent('input', { name: 'Text Input', renderer: MockInput })
+      .configure({
+        rowRenderer: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
+        bodyRenderer: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
+        nextButtonRenderer: () => (
+          <button type="submit" data-testid="next-button">
+            Next
+          </button>
+        ),
+      });
+  });
+
+  it('should go back to the first step with errors and show them on each step', async () => {
+    const onWorkflowComplete = vi.fn().mockResolvedValue(
+      new SubmissionError(
+        {
+          'shipping.shippingField': [{ message: 'Unknown address' }],
+          accountField: [{ message: 'Already registered' }],
+        },
+        [{ message: 'Please check your details' }]
+      )
+    );
+    const workflowConfig = flow
+      .create(config, 'checkout')
+      .addStep([createStep('account'), createStep('shipping'), createStep('payment')])
+      .build();
+
+    renderWorkflow(workflowConfig, onWorkflowComplete);
+    await fillAndContinue('account', 'shipping');
+    await fillAndContinue('shipping', 'payment');
+    await fillAndContinue('payment');
+
+    await waitFor(() => {
+      expect(screen.getByTestId('current-step-id')).toHaveTextContent('account');
+    });
+    await waitFor(() => {
+      expect(screen.getByTestId('error-accountField')).toHaveTextContent('Already registered');
+    });
+    expect(screen.getByTestId('form-errors')).toHaveTextContent('Please check your details');
+
+    await fillAndContinue('account', 'shipping');
+    await waitFor(() => {
+      expect(screen.getByTestId('error-shippingField')).toHaveTextContent('Unknown address');
+    });
+  });
+
+  it('should keep the workflow on the step when an after callback rejects it', async () => {
+    const workflowConfig = flow
+      .create(config, 'signup')
+      .addStep([
+        createStep('account', {
+          after: () => {
+            throw new SubmissionError({ accountField: [{ message: 'Already registered' }] });
+          },
+        }),
+        createStep('profile'),
+      ])
+      .build();
+
+    renderWorkflow(workflowConfig);
+    await fillAndContinue('account');
+
+    await waitFor(() => {
+      expect(screen.getByTestId('error-accountField')).toHaveTextContent('Already registered');
+    });
+    expect(screen.getByTestId('current-step-id')).toHaveTextContent('account');
+  });
+
+  it('should split errors by the step of their field', () => {
+    const workflowConfig = flow
+      .create(config, 'orders')
+      .addStep([
+        createStep('customer'),
+        createStep('cart', {
+          formConfig: form
+            .create(config)
+            .addRepeatable('items', (r) => r.add({ id: 'qty', type: 'input' })),
+        }),
+      ])
+      .build();
+
+    const { firstStepIndex, stepErrors } = splitSubmissionError(
+      new SubmissionError({
+        'items[2].qty': [{ message: 'Out of stock' }],
+        coupon: [{ message: 'Expired' }],
+      }),
+      workflowConfig.steps,
+      0
+    );
+
+    expect(firstStepIndex).toBe(1);
+    expect(Object.keys(stepErrors)).toEqual(['cart']);
+    expect(stepErrors.cart.fieldErrors).toEqual({
+      'items[2].qty': [{ message: 'Out of stock' }],
+      coupon: [{ message: 'Expired' }],
+    });
+  });
+});
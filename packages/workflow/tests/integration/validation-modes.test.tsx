@@ -0,0 +1,94 @@
+import { required, ril } from '@rilaykit/core';
+import { form } from '@rilaykit/forms';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import type React from 'react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { WorkflowBody, WorkflowNextButton, WorkflowProvider, useWorkflowContext } from '../../src';
+import { flow } from '../../src/builders/flow';
+
+describe('Workflow - validation modes', () => {
+  const MockInput = ({ id, value, onChange, error }: any) => (
+    <div>
+      <input
+        value={value || ''}
+        onChange={(e) => onChange?.(e.target.value)}
+        data-testid={`input-${id}`}
+      />
+      {error?.length > 0 && <span data-testid={`error-${id}`}>{error[0].message}</span>}
+    </div>
+  );
+
+  const CurrentStep = () => {
+    const { currentStep } = useWorkflowContext();
+    return <div data-testid="current-step-id">{currentStep?.id}</div>;
+  };
+
+  let config: ril<Record<string, any>>;
+
+  beforeEach(() => {
+    config = ril
+      .create()
+      .addComponent('input', { name: 'Text Input', renderer: MockInput })
+      .configure({
+        rowRenderer: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
+        bodyRenderer: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
+        nextButtonRenderer: () => (
+          <button type="submit" data-testid="next-button">
+            Next
+          </button>
+        ),
+      });
+  });
+
+  const change = async (fieldId: string, value: string) => {
+    await act(async () => {
+      fireEvent.change(screen.getByTestId(`input-${fieldId}`), { target: { value } });
+    });
+  };
+
+  it('should follow the validation mode of the form of each step', async () => {
+    const workflowConfig = flow
+      .create(config, 'signup')
+      .addStep({
+        id: 'account',
+        title: 'Account',
+        formConfig: form
+          .create(config)
+          .add({ id: 'email', type: 'input', validation: { validate: required('Required') } })
+          .setValidation({ mode: 'onChange' }),
+      })
+      .addStep({
+        id: 'profile',
+        title: 'Profile',
+        formConfig: form
+          .create(config)
+          .add({ id: 'name', type: 'input', validation: { validate: required('Required') } }),
+      })
+      .build();
+
+    render(
+      <WorkflowProvider workflowConfig={workflowConfig}>
+        <CurrentStep />
+        <WorkflowBody />
+        <WorkflowNextButton />
+      </WorkflowProvider>
+    );
+
+    await change('email', 'a');
+    await change('email', '');
+    expect(screen.getByTestId('error-email')).toHaveTextContent('Required');
+
+    await change('email', 'me@example.com');
+    await act(async () => {
+      fireEvent.click(screen.getByTestId('next-button'));
+    });
+    await waitFor(() => {
+      expect(screen.getByTestId('current-step-id')).toHaveTextContent('profile');
+    });
+
+    // The next step starts unsubmitted, with the default mode of its form
+    await change('name', 'a');
+    await change('name', '');
+    expect(screen.queryByTestId('error-name')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,127 @@
+import { ril } from '@rilaykit/core';
+import { form } from '@rilaykit/forms';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import type React from 'react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  WorkflowBody,
+  WorkflowNextButton,
+  WorkflowProvider,
+  useWorkflowActions,
+  useWorkflowContext,
+} from '../../src';
+import { flow } from '../../src/builders/flow';
+
+describe('Workflow - undo/redo history', () => {
+  const MockInput = ({ id, value, onChange, props }: any) => (
+    <div data-testid={`field-${id}`}>
+      <label htmlFor={id}>{props.label}</label>
+      <input
+        id={id}
+        type="text"
+        value={value || ''}
+        onChange={(e) => onChange?.(e.target.value)}
+        data-testid={`input-${id}`}
+      />
+    </div>
+  );
+
+  const HistoryControls = () => {
+    const { currentStep } = useWorkflowContext();
+    const { undo, redo, canUndo, canRedo } = useWorkflowActions();
+
+    return (
+      <div>
+        <div data-testid="current-step-id">{currentStep?.id || 'none'}</div>
+        <button type="button" onClick={undo} disabled={!canUndo} data-testid="undo">
+          Undo
+        </button>
+        <button type="button" onClick={redo} disabled={!canRedo} data-testid="redo">
+          Redo
+        </button>
+      </div>
+    );
+  };
+
+  let workflowConfig: any;
+
+  beforeEach(() => {
+    const config = ril
+      .create()
+      .addComponent('input', {
+        name: 'Text Input',
+        renderer: MockInput,
+      })
+      .configure({
+        rowRenderer: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
+        bodyRenderer: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
+        nextButtonRenderer: () => (
+          <button type="submit" data-testid="next-button">
+            Next
+          </button>
+        ),
+      });
+
+    const createForm = (fieldId: string) =>
+      form.create(config).add({ id: fieldId, type: 'input', props: { label: fieldId } });
+
+    workflowConfig = flow
+      .create(config, 'history-flow')
+      .addStep({ id: 'personal', title: 'Personal', formConfig: createForm('name') })
+      .addStep({ id: 'contact', title: 'Contact', formConfig: createForm('email') })
+      .configure({ history: true })
+      .build();
+  });
+
+  const renderWorkflow = () =>
+    render(
+      <WorkflowProvider workflowConfig={workflowConfig}>
+        <HistoryControls />
+        <WorkflowBody />
+        <WorkflowNextButton />
+      </WorkflowProvider>
+    );
+
+  it('should restore field values in the step form', async () => {
+    renderWorkflow();
+    expect(screen.getByTestId('undo')).toBeDisabled();
+
+    fireEvent.change(screen.getByTestId('input-name'), { target: { value: 'Joe' } });
+    expect(screen.getByTestId('undo')).not.toBeDisabled();
+
+    fireEvent.click(screen.getByTestId('undo'));
+    await waitFor(() => {
+      expect(screen.getByTestId('input-name')).toHaveValue('');
+    });
+    expect(screen.getByTestId('undo')).toBeDisabled();
+
+    fireEvent.click(screen.getByTestId('redo'));
+    await waitFor(() => {
+      expect(screen.getByTestId('input-name')).toHaveValue('Joe');
+    });
+    expect(screen.getByTestId('redo')).toBeDisabled();
+  });
+
+  it('should undo navigation back to the previous step with its data', async () => {
+    renderWorkflow();
+
+    fireEvent.change(screen.getByTestId('input-name'), { target: { value: 'Joe' } });
+    fireEvent.click(screen.getByTestId('next-button'));
+    await waitFor(() => {
+      expect(screen.getByTestId('current-step-id')).toHaveTextContent('contact');
+    });
+
+    fireEvent.change(screen.getByTestId('input-email'), { target: { value: 'joe@example.com' } });
+
+    fireEvent.click(screen.getByTestId('undo'));
+    await waitFor(() => {
+      expect(screen.getByTestId('input-email')).toHaveValue('');
+    });
+
+    fireEvent.click(screen.getByTestId('undo'));
+    await waitFor(() => {
+      expect(screen.getByTestId('current-step-id')).toHaveTextContent('personal');
+    });
+    expect(screen.getByTestId('input-name')).toHaveValue('Joe');
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * @vitest-environment node
+ * @fileoverview Tests for encrypted persistence adapter
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import { EncryptedPersistenceAdapter } from '../../../src/persistence/adapters/encrypted';
+import type {
+  PersistedWorkflowData,
+  WorkflowPersistenceAdapter,
+} from '../../../src/persistence/types';
+import { persistedToWorkflowState } from '../../../src/persistence/utils';
+
+// In-memory adapter exposing what actually gets stored
+class MemoryAdapter implements WorkflowPersistenceAdapter {
+  storage = new Map<string, PersistedWorkflowData>();
+
+  async save(key: string, data: PersistedWorkflowData) {
+    this.storage.set(key, data);
+  }
+
+  async load(key: string) {
+    return this.storage.get(key) ?? null;
+  }
+
+  async remove(key: string) {
+    this.storage.delete(key);
+  }
+
+  async exists(key: string) {
+    return this.storage.has(key);
+  }
+}
+
+const generateKey = () =>
+  crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+
+describe('EncryptedPersistenceAdapter', () => {
+  let inner: MemoryAdapter;
+  let key: CryptoKey;
+
+  const testData: PersistedWorkflowData = {
+    workflowId: 'onboarding',
+    currentStepIndex: 1,
+    currentStepId: 'payment',
+    allData: {
+      account: { email: 'john@example.com', password: 'secret' },
+      payment: { cardNumber: '4242424242424242', holder: 'John' },
+    },
+    stepData: { cardNumber: '4242424242424242', holder: 'John' },
+    visitedSteps: ['account', 'payment'],
+    lastSaved: 1000,
+    version: 2,
+  };
+
+  beforeEach(async () => {
+    inner = new MemoryAdapter();
+    key = await generateKey();
+  });
+
+  it('should round-trip data through encryption', async () => {
+    const adapter = new EncryptedPersistenceAdapter({ adapter: inner, key });
+
+    await adapter.save('onboarding', testData);
+
+    expect(await adapter.load('onboarding')).toEqual(testData);
+  });
+
+  it('should not store data in plain text', async () => {
+    const adapter = new EncryptedPersistenceAdapter({ adapter: inner, key });
+
+    await adapter.save('onboarding', testData);
+
+    const stored = inner.storage.get('onboarding');
+    expect(JSON.stringify(stored)).not.toContain('john@example.com');
+    expect(stored).toMatchObject({
+      workflowId: 'onboarding',
+      allData: {},
+      stepData: {},
+      lastSaved: 1000,
+      version: 2,
+    });
+  });
+
+  it('should accept a key factory', async () => {
+    const adapter = new EncryptedPersistenceAdapter({ adapter: inner, key: async () => key });
+
+    await adapter.save('onboarding', testData);
+
+    expect((await adapter.load('onboarding'))?.allData).toEqual(testData.allData);
+  });
+
+  it('should fail with DECRYPTION_FAILED when the key does not match', async () => {
+    await new EncryptedPersistenceAdapter({ adapter: inner, key }).save('onboarding', testData);
+    const adapter = new EncryptedPersistenceAdapter({ adapter: inner, key: await generateKey() });
+
+    await expect(adapter.load('onboarding')).rejects.toMatchObject({ code: 'DECRYPTION_FAILED' });
+  });
+
+  it('should never persist excluded fields', async () => {
+    const adapter = new EncryptedPersistenceAdapter({
+      adapter: inner,
+      key,
+      exclude: ['password', 'payment.cardNumber'],
+    });
+
+    await adapter.save('onboarding', testData);
+
+    expect(await adapter.load('onboarding')).toMatchObject({
+      allData: {
+        account: { email: 'john@example.com' },
+        payment: { holder: 'John' },
+      },
+      stepData: { holder: 'John' },
+    });
+  });
+
+  it('should only exclude qualified fields in their step', async () => {
+    const adapter = new EncryptedPersistenceAdapter({
+      adapter: inner,
+      key,
+      exclude: ['account.email'],
+    });
+
+    await adapter.save('onboarding', {
+      ...testData,
+      allData: { ...testData.allData, contact: { email: 'kept@example.com' } },
+      stepData: { email: 'kept@example.com' },
+    });
+
+    const loaded = await adapter.load('onboarding');
+    expect(loaded?.allData.account).toEqual({ password: 'secret' });
+    expect(loaded?.allData.contact).toEqual({ email: 'kept@example.com' });
+    expect(loaded?.stepData).toEqual({ email: 'kept@example.com' });
+  });
+
+  it('should exclude qualified fields from the step data of their step', async () => {
+    const adapter = new EncryptedPersistenceAdapter({
+      adapter: inner,
+      key,
+      exclude: ['payment.cardNumber'],
+    });
+
+    await adapter.save('onboarding', testData);
+
+    expect((await adapter.load('onboarding'))?.stepData).toEqual({ holder: 'John' });
+  });
+
+  it('should exclude fields of sub-workflow steps', async () => {
+    const adapter = new EncryptedPersistenceAdapter({
+      adapter: inner,
+      key,
+      exclude: ['password', 'kyc.identity.document'],
+    });
+
+    await adapter.save('onboarding', {
+      ...testData,
+      currentStepIndex: 0,
+      currentStepId: 'kyc.identity',
+      allData: { kyc: { identity: { password: 'secret', document: 'AB123', name: 'John' } } },
+      stepData: { password: 'secret', document: 'AB123', name: 'John' },
+      visitedSteps: ['kyc.identity'],
+    });
+
+    const loaded = await adapter.load('onboarding');
+    expect(loaded?.allData).toEqual({ kyc: { identity: { name: 'John' } } });
+    expect(loaded?.stepData).toEqual({ name: 'John' });
+    expect(JSON.stringify(inner.storage.get('onboarding'))).not.toContain('secret');
+  });
+
+  it('should not exclude plain fields inside field values', async () => {
+    const adapter = new EncryptedPersistenceAdapter({ adapter: inner, key, exclude: ['id'] });
+    const contacts = [{ id: 'c1', name: 'Jane' }];
+
+    await adapter.save('onboarding', {
+      ...testData,
+      allData: { ...testData.allData, contacts: { id: 'x', list: contacts, owner: { id: 'u1' } } },
+      visitedSteps: [...testData.visitedSteps, 'contacts'],
+    });
+
+    const loaded = await adapter.load('onboarding');
+    expect(loaded?.allData.contacts).toEqual({ list: contacts, owner: { id: 'u1' } });
+  });
+
+  it('should match step data with the current step id rather than its content', async () => {
+    const adapter = new EncryptedPersistenceAdapter({
+      adapter: inner,
+      key,
+      exclude: ['billing.cardNumber'],
+    });
+
+    // Both steps hold the same data, the current one is payment
+    await adapter.save('onboarding', {
+      ...testData,
+      allData: { ...testData.allData, billing: { ...testData.stepData } },
+    });
+
+    const loaded = await adapter.load('onboarding');
+    expect(loaded?.allData.billing).toEqual({ holder: 'John' });
+    expect(loaded?.stepData).toEqual(testData.stepData);
+  });
+
+  it('should persist redacted fields with a masked value', async () => {
+    const adapter = new EncryptedPersistenceAdapter({
+      adapter: inner,
+      key,
+      redact: ['payment.cardNumber'],
+    });
+
+    await adapter.save('onboarding', testData);
+
+    // Read back without the redaction rule to see what was stored
+    const stored = await new EncryptedPersistenceAdapter({ adapter: inner, key }).load(
+      'onboarding'
+    );
+    expect(stored?.allData.payment).toEqual({ cardNumber: '[REDACTED]', holder: 'John' });
+    expect(stored?.stepData).toEqual({ cardNumber: '[REDACTED]', holder: 'John' });
+  });
+
+  it('should resume a workflow with redacted fields left empty', async () => {
+    const config = { adapter: inner, key, redact: ['payment.cardNumber'] };
+    await new EncryptedPersistenceAdapter(config).save('onboarding', testData);
+
+    // A new adapter instance, as after a page reload
+    const loaded = await new EncryptedPersistenceAdapter(config).load('onboarding');
+    const resumed = persistedToWorkflowState(loaded!);
+
+    expect(resumed.allData?.payment.cardNumber).toBeUndefined();
+    expect(resumed.allData?.payment.holder).toBe('John');
+    expect(resumed.stepData?.cardNumber).toBeUndefined();
+    expect(JSON.stringify(resumed)).not.toContain('[REDACTED]');
+  });
+
+  it('should load drafts saved without encryption', async () => {
+    await inner.save('onboarding', testData);
+    const adapter = new EncryptedPersistenceAdapter({ adapter: inner, key, exclude: ['password'] });
+
+    const loaded = await adapter.load('onboarding');
+
+    expect(loaded?.allData.account).toEqual({ email: 'john@example.com' });
+  });
+
+  it('should delegate remove, exists, listKeys and clear', async () => {
+    const adapter = new EncryptedPersistenceAdapter({ adapter: inner, key });
+    await adapter.save('onboarding', testData);
+
+    expect(await adapter.exists('onboarding')).toBe(true);
+    expect(await adapter.listKeys()).toEqual([]);
+
+    await adapter.remove('onboarding');
+    expect(await adapter.exists('onboarding')).toBe(false);
+    expect(await adapter.load('onboarding')).toBeNull();
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * @vitest-environment node
+ * @fileoverview Tests for HTTP persistence adapter against a local mock server
+ */
+
+import { type Server, createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HttpAdapter } from '../../../src/persistence/adapters/http';
+import type { PersistedWorkflowData } from '../../../src/persistence/types';
+import { WorkflowPersistenceConflictError } from '../../../src/persistence/types';
+
+// Minimal draft API with ETag based optimistic concurrency
+const createMockServer = () => {
+  const drafts = new Map<string, { data: PersistedWorkflowData; etag: string }>();
+  const requests: { method: string; url: string; headers: Record<string, unknown> }[] = [];
+  let revision = 0;
+  let failuresLeft = 0;
+
+  const server = createServer((req, res) => {
+    requests.push({ method: req.method ?? '', url: req.url ?? '', headers: req.headers });
+
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      res.writeHead(503).end();
+      return;
+    }
+
+    const send = (status: number, body?: unknown, etag?: string) => {
+      res.writeHead(status, {
+        'Content-Type': 'application/json',
+        ...(etag ? { ETag: etag } : {}),
+      });
+      res.end(body === undefined ? undefined : JSON.stringify(body));
+    };
+
+    if (req.url === '/drafts') {
+      if (req.method === 'GET') return send(200, Array.from(drafts.keys()));
+      drafts.clear();
+      return send(204);
+    }
+
+    const key = decodeURIComponent((req.url ?? '').replace('/drafts/', ''));
+    const existing = drafts.get(key);
+
+    if (req.method === 'GET') {
+      return existing ? send(200, existing.data, existing.etag) : send(404);
+    }
+
+    if (req.method === 'DELETE') {
+      drafts.delete(key);
+      return send(204);
+    }
+
+    const ifMatch = req.headers['if-match'];
+    const ifNoneMatch = req.headers['if-none-match'];
+    if ((ifMatch && ifMatch !== existing?.etag) || (ifNoneMatch === '*' && existing)) {
+      return send(412);
+    }
+
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      const etag = `"${++revision}"`;
+      drafts.set(key, { data: JSON.parse(body), etag });
+      send(200, undefined, etag);
+    });
+  });
+
+  return {
+    server,
+    drafts,
+    requests,
+    failNext: (count: number) => {
+      failuresLeft = count;
+    },
+    reset: () => {
+      drafts.clear();
+      requests.length = 0;
+      revision = 0;
+      failuresLeft = 0;
+    },
+  };
+};
+
+describe('HttpAdapter', () => {
+  const mock = createMockServer();
+  let server: Server;
+  let baseUrl: string;
+
+  const testData: PersistedWorkflowData = {
+    workflowId: 'onboarding',
+    currentStepIndex: 1,
+    allData: { personal: { name: 'John' } },
+    stepData: {},
+    visitedSteps: ['personal'],
+    lastSaved: 1000,
+  };
+
+  const createAdapter = (config: Partial<ConstructorParameters<typeof HttpAdapter>[0]> = {}) =>
+    new HttpAdapter({
+      endpoint: `${baseUrl}/drafts/{key}`,
+      collectionEndpoint: `${baseUrl}/drafts`,
+      retry: { delayMs: 1 },
+      ...config,
+    });
+
+  beforeAll(async () => {
+    server = mock.server;
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    mock.reset();
+  });
+
+  describe('basic operations', () => {
+    it('should save, load and remove data', async () => {
+      const adapter = createAdapter();
+
+      await adapter.save('onboarding', testData);
+      expect(await adapter.load('onboarding')).toEqual(testData);
+      expect(await adapter.exists('onboarding')).toBe(true);
+
+      await adapter.remove('onboarding');
+      expect(await adapter.load('onboarding')).toBeNull();
+      expect(await adapter.exists('onboarding')).toBe(false);
+    });
+
+    it('should encode keys in endpoint templates', async () => {
+      const adapter = createAdapter();
+
+      await adapter.save('user-1:onboarding', testData);
+
+      expect(mock.requests[0].url).toBe('/drafts/user-1%3Aonboarding');
+      expect(mock.drafts.has('user-1:onboarding')).toBe(true);
+    });
+
+    it('should list and clear keys through the collection endpoint', async () => {
+      const adapter = createAdapter();
+      await adapter.save('a', testData);
+      await adapter.save('b', testData);
+
+      expect(await adapter.listKeys()).toEqual(['a', 'b']);
+
+      await adapter.clear();
+      expect(await adapter.listKeys()).toEqual([]);
+    });
+
+    it('should reject listing keys without a collection endpoint', async () => {
+      const adapter = createAdapter({ collectionEndpoint: undefined });
+
+      await expect(adapter.listKeys()).rejects.toMatchObject({ code: 'LIST_FAILED' });
+    });
+
+    it('should send static and async headers', async () => {
+      await createAdapter({ headers: { Authorization: 'Bearer static' } }).load('onboarding');
+      await createAdapter({ headers: async () => ({ Authorization: 'Bearer async' }) }).load(
+        'onboarding'
+      );
+
+      expect(mock.requests[0].headers.authorization).toBe('Bearer static');
+      expect(mock.requests[1].headers.authorization).toBe('Bearer async');
+    });
+  });
+
+  describe('retry', () => {
+    it('should retry server errors with backoff', async () => {
+      const adapter = createAdapter();
+      mock.failNext(2);
+
+      await adapter.save('onboarding', testData);
+
+      expect(mock.requests).toHaveLength(3);
+      expect(mock.drafts.get('onboarding')?.data).toEqual(testData);
+    });
+
+    it('should fail with SAVE_FAILED once attempts are exhausted', async () => {
+      const adapter = createAdapter({ retry: { attempts: 2, delayMs: 1 } });
+      mock.failNext(5);
+
+      await expect(adapter.save('onboarding', testData)).rejects.toMatchObject({
+        code: 'SAVE_FAILED',
+      });
+      expect(mock.requests).toHaveLength(2);
+    });
+
+    it('should not retry when disabled', async () => {
+      const adapter = createAdapter({ retry: false });
+      mock.failNext(1);
+
+      await expect(adapter.load('onboarding')).rejects.toMatchObject({ code: 'LOAD_FAILED' });
+      expect(mock.requests).toHaveLength(1);
+    });
+  });
+
+  describe('conflicts', () => {
+    const remoteData = { ...testData, allData: { personal: { name: 'Remote' } }, lastSaved: 2000 };
+    const localData = { ...testData, allData: { preferences: { theme: 'dark' } }, lastSaved: 3000 };
+
+    // Loads the draft on this device, then saves a newer version from another device
+    const setupConflict = async (adapter: HttpAdapter) => {
+      const otherDevice = createAdapter();
+      await otherDevice.save('onboarding', testData);
+      await adapter.load('onboarding');
+      await otherDevice.save('onboarding', remoteData);
+    };
+
+    it('should reject conflicting saves without onConflict', async () => {
+      const adapter = createAdapter();
+      await setupConflict(adapter);
+
+      const error = await adapter.save('onboarding', localData).catch((e) => e);
+
+      expect(error).toBeInstanceOf(WorkflowPersistenceConflictError);
+      expect(error.code).toBe('CONFLICT');
+      expect(error.conflict).toEqual({ key: 'onboarding', local: localData, remote: remoteData });
+      expect(mock.drafts.get('onboarding')?.data).toEqual(remoteData);
+    });
+
+    it('should send conditional requests based on ETags', async () => {
+      const adapter = createAdapter();
+      await adapter.load('onboarding');
+      await adapter.save('onboarding', testData);
+      await adapter.save('onboarding', localData);
+
+      expect(mock.requests[1].headers['if-none-match']).toBe('*');
+      expect(mock.requests[2].headers['if-match']).toBe('"1"');
+    });
+
+    it('should not overwrite remote data when saving before any load', async () => {
+      await createAdapter().save('onboarding', remoteData);
+      const adapter = createAdapter();
+
+      await expect(adapter.save('onboarding', localData)).rejects.toBeInstanceOf(
+        WorkflowPersistenceConflictError
+      );
+      expect(mock.requests[1].headers['if-none-match']).toBe('*');
+      expect(mock.drafts.get('onboarding')?.data).toEqual(remoteData);
+    });
+
+    it('should detect remote data from lastSaved timestamps when saving before any load', async () => {
+      await createAdapter().save('onboarding', remoteData);
+      const onConflict = vi.fn(() => 'remote' as const);
+      const adapter = createAdapter({ conflictDetection: 'lastSaved', onConflict });
+
+      await expect(adapter.save('onboarding', localData)).rejects.toBeInstanceOf(
+        WorkflowPersistenceConflictError
+      );
+      expect(onConflict).toHaveBeenCalledWith({
+        key: 'onboarding',
+        local: localData,
+        remote: remoteData,
+      });
+      expect(mock.drafts.get('onboarding')?.data).toEqual(remoteData);
+    });
+
+    it('should overwrite remote data when resolved as local', async () => {
+      const onConflict = vi.fn(() => 'local' as const);
+      const adapter = createAdapter({ onConflict });
+      await setupConflict(adapter);
+
+      await adapter.save('onboarding', localData);
+
+      expect(onConflict).toHaveBeenCalledWith({
+        key: 'onboarding',
+        local: localData,
+        remote: remoteData,
+      });
+      expect(mock.drafts.get('onboarding')?.data).toEqual(localData);
+    });
+
+    it('should keep remote data when resolved as remote', async () => {
+      const adapter = createAdapter({ onConflict: () => 'remote' });
+      await setupConflict(adapter);
+
+      await expect(adapter.save('onboarding', localData)).rejects.toBeInstanceOf(
+        WorkflowPersistenceConflictError
+      );
+      expect(mock.drafts.get('onboarding')?.data).toEqual(remoteData);
+    });
+
+    it('should save merged data', async () => {
+      const adapter = createAdapter({
+        onConflict: ({ local, remote }) => ({
+          merged: { ...local, allData: { ...remote?.allData, ...local.allData } },
+        }),
+      });
+      await setupConflict(adapter);
+
+      await adapter.save('onboarding', localData);
+
+      expect(mock.drafts.get('onboarding')?.data.allData).toEqual({
+        personal: { name: 'Remote' },
+        preferences: { theme: 'dark' },
+      });
+    });
+
+    it('should detect conflicts from lastSaved timestamps', async () => {
+      const onConflict = vi.fn(() => 'local' as const);
+      const adapter = createAdapter({ conflictDetection: 'lastSaved', onConflict });
+      await setupConflict(adapter);
+      const setupRequestCount = mock.requests.length;
+
+      await adapter.save('onboarding', localData);
+
+      expect(onConflict).toHaveBeenCalledTimes(1);
+      const saveRequests = mock.requests.slice(setupRequestCount);
+      expect(saveRequests.some((request) => request.headers['if-match'])).toBe(false);
+      expect(mock.drafts.get('onboarding')?.data).toEqual(localData);
+    });
+
+    it('should overwrite without checks when conflict detection is disabled', async () => {
+      const onConflict = vi.fn(() => 'remote' as const);
+      const adapter = createAdapter({ conflictDetection: 'none', onConflict });
+      await setupConflict(adapter);
+
+      await adapter.save('onboarding', localData);
+
+      expect(onConflict).not.toHaveBeenCalled();
+      expect(mock.drafts.get('onboarding')?.data).toEqual(localData);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * @fileoverview Tests for IndexedDB persistence adapter
+ */
+
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { IndexedDBAdapter } from '../../../src/persistence/adapters/indexedDB';
+import type { PersistedWorkflowData } from '../../../src/persistence/types';
+
+describe('IndexedDBAdapter', () => {
+  let adapter: IndexedDBAdapter;
+  const testKey = 'test-workflow';
+  const testData: PersistedWorkflowData = {
+    workflowId: 'test-workflow',
+    currentStepIndex: 1,
+    allData: { step1: { name: 'John' } },
+    stepData: { email: 'john@example.com' },
+    visitedSteps: ['step1'],
+    lastSaved: Date.now(),
+  };
+
+  beforeEach(() => {
+    // Fresh database for each test
+    globalThis.indexedDB = new IDBFactory();
+    adapter = new IndexedDBAdapter();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('save and load', () => {
+    it('should save and load data', async () => {
+      await adapter.save(testKey, testData);
+      const loaded = await adapter.load(testKey);
+
+      expect(loaded).toMatchObject({
+        workflowId: testData.workflowId,
+        currentStepIndex: 1,
+        allData: testData.allData,
+        stepData: testData.stepData,
+        visitedSteps: ['step1'],
+      });
+    });
+
+    it('should update lastSaved on save', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(1_000_000);
+
+      await adapter.save(testKey, { ...testData, lastSaved: 0 });
+
+      expect((await adapter.load(testKey))?.lastSaved).toBe(1_000_000);
+    });
+
+    it('should return null for missing keys', async () => {
+      expect(await adapter.load('missing')).toBeNull();
+    });
+
+    it('should overwrite existing data', async () => {
+      await adapter.save(testKey, testData);
+      await adapter.save(testKey, { ...testData, currentStepIndex: 2 });
+
+      expect((await adapter.load(testKey))?.currentStepIndex).toBe(2);
+    });
+  });
+
+  describe('remove and exists', () => {
+    it('should remove data', async () => {
+      await adapter.save(testKey, testData);
+      expect(await adapter.exists(testKey)).toBe(true);
+
+      await adapter.remove(testKey);
+
+      expect(await adapter.exists(testKey)).toBe(false);
+      expect(await adapter.load(testKey)).toBeNull();
+    });
+  });
+
+  describe('listKeys and clear', () => {
+    it('should list and clear all keys', async () => {
+      await adapter.save('workflow-a', testData);
+      await adapter.save('workflow-b', testData);
+
+      expect((await adapter.listKeys()).sort()).toEqual(['workflow-a', 'workflow-b']);
+
+      await adapter.clear();
+
+      expect(await adapter.listKeys()).toEqual([]);
+    });
+
+    it('should isolate data across store names in the same database', async () => {
+      const otherAdapter = new IndexedDBAdapter({ storeName: 'drafts' });
+
+      await adapter.save('workflow-a', testData);
+      await otherAdapter.save('workflow-b', testData);
+
+      expect(await adapter.listKeys()).toEqual(['workflow-a']);
+      expect(await otherAdapter.listKeys()).toEqual(['workflow-b']);
+    });
+  });
+
+  describe('expiration', () => {
+    it('should not return expired data', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(1_000_000);
+      adapter = new IndexedDBAdapter({ maxAge: 1000 });
+
+      await adapter.save(testKey, testData);
+      expect(await adapter.load(testKey)).not.toBeNull();
+
+      vi.setSystemTime(1_002_000);
+
+      expect(await adapter.load(testKey)).toBeNull();
+      expect(await adapter.listKeys()).toEqual([]);
+    });
+  });
+
+  describe('SSR compatibility', () => {
+    it('should no-op when IndexedDB is not available', async () => {
+      const original = globalThis.indexedDB;
+      // @ts-expect-error - simulating a server environment
+      globalThis.indexedDB = undefined;
+
+      try {
+        const ssrAdapter = new IndexedDBAdapter();
+
+        await expect(ssrAdapter.save(testKey, testData)).resolves.toBeUndefined();
+        expect(await ssrAdapter.load(testKey)).toBeNull();
+        expect(await ssrAdapter.exists(testKey)).toBe(false);
+        expect(await ssrAdapter.listKeys()).toEqual([]);
+      } finally {
+        globalThis.indexedDB = original;
+      }
+    });
+  });
+});
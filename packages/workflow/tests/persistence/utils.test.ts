@@ -9,7 +9,9 @@ import {
   debounce,
   generateStorageKey,
   mergePersistedState,
+  migratePersistedData,
   persistedToWorkflowState,
+  resolvePersistenceVersion,
   validatePersistedData,
   workflowStateToPersisted,
 } from '../../src/persistence/utils';
@@ -55,6 +57,98 @@ describe('Persistence Utils', () => {
 
       expect(result.metadata).toEqual(metadata);
     });
+
+    it('should include the current step id when provided', () => {
+      const result = workflowStateToPersisted(
+        'test-workflow',
+        mockWorkflowState,
+        undefined,
+        undefined,
+        'step2'
+      );
+
+      expect(result.currentStepId).toBe('step2');
+    });
+
+    it('should include the schema version when provided', () => {
+      const result = workflowStateToPersisted('test-workflow', mockWorkflowState, undefined, 3);
+
+      expect(result.version).toBe(3);
+    });
+  });
+
+  describe('resolvePersistenceVersion', () => {
+    it('should default to version 1', () => {
+      expect(resolvePersistenceVersion()).toBe(1);
+    });
+
+    it('should use the highest migration version when no version is set', () => {
+      const migration = (data: PersistedWorkflowData) => data;
+
+      expect(resolvePersistenceVersion({ migrations: { 2: migration, 4: migration } })).toBe(4);
+    });
+
+    it('should prefer the explicit version', () => {
+      expect(resolvePersistenceVersion({ version: 5, migrations: { 2: (data) => data } })).toBe(5);
+    });
+  });
+
+  describe('migratePersistedData', () => {
+    it('should return the data unchanged when versions match', async () => {
+      const data = { ...mockPersistedData, version: 2 };
+
+      expect(await migratePersistedData(data, 2)).toBe(data);
+    });
+
+    it('should apply migrations in order from the saved version', async () => {
+      const calls: number[] = [];
+      const result = await migratePersistedData(mockPersistedData, 3, {
+        2: (data) => {
+          calls.push(2);
+          const { step1, ...rest } = data.allData;
+          return { ...data, allData: { ...rest, identity: step1 } };
+        },
+        3: async (data) => {
+          calls.push(3);
+          return { ...data, metadata: { migrated: true } };
+        },
+      });
+
+      expect(calls).toEqual([2, 3]);
+      expect(result.version).toBe(3);
+      expect(result.allData).toEqual({ identity: { name: 'Jane' }, step3: { phone: '123' } });
+      expect(result.metadata).toEqual({ migrated: true });
+    });
+
+    it('should skip migrations older than the saved version', async () => {
+      const migration = vi.fn((data: PersistedWorkflowData) => data);
+
+      await migratePersistedData({ ...mockPersistedData, version: 2 }, 3, {
+        2: migration,
+        3: migration,
+      });
+
+      expect(migration).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw VERSION_MISMATCH when the data is newer', async () => {
+      await expect(
+        migratePersistedData({ ...mockPersistedData, version: 4 }, 2)
+      ).rejects.toMatchObject({ code: 'VERSION_MISMATCH' });
+    });
+
+    it('should throw MIGRATION_FAILED when a migration throws', async () => {
+      await expect(
+        migratePersistedData(mockPersistedData, 2, {
+          2: () => {
+            throw new Error('boom');
+          },
+        })
+      ).rejects.toMatchObject({
+        code: 'MIGRATION_FAILED',
+        message: expect.stringContaining('Migration to version 2 failed: boom'),
+      });
+    });
   });
 
   describe('persistedToWorkflowState', () => {
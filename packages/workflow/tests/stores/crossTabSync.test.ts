@@ -0,0 +1,154 @@
+/**
+ * @vitest-environment node
+ * @fileoverview Tests for cross-tab workflow synchronization
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { type CrossTabSync, syncWorkflowStoreAcrossTabs } from '../../src/stores/crossTabSync';
+import { type WorkflowStore, createWorkflowStore } from '../../src/stores/workflowStore';
+
+// BroadcastChannel delivers messages asynchronously
+const flushMessages = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+function createInitializedStore(): WorkflowStore {
+  const store = createWorkflowStore();
+  store.getState()._setInitializing(false);
+  return store;
+}
+
+describe('syncWorkflowStoreAcrossTabs', () => {
+  let syncs: CrossTabSync[] = [];
+
+  const openTab = (mode: 'sync' | 'lock', channel = 'onboarding') => {
+    const store = createInitializedStore();
+    syncs.push(syncWorkflowStoreAcrossTabs(store, { channel, mode }));
+    return { store, sync: syncs[syncs.length - 1] };
+  };
+
+  afterEach(() => {
+    for (const sync of syncs) {
+      sync.dispose();
+    }
+    syncs = [];
+  });
+
+  describe('sync mode', () => {
+    it('should apply changes made in another tab', async () => {
+      const first = openTab('sync');
+      const second = openTab('sync');
+
+      first.store.getState()._setStepData({ email: 'john@example.com' }, 'account');
+      first.store.getState()._markStepVisited('account');
+      first.store.getState()._setCurrentStep(1);
+      await flushMessages();
+
+      const state = second.store.getState();
+      expect(state.currentStepIndex).toBe(1);
+      expect(state.allData).toEqual({ account: { email: 'john@example.com' } });
+      expect(state.visitedSteps).toEqual(new Set(['account']));
+    });
+
+    it('should sync changes in both directions without echoing them back', async () => {
+      const first = openTab('sync');
+      const second = openTab('sync');
+      const revisions: number[] = [];
+      first.store.subscribe(
+        (state) => state._restoreRevision,
+        (revision) => revisions.push(revision)
+      );
+
+      first.store.getState()._setStepData({ name: 'John' }, 'account');
+      await flushMessages();
+      second.store.getState()._setStepData({ name: 'Jane' }, 'account');
+      await flushMessages();
+
+      expect(first.store.getState().allData).toEqual({ account: { name: 'Jane' } });
+      // Only the remote change was applied to the first tab
+      expect(revisions).toHaveLength(1);
+    });
+
+    it('should start a tab opened later from the state of the open tabs', async () => {
+      const first = openTab('sync');
+      first.store.getState()._setStepData({ email: 'john@example.com' }, 'account');
+      first.store.getState()._setCurrentStep(1);
+      await flushMessages();
+
+      const second = openTab('sync');
+      await flushMessages();
+
+      expect(second.store.getState().currentStepIndex).toBe(1);
+      expect(second.store.getState().allData).toEqual({ account: { email: 'john@example.com' } });
+    });
+
+    it('should ask for the state of the open tabs rather than share its loaded draft', async () => {
+      const first = openTab('sync');
+      first.store.getState()._setStepData({ email: 'new@example.com' }, 'account');
+      await flushMessages();
+
+      // The draft saved before the last change of the first tab
+      const store = createWorkflowStore();
+      syncs.push(syncWorkflowStoreAcrossTabs(store, { channel: 'onboarding', mode: 'sync' }));
+      store.getState()._loadPersistedState({ allData: { account: { email: 'old@example.com' } } });
+      await flushMessages();
+
+      expect(first.store.getState().allData).toEqual({ account: { email: 'new@example.com' } });
+      expect(store.getState().allData).toEqual({ account: { email: 'new@example.com' } });
+    });
+
+    it('should not share state while the workflow is initializing', async () => {
+      const first = openTab('sync');
+      const second = openTab('sync');
+
+      first.store.getState()._setInitializing(true);
+      first.store.getState()._setStepData({ name: 'John' }, 'account');
+      await flushMessages();
+
+      expect(second.store.getState().allData).toEqual({});
+    });
+
+    it('should ignore tabs of other workflows', async () => {
+      const first = openTab('sync', 'onboarding');
+      const second = openTab('sync', 'checkout');
+
+      first.store.getState()._setStepData({ name: 'John' }, 'account');
+      await flushMessages();
+
+      expect(second.store.getState().allData).toEqual({});
+    });
+  });
+
+  describe('lock mode', () => {
+    it('should lock the other tabs when a tab opens the workflow', async () => {
+      const first = openTab('lock');
+      await flushMessages();
+      const second = openTab('lock');
+      await flushMessages();
+
+      expect(first.store.getState().isLockedElsewhere).toBe(true);
+      expect(second.store.getState().isLockedElsewhere).toBe(false);
+    });
+
+    it('should move the lock back with takeOver', async () => {
+      const first = openTab('lock');
+      await flushMessages();
+      const second = openTab('lock');
+      await flushMessages();
+
+      first.sync.takeOver();
+      await flushMessages();
+
+      expect(first.store.getState().isLockedElsewhere).toBe(false);
+      expect(second.store.getState().isLockedElsewhere).toBe(true);
+    });
+
+    it('should not share state between tabs', async () => {
+      const first = openTab('lock');
+      const second = openTab('lock');
+
+      second.store.getState()._setStepData({ name: 'John' }, 'account');
+      await flushMessages();
+
+      expect(first.store.getState().allData).toEqual({});
+    });
+  });
+});
@@ -480,4 +480,99 @@ describe('workflowStore', () => {
       expect(store.getState().currentStepIndex).toBe(0);
     });
   });
+
+  describe('history', () => {
+    it('should undo and redo field changes and navigation', () => {
+      const { Wrapper, store } = createWrapper({ history: true });
+      const { result } = renderHook(() => useWorkflowActions(), { wrapper: Wrapper });
+
+      act(() => {
+        result.current.setFieldValue('name', 'Joe', 'personal');
+      });
+      act(() => {
+        result.current.setCurrentStep(1);
+      });
+      expect(result.current.canUndo).toBe(true);
+
+      act(() => {
+        result.current.undo();
+      });
+      expect(store.getState().currentStepIndex).toBe(0);
+      expect(store.getState().allData).toEqual({ personal: { name: 'Joe' } });
+
+      act(() => {
+        result.current.undo();
+      });
+      expect(store.getState().allData).toEqual({});
+      expect(result.current.canUndo).toBe(false);
+      expect(result.current.canRedo).toBe(true);
+
+      act(() => {
+        result.current.redo();
+      });
+      expect(store.getState().allData).toEqual({ personal: { name: 'Joe' } });
+      expect(store.getState()._restoreRevision).toBe(3);
+    });
+
+    it('should group rapid changes of the same field', () => {
+      const { store } = createWrapper({ history: true });
+      const { _setFieldValue } = store.getState();
+
+      _setFieldValue('name', 'J', 'personal');
+      _setFieldValue('name', 'Jo', 'personal');
+      _setFieldValue('name', 'Joe', 'personal');
+      store.getState()._undo();
+
+      expect(store.getState().allData).toEqual({});
+      expect(store.getState().canUndo).toBe(false);
+    });
+
+    it('should record the changed fields rather than the whole data', () => {
+      const { store } = createWrapper({
+        history: true,
+        defaultValues: { personal: { name: 'Joe', city: 'Paris' }, contact: { email: 'a@b.c' } },
+      });
+
+      store
+        .getState()
+        ._withoutHistory(() =>
+          store.getState()._setStepData({ name: 'Joe', city: 'Paris' }, 'personal')
+        );
+      store.getState()._setFieldValue('name', 'Jane', 'personal');
+      store.getState()._setStepData({ name: 'Jane', city: 'Lyon' }, 'personal');
+      store.getState()._undo();
+
+      expect(store.getState().allData).toEqual({
+        personal: { name: 'Jane', city: 'Paris' },
+        contact: { email: 'a@b.c' },
+      });
+
+      store.getState()._undo();
+      expect(store.getState().allData.personal).toEqual({ name: 'Joe', city: 'Paris' });
+    });
+
+    it('should not record unchanged data or changes made without history', () => {
+      const { store } = createWrapper({
+        history: true,
+        defaultValues: { personal: { name: 'Joe' } },
+      });
+
+      store.getState()._setStepData({ name: 'Joe' }, 'personal');
+      store.getState()._setFieldValue('name', 'Joe', 'personal');
+      store.getState()._withoutHistory(() => store.getState()._setCurrentStep(2));
+
+      expect(store.getState().currentStepIndex).toBe(2);
+      expect(store.getState().canUndo).toBe(false);
+    });
+
+    it('should not record anything when history is disabled', () => {
+      const { store } = createWrapper();
+
+      store.getState()._setCurrentStep(1);
+      store.getState()._undo();
+
+      expect(store.getState().currentStepIndex).toBe(1);
+      expect(store.getState().canUndo).toBe(false);
+    });
+  });
 });
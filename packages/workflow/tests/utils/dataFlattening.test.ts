@@ -3,6 +3,7 @@ import {
   combineWorkflowDataForConditions,
   extractStepData,
   flattenObject,
+  getStepData,
   mergeStepData,
 } from '../../src/utils/dataFlattening';
 
@@ -302,6 +303,25 @@ describe('dataFlattening utilities', () => {
 
       expect(extractStepData(workflowData, 'nonexistent')).toEqual({});
     });
+
+    it('should extract data of sub-workflow steps from nested paths', () => {
+      const workflowData = {
+        billing: { street: { city: 'Paris' } },
+      };
+
+      expect(getStepData(workflowData, 'billing.street')).toEqual({ city: 'Paris' });
+      expect(getStepData(workflowData, 'billing.missing')).toBeUndefined();
+      expect(extractStepData(workflowData, 'billing.missing')).toEqual({});
+    });
+
+    it('should prefer a direct key over a nested path', () => {
+      const workflowData = {
+        'billing.street': { city: 'Lyon' },
+        billing: { street: { city: 'Paris' } },
+      };
+
+      expect(getStepData(workflowData, 'billing.street')).toEqual({ city: 'Lyon' });
+    });
   });
 
   describe('mergeStepData', () => {
@@ -341,5 +361,21 @@ describe('dataFlattening utilities', () => {
         },
       });
     });
+
+    it('should nest data of sub-workflow steps under the parent step', () => {
+      const workflowData = {
+        billing: { street: { city: 'Paris' } },
+      };
+
+      const result = mergeStepData(workflowData, 'billing.verification', { code: '1234' });
+
+      expect(result).toEqual({
+        billing: {
+          street: { city: 'Paris' },
+          verification: { code: '1234' },
+        },
+      });
+      expect(workflowData.billing).not.toHaveProperty('verification');
+    });
   });
 });
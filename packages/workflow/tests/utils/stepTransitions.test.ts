@@ -0,0 +1,146 @@
+import type { StepConfig } from '@rilaykit/core';
+import { when } from '@rilaykit/core';
+import { describe, expect, it } from 'vitest';
+import {
+  buildStepGraph,
+  computeStepPath,
+  findPreviousStepOnPath,
+  findStepIndexById,
+  recordStepTransition,
+  resolveNextStepIndex,
+} from '../../src/utils/stepTransitions';
+
+const createStep = (id: string, overrides: Partial<StepConfig> = {}): StepConfig =>
+  ({
+    id,
+    title: id,
+    formConfig: { id: `${id}-form`, rows: [], allFields: [] },
+    ...overrides,
+  }) as unknown as StepConfig;
+
+const allVisible = () => true;
+
+describe('stepTransitions utilities', () => {
+  const steps = [
+    createStep('start', {
+      next: [
+        { when: when('start.type').equals('business'), goTo: 'business' },
+        { goTo: 'personal' },
+      ],
+    }),
+    createStep('personal', { next: [{ goTo: 'summary' }] }),
+    createStep('business'),
+    createStep('summary'),
+  ];
+
+  describe('findStepIndexById', () => {
+    it('should resolve a sub-workflow step ID to its first spliced step', () => {
+      const splicedSteps = [createStep('start'), createStep('address.street'), createStep('end')];
+
+      expect(findStepIndexById(splicedSteps, 'end')).toBe(2);
+      expect(findStepIndexById(splicedSteps, 'address')).toBe(1);
+      expect(findStepIndexById(splicedSteps, 'unknown')).toBe(-1);
+    });
+  });
+
+  describe('resolveNextStepIndex', () => {
+    it('should take the first matching transition', () => {
+      expect(resolveNextStepIndex(steps, 0, { 'start.type': 'business' }, allVisible)).toBe(2);
+    });
+
+    it('should take the default transition when no condition matches', () => {
+      expect(resolveNextStepIndex(steps, 0, { 'start.type': 'personal' }, allVisible)).toBe(1);
+    });
+
+    it('should fall back to the next visible step without transitions', () => {
+      expect(resolveNextStepIndex(steps, 2, {}, allVisible)).toBe(3);
+      expect(resolveNextStepIndex(steps, 2, {}, (index) => index !== 3)).toBeNull();
+    });
+
+    it('should ignore transitions to hidden steps', () => {
+      expect(
+        resolveNextStepIndex(steps, 0, { 'start.type': 'business' }, (index) => index !== 2)
+      ).toBe(1);
+    });
+
+    it('should return null at the end of the workflow', () => {
+      expect(resolveNextStepIndex(steps, 3, {}, allVisible)).toBeNull();
+    });
+  });
+
+  describe('computeStepPath', () => {
+    it('should follow the personal branch', () => {
+      expect(computeStepPath(steps, { 'start.type': 'personal' }, allVisible)).toEqual([0, 1, 3]);
+    });
+
+    it('should follow the business branch', () => {
+      expect(computeStepPath(steps, { 'start.type': 'business' }, allVisible)).toEqual([0, 2, 3]);
+    });
+
+    it('should start on the first visible step', () => {
+      expect(computeStepPath(steps, {}, (index) => index !== 0)).toEqual([1, 3]);
+    });
+
+    it('should stop on cycles', () => {
+      const cyclicSteps = [createStep('a'), createStep('b', { next: [{ goTo: 'a' }] })];
+
+      expect(computeStepPath(cyclicSteps, {}, allVisible)).toEqual([0, 1]);
+    });
+  });
+
+  describe('buildStepGraph', () => {
+    it('should include transition targets and the declaration-order fallback', () => {
+      expect(buildStepGraph(steps)).toEqual([[2, 1], [3], [3], []]);
+    });
+
+    it('should reach past steps with a visibility condition', () => {
+      const conditionalSteps = [
+        createStep('a'),
+        createStep('b', { conditions: { visible: when('flag').equals(true).build() } }),
+        createStep('c'),
+      ];
+
+      expect(buildStepGraph(conditionalSteps)).toEqual([[1, 2], [2], []]);
+    });
+  });
+
+  describe('recordStepTransition', () => {
+    const empty = { stepIndexes: [], currentStepIndex: -1 };
+
+    it('should push the step left and go back along the path', () => {
+      const forward = recordStepTransition(recordStepTransition(empty, 0, 2, false), 2, 3, false);
+      expect(forward).toEqual({ stepIndexes: [0, 2], currentStepIndex: 3 });
+
+      expect(recordStepTransition(forward, 3, 2, true)).toEqual({
+        stepIndexes: [0],
+        currentStepIndex: 2,
+      });
+    });
+
+    it('should start a new history when it does not lead to the step left', () => {
+      const history = { stepIndexes: [0], currentStepIndex: 2 };
+
+      expect(recordStepTransition(history, 3, 4, false)).toEqual({
+        stepIndexes: [3],
+        currentStepIndex: 4,
+      });
+      expect(recordStepTransition(history, 2, 1, true)).toEqual({
+        stepIndexes: [],
+        currentStepIndex: 1,
+      });
+    });
+  });
+
+  describe('findPreviousStepOnPath', () => {
+    const history = { stepIndexes: [0, 1, 2], currentStepIndex: 3 };
+
+    it('should return the last visible step of the path', () => {
+      expect(findPreviousStepOnPath(history, 3, allVisible)).toBe(2);
+      expect(findPreviousStepOnPath(history, 3, (index) => index !== 2)).toBe(1);
+    });
+
+    it('should ignore a history leading to another step', () => {
+      expect(findPreviousStepOnPath(history, 1, allVisible)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import type { StepConfig, StepDataHelper, WorkflowConfig, WorkflowContext } from '@rilaykit/core';
+import { field, when } from '@rilaykit/core';
+import { describe, expect, it, vi } from 'vitest';
+import { spliceSubflowSteps } from '../../src/utils/subflow';
+
+const createStep = (id: string, overrides: Partial<StepConfig> = {}): StepConfig =>
+  ({
+    id,
+    title: id,
+    formConfig: { id: `${id}-form`, rows: [], allFields: [] },
+    ...overrides,
+  }) as unknown as StepConfig;
+
+const createSubflow = (steps: StepConfig[]): WorkflowConfig => ({
+  id: 'address',
+  name: 'Address',
+  steps,
+});
+
+describe('spliceSubflowSteps', () => {
+  it('should prefix step IDs and group them under the parent step', () => {
+    const steps = spliceSubflowSteps(
+      { id: 'billing', title: 'Billing address', description: 'Where we send invoices' },
+      createSubflow([createStep('street'), createStep('verification')])
+    );
+
+    expect(steps.map((step) => step.id)).toEqual(['billing.street', 'billing.verification']);
+    expect(steps[0].group).toEqual({
+      id: 'billing',
+      title: 'Billing address',
+      description: 'Where we send invoices',
+    });
+    expect(steps[1].group?.id).toBe('billing');
+  });
+
+  it('should scope conditions and transitions referencing sub-flow steps', () => {
+    const steps = spliceSubflowSteps(
+      { id: 'billing', title: 'Billing' },
+      createSubflow([
+        createStep('street', {
+          next: [{ when: when('street.country').equals('FR'), goTo: 'verification' }],
+        }),
+        createStep('manual', {
+          conditions: { visible: when('street.zip').notEquals(field('verification.zip')) },
+        }),
+        createStep('verification', {
+          conditions: {
+            visible: when('street.country').equals('FR').and(when('account.type').exists()),
+          },
+        }),
+      ])
+    );
+
+    expect(steps[0].next).toEqual([
+      {
+        when: expect.objectContaining({ field: 'billing.street.country', value: 'FR' }),
+        goTo: 'billing.verification',
+      },
+    ]);
+
+    const visible = steps[2].conditions?.visible;
+    expect(visible?.conditions?.[0].field).toBe('billing.street.country');
+    // References outside of the sub-flow are left untouched
+    expect(visible?.conditions?.[1].field).toBe('account.type');
+
+    // Field references used as values are scoped as well
+    expect(steps[1].conditions?.visible).toMatchObject({
+      field: 'billing.street.zip',
+      value: { field: 'billing.verification.zip' },
+    });
+  });
+
+  it('should apply parent visibility, skip and transitions', () => {
+    const parentVisible = when('customer.needsAddress').equals(true).build();
+
+    const steps = spliceSubflowSteps(
+      {
+        id: 'billing',
+        title: 'Billing',
+        allowSkip: true,
+        conditions: { visible: parentVisible },
+        next: [{ goTo: 'summary' }],
+      },
+      createSubflow([
+        createStep('street'),
+        createStep('verification', {
+          conditions: { visible: when('street.country').equals('FR').build() },
+        }),
+      ])
+    );
+
+    expect(steps[0].allowSkip).toBe(true);
+    expect(steps[0].conditions?.visible).toEqual(parentVisible);
+    expect(steps[0].next).toBeUndefined();
+
+    expect(steps[1].conditions?.visible).toEqual({
+      field: '',
+      operator: 'exists',
+      conditions: [parentVisible, expect.objectContaining({ field: 'billing.street.country' })],
+      logicalOperator: 'and',
+    });
+    expect(steps[1].next).toEqual([{ goTo: 'summary' }]);
+  });
+
+  it('should guard entering the first step and leaving the last one', () => {
+    const canEnter = () => true;
+    const canLeave = () => true;
+    const ownGuard = () => false;
+
+    const steps = spliceSubflowSteps(
+      { id: 'billing', title: 'Billing', canEnter, canLeave },
+      createSubflow([
+        createStep('street'),
+        createStep('city'),
+        createStep('verification', { canLeave: ownGuard }),
+      ])
+    );
+
+    expect(steps.map((step) => step.canEnter)).toEqual([canEnter, undefined, undefined]);
+    expect(steps.map((step) => step.canLeave)).toEqual([undefined, undefined, ownGuard]);
+  });
+
+  it('should apply parent transitions after the transitions of the last step', () => {
+    const steps = spliceSubflowSteps(
+      { id: 'billing', title: 'Billing', next: [{ goTo: 'summary' }] },
+      createSubflow([
+        createStep('street'),
+        createStep('verification', {
+          next: [{ when: when('verification.retry').equals(true).build(), goTo: 'street' }],
+        }),
+      ])
+    );
+
+    expect(steps[1].next).toEqual([
+      {
+        when: expect.objectContaining({ field: 'billing.verification.retry' }),
+        goTo: 'billing.street',
+      },
+      { goTo: 'summary' },
+    ]);
+  });
+
+  it('should resolve the step IDs given to onAfterValidation helpers to spliced IDs', async () => {
+    const steps = spliceSubflowSteps(
+      { id: 'billing', title: 'Billing' },
+      createSubflow([
+        createStep('street', {
+          onAfterValidation: (_data, helper) => {
+            helper.getStepData('verification');
+            helper.getStepData('customer');
+            helper.goToStep('verification');
+          },
+        }),
+        createStep('verification'),
+      ])
+    );
+
+    const helper = {
+      getStepData: vi.fn(() => ({})),
+      goToStep: vi.fn(),
+    } as unknown as StepDataHelper;
+    await steps[0].onAfterValidation?.({}, helper, {} as WorkflowContext);
+
+    expect(helper.getStepData).toHaveBeenNthCalledWith(1, 'billing.verification');
+    expect(helper.getStepData).toHaveBeenNthCalledWith(2, 'customer');
+    expect(helper.goToStep).toHaveBeenCalledWith('billing.verification');
+  });
+});